@@ -0,0 +1,40 @@
+-- Revision rounds: numbered PDF versions per book, with assignments,
+-- aggregate results and committee decisions tied to the round they belong to
+
+-- AlterTable
+ALTER TABLE "books" ADD COLUMN "current_round" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN "round_number" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "aggregate_results" ADD COLUMN "round_number" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "committee_decisions" ADD COLUMN "round_number" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "book_versions" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "round_number" INTEGER NOT NULL,
+    "pdf_path" TEXT NOT NULL,
+    "uploaded_by" TEXT NOT NULL,
+    "uploaded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+
+    CONSTRAINT "book_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "book_versions_book_id_round_number_key" ON "book_versions"("book_id", "round_number");
+
+-- AddForeignKey
+ALTER TABLE "book_versions" ADD CONSTRAINT "book_versions_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "book_versions" ADD CONSTRAINT "book_versions_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: every existing book's current PDF becomes version 1
+INSERT INTO "book_versions" ("id", "book_id", "round_number", "pdf_path", "uploaded_by", "uploaded_at")
+SELECT gen_random_uuid()::text, "id", 1, "pdf_path", "uploaded_by", "uploaded_at" FROM "books";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "background_jobs" ADD COLUMN "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "ocr_index_book_id_page_number_idx" ON "ocr_index"("book_id", "page_number");
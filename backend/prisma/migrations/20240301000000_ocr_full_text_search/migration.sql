@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "ocr_index" ADD COLUMN "search_config" TEXT NOT NULL DEFAULT 'english';
+
+-- Pages written mostly in Devanagari (Hindi, Sanskrit) or Arabic script
+UPDATE "ocr_index" SET "search_config" = 'simple' WHERE "content" ~ '[ऀ-ॿ]';
+UPDATE "ocr_index" SET "search_config" = 'arabic' WHERE "search_config" = 'english' AND "content" ~ '[؀-ۿ]';
+
+-- AlterTable
+ALTER TABLE "ocr_index" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  to_tsvector(
+    CASE "search_config"
+      WHEN 'english' THEN 'english'::regconfig
+      WHEN 'arabic' THEN 'arabic'::regconfig
+      ELSE 'simple'::regconfig
+    END,
+    "content"
+  )
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "ocr_index_search_vector_idx" ON "ocr_index" USING GIN ("search_vector");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "is_active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "deactivated_at" TIMESTAMP(3),
+ADD COLUMN "password_changed_at" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prev_hash" TEXT,
+ADD COLUMN     "sequence" INTEGER;
+
+-- Number existing entries in write order; they stay unhashed as the legacy prefix of the chain
+UPDATE "audit_logs" AS a
+SET "sequence" = ordered.rn
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (ORDER BY "timestamp", "id") AS rn
+    FROM "audit_logs"
+) AS ordered
+WHERE a."id" = ordered."id";
+
+ALTER TABLE "audit_logs" ALTER COLUMN "sequence" SET NOT NULL;
+
+-- Remember where the legacy prefix ends so later unhashed entries are reported as tampering
+INSERT INTO "system_settings" ("key", "value", "updated_at")
+SELECT 'audit_chain_legacy_sequence', to_jsonb(COALESCE(MAX("sequence"), 0)), CURRENT_TIMESTAMP
+FROM "audit_logs";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_sequence_key" ON "audit_logs"("sequence");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "criterion_weights" JSONB;
+
+-- Submitted reviews predate the snapshot; record the weights as they are now
+UPDATE "reviews"
+SET "criterion_weights" = (SELECT COALESCE(jsonb_object_agg("code", "weight"), '{}'::jsonb) FROM "criteria")
+WHERE "draft_flag" = false;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "phone" TEXT,
+ADD COLUMN     "phone_verified_at" TIMESTAMP(3),
+ADD COLUMN     "whatsapp_number" TEXT,
+ADD COLUMN     "whatsapp_verified_at" TIMESTAMP(3),
+ADD COLUMN     "preferred_language" TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+ADD COLUMN     "quiet_hours_start" TEXT,
+ADD COLUMN     "quiet_hours_end" TEXT;
+
+-- AlterTable
+ALTER TABLE "reminders" ALTER COLUMN "channel" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "user_id" TEXT NOT NULL,
+    "event" "ReminderType" NOT NULL,
+    "email" BOOLEAN NOT NULL DEFAULT true,
+    "sms" BOOLEAN NOT NULL DEFAULT false,
+    "whatsapp" BOOLEAN NOT NULL DEFAULT false,
+    "in_app" BOOLEAN NOT NULL DEFAULT true,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id","event")
+);
+
+-- CreateTable
+CREATE TABLE "contact_verifications" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "channel" "ReminderChannel" NOT NULL,
+    "destination" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_verifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_verifications_user_id_channel_idx" ON "contact_verifications"("user_id", "channel");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_verifications" ADD CONSTRAINT "contact_verifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "notification_templates" (
+    "event" TEXT NOT NULL,
+    "channel" "ReminderChannel" NOT NULL,
+    "language" TEXT NOT NULL,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "updated_by" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_templates_pkey" PRIMARY KEY ("event","channel","language")
+);
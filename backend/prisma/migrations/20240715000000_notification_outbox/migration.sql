@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "reminders" ADD COLUMN "delivery_receipts" JSONB,
+ADD COLUMN "error_message" TEXT;
+
+-- CreateTable
+CREATE TABLE "outbox_messages" (
+    "id" TEXT NOT NULL,
+    "channel" "ReminderChannel" NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT,
+    "text" TEXT NOT NULL,
+    "html" TEXT,
+    "event" TEXT,
+    "reminder_id" TEXT,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_channel_created_at_idx" ON "outbox_messages"("channel", "created_at");
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "background_jobs_status_scheduled_at_idx" ON "background_jobs"("status", "scheduled_at");
+
+-- CreateIndex
+CREATE INDEX "background_jobs_type_created_at_idx" ON "background_jobs"("type", "created_at");
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "ConflictFlagSource" AS ENUM ('RULE', 'AI');
+
+-- AlterTable
+ALTER TABLE "conflict_flags" ADD COLUMN     "analysis" TEXT,
+ADD COLUMN     "round_number" INTEGER,
+ADD COLUMN     "rule" TEXT,
+ADD COLUMN     "source" "ConflictFlagSource" NOT NULL DEFAULT 'AI';
+
+-- CreateIndex
+CREATE INDEX "conflict_flags_book_id_resolved_idx" ON "conflict_flags"("book_id", "resolved");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ReviewRecommendation" AS ENUM ('APPROVE', 'REVISIONS_REQUESTED', 'REJECT');
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "page_references" JSONB,
+ADD COLUMN     "recommendation" "ReviewRecommendation",
+ADD COLUMN     "required_changes" JSONB,
+ADD COLUMN     "summary" TEXT;
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "AssignmentStatus" ADD VALUE 'RECUSED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'COI_DECLARED';
+
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "recused_at" TIMESTAMP(3),
+ADD COLUMN     "replaces_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignments_replaces_id_key" ON "assignments"("replaces_id");
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_replaces_id_fkey" FOREIGN KEY ("replaces_id") REFERENCES "assignments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
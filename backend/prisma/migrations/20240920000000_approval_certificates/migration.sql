@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "approval_certificates" (
+    "id" TEXT NOT NULL,
+    "serial_number" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "decision_id" TEXT NOT NULL,
+    "book_title" TEXT NOT NULL,
+    "book_authors" TEXT NOT NULL,
+    "book_edition" TEXT NOT NULL,
+    "round_number" INTEGER NOT NULL,
+    "decided_at" TIMESTAMP(3) NOT NULL,
+    "decided_by_name" TEXT NOT NULL,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "signature" TEXT NOT NULL,
+    "key_fingerprint" TEXT NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "revocation_reason" TEXT,
+
+    CONSTRAINT "approval_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_certificates_serial_number_key" ON "approval_certificates"("serial_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_certificates_decision_id_key" ON "approval_certificates"("decision_id");
+
+-- AddForeignKey
+ALTER TABLE "approval_certificates" ADD CONSTRAINT "approval_certificates_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_certificates" ADD CONSTRAINT "approval_certificates_decision_id_fkey" FOREIGN KEY ("decision_id") REFERENCES "committee_decisions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
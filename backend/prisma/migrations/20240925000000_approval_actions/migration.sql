@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ApprovalActionType" AS ENUM ('SUSPEND', 'REVOKE', 'REINSTATE');
+
+-- AlterEnum
+ALTER TYPE "BookStatus" ADD VALUE 'SUSPENDED';
+ALTER TYPE "BookStatus" ADD VALUE 'REVOKED';
+
+-- AlterTable
+ALTER TABLE "approval_certificates" ADD COLUMN     "suspended_at" TIMESTAMP(3),
+ADD COLUMN     "suspension_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "approval_actions" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "action" "ApprovalActionType" NOT NULL,
+    "rationale" TEXT NOT NULL,
+    "acted_by" TEXT NOT NULL,
+    "acted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_actions_book_id_acted_at_idx" ON "approval_actions"("book_id", "acted_at");
+
+-- AddForeignKey
+ALTER TABLE "approval_actions" ADD CONSTRAINT "approval_actions_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_actions" ADD CONSTRAINT "approval_actions_acted_by_fkey" FOREIGN KEY ("acted_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "DecisionSessionStatus" AS ENUM ('OPEN', 'DECIDED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "VoteChoice" AS ENUM ('APPROVED', 'REJECTED', 'NEEDS_REVISION', 'ABSTAIN', 'RECUSE');
+
+-- CreateTable
+CREATE TABLE "decision_sessions" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "round_number" INTEGER NOT NULL,
+    "status" "DecisionSessionStatus" NOT NULL DEFAULT 'OPEN',
+    "member_ids" TEXT[],
+    "rules" JSONB NOT NULL,
+    "opened_by" TEXT NOT NULL,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+    "decision_id" TEXT,
+
+    CONSTRAINT "decision_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "decision_votes" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "voter_id" TEXT NOT NULL,
+    "vote" "VoteChoice" NOT NULL,
+    "rationale" TEXT NOT NULL,
+    "cast_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "decision_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "decision_sessions_decision_id_key" ON "decision_sessions"("decision_id");
+
+-- CreateIndex
+CREATE INDEX "decision_sessions_book_id_status_idx" ON "decision_sessions"("book_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "decision_votes_session_id_voter_id_key" ON "decision_votes"("session_id", "voter_id");
+
+-- AddForeignKey
+ALTER TABLE "decision_sessions" ADD CONSTRAINT "decision_sessions_book_id_fkey" FOREIGN KEY ("book_id") REFERENCES "books"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_sessions" ADD CONSTRAINT "decision_sessions_opened_by_fkey" FOREIGN KEY ("opened_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_sessions" ADD CONSTRAINT "decision_sessions_decision_id_fkey" FOREIGN KEY ("decision_id") REFERENCES "committee_decisions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_votes" ADD CONSTRAINT "decision_votes_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "decision_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_votes" ADD CONSTRAINT "decision_votes_voter_id_fkey" FOREIGN KEY ("voter_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "certificate_signing_keys" (
+    "fingerprint" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "certificate_signing_keys_pkey" PRIMARY KEY ("fingerprint")
+);
@@ -0,0 +1,2 @@
+-- At most one open decision session per book, so concurrent openings cannot split the vote
+CREATE UNIQUE INDEX "decision_sessions_open_book_key" ON "decision_sessions"("book_id") WHERE "status" = 'OPEN';
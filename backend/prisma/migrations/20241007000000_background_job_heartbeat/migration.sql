@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "background_jobs" ADD COLUMN "heartbeat_at" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ApprovalActionType" ADD VALUE 'REOPEN';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "two_factor_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "two_factor_window_at" TIMESTAMP(3);
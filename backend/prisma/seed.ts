@@ -8,6 +8,9 @@ const { PrismaClient, UserRole, BookStatus, AssignmentStatus } = require('../nod
 // Resolve bcrypt from backend's node_modules
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const bcrypt = require('../node_modules/bcrypt');
+// Audit entries are hash-chained; reuse the server's hashing
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { computeAuditHash, normalizeDetails } = require('../src/services/auditChain');
 
 const prisma = new PrismaClient();
 
@@ -18,8 +21,16 @@ async function main() {
   await prisma.aggregateResult.deleteMany();
   await prisma.review.deleteMany();
   await prisma.assignment.deleteMany();
+  await prisma.bookVersion.deleteMany();
   await prisma.book.deleteMany();
   await prisma.criterion.deleteMany();
+  await prisma.session.deleteMany();
+  await prisma.recoveryCode.deleteMany();
+  await prisma.notification.deleteMany();
+  await prisma.notificationPreference.deleteMany();
+  await prisma.contactVerification.deleteMany();
+  await prisma.notificationTemplate.deleteMany();
+  await prisma.outboxMessage.deleteMany();
   await prisma.user.deleteMany();
 
   console.log('Seeding database...');
@@ -152,6 +163,13 @@ async function main() {
       pdf_path: '/uploads/books/fundamentals_ayurvedic_medicine.pdf',
       uploaded_by: secretariatUser.id,
       status: BookStatus.PENDING_REVIEW,
+      versions: {
+        create: {
+          round_number: 1,
+          pdf_path: '/uploads/books/fundamentals_ayurvedic_medicine.pdf',
+          uploaded_by: secretariatUser.id,
+        },
+      },
     },
   });
 
@@ -180,17 +198,28 @@ async function main() {
 
   console.log('Created assignments');
 
-  // Create a sample audit log entry
-  await prisma.auditLog.create({
-    data: {
-      actor_id: secretariatUser.id,
-      action: 'BOOK_UPLOAD',
-      target_type: 'Book',
-      target_id: sampleBook.id,
-      details: JSON.stringify({
+  // Create a sample audit log entry as the first link of the hash chain
+  const sampleAudit = {
+    sequence: 1,
+    actor_id: secretariatUser.id,
+    action: 'BOOK_UPLOAD',
+    target_type: 'Book',
+    target_id: sampleBook.id,
+    timestamp: new Date(),
+    details: normalizeDetails(
+      JSON.stringify({
         book_title: sampleBook.title,
         timestamp: new Date().toISOString(),
-      }),
+      })
+    ),
+    prev_hash: null,
+  };
+
+  await prisma.auditLog.create({
+    data: {
+      ...sampleAudit,
+      details: sampleAudit.details as string,
+      hash: computeAuditHash(sampleAudit),
     },
   });
 
@@ -0,0 +1,70 @@
+import fs from 'fs'
+import {
+  ChainedAuditEntry,
+  findChainBreak,
+  publicKeyFingerprint,
+  verifyPayloadSignature,
+} from '../src/services/auditChain'
+
+// Verify a signed audit export without access to the server or database.
+//
+//   npx ts-node scripts/verifyAuditExport.ts audit-export.json [--public-key signing-key.pem]
+//
+// Pass the public key obtained from GET /api/audit/signing-key to make sure the
+// export was signed by this system and not re-signed with another key.
+
+function main() {
+  const [file, ...rest] = process.argv.slice(2)
+  if (!file) {
+    console.error('Usage: verifyAuditExport.ts <export.json> [--public-key <key.pem>]')
+    process.exit(2)
+  }
+
+  const keyIndex = rest.indexOf('--public-key')
+  const pinnedKey = keyIndex >= 0 ? fs.readFileSync(rest[keyIndex + 1], 'utf8') : null
+
+  const { signature, ...payload } = JSON.parse(fs.readFileSync(file, 'utf8'))
+  let ok = true
+
+  if (pinnedKey) {
+    if (publicKeyFingerprint(pinnedKey) !== publicKeyFingerprint(payload.public_key)) {
+      console.error('FAIL  export was signed with a different key than the one provided')
+      process.exit(1)
+    }
+    console.log(`OK    signing key matches ${publicKeyFingerprint(pinnedKey)}`)
+  } else {
+    console.warn(`WARN  trusting the key embedded in the export (${payload.key_fingerprint}); pass --public-key to pin it`)
+  }
+
+  if (verifyPayloadSignature(payload, signature, payload.public_key)) {
+    console.log('OK    signature is valid')
+  } else {
+    console.error('FAIL  signature does not match the export content')
+    ok = false
+  }
+
+  const entries: ChainedAuditEntry[] = payload.entries
+  if (entries.length !== payload.entry_count) {
+    console.error(`FAIL  expected ${payload.entry_count} entries, found ${entries.length}`)
+    ok = false
+  }
+
+  // Entries written before chaining have no hash and can only lead the log
+  let start = 0
+  if (!payload.anchor?.hash) {
+    while (start < entries.length && !entries[start].hash) start++
+  }
+
+  const chainBreak = findChainBreak(entries.slice(start), start > 0 ? null : payload.anchor)
+  if (chainBreak) {
+    console.error(`FAIL  chain broken at sequence ${chainBreak.sequence} (${chainBreak.reason}, entry ${chainBreak.id})`)
+    ok = false
+  } else {
+    console.log(`OK    ${entries.length - start} chained entries verified${start ? `, ${start} legacy entries skipped` : ''}`)
+  }
+
+  console.log(`      range ${payload.range.from} to ${payload.range.to}, exported ${payload.exported_at}`)
+  process.exit(ok ? 0 : 1)
+}
+
+main()
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { Review } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
 import {
@@ -7,6 +8,21 @@ import {
   generateActionSuggestions,
   detectLanguage,
 } from '../services/gemini.service';
+import { notifyConflictsFlagged, runConflictRules } from '../services/conflictDetection.service';
+import { PageReference, RequiredChange } from '../services/reviewForm';
+
+// A submitted review in the shape the Gemini prompts expect
+const toReviewData = (review: Review & { reviewer: { id: string; name: string } }) => ({
+  reviewerId: review.reviewer.id,
+  reviewerName: review.reviewer.name,
+  scores: review.scores as Record<string, number>,
+  comments: review.comments as Record<string, string>,
+  submittedAt: review.submitted_at,
+  recommendation: review.recommendation,
+  summary: review.summary,
+  requiredChanges: (review.required_changes ?? []) as unknown as RequiredChange[],
+  pageReferences: (review.page_references ?? []) as unknown as PageReference[],
+});
 
 /**
  * Generate AI summary for a book's reviews
@@ -74,13 +90,7 @@ export const generateSummary = async (
     }
 
     // Prepare review data
-    const reviewData = reviews.map((review) => ({
-      reviewerId: review.reviewer.id,
-      reviewerName: review.reviewer.name,
-      scores: review.scores as Record<string, number>,
-      comments: review.comments as Record<string, string>,
-      submittedAt: review.submitted_at,
-    }));
+    const reviewData = reviews.map(toReviewData);
 
     // Detect language if not provided
     let detectedLanguage = language as string | undefined;
@@ -125,7 +135,8 @@ export const generateSummary = async (
 };
 
 /**
- * Detect conflicts in reviews
+ * Detect conflicts in reviews. The configured rules run first; AI analysis
+ * then adds commentary to the rule flags and raises anything they missed.
  */
 export const detectReviewConflicts = async (
   req: Request,
@@ -184,8 +195,9 @@ export const detectReviewConflicts = async (
     // Get criteria
     const criteria = await prisma.criterion.findMany();
 
-    // Collect reviews
+    // Collect the current round's reviews
     const reviews = book.assignments
+      .filter((assignment) => assignment.round_number === book.current_round)
       .flatMap((assignment) => assignment.reviews)
       .filter((review) => !review.draft_flag);
 
@@ -199,38 +211,70 @@ export const detectReviewConflicts = async (
       });
     }
 
+    const ruleFlags = await runConflictRules(bookId, book.current_round);
+
     // Prepare review data
-    const reviewData = reviews.map((review) => ({
-      reviewerId: review.reviewer.id,
-      reviewerName: review.reviewer.name,
-      scores: review.scores as Record<string, number>,
-      comments: review.comments as Record<string, string>,
-      submittedAt: review.submitted_at,
-    }));
-
-    // Detect conflicts
-    const conflictResult = await detectConflicts(
-      bookId,
-      reviewData,
-      criteria.map((c) => ({ code: c.code, label: c.label }))
-    );
+    const reviewData = reviews.map(toReviewData);
 
-    // Save conflicts to database
-    const savedConflicts = await Promise.all(
-      conflictResult.conflicts.map((conflict) =>
-        prisma.conflictFlag.create({
-          data: {
-            book_id: bookId,
-            criterion_code: conflict.criterionCode || null,
-            conflict_type: conflict.type,
-            severity: conflict.severity,
-            description: conflict.description,
-            reviewer_ids: conflict.reviewerIds,
-            score_variance: conflict.scoreVariance || null,
-          },
-        })
-      )
-    );
+    let aiFlagCount = 0;
+    try {
+      const conflictResult = await detectConflicts(
+        bookId,
+        reviewData,
+        criteria.map((c) => ({ code: c.code, label: c.label })),
+        ruleFlags.map((flag) => ({
+          type: flag.conflict_type,
+          criterionCode: flag.criterion_code,
+          description: flag.description,
+        }))
+      );
+
+      // This round's AI flags from an earlier run are superseded once the new analysis is in
+      await prisma.conflictFlag.deleteMany({
+        where: { book_id: bookId, source: 'AI', round_number: book.current_round, resolved: false },
+      });
+
+      for (const conflict of conflictResult.conflicts) {
+        // Commentary on something a rule already flagged goes onto that flag
+        const matching = ruleFlags.find(
+          (flag) =>
+            flag.conflict_type === conflict.type &&
+            (flag.criterion_code ?? null) === (conflict.criterionCode || null)
+        );
+
+        if (matching) {
+          await prisma.conflictFlag.update({
+            where: { id: matching.id },
+            data: { analysis: conflict.description },
+          });
+        } else {
+          await prisma.conflictFlag.create({
+            data: {
+              book_id: bookId,
+              source: 'AI',
+              round_number: book.current_round,
+              criterion_code: conflict.criterionCode || null,
+              conflict_type: conflict.type,
+              severity: conflict.severity,
+              description: conflict.description,
+              reviewer_ids: conflict.reviewerIds,
+              score_variance: conflict.scoreVariance || null,
+            },
+          });
+          aiFlagCount++;
+        }
+      }
+    } catch (error) {
+      // The rule flags stand on their own when AI analysis is unavailable
+      console.error('AI conflict analysis failed:', error);
+    }
+
+    await notifyConflictsFlagged(book, ruleFlags.length + aiFlagCount, req.user?.id);
+
+    const savedConflicts = await prisma.conflictFlag.findMany({
+      where: { book_id: bookId, resolved: false },
+      orderBy: [{ severity: 'desc' }, { detected_at: 'desc' }],
+    });
 
     return res.status(201).json({
       status: 'success',
@@ -297,13 +341,7 @@ export const generateActions = async (
     }
 
     // Prepare review data
-    const reviewData = reviews.map((review) => ({
-      reviewerId: review.reviewer.id,
-      reviewerName: review.reviewer.name,
-      scores: review.scores as Record<string, number>,
-      comments: review.comments as Record<string, string>,
-      submittedAt: review.submitted_at,
-    }));
+    const reviewData = reviews.map(toReviewData);
 
     // Get or generate AI summary
     let aiSummary;
@@ -290,7 +290,7 @@ export const getAssignmentTracking = async (
       const daysUntilDue = Math.ceil(
         (assignment.due_date.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
       );
-      const isOverdue = daysUntilDue < 0 && assignment.status !== 'COMPLETED';
+      const isOverdue = daysUntilDue < 0 && !['COMPLETED', 'RECUSED'].includes(assignment.status);
       const hasCOI = assignment.coi_declarations.length > 0;
       const hasConflict = hasCOI && assignment.coi_declarations[0].has_conflict;
       const hasReview = assignment.reviews.length > 0;
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -80,17 +81,15 @@ export const createAnnotation = async (
     });
 
     // Log audit action
-    await prisma.auditLog.create({
-      data: {
-        actor_id: reviewer_id,
-        action: 'ANNOTATION_CREATED',
-        target_type: 'ANNOTATION',
-        target_id: annotation.id,
-        details: {
-          assignment_id,
-          page_number,
-          annotation_type,
-        },
+    await recordAuditLog({
+      actor_id: reviewer_id,
+      action: 'ANNOTATION_CREATED',
+      target_type: 'ANNOTATION',
+      target_id: annotation.id,
+      details: {
+        assignment_id,
+        page_number,
+        annotation_type,
       },
     });
 
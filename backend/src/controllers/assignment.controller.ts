@@ -1,7 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
+import { Assignment, Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import {
+  ESCALATION_STEP_KEYS,
+  EscalationStep,
+  getEscalationPolicy as loadEscalationPolicy,
+  runOverdueSweep as runSweep,
+  setEscalationPolicy,
+} from '../services/escalation.service';
+import { assignReplacement, suggestReplacementReviewers } from '../services/recusal.service';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -152,4 +162,218 @@ export const updateAssignment = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+// Current escalation ladder for overdue assignments
+export const getEscalationPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const policy = await loadEscalationPolicy();
+
+    return res.status(200).json({
+      status: 'success',
+      data: policy,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the escalation ladder; steps keep their order and offsets may not go backwards
+export const updateEscalationPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const submitted = req.body.steps as EscalationStep[];
+    const found = ESCALATION_STEP_KEYS.map((key) => submitted.find((step) => step.step === key));
+    if (found.some((step) => !step)) {
+      return next(new AppError(`Every step is required: ${ESCALATION_STEP_KEYS.join(', ')}`, 400));
+    }
+    const steps = found as EscalationStep[];
+    for (let i = 1; i < steps.length; i++) {
+      if (steps[i].offset_days < steps[i - 1].offset_days) {
+        return next(new AppError('Each step must come on or after the previous one', 400));
+      }
+    }
+
+    const actor_id = req.user!.id;
+    const previous = await loadEscalationPolicy();
+    const policy = await setEscalationPolicy(
+      {
+        steps: steps.map((step) => ({
+          step: step.step,
+          enabled: Boolean(step.enabled),
+          offset_days: Number(step.offset_days),
+        })),
+      },
+      actor_id
+    );
+
+    await recordAuditLog({
+      actor_id,
+      action: 'ESCALATION_POLICY_UPDATED',
+      target_type: 'SETTING',
+      target_id: 'assignment_escalation_policy',
+      details: {
+        old_steps: previous.steps,
+        new_steps: policy.steps,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: policy,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Run the overdue sweep and escalation ladder now instead of waiting for the schedule
+export const runOverdueSweep = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await runSweep();
+
+    return res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Reviewers who could take over a recused assignment, best fit first
+export const getReplacementSuggestions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id },
+    });
+
+    if (!assignment) {
+      return next(new AppError('Assignment not found', 404));
+    }
+
+    if (assignment.status !== 'RECUSED') {
+      return next(new AppError('Only recused assignments can be reassigned', 400));
+    }
+
+    const suggestions = await suggestReplacementReviewers(assignment.book_id);
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        assignment_id: assignment.id,
+        suggestions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Hand a recused assignment to a replacement reviewer
+export const reassignRecusedAssignment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { reviewer_id, due_date } = req.body;
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id },
+      include: {
+        book: true,
+        replacement: true,
+      },
+    });
+
+    if (!assignment) {
+      return next(new AppError('Assignment not found', 404));
+    }
+
+    if (assignment.status !== 'RECUSED') {
+      return next(new AppError('Only recused assignments can be reassigned', 400));
+    }
+
+    if (assignment.replacement) {
+      return next(new AppError('This assignment has already been reassigned', 409));
+    }
+
+    if (assignment.round_number !== assignment.book.current_round) {
+      return next(new AppError('This assignment belongs to a closed review round', 400));
+    }
+
+    // The same eligibility rules as the suggestions: no reviewer already on the
+    // book this round and none with a declared conflict on it
+    const suggestions = await suggestReplacementReviewers(assignment.book_id);
+    if (!suggestions.some((candidate) => candidate.reviewer.id === reviewer_id)) {
+      return next(new AppError('This reviewer is not eligible to replace the recused reviewer', 400));
+    }
+
+    let replacement: Assignment;
+    try {
+      replacement = await assignReplacement(
+        assignment,
+        reviewer_id,
+        req.user!.id,
+        due_date ? new Date(due_date) : assignment.due_date
+      );
+    } catch (error) {
+      // Someone else reassigned it at the same moment; replaces_id is unique
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return next(new AppError('This assignment has already been reassigned', 409));
+      }
+      throw error;
+    }
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'ASSIGNMENT_REASSIGNED',
+      target_type: 'ASSIGNMENT',
+      target_id: assignment.id,
+      details: {
+        book_id: assignment.book_id,
+        round_number: assignment.round_number,
+        recused_reviewer_id: assignment.reviewer_id,
+        replacement_id: replacement.id,
+        replacement_reviewer_id: reviewer_id,
+      },
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      data: {
+        assignment: replacement,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
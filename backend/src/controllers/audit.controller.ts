@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
 import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import {
+  exportAuditRange,
+  getAuditSigningPublicKey,
+  recordAuditLog,
+  verifyAuditChain,
+} from '../services/audit.service';
 
 // Get audit logs with pagination and filtering
 export const getAuditLogs = async (
@@ -71,4 +79,115 @@ export const getAuditLogs = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// Distinct action names and target types, for the audit page filters
+export const getAuditFacets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const [actions, targetTypes] = await Promise.all([
+      prisma.auditLog.groupBy({
+        by: ['action'],
+        _count: { _all: true },
+        orderBy: { action: 'asc' },
+      }),
+      prisma.auditLog.groupBy({
+        by: ['target_type'],
+        _count: { _all: true },
+        orderBy: { target_type: 'asc' },
+      }),
+    ]);
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        actions: actions.map((row) => ({ action: row.action, count: row._count._all })),
+        target_types: targetTypes.map((row) => ({ target_type: row.target_type, count: row._count._all })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Recompute the audit hash chain and report the first broken link
+export const verifyAuditLogChain = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await verifyAuditChain();
+
+    return res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Download a signed export of a date range that can be verified offline
+export const exportAuditLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const from = new Date(req.query.from_date as string);
+    const to = new Date(req.query.to_date as string);
+
+    if (from > to) {
+      return next(new AppError('from_date must be before to_date', 400));
+    }
+
+    const exported = await exportAuditRange(from, to, req.user!.id);
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'AUDIT_EXPORTED',
+      target_type: 'AUDIT_LOG',
+      target_id: 'export',
+      details: {
+        from: exported.range.from,
+        to: exported.range.to,
+        entry_count: exported.entry_count,
+        key_fingerprint: exported.key_fingerprint,
+      },
+    });
+
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="audit-export_${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}.json"`
+    );
+
+    return res.status(200).json(exported);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Public key that signs audit exports, for pinning by external verifiers
+export const getAuditSigningKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    return res.status(200).json({
+      status: 'success',
+      data: getAuditSigningPublicKey(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,74 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import {
+  createSession,
+  findSessionByRefreshToken,
+  listActiveSessions,
+  revokeSession,
+  rotateSession,
+} from '../services/session.service';
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  signChallengeToken,
+  startEnrollment,
+  verifyChallengeToken,
+  verifySecondFactor,
+} from '../services/twoFactor.service';
+
+interface LoginUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  institution: string | null;
+}
+
+// Record the login and hand out a fresh session for a fully authenticated user
+const completeLogin = async (req: Request, user: LoginUser) => {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { last_login: new Date() },
+  });
+
+  // Start a session: short-lived access token plus a rotating refresh token
+  const { token, refresh_token } = await createSession(user, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  });
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      institution: user.institution,
+    },
+    token,
+    refresh_token,
+  };
+};
+
+// Load the active user behind a second-step challenge token
+const resolveChallengeUser = async (challengeToken: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: verifyChallengeToken(challengeToken) },
+  });
+
+  if (!user || !user.is_active) {
+    throw new AppError('Your sign-in attempt has expired, please log in again', 401);
+  }
+
+  return user;
+};
 
 export const login = async (
   req: Request,
@@ -39,40 +104,448 @@ export const login = async (
       return next(new AppError('Invalid credentials', 401));
     }
 
-    // Update last login timestamp
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { last_login: new Date() },
+    if (!user.is_active) {
+      return next(new AppError('Your account has been deactivated', 403));
+    }
+
+    // With 2FA on, the password only earns a challenge for the second step
+    if (user.totp_enabled) {
+      return res.status(200).json({
+        status: 'success',
+        data: {
+          two_factor: 'verify',
+          challenge_token: signChallengeToken(user.id),
+        },
+      });
+    }
+
+    // Roles under the 2FA policy must enroll before their first session
+    if (await isTwoFactorRequired(user.role)) {
+      return res.status(200).json({
+        status: 'success',
+        data: {
+          two_factor: 'setup',
+          challenge_token: signChallengeToken(user.id),
+        },
+      });
+    }
+
+    // Return user info and token
+    return res.status(200).json({
+      status: 'success',
+      data: await completeLogin(req, user),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Second login step: a TOTP or recovery code completes the sign-in
+export const verifyLoginTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { challenge_token, otp } = req.body;
+    const user = await resolveChallengeUser(challenge_token);
+
+    // Attempts are capped per user inside verifySecondFactor
+    const method = await verifySecondFactor(user.id, otp);
+    if (!method) {
+      await recordAuditLog({
+        actor_id: user.id,
+        action: 'TWO_FACTOR_FAILED',
+        target_type: 'USER',
+        target_id: user.id,
+        details: {
+          ip_address: req.ip,
+        },
+      });
+      return next(new AppError('Invalid authentication code', 401));
+    }
+
+    if (method === 'recovery_code') {
+      await recordAuditLog({
+        actor_id: user.id,
+        action: 'TWO_FACTOR_RECOVERY_CODE_USED',
+        target_type: 'USER',
+        target_id: user.id,
+        details: {
+          ip_address: req.ip,
+          remaining: await prisma.recoveryCode.count({
+            where: { user_id: user.id, used_at: null },
+          }),
+        },
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      data: await completeLogin(req, user),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Enrollment during login for users whose role requires 2FA: provision a secret
+export const startLoginTwoFactorSetup = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await resolveChallengeUser(req.body.challenge_token);
+    const provisioning = await startEnrollment(user.id);
+
+    return res.status(200).json({
+      status: 'success',
+      data: provisioning,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Enrollment during login: confirm the first code, then sign the user in
+export const confirmLoginTwoFactorSetup = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { challenge_token, otp } = req.body;
+    const user = await resolveChallengeUser(challenge_token);
+
+    const recoveryCodes = await confirmEnrollment(user.id, otp);
+
+    await recordAuditLog({
+      actor_id: user.id,
+      action: 'TWO_FACTOR_ENABLED',
+      target_type: 'USER',
+      target_id: user.id,
+      details: {
+        during_login: true,
+      },
     });
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        role: user.role,
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        ...(await completeLogin(req, user)),
+        recovery_codes: recoveryCodes,
       },
-      process.env.JWT_SECRET || 'fallback-secret' as string,
-      {
-        expiresIn: process.env.JWT_EXPIRES_IN || '1d',
-      } as jwt.SignOptions
-    );
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Exchange a refresh token for a new access/refresh token pair
+export const refresh = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { token, refresh_token } = await rotateSession(req.body.refresh_token, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
 
-    // Return user info and token
     return res.status(200).json({
       status: 'success',
       data: {
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          role: user.role,
-          institution: user.institution,
-        },
         token,
+        refresh_token,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// End the session behind a refresh token
+export const logout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (refresh_token) {
+      const session = await findSessionByRefreshToken(refresh_token);
+      if (session && !session.revoked_at) {
+        await revokeSession(session.id, session.user_id);
+      }
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Logged out',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the signed-in user's active sessions
+export const getMySessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === req.user!.sid,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke one of the signed-in user's sessions
+export const revokeMySession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { sessionId } = req.params;
+    const user_id = req.user!.id;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.user_id !== user_id) {
+      return next(new AppError('Session not found', 404));
+    }
+
+    await revokeSession(session.id, user_id);
+
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'SESSION_REVOKED',
+      target_type: 'SESSION',
+      target_id: session.id,
+      details: {
+        user_id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// 2FA state of the signed-in user
+export const getMyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const status = await getTwoFactorStatus(req.user!.id, req.user!.role);
+
+    return res.status(200).json({
+      status: 'success',
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Provision a new TOTP secret for the signed-in user
+export const setupMyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const provisioning = await startEnrollment(req.user!.id);
+
+    return res.status(200).json({
+      status: 'success',
+      data: provisioning,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm the first code and turn 2FA on; the recovery codes are shown once
+export const enableMyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user_id = req.user!.id;
+    const recoveryCodes = await confirmEnrollment(user_id, req.body.otp);
+
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'TWO_FACTOR_ENABLED',
+      target_type: 'USER',
+      target_id: user_id,
+      details: {
+        during_login: false,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        recovery_codes: recoveryCodes,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Turn 2FA off; needs the password and a current code, and is refused when the role requires 2FA
+export const disableMyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { password, otp } = req.body;
+    const user_id = req.user!.id;
+
+    if (await isTwoFactorRequired(req.user!.role)) {
+      return next(new AppError('Two-factor authentication is required for your role', 400));
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: user_id },
+    });
+
+    if (!user || !user.totp_enabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 400));
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    if (!isPasswordValid || !(await verifySecondFactor(user_id, otp))) {
+      return next(new AppError('Invalid password or authentication code', 400));
+    }
+
+    await disableTwoFactor(user_id);
+
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'TWO_FACTOR_DISABLED',
+      target_type: 'USER',
+      target_id: user_id,
+      details: {
+        by_admin: false,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the recovery codes after checking a current code
+export const regenerateMyRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user_id = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: user_id },
+      select: { totp_enabled: true },
+    });
+
+    if (!user?.totp_enabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 400));
+    }
+
+    if (!(await verifySecondFactor(user_id, req.body.otp))) {
+      return next(new AppError('Invalid authentication code', 400));
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user_id);
+
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+      target_type: 'USER',
+      target_id: user_id,
+      details: {
+        count: recoveryCodes.length,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        recovery_codes: recoveryCodes,
       },
     });
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,152 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { JobStatus, JobType, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { cancelJob, retryJob } from '../services/jobRunner.service';
+
+// List background jobs, newest first, with counts per status
+export const getBackgroundJobs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { type, status } = req.query;
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? 20);
+
+    const where: Prisma.BackgroundJobWhereInput = {};
+    if (type) where.type = type as JobType;
+    if (status) where.status = status as JobStatus;
+
+    const [jobs, total, counts] = await Promise.all([
+      prisma.backgroundJob.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.backgroundJob.count({ where }),
+      prisma.backgroundJob.groupBy({
+        by: ['status'],
+        where: type ? { type: type as JobType } : {},
+        _count: { _all: true },
+      }),
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobs,
+        counts: Object.fromEntries(counts.map((count) => [count.status, count._count._all])),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// A single job with its payload, result and error
+export const getBackgroundJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const job = await prisma.backgroundJob.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!job) {
+      return next(new AppError('Job not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        job,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Run a failed or cancelled job again
+export const retryBackgroundJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const previous = await prisma.backgroundJob.findUnique({
+      where: { id: req.params.id },
+      select: { status: true, error_message: true, retry_count: true },
+    });
+
+    const job = await retryJob(req.params.id);
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'BACKGROUND_JOB_RETRIED',
+      target_type: 'BACKGROUND_JOB',
+      target_id: job.id,
+      details: {
+        type: job.type,
+        previous_status: previous?.status,
+        previous_error: previous?.error_message,
+        previous_retry_count: previous?.retry_count,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        job,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Stop a job that has not started yet
+export const cancelBackgroundJob = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const job = await cancelJob(req.params.id);
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'BACKGROUND_JOB_CANCELLED',
+      target_type: 'BACKGROUND_JOB',
+      target_id: job.id,
+      details: { type: job.type },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        job,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { recommendReviewers } from '../services/reviewerRecommendation.service';
+import { computeAggregateStats, CriterionWeights, snapshotWeights } from '../services/scoring.service';
+import { notifyRoles, notifyUsers } from '../services/notification.service';
+import {
+  APPROVAL_ACTION_LABELS,
+  ApprovalActionType,
+  approvalTransition,
+  certificateUpdateFor,
+} from '../services/approvalActions';
 import fs from 'fs';
 import path from 'path';
 
@@ -18,14 +29,18 @@ enum BookStatus {
   REVIEW_COMPLETED = "REVIEW_COMPLETED",
   APPROVED = "APPROVED",
   REJECTED = "REJECTED",
-  NEEDS_REVISION = "NEEDS_REVISION"
+  NEEDS_REVISION = "NEEDS_REVISION",
+  SUSPENDED = "SUSPENDED",
+  REVOKED = "REVOKED"
 }
 
-enum Decision {
-  APPROVED = "APPROVED",
-  REJECTED = "REJECTED",
-  NEEDS_REVISION = "NEEDS_REVISION"
-}
+// Statuses a reopened approval passes through until the committee decides again
+const REREVIEW_STATUSES = [
+  BookStatus.PENDING_REVIEW,
+  BookStatus.UNDER_REVIEW,
+  BookStatus.REVIEW_COMPLETED,
+  BookStatus.NEEDS_REVISION,
+];
 
 // Upload book metadata + PDF
 export const uploadBook = async (
@@ -59,6 +74,13 @@ export const uploadBook = async (
         pdf_path: pdfPath,
         uploaded_by: req.user!.id,
         status: BookStatus.PENDING_REVIEW,
+        versions: {
+          create: {
+            round_number: 1,
+            pdf_path: pdfPath,
+            uploaded_by: req.user!.id,
+          },
+        },
       },
     });
 
@@ -222,6 +244,24 @@ export const getBookById = async (
             },
           },
         },
+        versions: {
+          orderBy: {
+            round_number: 'asc',
+          },
+        },
+        approval_actions: {
+          include: {
+            actor: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            acted_at: 'asc',
+          },
+        },
       },
     });
 
@@ -258,13 +298,37 @@ export const getBookFile = async (
   next: NextFunction
 ) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
     const { id } = req.params;
+    const { round } = req.query;
     const book = await prisma.book.findUnique({ where: { id } });
     if (!book) {
       return next(new AppError('Book not found', 404));
     }
 
-    const filePath = path.resolve(book.pdf_path);
+    // Earlier rounds keep their own PDF; default to the current one
+    let pdfPath = book.pdf_path;
+    if (round) {
+      const version = await prisma.bookVersion.findUnique({
+        where: {
+          book_id_round_number: {
+            book_id: id,
+            round_number: Number(round),
+          },
+        },
+      });
+
+      if (!version) {
+        return next(new AppError('Book version not found', 404));
+      }
+      pdfPath = version.pdf_path;
+    }
+
+    const filePath = path.resolve(pdfPath);
     if (!fs.existsSync(filePath)) {
       return next(new AppError('File not found', 404));
     }
@@ -303,6 +367,11 @@ export const assignReviewers = async (
       return next(new AppError('Book not found', 404));
     }
 
+    // Earlier rounds' assignments stay as history; reviewers may be re-assigned
+    const currentAssignments = book.assignments.filter(
+      (a: any) => a.round_number === book.current_round
+    );
+
     // Check if book is in a valid state for assignment
     if (book.status !== BookStatus.PENDING_REVIEW) {
       return next(
@@ -317,6 +386,7 @@ export const assignReviewers = async (
           in: reviewer_ids,
         },
         role: UserRole.REVIEWER,
+        is_active: true,
       },
     });
 
@@ -328,7 +398,7 @@ export const assignReviewers = async (
     const assignments = [];
     for (const reviewerId of reviewer_ids) {
       // Check if reviewer is already assigned
-      const existingAssignment = book.assignments.find(
+      const existingAssignment = currentAssignments.find(
         (a: any) => a.reviewer_id === reviewerId
       );
 
@@ -340,6 +410,7 @@ export const assignReviewers = async (
             assigned_by: req.user!.id,
             due_date: new Date(due_date),
             status: 'PENDING',
+            round_number: book.current_round,
           },
         });
         assignments.push(assignment);
@@ -354,6 +425,19 @@ export const assignReviewers = async (
       },
     });
 
+    for (const assignment of assignments) {
+      await notifyUsers([assignment.reviewer_id], {
+        type: 'ASSIGNMENT_CREATED',
+        title: 'New review assignment',
+        message: `You have been asked to review "${book.title}" (round ${
+          assignment.round_number
+        }), due ${assignment.due_date.toDateString()}.`,
+        link: `/review/${assignment.id}`,
+        book_id: id,
+        assignment_id: assignment.id,
+      });
+    }
+
     return res.status(201).json({
       status: 'success',
       data: {
@@ -365,6 +449,36 @@ export const assignReviewers = async (
   }
 };
 
+// Rank reviewers for a book's next panel
+export const getReviewerRecommendations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const panelSize = req.query.panel_size ? Number(req.query.panel_size) : 3;
+
+    const result = await recommendReviewers(id, panelSize);
+
+    if (!result) {
+      return next(new AppError('Book not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Compute and return aggregated stats for a book
 export const getAggregateStats = async (
   req: Request,
@@ -390,8 +504,13 @@ export const getAggregateStats = async (
       return next(new AppError('Book not found', 404));
     }
 
+    // Only the current round's reviews count towards the aggregate
+    const roundAssignments = book.assignments.filter(
+      (assignment: any) => assignment.round_number === book.current_round
+    );
+
     // Check if all reviews are completed
-    const completedReviews = book.assignments.filter(
+    const completedReviews = roundAssignments.filter(
       (assignment: any) => assignment.status === 'COMPLETED'
     ).length;
 
@@ -400,54 +519,28 @@ export const getAggregateStats = async (
     }
 
     // Collect all reviews
-    const reviews = book.assignments
+    const reviews = roundAssignments
       .map((assignment: any) => assignment.reviews)
       .flat()
       .filter((review: any) => !review.draft_flag);
 
-    // Compute statistics for each criterion
-    const criteriaStats: Record<string, any> = {};
-    const allScores: Record<string, number[]> = {};
-
-    // Initialize with all criteria
-    reviews.forEach((review: any) => {
-      const scores = review.scores as Record<string, number>;
-      Object.keys(scores).forEach((criterionCode) => {
-        if (!allScores[criterionCode]) {
-          allScores[criterionCode] = [];
-        }
-        allScores[criterionCode].push(scores[criterionCode]);
-      });
-    });
-
-    // Calculate statistics for each criterion
-    Object.keys(allScores).forEach((criterionCode) => {
-      const scores = allScores[criterionCode];
-      const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
-      const median = scores.sort()[Math.floor(scores.length / 2)];
-      const variance =
-        scores.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / scores.length;
-
-      criteriaStats[criterionCode] = {
-        mean,
-        median,
-        variance,
-        min: Math.min(...scores),
-        max: Math.max(...scores),
-        count: scores.length,
-      };
-    });
-
-    // Generate summary text
-    const overallMean =
-      Object.values(criteriaStats).reduce(
-        (sum, stat: any) => sum + stat.mean,
-        0
-      ) / Object.keys(criteriaStats).length;
+    // Weighted with the criterion weights each review was submitted under
+    const criteria = await prisma.criterion.findMany();
+    const stats = computeAggregateStats(
+      reviews.map((review: any) => ({
+        id: review.id,
+        reviewer_id: review.reviewer_id,
+        scores: review.scores as Record<string, number>,
+        criterion_weights: review.criterion_weights as CriterionWeights | null,
+        recommendation: review.recommendation,
+        required_changes: Array.isArray(review.required_changes) ? review.required_changes.length : 0,
+      })),
+      snapshotWeights(criteria)
+    );
 
     // Identify strengths and weaknesses
-    const sortedCriteria = Object.entries(criteriaStats).sort(
-      (a, b) => (b[1] as any).mean - (a[1] as any).mean
+    const sortedCriteria = Object.entries(stats.criteria).sort(
+      (a, b) => b[1].mean - a[1].mean
     );
 
     const strengths = sortedCriteria.slice(0, 3).map(([code]) => code);
@@ -456,28 +549,24 @@ export const getAggregateStats = async (
       .reverse()
       .map(([code]) => code);
 
-    const summaryText = `Overall mean score: ${overallMean.toFixed(
+    const summaryText = `Weighted score: ${stats.totals.weighted_mean.toFixed(
+      2
+    )} (unweighted mean: ${stats.totals.unweighted_mean.toFixed(
       2
-    )}. Strengths in criteria: ${strengths.join(
+    )}). Strengths in criteria: ${strengths.join(
       ', '
-    )}. Areas for improvement: ${weaknesses.join(', ')}.`;
+    )}. Areas for improvement: ${weaknesses.join(', ')}. Recommendations: ${
+      stats.recommendations.APPROVE
+    } approve, ${stats.recommendations.REVISIONS_REQUESTED} revisions requested, ${
+      stats.recommendations.REJECT
+    } reject; ${stats.required_changes} required change(s) listed.`;
 
-    // Create or update aggregate result
-    const aggregateResult = await prisma.aggregateResult.upsert({
-      where: {
-        book_id_computed_at: {
-          book_id: id,
-          computed_at: new Date(),
-        },
-      },
-      update: {
-        stats: criteriaStats,
-        summary_text: summaryText,
-      },
-      create: {
+    const aggregateResult = await prisma.aggregateResult.create({
+      data: {
         book_id: id,
-        stats: criteriaStats,
+        stats: stats as unknown as Prisma.InputJsonValue,
         summary_text: summaryText,
+        round_number: book.current_round,
       },
     });
 
@@ -492,68 +581,298 @@ export const getAggregateStats = async (
   }
 };
 
-// Record committee decision for a book
-export const recordDecision = async (
+// Suspend, revoke, reinstate or reopen the approval of a published book
+export const changeApprovalStatus = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Check for validation errors
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
     const { id } = req.params;
-    const { decision, rationale } = req.body;
+    const action = req.body.action as ApprovalActionType;
+    const rationale = req.body.rationale.trim();
 
-    // Find book by ID
     const book = await prisma.book.findUnique({
       where: { id },
-      include: {
-        assignments: true,
-      },
     });
 
     if (!book) {
       return next(new AppError('Book not found', 404));
     }
 
-    // Check if book is in a valid state for decision
-    if (book.status !== BookStatus.REVIEW_COMPLETED) {
+    const newStatus = approvalTransition(action, book.status);
+    if (!newStatus) {
       return next(
-        new AppError('Book is not in a valid state for decision', 400)
+        new AppError(`An approval cannot be ${APPROVAL_ACTION_LABELS[action]} while the book is ${book.status}`, 400)
       );
     }
 
-    // Create committee decision
-    const committeeDecision = await prisma.committeeDecision.create({
-      data: {
-        book_id: id,
-        decided_by: req.user!.id,
-        decision: decision as Decision,
+    // Certificates follow the book, so verification reports the new standing
+    const actedAt = new Date();
+    const reopenedRound = action === 'REOPEN' ? book.current_round + 1 : null;
+    const { approvalAction, certificates } = await prisma.$transaction(async (tx) => {
+      const approvalAction = await tx.approvalAction.create({
+        data: {
+          book_id: id,
+          action,
+          rationale,
+          acted_by: req.user!.id,
+          acted_at: actedAt,
+        },
+      });
+
+      // Re-review runs as a new round on the approved PDF, assigned like a revision
+      if (reopenedRound) {
+        await tx.bookVersion.create({
+          data: {
+            book_id: id,
+            round_number: reopenedRound,
+            pdf_path: book.pdf_path,
+            uploaded_by: req.user!.id,
+            notes: rationale,
+          },
+        });
+      }
+
+      await tx.book.update({
+        where: { id },
+        data: reopenedRound ? { status: newStatus, current_round: reopenedRound } : { status: newStatus },
+      });
+
+      const certificates = await tx.approvalCertificate.updateMany({
+        where: action === 'REINSTATE' ? { book_id: id } : { book_id: id, revoked_at: null },
+        data: certificateUpdateFor(action, rationale, actedAt),
+      });
+
+      return { approvalAction, certificates };
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: `APPROVAL_${APPROVAL_ACTION_LABELS[action].toUpperCase()}`,
+      target_type: 'BOOK',
+      target_id: id,
+      details: {
+        previous_status: book.status,
+        new_status: newStatus,
+        ...(reopenedRound && { round_number: reopenedRound }),
         rationale,
+        certificates_updated: certificates.count,
       },
     });
 
-    // Update book status based on decision
-    await prisma.book.update({
-      where: { id },
+    await notifyRoles(
+      [UserRole.SECRETARIAT, UserRole.COMMITTEE],
+      {
+        type: 'COMMITTEE_DECISION',
+        title: `Approval ${APPROVAL_ACTION_LABELS[action]}`,
+        message: `The approval of "${book.title}" was ${APPROVAL_ACTION_LABELS[action]}: ${rationale}`,
+        link: `/books/${id}`,
+        book_id: id,
+      },
+      {
+        userIds: [book.uploaded_by],
+        exceptUserId: req.user!.id,
+      }
+    );
+
+    return res.status(201).json({
+      status: 'success',
       data: {
-        status:
-          decision === 'APPROVED'
-            ? BookStatus.APPROVED
-            : decision === 'REJECTED'
-            ? BookStatus.REJECTED
-            : BookStatus.NEEDS_REVISION,
+        approvalAction,
+        status: newStatus,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Upload a revised PDF for a book the committee sent back, opening a new round
+export const submitRevision = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!req.file) {
+      return next(new AppError('PDF file is required', 400));
+    }
+
+    const { id } = req.params;
+    const { notes } = req.body;
+
+    const book = await prisma.book.findUnique({
+      where: { id },
+    });
+
+    if (!book) {
+      return next(new AppError('Book not found', 404));
+    }
+
+    if (book.status !== BookStatus.NEEDS_REVISION) {
+      return next(
+        new AppError('Only books marked as needing revision can be resubmitted', 400)
+      );
+    }
+
+    const nextRound = book.current_round + 1;
+
+    const [version, updatedBook] = await prisma.$transaction([
+      prisma.bookVersion.create({
+        data: {
+          book_id: id,
+          round_number: nextRound,
+          pdf_path: req.file.path,
+          uploaded_by: req.user!.id,
+          notes: notes || null,
+        },
+      }),
+      prisma.book.update({
+        where: { id },
+        data: {
+          pdf_path: req.file.path,
+          current_round: nextRound,
+          status: BookStatus.PENDING_REVIEW,
+        },
+      }),
+    ]);
+
+    // Log audit action
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'BOOK_REVISION_SUBMITTED',
+      target_type: 'BOOK',
+      target_id: id,
+      details: {
+        round_number: nextRound,
+        previous_pdf_path: book.pdf_path,
+        notes: notes || null,
       },
     });
 
     return res.status(201).json({
       status: 'success',
       data: {
-        committeeDecision,
+        book: updatedBook,
+        version,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the round-by-round review history of a book
+export const getBookRounds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findUnique({
+      where: { id },
+      include: {
+        versions: {
+          include: {
+            uploader: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            round_number: 'asc',
+          },
+        },
+        assignments: {
+          include: {
+            reviewer: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            reviews: {
+              where: {
+                draft_flag: false,
+              },
+            },
+          },
+          orderBy: {
+            assigned_at: 'asc',
+          },
+        },
+        aggregate_results: {
+          orderBy: {
+            computed_at: 'desc',
+          },
+        },
+        committee_decisions: {
+          include: {
+            decider: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            decided_at: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!book) {
+      return next(new AppError('Book not found', 404));
+    }
+
+    if (req.user!.role === UserRole.REVIEWER) {
+      const isAssigned = book.assignments.some(
+        (assignment: any) => assignment.reviewer_id === req.user!.id
+      );
+
+      if (!isAssigned) {
+        return next(new AppError('You do not have access to this book', 403));
+      }
+    }
+
+    const rounds = book.versions.map((version: any) => ({
+      round_number: version.round_number,
+      is_current: version.round_number === book.current_round,
+      version,
+      assignments: book.assignments.filter(
+        (a: any) => a.round_number === version.round_number
+      ),
+      aggregate_result:
+        book.aggregate_results.find(
+          (r: any) => r.round_number === version.round_number
+        ) || null,
+      decisions: book.committee_decisions.filter(
+        (d: any) => d.round_number === version.round_number
+      ),
+    }));
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        current_round: book.current_round,
+        rounds,
       },
     });
   } catch (error) {
@@ -568,10 +887,18 @@ export const getPublicApprovedBooks = async (
   next: NextFunction
 ) => {
   try {
-    // Only return approved books with basic information
+    // Approved books with basic information; suspended and revoked approvals
+    // stay listed so readers see the notice, as do approvals reopened for a
+    // re-review that is still in progress
     const books = await prisma.book.findMany({
       where: {
-        status: BookStatus.APPROVED,
+        OR: [
+          { status: { in: [BookStatus.APPROVED, BookStatus.SUSPENDED, BookStatus.REVOKED] } },
+          {
+            status: { in: REREVIEW_STATUSES },
+            approval_actions: { some: { action: 'REOPEN' } },
+          },
+        ],
       },
       select: {
         id: true,
@@ -582,6 +909,21 @@ export const getPublicApprovedBooks = async (
         syllabus_version: true,
         uploaded_at: true,
         status: true,
+        approval_actions: {
+          // Readers are shown the suspension while it is re-reviewed
+          where: {
+            action: { not: 'REOPEN' },
+          },
+          select: {
+            action: true,
+            rationale: true,
+            acted_at: true,
+          },
+          orderBy: {
+            acted_at: 'desc',
+          },
+          take: 1,
+        },
       },
       orderBy: {
         uploaded_at: 'desc',
@@ -598,8 +940,15 @@ export const getPublicApprovedBooks = async (
       year: new Date(book.uploaded_at).getFullYear(),
       subject: book.syllabus_version,
       uploadDate: book.uploaded_at.toISOString(),
-      status: book.status,
+      status: (REREVIEW_STATUSES as string[]).includes(book.status) ? BookStatus.SUSPENDED : book.status,
       filePath: book.id, // Will be used to construct file URL
+      approvalNotice: book.approval_actions[0]
+        ? {
+            action: book.approval_actions[0].action,
+            rationale: book.approval_actions[0].rationale,
+            date: book.approval_actions[0].acted_at.toISOString(),
+          }
+        : null,
     }));
 
     return res.status(200).json({
@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { certificateStatus } from '../services/certificate';
+import {
+  certificateVerifyUrl,
+  isCertificateSignatureValid,
+  issueApprovalCertificate,
+  renderCertificatePdf,
+} from '../services/certificate.service';
+
+/**
+ * Latest certificate for a book. Books approved before certificates existed
+ * get theirs issued on first request.
+ */
+const findOrIssueCertificate = async (bookId: string, actorId: string) => {
+  const certificate = await prisma.approvalCertificate.findFirst({
+    where: { book_id: bookId },
+    orderBy: { issued_at: 'desc' },
+  });
+  if (certificate) {
+    return certificate;
+  }
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: {
+      committee_decisions: {
+        orderBy: { decided_at: 'desc' },
+        take: 1,
+      },
+    },
+  });
+  const decision = book?.committee_decisions[0];
+  if (!book || book.status !== 'APPROVED' || decision?.decision !== 'APPROVED') {
+    return null;
+  }
+
+  const issued = await issueApprovalCertificate(decision.id);
+  await recordAuditLog({
+    actor_id: actorId,
+    action: 'CERTIFICATE_ISSUED',
+    target_type: 'CERTIFICATE',
+    target_id: issued.id,
+    details: { serial_number: issued.serial_number, book_id: bookId, decision_id: decision.id },
+  });
+
+  return issued;
+};
+
+// Get the approval certificate for a book
+export const getBookCertificate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const certificate = await findOrIssueCertificate(req.params.bookId, req.user!.id);
+    if (!certificate) {
+      return next(new AppError('This book has no approval certificate', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        certificate: {
+          ...certificate,
+          status: certificateStatus(certificate),
+          verify_url: certificateVerifyUrl(certificate.serial_number),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Download the approval certificate for a book as a PDF
+export const downloadBookCertificate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const certificate = await findOrIssueCertificate(req.params.bookId, req.user!.id);
+    if (!certificate) {
+      return next(new AppError('This book has no approval certificate', 404));
+    }
+
+    const pdf = await renderCertificatePdf(certificate);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="approval_certificate_${certificate.serial_number}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Public check of a certificate by serial number (no auth required)
+export const verifyCertificate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const certificate = await prisma.approvalCertificate.findUnique({
+      where: { serial_number: req.params.serial.trim().toUpperCase() },
+      include: {
+        book: { select: { status: true } },
+      },
+    });
+
+    if (!certificate) {
+      return next(new AppError('No certificate exists with this serial number', 404));
+    }
+
+    const signatureValid = await isCertificateSignatureValid(certificate);
+    const status = certificateStatus(certificate);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        verification: {
+          serial_number: certificate.serial_number,
+          authentic: signatureValid,
+          status,
+          valid: signatureValid && status === 'VALID',
+          book: {
+            title: certificate.book_title,
+            authors: certificate.book_authors,
+            edition: certificate.book_edition,
+            current_status: certificate.book.status,
+          },
+          round_number: certificate.round_number,
+          decided_at: certificate.decided_at,
+          decided_by: certificate.decided_by_name,
+          issued_at: certificate.issued_at,
+          suspended_at: certificate.suspended_at,
+          suspension_reason: certificate.suspension_reason,
+          revoked_at: certificate.revoked_at,
+          revocation_reason: certificate.revocation_reason,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
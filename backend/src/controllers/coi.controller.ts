@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { notifyRecusal, suggestReplacementReviewers } from '../services/recusal.service';
 
 // Submit COI declaration
 export const submitCOIDeclaration = async (
@@ -26,6 +28,7 @@ export const submitCOIDeclaration = async (
       },
       include: {
         book: true,
+        reviewer: true,
       },
     });
 
@@ -33,42 +36,70 @@ export const submitCOIDeclaration = async (
       return next(new AppError('Assignment not found or access denied', 404));
     }
 
-    // Upsert COI declaration
-    const coiDeclaration = await prisma.conflictOfInterest.upsert({
-      where: {
-        assignment_id_reviewer_id: {
+    if (assignment.status === 'COMPLETED') {
+      return next(new AppError('The review for this assignment has already been submitted', 400));
+    }
+
+    // A recusal stands once declared; the assignment may already have been handed on
+    if (assignment.status === 'RECUSED' && !has_conflict) {
+      return next(
+        new AppError('A declared conflict of interest cannot be withdrawn; contact the Secretariat', 400)
+      );
+    }
+
+    const recuse = has_conflict && assignment.status !== 'RECUSED';
+
+    // Upsert COI declaration; a declared conflict locks the assignment in the same transaction
+    const coiDeclaration = await prisma.$transaction(async (tx) => {
+      const declaration = await tx.conflictOfInterest.upsert({
+        where: {
+          assignment_id_reviewer_id: {
+            assignment_id,
+            reviewer_id,
+          },
+        },
+        update: {
+          has_conflict: has_conflict,
+          conflict_details: conflict_details || null,
+          updated_at: new Date(),
+        },
+        create: {
           assignment_id,
           reviewer_id,
+          has_conflict,
+          conflict_details: conflict_details || null,
         },
-      },
-      update: {
-        has_conflict: has_conflict,
-        conflict_details: conflict_details || null,
-        updated_at: new Date(),
-      },
-      create: {
-        assignment_id,
-        reviewer_id,
-        has_conflict,
-        conflict_details: conflict_details || null,
-      },
+      });
+
+      if (recuse) {
+        await tx.assignment.update({
+          where: { id: assignment_id },
+          data: { status: 'RECUSED', recused_at: new Date() },
+        });
+      }
+
+      return declaration;
     });
 
     // Log audit action
-    await prisma.auditLog.create({
-      data: {
-        actor_id: reviewer_id,
-        action: 'COI_DECLARATION_SUBMITTED',
-        target_type: 'CONFLICT_OF_INTEREST',
-        target_id: coiDeclaration.id,
-        details: {
-          has_conflict,
-          assignment_id,
-          book_title: assignment.book.title,
-        },
+    await recordAuditLog({
+      actor_id: reviewer_id,
+      action: 'COI_DECLARATION_SUBMITTED',
+      target_type: 'CONFLICT_OF_INTEREST',
+      target_id: coiDeclaration.id,
+      details: {
+        has_conflict,
+        assignment_id,
+        book_title: assignment.book.title,
+        recused: recuse,
       },
     });
 
+    if (recuse) {
+      const suggestions = await suggestReplacementReviewers(assignment.book_id);
+      await notifyRecusal(assignment, suggestions);
+    }
+
     res.status(200).json({
       status: 'success',
       data: coiDeclaration,
@@ -125,7 +156,7 @@ export const getAllCOIDeclarations = async (
   next: NextFunction
 ) => {
   try {
-    const { page = 1, limit = 10, has_conflict } = req.query;
+    const { page = 1, limit = 10, has_conflict, awaiting_replacement } = req.query;
     const user_role = (req as any).user.role;
 
     if (!['ADMIN', 'SECRETARIAT'].includes(user_role)) {
@@ -136,6 +167,10 @@ export const getAllCOIDeclarations = async (
     if (has_conflict !== undefined) {
       whereClause.has_conflict = has_conflict === 'true';
     }
+    // Recusals the Secretariat has not yet reassigned
+    if (awaiting_replacement === 'true') {
+      whereClause.assignment = { status: 'RECUSED', replacement: { is: null } };
+    }
 
     const coiDeclarations = await prisma.conflictOfInterest.findMany({
       where: whereClause,
@@ -144,6 +179,11 @@ export const getAllCOIDeclarations = async (
           include: {
             book: true,
             reviewer: true,
+            replacement: {
+              include: {
+                reviewer: { select: { id: true, name: true, email: true } },
+              },
+            },
           },
         },
         reviewer: true,
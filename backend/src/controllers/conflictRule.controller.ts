@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { getConflictRules, setConflictRules } from '../services/conflictDetection.service';
+
+// Current conflict rule configuration
+export const getConflictRuleConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const config = await getConflictRules();
+
+    return res.status(200).json({
+      status: 'success',
+      data: config,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the conflict rule configuration; applies to the next rule run
+export const updateConflictRuleConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { opposing_recommendations, sentiment_mismatch } = req.body;
+    if (Number(opposing_recommendations.reject_max_score) >= Number(opposing_recommendations.approve_min_score)) {
+      return next(new AppError('The reject score must be below the approve score', 400));
+    }
+    if (Number(sentiment_mismatch.low_score_max) >= Number(sentiment_mismatch.high_score_min)) {
+      return next(new AppError('The low score must be below the high score', 400));
+    }
+
+    const actor_id = req.user!.id;
+    const previous = await getConflictRules();
+    const config = await setConflictRules(req.body, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'CONFLICT_RULES_UPDATED',
+      target_type: 'SETTING',
+      target_id: 'conflict_detection_rules',
+      details: {
+        old_rules: previous,
+        new_rules: config,
+      },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: config,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
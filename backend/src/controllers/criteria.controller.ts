@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
 
 // Get all criteria
 export const getCriteria = async (
@@ -64,17 +65,15 @@ export const createCriterion = async (
     });
 
     // Log audit action
-    await prisma.auditLog.create({
-      data: {
-        actor_id: user_id,
-        action: 'CRITERION_CREATED',
-        target_type: 'CRITERION',
-        target_id: criterion.id,
-        details: {
-          code,
-          label,
-          weight,
-        },
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'CRITERION_CREATED',
+      target_type: 'CRITERION',
+      target_id: criterion.id,
+      details: {
+        code,
+        label,
+        weight,
       },
     });
 
@@ -138,18 +137,16 @@ export const updateCriterion = async (
     });
 
     // Log audit action
-    await prisma.auditLog.create({
-      data: {
-        actor_id: user_id,
-        action: 'CRITERION_UPDATED',
-        target_type: 'CRITERION',
-        target_id: criterion.id,
-        details: {
-          old_code: existingCriterion.code,
-          new_code: code,
-          old_weight: existingCriterion.weight,
-          new_weight: weight,
-        },
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'CRITERION_UPDATED',
+      target_type: 'CRITERION',
+      target_id: criterion.id,
+      details: {
+        old_code: existingCriterion.code,
+        new_code: code,
+        old_weight: existingCriterion.weight,
+        new_weight: weight,
       },
     });
 
@@ -204,16 +201,14 @@ export const deleteCriterion = async (
     });
 
     // Log audit action
-    await prisma.auditLog.create({
-      data: {
-        actor_id: user_id,
-        action: 'CRITERION_DELETED',
-        target_type: 'CRITERION',
-        target_id: criterionId,
-        details: {
-          code: criterion.code,
-          label: criterion.label,
-        },
+    await recordAuditLog({
+      actor_id: user_id,
+      action: 'CRITERION_DELETED',
+      target_type: 'CRITERION',
+      target_id: criterionId,
+      details: {
+        code: criterion.code,
+        label: criterion.label,
       },
     });
 
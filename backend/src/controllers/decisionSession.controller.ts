@@ -0,0 +1,324 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { notifyRoles } from '../services/notification.service';
+import { MAJORITY_RULES, VoteChoice, normalizeVotingRules } from '../services/committeeVoting';
+import {
+  closeSessionIfDecided,
+  getVotingRules as loadVotingRules,
+  sessionInclude,
+  setVotingRules,
+  tallySession,
+} from '../services/decisionSession.service';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+type SessionWithVotes = Prisma.DecisionSessionGetPayload<{ include: typeof sessionInclude }>;
+
+// Session as returned to clients: the tally, the caller's own vote and whether they may vote
+const presentSession = (session: SessionWithVotes, userId: string) => ({
+  ...session,
+  rules: normalizeVotingRules(session.rules),
+  tally: tallySession(session),
+  my_vote: session.votes.find((vote) => vote.voter_id === userId) ?? null,
+  can_vote: session.status === 'OPEN' && session.member_ids.includes(userId),
+});
+
+// Get the committee voting rules
+export const getVotingRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rules = await loadVotingRules();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        rules,
+        majority_rules: MAJORITY_RULES,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update the quorum and majority rules used by sessions opened from now on (Admin)
+export const updateVotingRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const previous = await loadVotingRules();
+    const rules = await setVotingRules(
+      normalizeVotingRules({ ...previous, ...req.body }),
+      req.user!.id
+    );
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'VOTING_RULES_UPDATED',
+      target_type: 'SETTING',
+      target_id: 'committee_voting_rules',
+      details: { previous, rules },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        rules,
+        majority_rules: MAJORITY_RULES,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the latest decision session on the book's current round, with its live tally
+export const getDecisionSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findUnique({ where: { id } });
+    if (!book) {
+      return next(new AppError('Book not found', 404));
+    }
+
+    const session = await prisma.decisionSession.findFirst({
+      where: { book_id: id, round_number: book.current_round },
+      include: sessionInclude,
+      orderBy: { opened_at: 'desc' },
+    });
+
+    const memberIds = session?.member_ids ?? [];
+    const members = await prisma.user.findMany({
+      where: session ? { id: { in: memberIds } } : { role: UserRole.COMMITTEE, is_active: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        session: session ? presentSession(session, req.user!.id) : null,
+        members,
+        rules: session ? normalizeVotingRules(session.rules) : await loadVotingRules(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Open a decision session on a reviewed book; the current committee members become its voters
+export const openDecisionSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const book = await prisma.book.findUnique({ where: { id } });
+    if (!book) {
+      return next(new AppError('Book not found', 404));
+    }
+
+    if (book.status !== 'REVIEW_COMPLETED') {
+      return next(new AppError('Book is not in a valid state for decision', 400));
+    }
+
+    const existing = await prisma.decisionSession.findFirst({
+      where: { book_id: id, status: 'OPEN' },
+    });
+    if (existing) {
+      return next(new AppError('A decision session is already open for this book', 409));
+    }
+
+    const members = await prisma.user.findMany({
+      where: { role: UserRole.COMMITTEE, is_active: true },
+      select: { id: true },
+    });
+    if (members.length === 0) {
+      return next(new AppError('There are no active committee members to vote', 400));
+    }
+
+    const rules = await loadVotingRules();
+    let session: SessionWithVotes;
+    try {
+      session = await prisma.decisionSession.create({
+        data: {
+          book_id: id,
+          round_number: book.current_round,
+          member_ids: members.map((member) => member.id),
+          rules: rules as unknown as Prisma.InputJsonValue,
+          opened_by: req.user!.id,
+        },
+        include: sessionInclude,
+      });
+    } catch (error) {
+      // Another member opened one at the same moment; a partial unique index allows one OPEN session per book
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return next(new AppError('A decision session is already open for this book', 409));
+      }
+      throw error;
+    }
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'DECISION_SESSION_OPENED',
+      target_type: 'DECISION_SESSION',
+      target_id: session.id,
+      details: { book_id: id, round_number: book.current_round, members: session.member_ids.length, rules },
+    });
+
+    await notifyRoles(
+      [UserRole.COMMITTEE],
+      {
+        type: 'COMMITTEE_DECISION',
+        title: 'Committee vote opened',
+        message: `Voting has opened on "${book.title}" (round ${book.current_round}). Please cast your vote.`,
+        link: `/books/${id}`,
+        book_id: id,
+      },
+      { exceptUserId: req.user!.id }
+    );
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        session: presentSession(session, req.user!.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Cast or change a vote; the decision is recorded as soon as the rules are satisfied
+export const castVote = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const vote = req.body.vote as VoteChoice;
+    const rationale = req.body.rationale.trim();
+
+    const session = await prisma.decisionSession.findFirst({
+      where: { book_id: id, status: 'OPEN' },
+      include: { book: true },
+    });
+    if (!session) {
+      return next(new AppError('There is no open decision session for this book', 404));
+    }
+
+    if (!session.member_ids.includes(req.user!.id)) {
+      return next(new AppError('You are not a voting member of this decision session', 403));
+    }
+
+    if (session.book.status !== 'REVIEW_COMPLETED' || session.book.current_round !== session.round_number) {
+      return next(new AppError('Book is not in a valid state for decision', 400));
+    }
+
+    const previous = await prisma.decisionVote.findUnique({
+      where: { session_id_voter_id: { session_id: session.id, voter_id: req.user!.id } },
+    });
+
+    await prisma.decisionVote.upsert({
+      where: { session_id_voter_id: { session_id: session.id, voter_id: req.user!.id } },
+      create: { session_id: session.id, voter_id: req.user!.id, vote, rationale },
+      update: { vote, rationale },
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: previous ? 'DECISION_VOTE_CHANGED' : 'DECISION_VOTE_CAST',
+      target_type: 'DECISION_SESSION',
+      target_id: session.id,
+      details: { book_id: id, vote, previous_vote: previous?.vote ?? null },
+    });
+
+    const result = await closeSessionIfDecided(session.id, req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        session: presentSession(result.session, req.user!.id),
+        committeeDecision: result.decision?.committeeDecision ?? null,
+        certificate: result.decision?.certificate ?? null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Cancel an open session without a decision, e.g. when it cannot reach a majority (Admin)
+export const cancelDecisionSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.decisionSession.findFirst({
+      where: { book_id: id, status: 'OPEN' },
+      include: sessionInclude,
+    });
+    if (!session) {
+      return next(new AppError('There is no open decision session for this book', 404));
+    }
+
+    const cancelled = await prisma.decisionSession.update({
+      where: { id: session.id },
+      data: { status: 'CANCELLED', closed_at: new Date() },
+      include: sessionInclude,
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'DECISION_SESSION_CANCELLED',
+      target_type: 'DECISION_SESSION',
+      target_id: session.id,
+      details: { book_id: id, tally: tallySession(session) },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        session: presentSession(cancelled, req.user!.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
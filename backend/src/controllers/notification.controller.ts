@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import {
+  countUnreadNotifications,
+  subscribeToNotifications,
+} from '../services/notification.service';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Streams are closed periodically so clients reconnect with a current access token
+const STREAM_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Get the current user's notifications, newest first
+export const getMyNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const unreadOnly = req.query.unread === 'true';
+
+    const where = {
+      user_id: req.user!.id,
+      ...(unreadOnly ? { read_at: null } : {}),
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.notification.count({ where }),
+      countUnreadNotifications(req.user!.id),
+    ]);
+
+    return res.status(200).json({
+      status: 'success',
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+      data: {
+        notifications,
+        unread_count: unreadCount,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Server-sent event stream of new notifications for the current user
+export const streamNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user!.id;
+    // Before the headers go out, so a failure still reaches the error handler
+    const unreadCount = await countUnreadNotifications(userId);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('unread_count', { unread_count: unreadCount });
+
+    const unsubscribe = subscribeToNotifications(userId, (notification) => {
+      send('notification', notification);
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const expiry = setTimeout(() => {
+      res.end();
+    }, STREAM_MAX_AGE_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+      unsubscribe();
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark one notification as read
+export const markNotificationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { notificationId } = req.params;
+
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId },
+    });
+
+    if (!notification || notification.user_id !== req.user!.id) {
+      return next(new AppError('Notification not found', 404));
+    }
+
+    const updated = notification.read_at
+      ? notification
+      : await prisma.notification.update({
+          where: { id: notificationId },
+          data: { read_at: new Date() },
+        });
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        notification: updated,
+        unread_count: await countUnreadNotifications(req.user!.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark several notifications as read, or all of them when no IDs are given
+export const markNotificationsRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { ids } = req.body as { ids?: string[] };
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        user_id: req.user!.id,
+        read_at: null,
+        ...(ids ? { id: { in: ids } } : {}),
+      },
+      data: { read_at: new Date() },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        updated: result.count,
+        unread_count: await countUnreadNotifications(req.user!.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,182 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ReminderChannel } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import {
+  TEMPLATE_EVENTS,
+  TemplateEvent,
+  TemplateLanguage,
+  defaultTemplate,
+  getTemplate,
+  isTemplateEvent,
+  listTemplates,
+  renderTemplate,
+  templateVariables,
+} from '../services/notificationTemplate.service';
+
+// Resolve and check the event/channel/language in the URL or body
+const resolveKey = (source: { event?: string; channel?: string; language?: string }) => {
+  const { event, channel, language } = source;
+  if (!event || !isTemplateEvent(event)) {
+    throw new AppError('Unknown template event', 404);
+  }
+  if (!TEMPLATE_EVENTS[event].channels.includes(channel as ReminderChannel)) {
+    throw new AppError(`No ${channel} template for ${event}`, 404);
+  }
+  return {
+    event: event as TemplateEvent,
+    channel: channel as ReminderChannel,
+    language: language as TemplateLanguage,
+  };
+};
+
+// Variables a template uses that its event does not provide
+const unknownVariables = (event: TemplateEvent, ...parts: (string | null | undefined)[]) => {
+  const allowed = TEMPLATE_EVENTS[event].variables;
+  return parts.flatMap((part) => (part ? templateVariables(part) : [])).filter((name) => !allowed.includes(name));
+};
+
+// List every template with its variables and whether an admin has changed it
+export const getNotificationTemplates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const templates = await listTemplates();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        templates,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Save an override of the built-in template
+export const updateNotificationTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { event, channel, language } = resolveKey(req.params);
+    const { body } = req.body;
+    const subject = req.body.subject || null;
+    const actor_id = req.user!.id;
+
+    const unknown = unknownVariables(event, subject, body);
+    if (unknown.length > 0) {
+      return next(new AppError(`Unknown variables: ${unknown.join(', ')}`, 400));
+    }
+
+    const previous = await getTemplate(event, channel, language);
+
+    const template = await prisma.notificationTemplate.upsert({
+      where: { event_channel_language: { event, channel, language } },
+      create: { event, channel, language, subject, body, updated_by: actor_id },
+      update: { subject, body, updated_by: actor_id },
+    });
+
+    await recordAuditLog({
+      actor_id,
+      action: 'NOTIFICATION_TEMPLATE_UPDATED',
+      target_type: 'NOTIFICATION_TEMPLATE',
+      target_id: `${event}:${channel}:${language}`,
+      details: {
+        old_subject: previous.subject,
+        new_subject: subject,
+        was_customized: previous.customized,
+        body_length: body.length,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template: { ...template, customized: true },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Drop the override so the built-in template applies again
+export const resetNotificationTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { event, channel, language } = resolveKey(req.params);
+    const actor_id = req.user!.id;
+
+    const { count } = await prisma.notificationTemplate.deleteMany({
+      where: { event, channel, language },
+    });
+
+    if (count > 0) {
+      await recordAuditLog({
+        actor_id,
+        action: 'NOTIFICATION_TEMPLATE_RESET',
+        target_type: 'NOTIFICATION_TEMPLATE',
+        target_id: `${event}:${channel}:${language}`,
+      });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template: { event, channel, language, ...defaultTemplate(event, channel, language), customized: false },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Render a template, saved or unsaved, with sample values
+export const previewNotificationTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { event, channel, language } = resolveKey(req.body);
+    const template =
+      req.body.body !== undefined
+        ? { subject: req.body.subject || null, body: req.body.body }
+        : await getTemplate(event, channel, language);
+
+    const rendered = renderTemplate(template, channel, language, {
+      ...TEMPLATE_EVENTS[event].sample,
+      ...(req.body.variables ?? {}),
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        preview: rendered,
+        unknown_variables: unknownVariables(event, template.subject, template.body),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
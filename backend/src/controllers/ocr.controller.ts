@@ -2,21 +2,16 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
-import { createWorker } from 'tesseract.js';
 import fs from 'fs';
 import path from 'path';
-import { Queue } from 'bullmq';
-
-// Initialize OCR queue only if enabled
-const queuesEnabled: boolean = (process.env.REDIS_ENABLED || '').toLowerCase() === 'true';
-const ocrQueue: Queue | undefined = queuesEnabled
-  ? new Queue('ocr-queue', {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-      },
-    })
-  : undefined;
+import {
+  detectSearchConfig,
+  formatOCRProgress,
+  OCRProgress,
+  runOCRPipeline,
+  searchOCRPages,
+} from '../services/ocr.service';
+import { enqueueJob, hasJobWorker } from '../services/jobRunner.service';
 
 // Process OCR for a book
 export const processOCR = async (
@@ -40,34 +35,43 @@ export const processOCR = async (
       return next(new AppError('Book not found', 404));
     }
 
-    // Add OCR job to queue if enabled
-    if (ocrQueue) {
-      await ocrQueue.add(
-        'process-ocr',
-        {
-          bookId,
-          pdfPath: book.pdf_path,
+    // A row nothing will run would stay PENDING and block every later request
+    if (!hasJobWorker('OCR_PROCESSING')) {
+      return next(new AppError('OCR processing is unavailable: no background worker is running', 503));
+    }
+
+    // Only one OCR run per book at a time
+    const activeJob = await prisma.backgroundJob.findFirst({
+      where: {
+        type: 'OCR_PROCESSING',
+        status: { in: ['PENDING', 'RUNNING'] },
+        payload: {
+          path: ['bookId'],
+          equals: bookId,
         },
-        {
-          attempts: 3,
-          backoff: {
-            type: 'exponential',
-            delay: 2000,
-          },
-        }
-      );
+      },
+    });
+
+    if (activeJob) {
+      return next(new AppError('OCR processing is already in progress for this book', 409));
     }
 
+    // The job row tracks the run so progress can be reported per page
+    const backgroundJob = await enqueueJob('OCR_PROCESSING', { bookId, pdfPath: book.pdf_path }, { max_retries: 2 });
+
     res.status(200).json({
       status: 'success',
       message: 'OCR processing started',
+      data: {
+        job_id: backgroundJob.id,
+      },
     });
   } catch (error) {
     next(error);
   }
 };
 
-// Search in OCR content
+// Ranked full-text search in OCR content
 export const searchOCRContent = async (
   req: Request,
   res: Response,
@@ -76,44 +80,21 @@ export const searchOCRContent = async (
   try {
     const { query, bookId, page, limit = 10 } = req.query;
 
-    if (!query) {
+    if (!query || !(query as string).trim()) {
       return res.status(400).json({
         status: 'error',
         message: 'Search query is required',
       });
     }
 
-    const whereClause: any = {
-      content: {
-        contains: query as string,
-        mode: 'insensitive',
-      },
-    };
-
-    if (bookId) {
-      whereClause.book_id = bookId as string;
-    }
-
-    const results = await prisma.oCRIndex.findMany({
-      where: whereClause,
-      include: {
-        book: {
-          select: {
-            id: true,
-            title: true,
-            authors: true,
-          },
-        },
-      },
-      orderBy: {
-        confidence: 'desc',
-      },
-      skip: page ? (Number(page) - 1) * Number(limit) : 0,
-      take: Number(limit),
-    });
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(Math.max(Number(limit) || 10, 1), 50);
 
-    const total = await prisma.oCRIndex.count({
-      where: whereClause,
+    const { results, total } = await searchOCRPages({
+      query: (query as string).trim(),
+      bookId: bookId ? (bookId as string) : undefined,
+      page: pageNumber,
+      limit: pageSize,
     });
 
     res.status(200).json({
@@ -121,10 +102,10 @@ export const searchOCRContent = async (
       data: {
         results,
         pagination: {
-          page: page ? Number(page) : 1,
-          limit: Number(limit),
+          page: pageNumber,
+          limit: pageSize,
           total,
-          pages: Math.ceil(total / Number(limit)),
+          pages: Math.ceil(total / pageSize),
         },
       },
     });
@@ -162,6 +143,20 @@ export const getOCRStatus = async (
     // Check if PDF exists
     const pdfExists = fs.existsSync(book.pdf_path);
 
+    // Progress of the most recent OCR run, if any
+    const latestJob = await prisma.backgroundJob.findFirst({
+      where: {
+        type: 'OCR_PROCESSING',
+        payload: {
+          path: ['bookId'],
+          equals: bookId,
+        },
+      },
+      orderBy: { created_at: 'desc' },
+    });
+
+    const progress = latestJob?.result as OCRProgress | null | undefined;
+
     res.status(200).json({
       status: 'success',
       data: {
@@ -170,6 +165,17 @@ export const getOCRStatus = async (
         pdf_exists: pdfExists,
         pages_processed: ocrCount,
         is_processed: ocrCount > 0,
+        job: latestJob
+          ? {
+              id: latestJob.id,
+              status: latestJob.status,
+              error_message: latestJob.error_message,
+              started_at: latestJob.started_at,
+              completed_at: latestJob.completed_at,
+              progress: progress || null,
+              summary: progress ? formatOCRProgress(progress) : null,
+            }
+          : null,
       },
     });
   } catch (error) {
@@ -179,43 +185,65 @@ export const getOCRStatus = async (
 
 // Process OCR job (called by queue worker)
 export const processOCRJob = async (job: any) => {
-  try {
-    const { bookId, pdfPath } = job.data;
+  const { bookId, pdfPath, backgroundJobId } = job.data;
 
+  try {
     if (!fs.existsSync(pdfPath)) {
       throw new Error('PDF file not found');
     }
 
-    // Initialize Tesseract worker
-    const worker = await createWorker('eng+hin+ara', 1, {
-      logger: (m) => console.log(m),
-    });
-
-    // For now, we'll process the first page as an example
-    // In production, you'd use a PDF-to-image library to convert each page
-    // and then process each image with Tesseract
-
-    // This is a simplified example - in reality, you'd need to:
-    // 1. Convert PDF pages to images using pdf2pic or similar
-    // 2. Process each image with Tesseract
-    // 3. Store the results in the database
+    // The runner has already claimed the row; started_at identifies that claim, so leave it alone
+    if (backgroundJobId) {
+      await prisma.backgroundJob.update({
+        where: { id: backgroundJobId },
+        data: {
+          error_message: null,
+          heartbeat_at: new Date(),
+        },
+      });
+    }
 
-    const { data: { text } } = await worker.recognize(pdfPath);
-    
-    // Store OCR result
-    await prisma.oCRIndex.create({
-      data: {
-        book_id: bookId,
-        page_number: 1,
-        content: text,
-        confidence: 0.8, // This would be calculated from Tesseract
-        language: 'eng',
+    const progress = await runOCRPipeline(pdfPath, {
+      // Re-running OCR replaces a page's previous content instead of duplicating it
+      onPage: async (page) => {
+        await prisma.$transaction([
+          prisma.oCRIndex.deleteMany({
+            where: { book_id: bookId, page_number: page.pageNumber },
+          }),
+          prisma.oCRIndex.create({
+            data: {
+              book_id: bookId,
+              page_number: page.pageNumber,
+              content: page.content,
+              confidence: page.confidence,
+              language: page.language,
+              search_config: detectSearchConfig(page.content),
+            },
+          }),
+        ]);
+      },
+      onProgress: async (current) => {
+        if (backgroundJobId) {
+          await prisma.backgroundJob.update({
+            where: { id: backgroundJobId },
+            data: { result: { ...current }, heartbeat_at: new Date() },
+          });
+        }
       },
     });
 
-    await worker.terminate();
+    // A revision with fewer pages leaves the old trailing pages behind; drop them from search
+    if (progress.total_pages > 0) {
+      await prisma.oCRIndex.deleteMany({
+        where: { book_id: bookId, page_number: { gt: progress.total_pages } },
+      });
+    }
+
+    if (progress.total_pages > 0 && progress.failed_pages.length === progress.total_pages) {
+      throw new Error(`OCR failed on every page (${formatOCRProgress(progress)})`);
+    }
 
-    console.log(`OCR processing completed for book ${bookId}`);
+    console.log(`OCR processing completed for book ${bookId}: ${formatOCRProgress(progress)}`);
   } catch (error) {
     console.error('Error processing OCR:', error);
     throw error;
@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Prisma, ReminderChannel } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+
+// List captured messages, newest first
+export const getOutboxMessages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { channel, search, event, reminder_id } = req.query;
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? 20);
+
+    const where: Prisma.OutboxMessageWhereInput = {};
+    if (channel) where.channel = channel as ReminderChannel;
+    if (event) where.event = event as string;
+    if (reminder_id) where.reminder_id = reminder_id as string;
+    if (search) {
+      where.OR = [
+        { recipient: { contains: search as string, mode: 'insensitive' } },
+        { subject: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const [messages, total] = await Promise.all([
+      prisma.outboxMessage.findMany({
+        where,
+        select: {
+          id: true,
+          channel: true,
+          recipient: true,
+          subject: true,
+          text: true,
+          event: true,
+          reminder_id: true,
+          user_id: true,
+          created_at: true,
+        },
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.outboxMessage.count({ where }),
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        messages,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// A single captured message including its HTML body
+export const getOutboxMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const message = await prisma.outboxMessage.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!message) {
+      return next(new AppError('Outbox message not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        message,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Empty the outbox, optionally for one channel
+export const clearOutbox = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const channel = req.query.channel as ReminderChannel | undefined;
+
+    const { count } = await prisma.outboxMessage.deleteMany({
+      where: channel ? { channel } : {},
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'OUTBOX_CLEARED',
+      target_type: 'OUTBOX',
+      target_id: channel ?? 'ALL',
+      details: { deleted: count },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        deleted: count,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
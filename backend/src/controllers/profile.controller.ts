@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import {
+  confirmContactVerification,
+  getChannelPreferences,
+  normalizePhone,
+  startContactVerification,
+  updateChannelPreferences,
+} from '../services/contactProfile.service';
+
+const contactSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  institution: true,
+  phone: true,
+  phone_verified_at: true,
+  whatsapp_number: true,
+  whatsapp_verified_at: true,
+  preferred_language: true,
+  timezone: true,
+  quiet_hours_start: true,
+  quiet_hours_end: true,
+};
+
+const loadContactUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: contactSelect,
+  });
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  return user;
+};
+
+// Get the current user's contact profile and notification preferences
+export const getMyProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user_id = req.user!.id;
+
+    const [profile, preferences] = await Promise.all([
+      loadContactUser(user_id),
+      getChannelPreferences(user_id),
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        profile,
+        preferences,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update phone, WhatsApp number, language, timezone and quiet hours
+export const updateMyContact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user_id = req.user!.id;
+    const { phone, whatsapp_number, preferred_language, timezone, quiet_hours_start, quiet_hours_end } = req.body;
+
+    const existing = await loadContactUser(user_id);
+
+    const data: Prisma.UserUpdateInput = {};
+
+    if (phone !== undefined) {
+      const normalized = phone ? normalizePhone(phone) : null;
+      data.phone = normalized;
+      // A changed number has to be verified again
+      if (normalized !== existing.phone) {
+        data.phone_verified_at = null;
+      }
+    }
+
+    if (whatsapp_number !== undefined) {
+      const normalized = whatsapp_number ? normalizePhone(whatsapp_number) : null;
+      data.whatsapp_number = normalized;
+      if (normalized !== existing.whatsapp_number) {
+        data.whatsapp_verified_at = null;
+      }
+    }
+
+    if (preferred_language !== undefined) data.preferred_language = preferred_language;
+    if (timezone !== undefined) data.timezone = timezone;
+
+    if (quiet_hours_start !== undefined || quiet_hours_end !== undefined) {
+      const start = quiet_hours_start ?? existing.quiet_hours_start;
+      const end = quiet_hours_end ?? existing.quiet_hours_end;
+      if (!start !== !end) {
+        return next(new AppError('Quiet hours need both a start and an end time', 400));
+      }
+      data.quiet_hours_start = start || null;
+      data.quiet_hours_end = end || null;
+    }
+
+    const profile = await prisma.user.update({
+      where: { id: user_id },
+      data,
+      select: contactSelect,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        profile,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Send a verification code to the phone or WhatsApp number on file
+export const sendContactVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await loadContactUser(req.user!.id);
+    const result = await startContactVerification(user, req.body.channel);
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm a verification code
+export const confirmContact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await loadContactUser(req.user!.id);
+    await confirmContactVerification(user, req.body.channel, req.body.code);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        profile: await loadContactUser(user.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the channels used for each reminder event
+export const updateMyPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const preferences = await updateChannelPreferences(req.user!.id, req.body.preferences);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        preferences,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -2,21 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
-import { Queue } from 'bullmq';
-import { sendEmail } from '../services/email.service';
-import { sendSMS } from '../services/sms.service';
-import { sendWhatsApp } from '../services/whatsapp.service';
-
-// Initialize reminder queue only if enabled
-const queuesEnabled: boolean = (process.env.REDIS_ENABLED || '').toLowerCase() === 'true';
-const reminderQueue: Queue | undefined = queuesEnabled
-  ? new Queue('reminder-queue', {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-      },
-    })
-  : undefined;
+import { Prisma, ReminderChannel } from '@prisma/client';
+import { notifyUsers } from '../services/notification.service';
+import { planReminderDelivery } from '../services/contactProfile.service';
+import { appLink, isTemplateEvent, renderNotification } from '../services/notificationTemplate.service';
+import { DeliveryReceipt, deliverMessage, skippedReceipt } from '../services/notificationTransport.service';
+import { cancelJob, enqueueJob } from '../services/jobRunner.service';
 
 // Create reminder
 export const createReminder = async (
@@ -47,28 +38,14 @@ export const createReminder = async (
         type,
         message,
         scheduled_for: new Date(scheduled_for),
-        channel,
+        // Left empty, the reminder goes out on the user's preferred channels
+        channel: channel || null,
         metadata: metadata ? JSON.parse(metadata) : null,
       },
     });
 
-    // Add job to queue if enabled
-    if (reminderQueue) {
-      await reminderQueue.add(
-        'send-reminder',
-        {
-          reminderId: reminder.id,
-          type,
-          channel,
-          user_id,
-          message,
-          metadata: reminder.metadata,
-        },
-        {
-          delay: new Date(scheduled_for).getTime() - Date.now(),
-        }
-      );
-    }
+    // Send at scheduled_for, through BullMQ or the in-process runner
+    await enqueueJob('REMINDER_SEND', { reminderId: reminder.id }, { scheduled_at: reminder.scheduled_for });
 
     res.status(201).json({
       status: 'success',
@@ -235,15 +212,17 @@ export const cancelReminder = async (
       },
     });
 
-    // Remove from queue if not yet processed
-    if (reminderQueue) {
-      const jobs = await reminderQueue.getJobs(['waiting', 'delayed']);
-      for (const job of jobs) {
-        if (job.data.reminderId === reminderId) {
-          await job.remove();
-          break;
-        }
-      }
+    // Stop the send job if it has not run yet
+    const jobs = await prisma.backgroundJob.findMany({
+      where: {
+        type: 'REMINDER_SEND',
+        status: 'PENDING',
+        payload: { path: ['reminderId'], equals: reminderId },
+      },
+      select: { id: true },
+    });
+    for (const job of jobs) {
+      await cancelJob(job.id);
     }
 
     res.status(200).json({
@@ -258,7 +237,7 @@ export const cancelReminder = async (
 // Process reminder (called by queue worker)
 export const processReminder = async (job: any) => {
   try {
-    const { reminderId, type, channel, user_id, message, metadata } = job.data;
+    const { reminderId } = job.data;
 
     const reminder = await prisma.reminder.findUnique({
       where: { id: reminderId },
@@ -267,6 +246,7 @@ export const processReminder = async (job: any) => {
         assignment: {
           include: {
             book: true,
+            reviewer: { select: { name: true } },
           },
         },
       },
@@ -276,53 +256,142 @@ export const processReminder = async (job: any) => {
       return;
     }
 
-    let sent = false;
-
-    switch (channel) {
-      case 'EMAIL':
-        sent = await sendEmail({
-          to: reminder.user.email,
-          subject: `Reminder: ${type}`,
-          text: message,
-          html: `<p>${message}</p>`,
-        });
-        break;
-
-      case 'SMS':
-        sent = await sendSMS({
-          to: reminder.user.phone || '',
-          message,
-        });
-        break;
-
-      case 'WHATSAPP':
-        sent = await sendWhatsApp({
-          to: reminder.user.phone || '',
-          message,
-        });
-        break;
-
-      case 'IN_APP':
-        // In-app notifications would be handled by WebSocket or similar
-        sent = true;
-        break;
+    const plan = await planReminderDelivery(reminder.user, reminder.type, reminder.channel);
+
+    // Inside the user's quiet hours: try again once they end
+    if (plan.defer_until) {
+      await prisma.reminder.update({
+        where: { id: reminder.id },
+        data: { scheduled_for: plan.defer_until },
+      });
+      await enqueueJob('REMINDER_SEND', { reminderId: reminder.id }, { scheduled_at: plan.defer_until });
+      return;
     }
 
+    const metadata =
+      reminder.metadata && typeof reminder.metadata === 'object' && !Array.isArray(reminder.metadata)
+        ? (reminder.metadata as Prisma.JsonObject)
+        : {};
+
+    // Generated reminders (e.g. escalation) name their own template and variables;
+    // their stored message is only the English record of the same content
+    const templateEvent =
+      typeof metadata.template === 'string' && isTemplateEvent(metadata.template) ? metadata.template : reminder.type;
+    const { assignment } = reminder;
+    const linkPath = assignment
+      ? assignment.reviewer_id === reminder.user_id
+        ? `/review/${assignment.id}`
+        : `/books/${assignment.book_id}`
+      : undefined;
+    const variables = {
+      recipient_name: reminder.user.name,
+      reviewer_name: assignment?.reviewer.name,
+      book_title: assignment?.book.title,
+      due_date: assignment?.due_date,
+      link: linkPath ? appLink(linkPath) : undefined,
+      message: typeof metadata.template === 'string' ? undefined : reminder.message,
+      ...((metadata.variables as Record<string, string> | undefined) ?? {}),
+    };
+    const render = (channel: ReminderChannel) =>
+      renderNotification(templateEvent, channel, {
+        language: reminder.user.preferred_language,
+        timeZone: reminder.user.timezone,
+        variables,
+      });
+
+    const receipts: DeliveryReceipt[] = plan.skipped.map((skipped) =>
+      skippedReceipt(skipped.channel, skipped.reason)
+    );
+    const context = { event: templateEvent, reminder_id: reminder.id, user_id: reminder.user_id };
+
+    for (const channel of plan.channels) {
+      const rendered = await render(channel);
+
+      switch (channel) {
+        case 'EMAIL':
+          receipts.push(
+            await deliverMessage({
+              channel,
+              to: reminder.user.email,
+              subject: rendered.subject || 'NCISM Review',
+              text: rendered.text,
+              html: rendered.html,
+              ...context,
+            })
+          );
+          break;
+
+        case 'SMS':
+          receipts.push(
+            await deliverMessage({ channel, to: reminder.user.phone!, text: rendered.text, ...context })
+          );
+          break;
+
+        case 'WHATSAPP':
+          receipts.push(
+            await deliverMessage({ channel, to: reminder.user.whatsapp_number!, text: rendered.text, ...context })
+          );
+          break;
+
+        case 'IN_APP': {
+          const notifications = await notifyUsers([reminder.user_id], {
+            type: 'REMINDER',
+            title: rendered.subject || 'Reminder',
+            message: rendered.text,
+            link: linkPath,
+            book_id: assignment?.book_id,
+            assignment_id: reminder.assignment_id ?? undefined,
+          });
+          receipts.push({
+            channel,
+            transport: 'in_app',
+            status: notifications.length > 0 ? 'DELIVERED' : 'FAILED',
+            attempts: 1,
+            provider_message_id: notifications[0]?.id ?? null,
+            at: new Date().toISOString(),
+          });
+          break;
+        }
+      }
+    }
+
+    const sent = receipts.some((receipt) => receipt.status === 'DELIVERED');
+    const failures = receipts
+      .filter((receipt) => receipt.status !== 'DELIVERED')
+      .map((receipt) => `${receipt.channel}: ${receipt.error ?? 'not delivered'}`);
+
     await prisma.reminder.update({
       where: { id: reminderId },
       data: {
         status: sent ? 'SENT' : 'FAILED',
         sent_at: sent ? new Date() : null,
+        delivery_receipts: receipts as unknown as Prisma.InputJsonValue,
+        error_message: sent ? null : failures.join('; ') || 'No channel available',
       },
     });
   } catch (error) {
     console.error('Error processing reminder:', error);
+
+    // The reminder stays PENDING while its job has retries left, so the next attempt picks it up.
+    // Reminders sent directly (without a job) have no retries.
+    const backgroundJobId: string | undefined = job.data.backgroundJobId ?? job.id;
+    const backgroundJob = backgroundJobId
+      ? await prisma.backgroundJob.findUnique({
+          where: { id: backgroundJobId },
+          select: { retry_count: true, max_retries: true },
+        })
+      : null;
+    const finalAttempt = !backgroundJob || backgroundJob.retry_count >= backgroundJob.max_retries;
+
     await prisma.reminder.update({
       where: { id: job.data.reminderId },
       data: {
-        status: 'FAILED',
-        error_message: error.message,
+        ...(finalAttempt && { status: 'FAILED' }),
+        error_message: error instanceof Error ? error.message : String(error),
       },
     });
+
+    // Let the job runner (or BullMQ) record the failure and schedule the retry
+    throw error;
   }
 };
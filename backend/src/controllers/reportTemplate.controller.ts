@@ -0,0 +1,267 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_LANGUAGES,
+  REPORT_SECTIONS,
+  SAMPLE_REPORT_BOOK,
+  normalizeReportTemplate,
+  renderBookReport,
+} from '../services/reportTemplate';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const creatorSelect = {
+  creator: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+// List report templates; only admins see inactive ones
+export const getReportTemplates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const templates = await prisma.reportTemplate.findMany({
+      where: req.user!.role === UserRole.ADMIN ? {} : { is_active: true },
+      include: creatorSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        templates,
+        default_template: DEFAULT_REPORT_TEMPLATE,
+        sections: REPORT_SECTIONS,
+        languages: REPORT_LANGUAGES,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a report template by ID
+export const getReportTemplateById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const template = await prisma.reportTemplate.findUnique({
+      where: { id: req.params.id },
+      include: creatorSelect,
+    });
+
+    if (!template || (!template.is_active && req.user!.role !== UserRole.ADMIN)) {
+      return next(new AppError('Report template not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a report template
+export const createReportTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, description, is_active } = req.body;
+    const template_data = normalizeReportTemplate(req.body.template_data);
+
+    const template = await prisma.reportTemplate.create({
+      data: {
+        name: name.trim(),
+        description: description?.trim() || null,
+        is_active: is_active ?? true,
+        template_data: template_data as unknown as Prisma.InputJsonValue,
+        created_by: req.user!.id,
+      },
+      include: creatorSelect,
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'REPORT_TEMPLATE_CREATED',
+      target_type: 'REPORT_TEMPLATE',
+      target_id: template.id,
+      details: { name: template.name, template_data },
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        template,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update a report template's name, description, active flag or layout
+export const updateReportTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { name, description, is_active } = req.body;
+
+    const existing = await prisma.reportTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return next(new AppError('Report template not found', 404));
+    }
+
+    const updateData: Prisma.ReportTemplateUpdateInput = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+    if (description !== undefined) {
+      updateData.description = description?.trim() || null;
+    }
+    if (is_active !== undefined) {
+      updateData.is_active = is_active;
+    }
+    if (req.body.template_data !== undefined) {
+      updateData.template_data = normalizeReportTemplate(req.body.template_data) as unknown as Prisma.InputJsonValue;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return next(new AppError('No fields provided to update', 400));
+    }
+
+    const template = await prisma.reportTemplate.update({
+      where: { id },
+      data: updateData,
+      include: creatorSelect,
+    });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'REPORT_TEMPLATE_UPDATED',
+      target_type: 'REPORT_TEMPLATE',
+      target_id: id,
+      details: {
+        fields: Object.keys(updateData),
+        old_template_data: existing.template_data,
+        new_template_data: template.template_data,
+        is_active: template.is_active,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete a report template
+export const deleteReportTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.reportTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return next(new AppError('Report template not found', 404));
+    }
+
+    await prisma.reportTemplate.delete({ where: { id } });
+
+    await recordAuditLog({
+      actor_id: req.user!.id,
+      action: 'REPORT_TEMPLATE_DELETED',
+      target_type: 'REPORT_TEMPLATE',
+      target_id: id,
+      details: { name: existing.name },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Render a template, saved or unsaved, against a sample book
+export const previewReportTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    let templateData: unknown = req.body.template_data;
+    if (templateData === undefined && req.body.template_id) {
+      const saved = await prisma.reportTemplate.findUnique({
+        where: { id: req.body.template_id },
+      });
+      if (!saved) {
+        return next(new AppError('Report template not found', 404));
+      }
+      templateData = saved.template_data;
+    }
+
+    const template = normalizeReportTemplate(templateData);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template_data: template,
+        html: renderBookReport(SAMPLE_REPORT_BOOK, template),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../middleware/error.middleware';
+import { snapshotWeights } from '../services/scoring.service';
+import { notifyRoles } from '../services/notification.service';
+import { notifyConflictsFlagged, runConflictRules } from '../services/conflictDetection.service';
+import { normalizeReviewForm, reviewFormProblem } from '../services/reviewForm';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -14,7 +19,8 @@ enum AssignmentStatus {
   PENDING = "PENDING",
   IN_PROGRESS = "IN_PROGRESS",
   COMPLETED = "COMPLETED",
-  OVERDUE = "OVERDUE"
+  OVERDUE = "OVERDUE",
+  RECUSED = "RECUSED"
 }
 
 // Submit a review for an assignment
@@ -43,6 +49,11 @@ export const submitReview = async (
             reviewer_id: req.user!.id,
           },
         },
+        coi_declarations: {
+          where: {
+            reviewer_id: req.user!.id,
+          },
+        },
       },
     });
 
@@ -57,6 +68,26 @@ export const submitReview = async (
       );
     }
 
+    // Reviewers declare any conflict of interest first; a declared conflict recuses them
+    const declaration = assignment.coi_declarations[0];
+    if (!declaration) {
+      return next(
+        new AppError('Declare any conflict of interest before reviewing this assignment', 403)
+      );
+    }
+    if (declaration.has_conflict || assignment.status === AssignmentStatus.RECUSED) {
+      return next(
+        new AppError('You were recused from this assignment after declaring a conflict of interest', 403)
+      );
+    }
+
+    // Reviews can only be submitted for the book's active round
+    if (assignment.round_number !== assignment.book.current_round) {
+      return next(
+        new AppError('This assignment belongs to a closed review round', 400)
+      );
+    }
+
     // Validate scores against criteria
     const criteria = await prisma.criterion.findMany();
     const criterionCodes = criteria.map((c: any) => c.code);
@@ -77,6 +108,22 @@ export const submitReview = async (
       }
     }
 
+    // Recommendation, summary, required changes and page references
+    const form = normalizeReviewForm(req.body);
+    const formProblem = reviewFormProblem(form, { final: !draft_flag, criterionCodes });
+    if (formProblem) {
+      return next(new AppError(formProblem, 400));
+    }
+    const formData = {
+      recommendation: form.recommendation,
+      summary: form.summary,
+      required_changes: form.required_changes as unknown as Prisma.InputJsonValue,
+      page_references: form.page_references as unknown as Prisma.InputJsonValue,
+    };
+
+    // Final submissions keep the weights they were scored under
+    const criterion_weights = draft_flag ? Prisma.DbNull : snapshotWeights(criteria);
+
     // Create or update review
     let review;
     if (assignment.reviews.length > 0) {
@@ -86,6 +133,8 @@ export const submitReview = async (
         data: {
           scores,
           comments,
+          ...formData,
+          criterion_weights,
           draft_flag,
           submitted_at: new Date(),
         },
@@ -98,6 +147,8 @@ export const submitReview = async (
           reviewer_id: req.user!.id,
           scores,
           comments,
+          ...formData,
+          criterion_weights,
           draft_flag,
         },
       });
@@ -112,16 +163,27 @@ export const submitReview = async (
         },
       });
 
-      // Check if all assignments for this book are completed
+      // Check if all assignments in this review round are completed
       const allAssignments = await prisma.assignment.findMany({
         where: {
           book_id: assignment.book_id,
+          round_number: assignment.round_number,
         },
       });
 
-      const allCompleted = allAssignments.every(
-        (a: any) => a.status === AssignmentStatus.COMPLETED
-      );
+      // Recused assignments are handed on, so they do not hold the round open
+      const allCompleted = allAssignments
+        .filter((a: any) => a.status !== AssignmentStatus.RECUSED)
+        .every((a: any) => a.status === AssignmentStatus.COMPLETED);
+
+      await notifyRoles([UserRole.SECRETARIAT], {
+        type: 'REVIEW_SUBMITTED',
+        title: 'Review submitted',
+        message: `A review of "${assignment.book.title}" was submitted (round ${assignment.round_number}).`,
+        link: `/books/${assignment.book_id}`,
+        book_id: assignment.book_id,
+        assignment_id: id,
+      });
 
       if (allCompleted) {
         // Update book status to REVIEW_COMPLETED
@@ -131,6 +193,26 @@ export const submitReview = async (
             status: 'REVIEW_COMPLETED',
           },
         });
+
+        await notifyRoles([UserRole.COMMITTEE], {
+          type: 'REVIEW_SUBMITTED',
+          title: 'Ready for committee decision',
+          message: `All reviews of "${assignment.book.title}" for round ${assignment.round_number} are in.`,
+          link: `/books/${assignment.book_id}`,
+          book_id: assignment.book_id,
+        });
+
+        // A failed rule run must not fail the submission; it can be rerun from the book page
+        try {
+          const flags = await runConflictRules(assignment.book_id, assignment.round_number);
+          await notifyConflictsFlagged(
+            { id: assignment.book_id, title: assignment.book.title },
+            flags.length,
+            req.user!.id
+          );
+        } catch (error) {
+          console.error('Conflict rules failed:', error);
+        }
       }
     }
 
@@ -0,0 +1,669 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from '../services/audit.service';
+import { listActiveSessions, revokeAllSessions, revokeSession } from '../services/session.service';
+import { disableTwoFactor, getRequiredRoles, setRequiredRoles } from '../services/twoFactor.service';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+// Never expose password hashes
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  institution: true,
+  is_active: true,
+  deactivated_at: true,
+  totp_enabled: true,
+  created_at: true,
+  last_login: true,
+};
+
+// Readable one-time password handed to the admin when none is chosen
+const generateTemporaryPassword = () => crypto.randomBytes(9).toString('base64url');
+
+// The last active admin cannot be demoted or deactivated
+const isLastActiveAdmin = async (userId: string) => {
+  const activeAdmins = await prisma.user.findMany({
+    where: { role: UserRole.ADMIN, is_active: true },
+    select: { id: true },
+  });
+  return activeAdmins.length === 1 && activeAdmins[0].id === userId;
+};
+
+// List users, optionally filtered by role, status or a name/email search
+export const getUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { role, status, search } = req.query;
+
+    const where: any = {};
+    if (role) {
+      where.role = role as string;
+    }
+    if (status === 'active') {
+      where.is_active = true;
+    } else if (status === 'inactive') {
+      where.is_active = false;
+    }
+    if (search) {
+      where.OR = [
+        { name: { contains: search as string, mode: 'insensitive' } },
+        { email: { contains: search as string, mode: 'insensitive' } },
+      ];
+    }
+
+    const users = await prisma.user.findMany({
+      where,
+      select: userSelect,
+      orderBy: [{ role: 'asc' }, { name: 'asc' }],
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        users,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single user
+export const getUserById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: userSelect,
+    });
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a user with a role and institution
+export const createUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, email, password, role, institution } = req.body;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return next(new AppError('A user with this email already exists', 400));
+    }
+
+    const newPassword: string = password || generateTemporaryPassword();
+
+    const user = await prisma.user.create({
+      data: {
+        name,
+        email,
+        role,
+        institution: institution || null,
+        password_hash: await bcrypt.hash(newPassword, 10),
+      },
+      select: userSelect,
+    });
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_CREATED',
+      target_type: 'USER',
+      target_id: user.id,
+      details: {
+        name,
+        email,
+        role,
+        institution: user.institution,
+      },
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        user,
+        temporary_password: password ? undefined : newPassword,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update a user's name, email or institution
+export const updateUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { name, email, institution } = req.body;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (email && email !== existingUser.email) {
+      const emailTaken = await prisma.user.findUnique({
+        where: { email },
+      });
+
+      if (emailTaken) {
+        return next(new AppError('A user with this email already exists', 400));
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        name,
+        email,
+        institution,
+      },
+      select: userSelect,
+    });
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_UPDATED',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        old_name: existingUser.name,
+        new_name: user.name,
+        old_email: existingUser.email,
+        new_email: user.email,
+        old_institution: existingUser.institution,
+        new_institution: user.institution,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a user's role
+export const changeUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { role } = req.body;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (existingUser.role === role) {
+      return next(new AppError(`User already has the ${role} role`, 400));
+    }
+
+    if (existingUser.role === UserRole.ADMIN && (await isLastActiveAdmin(id))) {
+      return next(new AppError('Cannot change the role of the last active admin', 400));
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { role },
+      select: userSelect,
+    });
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_ROLE_CHANGED',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        old_role: existingUser.role,
+        new_role: role,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Deactivate a user; their assignments, reviews and audit history are kept
+export const deactivateUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const actor_id = req.user!.id;
+
+    if (id === actor_id) {
+      return next(new AppError('You cannot deactivate your own account', 400));
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!existingUser.is_active) {
+      return next(new AppError('User is already deactivated', 400));
+    }
+
+    if (existingUser.role === UserRole.ADMIN && (await isLastActiveAdmin(id))) {
+      return next(new AppError('Cannot deactivate the last active admin', 400));
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        is_active: false,
+        deactivated_at: new Date(),
+      },
+      select: userSelect,
+    });
+
+    const revokedSessions = await revokeAllSessions(id, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_DEACTIVATED',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        email: existingUser.email,
+        reason: reason || null,
+        revoked_sessions: revokedSessions,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Reactivate a deactivated user
+export const reactivateUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (existingUser.is_active) {
+      return next(new AppError('User is already active', 400));
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        is_active: true,
+        deactivated_at: null,
+      },
+      select: userSelect,
+    });
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_REACTIVATED',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        email: existingUser.email,
+        deactivated_at: existingUser.deactivated_at,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Reset a user's password and sign them out everywhere
+export const resetUserPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { password } = req.body;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const newPassword: string = password || generateTemporaryPassword();
+
+    await prisma.user.update({
+      where: { id },
+      data: {
+        password_hash: await bcrypt.hash(newPassword, 10),
+        password_changed_at: new Date(),
+      },
+    });
+
+    const revokedSessions = await revokeAllSessions(id, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'USER_PASSWORD_RESET',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        email: existingUser.email,
+        generated: !password,
+        revoked_sessions: revokedSessions,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Password reset successfully',
+      data: {
+        temporary_password: password ? undefined : newPassword,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List a user's active sessions
+export const getUserSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const sessions = await listActiveSessions(id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        sessions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke one of a user's sessions
+export const revokeUserSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, sessionId } = req.params;
+    const actor_id = req.user!.id;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.user_id !== id) {
+      return next(new AppError('Session not found', 404));
+    }
+
+    await revokeSession(session.id, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'SESSION_REVOKED',
+      target_type: 'SESSION',
+      target_id: session.id,
+      details: {
+        user_id: id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Clear a user's 2FA so they can enroll again; their sessions end too
+export const resetUserTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const actor_id = req.user!.id;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!existingUser) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!existingUser.totp_enabled && !existingUser.totp_secret) {
+      return next(new AppError('User has not set up two-factor authentication', 400));
+    }
+
+    await disableTwoFactor(id);
+    const revokedSessions = await revokeAllSessions(id, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'TWO_FACTOR_DISABLED',
+      target_type: 'USER',
+      target_id: id,
+      details: {
+        email: existingUser.email,
+        by_admin: true,
+        revoked_sessions: revokedSessions,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication reset',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Roles that must use 2FA
+export const getTwoFactorPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const requiredRoles = await getRequiredRoles();
+
+    const enrollment = await prisma.user.groupBy({
+      by: ['role', 'totp_enabled'],
+      where: { is_active: true },
+      _count: { _all: true },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        required_roles: requiredRoles,
+        enrollment: Object.values(UserRole).map((role) => ({
+          role,
+          enrolled: enrollment.find((row) => row.role === role && row.totp_enabled)?._count._all ?? 0,
+          not_enrolled: enrollment.find((row) => row.role === role && !row.totp_enabled)?._count._all ?? 0,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Make 2FA mandatory for a set of roles; unenrolled users enroll at their next login
+export const updateTwoFactorPolicy = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const actor_id = req.user!.id;
+    const previousRoles = await getRequiredRoles();
+    const requiredRoles = await setRequiredRoles(req.body.required_roles, actor_id);
+
+    await recordAuditLog({
+      actor_id,
+      action: 'TWO_FACTOR_POLICY_UPDATED',
+      target_type: 'SETTING',
+      target_id: 'two_factor_required_roles',
+      details: {
+        old_required_roles: previousRoles,
+        new_required_roles: requiredRoles,
+      },
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        required_roles: requiredRoles,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -19,13 +19,23 @@ import analyticsRoutes from './routes/analytics.routes';
 import criteriaRoutes from './routes/criteria.routes';
 import aiRoutes from './routes/ai.routes';
 import reviewerScoreRoutes from './routes/reviewerScore.routes';
+import userRoutes from './routes/user.routes';
+import notificationRoutes from './routes/notification.routes';
+import profileRoutes from './routes/profile.routes';
+import notificationTemplateRoutes from './routes/notificationTemplate.routes';
+import outboxRoutes from './routes/outbox.routes';
+import backgroundJobRoutes from './routes/backgroundJob.routes';
+import conflictRuleRoutes from './routes/conflictRule.routes';
+import reportTemplateRoutes from './routes/reportTemplate.routes';
+import certificateRoutes from './routes/certificate.routes';
 
 // Import middleware
 import { errorHandler } from './middleware/error.middleware';
 import { auditLogger } from './middleware/audit.middleware';
+import { startOverdueSweepSchedule } from './services/escalation.service';
 
 // Import job processors
-import './services/jobProcessor';
+import { startInProcessJobRunner } from './services/jobProcessor';
 
 // Load environment variables
 dotenv.config();
@@ -52,6 +62,7 @@ app.get('/api/health', (req, res) => {
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/users', userRoutes);
 app.use('/api/books', bookRoutes);
 app.use('/api/assignments', assignmentRoutes);
 app.use('/api/reviews', reviewRoutes);
@@ -66,6 +77,14 @@ app.use('/api/analytics', analyticsRoutes);
 app.use('/api/criteria', criteriaRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/reviewer-scores', reviewerScoreRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/profile', profileRoutes);
+app.use('/api/notification-templates', notificationTemplateRoutes);
+app.use('/api/outbox', outboxRoutes);
+app.use('/api/jobs', backgroundJobRoutes);
+app.use('/api/conflict-rules', conflictRuleRoutes);
+app.use('/api/report-templates', reportTemplateRoutes);
+app.use('/api/certificates', certificateRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -75,6 +94,8 @@ if (process.env.NODE_ENV !== 'test') {
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+  startOverdueSweepSchedule();
+  startInProcessJobRunner();
 }
 
 // Export app for testing
@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import { prisma } from '../index';
+import { recordAuditLog } from '../services/audit.service';
+import {
+  auditPolicySettings,
+  describeUnmatchedRoute,
+  matchAuditRule,
+  sanitizeAuditPayload,
+} from './auditPolicy';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -29,56 +35,84 @@ export const auditLogger = async (
     // Call the original end method
     originalEnd.call(this, chunk, encoding, callback);
 
+    // req.path is relative to the router that handled the request
+    const path = req.originalUrl.split('?')[0];
+
     // Skip audit logging for certain paths
-    if (req.path.startsWith('/api/audit') || req.method === 'OPTIONS') {
+    if (
+      auditPolicySettings.skipPaths.some((prefix) => path.startsWith(prefix)) ||
+      req.method === 'OPTIONS'
+    ) {
       return res;
     }
 
     // Get user ID from JWT token (set by auth middleware)
     const userId = req.user?.id || 'anonymous';
+    if (userId === 'anonymous') {
+      return res;
+    }
+
+    const failed = res.statusCode >= 400;
+    const matched = matchAuditRule(req.method, path);
+    const rule = matched?.rule ?? null;
+
+    if (rule?.failuresOnly && !failed) {
+      return res;
+    }
+    if (!rule && req.method === 'GET' && !auditPolicySettings.logReads) {
+      return res;
+    }
 
-    // Determine action based on HTTP method and path
-    let action = `${req.method}_${req.path}`;
-    let targetType = '';
-    let targetId = '';
+    let action: string;
+    let targetType: string;
+    let targetId: string | undefined;
 
-    // Extract target type and ID from path
-    const pathParts = req.path.split('/');
-    if (pathParts.length >= 3) {
-      targetType = pathParts[2]; // e.g., 'books', 'assignments'
-      if (pathParts.length >= 4 && pathParts[3]) {
-        targetId = pathParts[3]; // e.g., book ID, assignment ID
-      }
+    if (rule && matched) {
+      action =
+        typeof rule.action === 'function'
+          ? rule.action({ method: req.method, params: matched.params, body: req.body })
+          : rule.action;
+      targetType = rule.targetType;
+      targetId = rule.targetSelf
+        ? userId
+        : rule.targetParam
+        ? matched.params[rule.targetParam]
+        : rule.targetBodyField
+        ? req.body?.[rule.targetBodyField]
+        : undefined;
+    } else {
+      const unmatched = describeUnmatchedRoute(req.method, path);
+      action = unmatched.action;
+      targetType = unmatched.targetType;
+      targetId = unmatched.targetId;
     }
 
-    // Create audit log entry
-    if (userId !== 'anonymous') {
-      try {
-        prisma.auditLog.create({
-          data: {
-            actor_id: userId,
-            action,
-            target_type: targetType,
-            target_id: targetId || 'none',
-            details: JSON.stringify({
-              method: req.method,
-              path: req.path,
-              query: req.query,
-              body: req.body,
-              statusCode: res.statusCode,
-              timestamp: new Date().toISOString(),
-            }),
-          },
-        }).catch((err: any) => {
-          console.error('Error creating audit log:', err);
-        });
-      } catch (error) {
-        console.error('Error in audit logging:', error);
-      }
+    try {
+      recordAuditLog({
+        actor_id: userId,
+        action,
+        target_type: targetType,
+        target_id: typeof targetId === 'string' && targetId ? targetId : 'none',
+        details: {
+          method: req.method,
+          path,
+          outcome: failed ? 'FAILED' : 'SUCCEEDED',
+          status_code: res.statusCode,
+          query: sanitizeAuditPayload(req.query, rule),
+          body: sanitizeAuditPayload(req.body, rule),
+          file: req.file
+            ? { name: req.file.originalname, size: req.file.size, mime_type: req.file.mimetype }
+            : undefined,
+        },
+      }).catch((err: any) => {
+        console.error('Error creating audit log:', err);
+      });
+    } catch (error) {
+      console.error('Error in audit logging:', error);
     }
 
     return res;
   };
 
   next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,624 @@
+import crypto from 'crypto';
+
+// What the request audit middleware records for each route: a readable action
+// name, the target, and how the request body is reduced before it is stored.
+// Routes without a rule fall back to the route pattern as the action name.
+
+export interface AuditRequestInfo {
+  method: string;
+  params: Record<string, string>;
+  body: any;
+}
+
+export interface AuditRouteRule {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Express-style pattern matched against the full path, e.g. '/api/reviews/:id/review'
+  path: string;
+  action: string | ((request: AuditRequestInfo) => string);
+  targetType: string;
+  // Where the target ID comes from: a route parameter, a body field, or the acting user
+  targetParam?: string;
+  targetBodyField?: string;
+  targetSelf?: boolean;
+  // The controller writes its own entry on success, so only failed attempts are recorded here
+  failuresOnly?: boolean;
+  // Body fields dropped entirely
+  deny?: string[];
+  // Body fields replaced by a keyed hash so equal values can still be correlated
+  hash?: string[];
+  // Body fields replaced by their size (long free text such as review comments)
+  summarize?: string[];
+}
+
+export interface AuditPolicySettings {
+  // Fields redacted wherever they appear in a body or query string
+  sensitiveFields: string[];
+  // Fields hashed wherever they appear in a body or query string
+  hashedFields: string[];
+  maxStringLength: number;
+  maxArrayItems: number;
+  maxDepth: number;
+  // Record GET requests that have no rule of their own
+  logReads: boolean;
+  // Path prefixes never recorded (the audit API itself, per-user inbox state)
+  skipPaths: string[];
+}
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const auditPolicySettings: AuditPolicySettings = {
+  sensitiveFields: [
+    'password',
+    'password_hash',
+    'current_password',
+    'new_password',
+    'challenge_token',
+    'otp',
+    'totp_secret',
+    'secret',
+  ],
+  hashedFields: ['refresh_token'],
+  maxStringLength: parseLimit(process.env.AUDIT_MAX_STRING_LENGTH, 200),
+  maxArrayItems: parseLimit(process.env.AUDIT_MAX_ARRAY_ITEMS, 20),
+  maxDepth: parseLimit(process.env.AUDIT_MAX_DEPTH, 4),
+  logReads: process.env.AUDIT_LOG_READS === 'true',
+  skipPaths: ['/api/audit', '/api/notifications'],
+};
+
+export const auditRouteRules: AuditRouteRule[] = [
+  // Auth
+  { method: 'POST', path: '/api/auth/2fa/setup', action: 'TWO_FACTOR_SETUP_STARTED', targetType: 'USER', targetSelf: true },
+  { method: 'POST', path: '/api/auth/2fa/enable', action: 'TWO_FACTOR_ENABLED', targetType: 'USER', targetSelf: true, failuresOnly: true },
+  { method: 'POST', path: '/api/auth/2fa/disable', action: 'TWO_FACTOR_DISABLED', targetType: 'USER', targetSelf: true, failuresOnly: true },
+  {
+    method: 'POST',
+    path: '/api/auth/2fa/recovery-codes',
+    action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+    targetType: 'USER',
+    targetSelf: true,
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/auth/sessions/:sessionId',
+    action: 'SESSION_REVOKED',
+    targetType: 'SESSION',
+    targetParam: 'sessionId',
+    failuresOnly: true,
+  },
+
+  // Users
+  { method: 'POST', path: '/api/users', action: 'USER_CREATED', targetType: 'USER', failuresOnly: true },
+  { method: 'PATCH', path: '/api/users/:id', action: 'USER_UPDATED', targetType: 'USER', targetParam: 'id', failuresOnly: true },
+  {
+    method: 'PATCH',
+    path: '/api/users/:id/role',
+    action: 'USER_ROLE_CHANGED',
+    targetType: 'USER',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/deactivate',
+    action: 'USER_DEACTIVATED',
+    targetType: 'USER',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/reactivate',
+    action: 'USER_REACTIVATED',
+    targetType: 'USER',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/reset-password',
+    action: 'USER_PASSWORD_RESET',
+    targetType: 'USER',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/users/:id/2fa/reset',
+    action: 'TWO_FACTOR_DISABLED',
+    targetType: 'USER',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/users/:id/sessions/:sessionId',
+    action: 'SESSION_REVOKED',
+    targetType: 'SESSION',
+    targetParam: 'sessionId',
+    failuresOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/users/two-factor-policy',
+    action: 'TWO_FACTOR_POLICY_UPDATED',
+    targetType: 'SYSTEM_SETTING',
+    failuresOnly: true,
+  },
+
+  // Books
+  { method: 'POST', path: '/api/books', action: 'BOOK_UPLOADED', targetType: 'BOOK' },
+  { method: 'GET', path: '/api/books/:id/file', action: 'BOOK_FILE_VIEWED', targetType: 'BOOK', targetParam: 'id' },
+  { method: 'POST', path: '/api/books/:id/assign', action: 'REVIEWERS_ASSIGNED', targetType: 'BOOK', targetParam: 'id' },
+  {
+    method: 'POST',
+    path: '/api/books/:id/revisions',
+    action: 'BOOK_REVISION_SUBMITTED',
+    targetType: 'BOOK',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/books/voting-rules',
+    action: 'VOTING_RULES_UPDATED',
+    targetType: 'SETTING',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/books/:id/decision-session',
+    action: 'DECISION_SESSION_OPENED',
+    targetType: 'BOOK',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/books/:id/decision-session/votes',
+    action: 'DECISION_VOTE_CAST',
+    targetType: 'BOOK',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/books/:id/decision-session/cancel',
+    action: 'DECISION_SESSION_CANCELLED',
+    targetType: 'BOOK',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/books/:id/approval',
+    action: 'APPROVAL_STATUS_CHANGE',
+    targetType: 'BOOK',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  { method: 'GET', path: '/api/reports/books/:id.pdf', action: 'BOOK_REPORT_DOWNLOADED', targetType: 'BOOK', targetParam: 'id' },
+  {
+    method: 'POST',
+    path: '/api/report-templates',
+    action: 'REPORT_TEMPLATE_CREATED',
+    targetType: 'REPORT_TEMPLATE',
+    failuresOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/report-templates/:id',
+    action: 'REPORT_TEMPLATE_UPDATED',
+    targetType: 'REPORT_TEMPLATE',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/report-templates/:id',
+    action: 'REPORT_TEMPLATE_DELETED',
+    targetType: 'REPORT_TEMPLATE',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+
+  // Assignments and reviews
+  { method: 'PATCH', path: '/api/assignments/:id', action: 'ASSIGNMENT_UPDATED', targetType: 'ASSIGNMENT', targetParam: 'id' },
+  {
+    method: 'PUT',
+    path: '/api/assignments/escalation-policy',
+    action: 'ESCALATION_POLICY_UPDATED',
+    targetType: 'SETTING',
+    failuresOnly: true,
+  },
+  { method: 'POST', path: '/api/assignments/overdue-sweep', action: 'OVERDUE_SWEEP_RUN', targetType: 'ASSIGNMENT' },
+  {
+    method: 'POST',
+    path: '/api/assignments/:id/reassign',
+    action: 'ASSIGNMENT_REASSIGNED',
+    targetType: 'ASSIGNMENT',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/reviews/:id/review',
+    action: ({ body }) => (body?.draft_flag === true || body?.draft_flag === 'true' ? 'REVIEW_DRAFT_SAVED' : 'REVIEW_SUBMITTED'),
+    targetType: 'ASSIGNMENT',
+    targetParam: 'id',
+    summarize: ['comments', 'summary'],
+  },
+  {
+    method: 'POST',
+    path: '/api/coi/submit',
+    action: 'COI_DECLARATION_SUBMITTED',
+    targetType: 'ASSIGNMENT',
+    targetBodyField: 'assignment_id',
+    failuresOnly: true,
+    summarize: ['conflict_details'],
+  },
+  {
+    method: 'POST',
+    path: '/api/annotations/create',
+    action: 'ANNOTATION_CREATED',
+    targetType: 'ASSIGNMENT',
+    targetBodyField: 'assignment_id',
+    failuresOnly: true,
+    summarize: ['content'],
+  },
+  {
+    method: 'PUT',
+    path: '/api/annotations/:annotationId',
+    action: 'ANNOTATION_UPDATED',
+    targetType: 'ANNOTATION',
+    targetParam: 'annotationId',
+    summarize: ['content'],
+  },
+  {
+    method: 'DELETE',
+    path: '/api/annotations/:annotationId',
+    action: 'ANNOTATION_DELETED',
+    targetType: 'ANNOTATION',
+    targetParam: 'annotationId',
+  },
+
+  // Criteria
+  { method: 'POST', path: '/api/criteria/create', action: 'CRITERION_CREATED', targetType: 'CRITERION', failuresOnly: true },
+  {
+    method: 'PUT',
+    path: '/api/criteria/:criterionId',
+    action: 'CRITERION_UPDATED',
+    targetType: 'CRITERION',
+    targetParam: 'criterionId',
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/criteria/:criterionId',
+    action: 'CRITERION_DELETED',
+    targetType: 'CRITERION',
+    targetParam: 'criterionId',
+    failuresOnly: true,
+  },
+
+  // Reminders
+  {
+    method: 'POST',
+    path: '/api/reminders/create',
+    action: 'REMINDER_CREATED',
+    targetType: 'USER',
+    targetBodyField: 'user_id',
+    summarize: ['message'],
+  },
+  {
+    method: 'PUT',
+    path: '/api/reminders/:reminderId/status',
+    action: 'REMINDER_STATUS_UPDATED',
+    targetType: 'REMINDER',
+    targetParam: 'reminderId',
+  },
+  {
+    method: 'PUT',
+    path: '/api/reminders/:reminderId/cancel',
+    action: 'REMINDER_CANCELLED',
+    targetType: 'REMINDER',
+    targetParam: 'reminderId',
+  },
+
+  // Contact profile and notification preferences
+  {
+    method: 'PUT',
+    path: '/api/profile/contact',
+    action: 'CONTACT_PROFILE_UPDATED',
+    targetType: 'USER',
+    targetSelf: true,
+    hash: ['phone', 'whatsapp_number'],
+  },
+  { method: 'POST', path: '/api/profile/contact/verify', action: 'CONTACT_VERIFICATION_SENT', targetType: 'USER', targetSelf: true },
+  {
+    method: 'POST',
+    path: '/api/profile/contact/confirm',
+    action: 'CONTACT_VERIFIED',
+    targetType: 'USER',
+    targetSelf: true,
+    deny: ['code'],
+  },
+  { method: 'PUT', path: '/api/profile/preferences', action: 'NOTIFICATION_PREFERENCES_UPDATED', targetType: 'USER', targetSelf: true },
+
+  // Notification templates
+  {
+    method: 'POST',
+    path: '/api/notification-templates/preview',
+    action: 'NOTIFICATION_TEMPLATE_PREVIEWED',
+    targetType: 'NOTIFICATION_TEMPLATE',
+    failuresOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/notification-templates/:event/:channel/:language',
+    action: 'NOTIFICATION_TEMPLATE_UPDATED',
+    targetType: 'NOTIFICATION_TEMPLATE',
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/notification-templates/:event/:channel/:language',
+    action: 'NOTIFICATION_TEMPLATE_RESET',
+    targetType: 'NOTIFICATION_TEMPLATE',
+    failuresOnly: true,
+  },
+  {
+    method: 'DELETE',
+    path: '/api/outbox',
+    action: 'OUTBOX_CLEARED',
+    targetType: 'OUTBOX',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/jobs/:id/retry',
+    action: 'BACKGROUND_JOB_RETRIED',
+    targetType: 'BACKGROUND_JOB',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'POST',
+    path: '/api/jobs/:id/cancel',
+    action: 'BACKGROUND_JOB_CANCELLED',
+    targetType: 'BACKGROUND_JOB',
+    targetParam: 'id',
+    failuresOnly: true,
+  },
+  {
+    method: 'PUT',
+    path: '/api/conflict-rules',
+    action: 'CONFLICT_RULES_UPDATED',
+    targetType: 'SETTING',
+    failuresOnly: true,
+  },
+
+  // OCR and AI
+  { method: 'POST', path: '/api/ocr/process/:bookId', action: 'OCR_PROCESSING_STARTED', targetType: 'BOOK', targetParam: 'bookId' },
+  { method: 'POST', path: '/api/ai/books/:bookId/summary', action: 'AI_SUMMARY_GENERATED', targetType: 'BOOK', targetParam: 'bookId' },
+  { method: 'POST', path: '/api/ai/books/:bookId/conflicts', action: 'AI_CONFLICTS_DETECTED', targetType: 'BOOK', targetParam: 'bookId' },
+  { method: 'POST', path: '/api/ai/books/:bookId/actions', action: 'AI_ACTIONS_GENERATED', targetType: 'BOOK', targetParam: 'bookId' },
+  {
+    method: 'PATCH',
+    path: '/api/ai/conflicts/:conflictId/resolve',
+    action: 'CONFLICT_FLAG_RESOLVED',
+    targetType: 'CONFLICT_FLAG',
+    targetParam: 'conflictId',
+    summarize: ['resolutionNotes'],
+  },
+
+  // Reviewer scores
+  {
+    method: 'POST',
+    path: '/api/reviewer-scores/reviewers/:reviewerId/calculate',
+    action: 'REVIEWER_SCORE_CALCULATED',
+    targetType: 'USER',
+    targetParam: 'reviewerId',
+  },
+  { method: 'POST', path: '/api/reviewer-scores/calculate-all', action: 'REVIEWER_SCORES_RECALCULATED', targetType: 'USER' },
+];
+
+interface CompiledRule {
+  rule: AuditRouteRule;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+const compileRule = (rule: AuditRouteRule): CompiledRule => {
+  const paramNames: string[] = [];
+  const source = rule.path
+    .split('/')
+    .map((segment) =>
+      segment.replace(/:(\w+)|[.*+?^${}()|[\]\\]/g, (match, name) => {
+        if (name) {
+          paramNames.push(name);
+          return '([^/]+?)';
+        }
+        return `\\${match}`;
+      })
+    )
+    .join('/');
+
+  return { rule, pattern: new RegExp(`^${source}/?$`), paramNames };
+};
+
+const compiledRules = auditRouteRules.map(compileRule);
+
+// Malformed escapes (e.g. %E0) are kept as sent rather than failing the audit entry
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export const matchAuditRule = (method: string, path: string) => {
+  for (const { rule, pattern, paramNames } of compiledRules) {
+    if (rule.method !== method) {
+      continue;
+    }
+
+    const match = pattern.exec(path);
+    if (match) {
+      const params: Record<string, string> = {};
+      paramNames.forEach((name, index) => {
+        params[name] = decodeSegment(match[index + 1]);
+      });
+      return { rule, params };
+    }
+  }
+
+  return null;
+};
+
+// Looks like a generated identifier (cuid, uuid or numeric) rather than a path word
+const ID_SEGMENT = /^(c[a-z0-9]{20,}|[0-9a-f]{8}-[0-9a-f-]{27}|\d+)$/i;
+
+/**
+ * Fallback for routes without a rule: the path with identifiers replaced by
+ * placeholders, so requests to the same route share one action name
+ */
+export const describeUnmatchedRoute = (method: string, path: string) => {
+  const segments = path.split('/').filter(Boolean);
+  const pattern = segments.map((segment) => (ID_SEGMENT.test(segment) ? ':id' : segment)).join('/');
+
+  return {
+    action: `${method} /${pattern}`,
+    targetType: (segments[1] ?? 'unknown').toUpperCase().replace(/-/g, '_'),
+    targetId: segments.slice(2).find((segment) => ID_SEGMENT.test(segment)) ?? 'none',
+  };
+};
+
+/**
+ * Keyed hash of a value, so equal values can be matched across entries without
+ * storing them. Keyed because short values such as phone numbers could
+ * otherwise be recovered by hashing every candidate.
+ */
+export const hashAuditValue = (value: unknown) => {
+  const key = process.env.AUDIT_HASH_KEY || `${process.env.JWT_SECRET || 'fallback-secret'}:audit-redaction`;
+  const digest = crypto
+    .createHmac('sha256', key)
+    .update(typeof value === 'string' ? value : JSON.stringify(value) ?? '')
+    .digest('hex');
+
+  return `hmac-sha256:${digest.slice(0, 16)}`;
+};
+
+/**
+ * Size of a free-text value without its content
+ */
+export const summarizeAuditValue = (value: unknown) => {
+  if (typeof value === 'string') {
+    return { summarized: true, characters: value.length };
+  }
+
+  if (value && typeof value === 'object') {
+    const texts = Object.values(value as Record<string, unknown>).filter(
+      (item): item is string => typeof item === 'string'
+    );
+    return {
+      summarized: true,
+      fields: Object.keys(value as Record<string, unknown>).length,
+      non_empty_fields: texts.filter((text) => text.trim().length > 0).length,
+      characters: texts.reduce((total, text) => total + text.length, 0),
+    };
+  }
+
+  return value;
+};
+
+const truncate = (value: unknown, settings: AuditPolicySettings, depth: number): unknown => {
+  if (typeof value === 'string') {
+    return value.length > settings.maxStringLength
+      ? `${value.slice(0, settings.maxStringLength)}… [+${value.length - settings.maxStringLength} chars]`
+      : value;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= settings.maxDepth) {
+    return '[Truncated: nested too deeply]';
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, settings.maxArrayItems).map((item) => truncate(item, settings, depth + 1));
+    if (value.length > settings.maxArrayItems) {
+      items.push(`[+${value.length - settings.maxArrayItems} items]`);
+    }
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = truncate(item, settings, depth + 1);
+  }
+  return result;
+};
+
+/**
+ * Apply the global and route-level rules to a request body or query string.
+ * Sensitive fields are matched at any depth; route rules apply to top-level fields.
+ */
+export const sanitizeAuditPayload = (
+  payload: unknown,
+  rule: Pick<AuditRouteRule, 'deny' | 'hash' | 'summarize'> | null,
+  settings: AuditPolicySettings = auditPolicySettings
+): unknown => {
+  if (!payload || typeof payload !== 'object') {
+    return payload;
+  }
+
+  const scrub = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(scrub);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (settings.sensitiveFields.includes(key)) {
+        result[key] = '[REDACTED]';
+      } else if (settings.hashedFields.includes(key)) {
+        result[key] = hashAuditValue(item);
+      } else {
+        result[key] = scrub(item);
+      }
+    }
+    return result;
+  };
+
+  const source = scrub(payload);
+  if (Array.isArray(source)) {
+    return truncate(source, settings, 0);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+    if (rule?.deny?.includes(key)) {
+      continue;
+    }
+
+    if (rule?.hash?.includes(key)) {
+      result[key] = hashAuditValue(value);
+    } else if (rule?.summarize?.includes(key)) {
+      result[key] = summarizeAuditValue(value);
+    } else {
+      result[key] = truncate(value, settings, 1);
+    }
+  }
+
+  return result;
+};
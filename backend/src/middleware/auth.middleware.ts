@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
 import { AppError } from './error.middleware';
 
 enum UserRole {
@@ -13,6 +14,8 @@ interface JwtPayload {
   id: string;
   email: string;
   role: UserRole;
+  sid?: string;
+  iat?: number;
 }
 
 declare global {
@@ -23,7 +26,7 @@ declare global {
   }
 }
 
-export const authenticate = (
+export const authenticate = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -43,8 +46,38 @@ export const authenticate = (
       process.env.JWT_SECRET || 'fallback-secret'
     ) as JwtPayload;
 
+    // Re-read the account so deactivation, role changes and password resets apply to live tokens
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.id },
+      select: { role: true, is_active: true, password_changed_at: true },
+    });
+
+    if (!user || !user.is_active) {
+      throw new AppError('Your account has been deactivated', 401);
+    }
+
+    if (
+      user.password_changed_at &&
+      decoded.iat !== undefined &&
+      decoded.iat < Math.floor(user.password_changed_at.getTime() / 1000)
+    ) {
+      throw new AppError('Your password was reset, please log in again', 401);
+    }
+
+    // Tokens bound to a session stop working as soon as the session is revoked
+    if (decoded.sid) {
+      const session = await prisma.session.findUnique({
+        where: { id: decoded.sid },
+        select: { revoked_at: true },
+      });
+
+      if (!session || session.revoked_at) {
+        throw new AppError('Your session has been revoked, please log in again', 401);
+      }
+    }
+
     // Add user info to request
-    req.user = decoded;
+    req.user = { ...decoded, role: user.role as UserRole };
 
     next();
   } catch (error) {
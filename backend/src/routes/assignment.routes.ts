@@ -2,6 +2,7 @@ import express from 'express';
 import { body } from 'express-validator';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import * as assignmentController from '../controllers/assignment.controller';
+import { ESCALATION_STEP_KEYS } from '../services/escalation.service';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -20,6 +21,38 @@ router.get(
   assignmentController.getAssignments
 );
 
+// GET /assignments/escalation-policy - Escalation ladder for overdue assignments
+router.get(
+  '/escalation-policy',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT]),
+  assignmentController.getEscalationPolicy
+);
+
+// PUT /assignments/escalation-policy - Configure the escalation ladder (Admin)
+router.put(
+  '/escalation-policy',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  [
+    body('steps').isArray({ min: 1 }).withMessage('Steps must be a non-empty array'),
+    body('steps.*.step').isIn(ESCALATION_STEP_KEYS).withMessage('Invalid escalation step'),
+    body('steps.*.enabled').isBoolean().withMessage('enabled must be a boolean'),
+    body('steps.*.offset_days')
+      .isInt({ min: -30, max: 90 })
+      .withMessage('offset_days must be a whole number of days between -30 and 90'),
+  ],
+  assignmentController.updateEscalationPolicy
+);
+
+// POST /assignments/overdue-sweep - Mark overdue assignments and escalate now
+router.post(
+  '/overdue-sweep',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT]),
+  assignmentController.runOverdueSweep
+);
+
 // GET /assignments/:id - Get a specific assignment
 router.get(
   '/:id',
@@ -27,6 +60,29 @@ router.get(
   assignmentController.getAssignmentById
 );
 
+// GET /assignments/:id/replacements - Suggested reviewers for a recused assignment
+router.get(
+  '/:id/replacements',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT]),
+  assignmentController.getReplacementSuggestions
+);
+
+// POST /assignments/:id/reassign - Hand a recused assignment to another reviewer
+router.post(
+  '/:id/reassign',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT]),
+  [
+    body('reviewer_id').isString().notEmpty().withMessage('Reviewer ID is required'),
+    body('due_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Due date must be a valid ISO date'),
+  ],
+  assignmentController.reassignRecusedAssignment
+);
+
 // PATCH /assignments/:id - Update assignment (Admin/Secretariat)
 router.patch(
   '/:id',
@@ -1,4 +1,5 @@
 import express from 'express';
+import { query } from 'express-validator';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import * as auditController from '../controllers/audit.controller';
 
@@ -19,4 +20,40 @@ router.get(
   auditController.getAuditLogs
 );
 
-export default router;
\ No newline at end of file
+// GET /audit/facets - Action names and target types present in the log
+router.get(
+  '/facets',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  auditController.getAuditFacets
+);
+
+// GET /audit/verify - Recompute the hash chain and report the first broken link
+router.get(
+  '/verify',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  auditController.verifyAuditLogChain
+);
+
+// GET /audit/export - Signed export of a date range (?from_date=&to_date=)
+router.get(
+  '/export',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  [
+    query('from_date').isISO8601().withMessage('from_date must be an ISO 8601 date'),
+    query('to_date').isISO8601().withMessage('to_date must be an ISO 8601 date'),
+  ],
+  auditController.exportAuditLogs
+);
+
+// GET /audit/signing-key - Public key for verifying exports offline
+router.get(
+  '/signing-key',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  auditController.getAuditSigningKey
+);
+
+export default router;
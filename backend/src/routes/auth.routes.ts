@@ -1,5 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
+import { authenticate } from '../middleware/auth.middleware';
 import * as authController from '../controllers/auth.controller';
 
 const router = express.Router();
@@ -14,4 +15,80 @@ router.post(
   authController.login
 );
 
-export default router;
\ No newline at end of file
+// POST /auth/login/2fa - Complete a login with a TOTP or recovery code
+router.post(
+  '/login/2fa',
+  [
+    body('challenge_token').notEmpty().withMessage('Challenge token is required'),
+    body('otp').isString().notEmpty().withMessage('Authentication code is required'),
+  ],
+  authController.verifyLoginTwoFactor
+);
+
+// POST /auth/login/2fa/setup - Provision 2FA for a user whose role requires it
+router.post(
+  '/login/2fa/setup',
+  [body('challenge_token').notEmpty().withMessage('Challenge token is required')],
+  authController.startLoginTwoFactorSetup
+);
+
+// POST /auth/login/2fa/enable - Confirm 2FA enrollment and complete the login
+router.post(
+  '/login/2fa/enable',
+  [
+    body('challenge_token').notEmpty().withMessage('Challenge token is required'),
+    body('otp').isString().notEmpty().withMessage('Authentication code is required'),
+  ],
+  authController.confirmLoginTwoFactorSetup
+);
+
+// POST /auth/refresh - Rotate the refresh token and issue a new access token
+router.post(
+  '/refresh',
+  [body('refresh_token').notEmpty().withMessage('Refresh token is required')],
+  authController.refresh
+);
+
+// POST /auth/logout - Revoke the session behind a refresh token
+router.post('/logout', authController.logout);
+
+// GET /auth/sessions - List the signed-in user's active sessions
+router.get('/sessions', authenticate, authController.getMySessions);
+
+// DELETE /auth/sessions/:sessionId - Sign out one of the user's devices
+router.delete('/sessions/:sessionId', authenticate, authController.revokeMySession);
+
+// GET /auth/2fa - 2FA status of the signed-in user
+router.get('/2fa', authenticate, authController.getMyTwoFactor);
+
+// POST /auth/2fa/setup - Provision a TOTP secret and QR code
+router.post('/2fa/setup', authenticate, authController.setupMyTwoFactor);
+
+// POST /auth/2fa/enable - Confirm the first code and turn 2FA on
+router.post(
+  '/2fa/enable',
+  authenticate,
+  [body('otp').isString().notEmpty().withMessage('Authentication code is required')],
+  authController.enableMyTwoFactor
+);
+
+// POST /auth/2fa/disable - Turn 2FA off
+router.post(
+  '/2fa/disable',
+  authenticate,
+  [
+    body('password').notEmpty().withMessage('Password is required'),
+    body('otp').isString().notEmpty().withMessage('Authentication code is required'),
+  ],
+  authController.disableMyTwoFactor
+);
+
+// POST /auth/2fa/recovery-codes - Replace the recovery codes
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  [body('otp').isString().notEmpty().withMessage('Authentication code is required')],
+  authController.regenerateMyRecoveryCodes
+);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { JobStatus, JobType } from '@prisma/client';
+import {
+  getBackgroundJobs,
+  getBackgroundJob,
+  retryBackgroundJob,
+  cancelBackgroundJob,
+} from '../controllers/backgroundJob.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = Router();
+
+const listValidation = [
+  query('type').optional().isIn(Object.values(JobType)).withMessage('Invalid job type'),
+  query('status').optional().isIn(Object.values(JobStatus)).withMessage('Invalid job status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+];
+
+// Job control is restricted to admins
+router.use(authenticate, authorize([UserRole.ADMIN]));
+
+// Routes
+router.get('/', listValidation, getBackgroundJobs);
+router.get('/:id', getBackgroundJob);
+router.post('/:id/retry', retryBackgroundJob);
+router.post('/:id/cancel', cancelBackgroundJob);
+
+export default router;
@@ -1,10 +1,13 @@
 import express from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import * as bookController from '../controllers/book.controller';
+import * as decisionSessionController from '../controllers/decisionSession.controller';
+import { APPROVAL_ACTIONS } from '../services/approvalActions';
+import { MAJORITY_RULES, VOTE_CHOICES } from '../services/committeeVoting';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -68,11 +71,47 @@ router.get('/public/approved', bookController.getPublicApprovedBooks);
 // GET /books - Get all books
 router.get('/', authenticate, bookController.getAllBooks);
 
+// GET /books/voting-rules - Quorum and majority rules for committee votes
+router.get(
+  '/voting-rules',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.COMMITTEE]),
+  decisionSessionController.getVotingRules
+);
+
+// PUT /books/voting-rules - Configure quorum and majority for new decision sessions (Admin)
+router.put(
+  '/voting-rules',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  [
+    body('quorum_percent')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Quorum must be a whole percentage between 1 and 100'),
+    body('majority')
+      .optional()
+      .isIn(MAJORITY_RULES)
+      .withMessage('Majority must be SIMPLE, TWO_THIRDS or UNANIMOUS'),
+  ],
+  decisionSessionController.updateVotingRules
+);
+
 // GET /books/:id - Get a specific book
 router.get('/:id', authenticate, bookController.getBookById);
 
-// GET /books/:id/file - Serve the uploaded PDF
-router.get('/:id/file', authenticate, bookController.getBookFile);
+// GET /books/:id/file - Serve the uploaded PDF (?round=N for an earlier version)
+router.get(
+  '/:id/file',
+  authenticate,
+  [
+    query('round')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Round must be a positive integer'),
+  ],
+  bookController.getBookFile
+);
 
 // POST /books/:id/assign - Assign reviewers (Secretariat only)
 router.post(
@@ -90,6 +129,33 @@ router.post(
   bookController.assignReviewers
 );
 
+// GET /books/:id/reviewer-recommendations - Ranked reviewer suggestions (Secretariat only)
+router.get(
+  '/:id/reviewer-recommendations',
+  authenticate,
+  authorize([UserRole.SECRETARIAT]),
+  [
+    query('panel_size')
+      .optional()
+      .isInt({ min: 1, max: 5 })
+      .withMessage('Panel size must be between 1 and 5'),
+  ],
+  bookController.getReviewerRecommendations
+);
+
+// POST /books/:id/revisions - Upload a revised PDF and open a new review round (Secretariat only)
+router.post(
+  '/:id/revisions',
+  authenticate,
+  authorize([UserRole.SECRETARIAT]),
+  upload.single('pdf'),
+  [body('notes').optional().isString().withMessage('Notes must be a string')],
+  bookController.submitRevision
+);
+
+// GET /books/:id/rounds - Round-by-round review history
+router.get('/:id/rounds', authenticate, bookController.getBookRounds);
+
 // GET /books/:id/aggregate - Compute & return aggregated stats
 router.get(
   '/:id/aggregate',
@@ -98,18 +164,64 @@ router.get(
   bookController.getAggregateStats
 );
 
-// POST /books/:id/decision - Committee records final decision
+// GET /books/:id/decision-session - Current committee vote with its live tally
+router.get(
+  '/:id/decision-session',
+  authenticate,
+  authorize([UserRole.SECRETARIAT, UserRole.COMMITTEE, UserRole.ADMIN]),
+  decisionSessionController.getDecisionSession
+);
+
+// POST /books/:id/decision-session - Open a committee vote on a reviewed book (Committee only)
+router.post(
+  '/:id/decision-session',
+  authenticate,
+  authorize([UserRole.COMMITTEE]),
+  decisionSessionController.openDecisionSession
+);
+
+// POST /books/:id/decision-session/votes - Cast or change a vote (Committee only)
 router.post(
-  '/:id/decision',
+  '/:id/decision-session/votes',
   authenticate,
   authorize([UserRole.COMMITTEE]),
   [
-    body('decision')
-      .isIn(['APPROVED', 'REJECTED', 'NEEDS_REVISION'])
-      .withMessage('Valid decision is required'),
-    body('rationale').notEmpty().withMessage('Rationale is required'),
+    body('vote')
+      .isIn(VOTE_CHOICES)
+      .withMessage('Vote must be APPROVED, REJECTED, NEEDS_REVISION, ABSTAIN or RECUSE'),
+    body('rationale')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Rationale is required'),
+  ],
+  decisionSessionController.castVote
+);
+
+// POST /books/:id/decision-session/cancel - Close an open vote without a decision (Admin)
+router.post(
+  '/:id/decision-session/cancel',
+  authenticate,
+  authorize([UserRole.ADMIN]),
+  decisionSessionController.cancelDecisionSession
+);
+
+// POST /books/:id/approval - Suspend, revoke, reinstate or reopen an approval (Committee/Admin)
+router.post(
+  '/:id/approval',
+  authenticate,
+  authorize([UserRole.COMMITTEE, UserRole.ADMIN]),
+  [
+    body('action')
+      .isIn(APPROVAL_ACTIONS)
+      .withMessage('Action must be SUSPEND, REVOKE, REINSTATE or REOPEN'),
+    body('rationale')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Rationale is required'),
   ],
-  bookController.recordDecision
+  bookController.changeApprovalStatus
 );
 
 export default router;
\ No newline at end of file
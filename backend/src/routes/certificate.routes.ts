@@ -0,0 +1,33 @@
+import express from 'express';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import * as certificateController from '../controllers/certificate.controller';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = express.Router();
+
+// GET /certificates/verify/:serial - Check a certificate's authenticity and status (no auth required)
+router.get('/verify/:serial', certificateController.verifyCertificate);
+
+// GET /certificates/books/:bookId.pdf - Download a book's approval certificate
+router.get(
+  '/books/:bookId.pdf',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT, UserRole.COMMITTEE]),
+  certificateController.downloadBookCertificate
+);
+
+// GET /certificates/books/:bookId - A book's approval certificate details
+router.get(
+  '/books/:bookId',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT, UserRole.COMMITTEE]),
+  certificateController.getBookCertificate
+);
+
+export default router;
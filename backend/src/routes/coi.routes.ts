@@ -8,7 +8,7 @@ const router = Router();
 // Validation middleware
 const coiValidation = [
   body('assignment_id').notEmpty().withMessage('Assignment ID is required'),
-  body('has_conflict').isBoolean().withMessage('Has conflict must be a boolean'),
+  body('has_conflict').isBoolean().withMessage('Has conflict must be a boolean').toBoolean(),
   body('conflict_details').optional().isString().withMessage('Conflict details must be a string'),
 ];
 
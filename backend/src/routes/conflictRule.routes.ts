@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { getConflictRuleConfig, updateConflictRuleConfig } from '../controllers/conflictRule.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = Router();
+
+const threshold = (field: string) =>
+  body(field).isFloat({ min: 0, max: 100 }).withMessage(`${field} must be a number between 0 and 100`);
+
+const keyword = (field: string) =>
+  body(field).isString().trim().isLength({ min: 1, max: 50 }).withMessage('Keywords must be between 1 and 50 characters');
+
+const configValidation = [
+  body('score_spread.enabled').isBoolean().withMessage('score_spread.enabled must be a boolean'),
+  threshold('score_spread.variance_threshold'),
+  threshold('score_spread.range_threshold'),
+  body('score_spread.criteria').optional().isObject().withMessage('score_spread.criteria must map criterion codes to overrides'),
+  body('score_spread.criteria.*.enabled').optional().isBoolean().withMessage('Criterion override enabled must be a boolean'),
+  body('score_spread.criteria.*.variance_threshold')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Criterion variance threshold must be a number between 0 and 100'),
+  body('score_spread.criteria.*.range_threshold')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Criterion range threshold must be a number between 0 and 100'),
+  body('opposing_recommendations.enabled').isBoolean().withMessage('opposing_recommendations.enabled must be a boolean'),
+  threshold('opposing_recommendations.approve_min_score'),
+  threshold('opposing_recommendations.reject_max_score'),
+  body('outlier_reviewer.enabled').isBoolean().withMessage('outlier_reviewer.enabled must be a boolean'),
+  body('outlier_reviewer.min_reviewers')
+    .isInt({ min: 3, max: 50 })
+    .withMessage('outlier_reviewer.min_reviewers must be a whole number between 3 and 50'),
+  threshold('outlier_reviewer.distance_threshold'),
+  body('sentiment_mismatch.enabled').isBoolean().withMessage('sentiment_mismatch.enabled must be a boolean'),
+  body('sentiment_mismatch.positive_keywords').isArray().withMessage('positive_keywords must be a list of words'),
+  body('sentiment_mismatch.negative_keywords').isArray().withMessage('negative_keywords must be a list of words'),
+  keyword('sentiment_mismatch.positive_keywords.*'),
+  keyword('sentiment_mismatch.negative_keywords.*'),
+  threshold('sentiment_mismatch.high_score_min'),
+  threshold('sentiment_mismatch.low_score_max'),
+];
+
+// GET /conflict-rules - Rules that raise conflict flags on reviews
+router.get(
+  '/',
+  authenticate,
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT]),
+  getConflictRuleConfig
+);
+
+// PUT /conflict-rules - Configure the conflict rules (Admin)
+router.put('/', authenticate, authorize([UserRole.ADMIN]), configValidation, updateConflictRuleConfig);
+
+export default router;
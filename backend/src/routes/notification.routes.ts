@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  getMyNotifications,
+  streamNotifications,
+  markNotificationRead,
+  markNotificationsRead,
+} from '../controllers/notification.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+const bulkReadValidation = [
+  body('ids').optional().isArray({ max: 500 }).withMessage('IDs must be an array'),
+  body('ids.*').optional().isString().withMessage('Each ID must be a string'),
+];
+
+// Routes
+router.get('/', authenticate, getMyNotifications);
+router.get('/stream', authenticate, streamNotifications);
+router.post('/read', authenticate, bulkReadValidation, markNotificationsRead);
+router.patch('/:notificationId/read', authenticate, markNotificationRead);
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import {
+  getNotificationTemplates,
+  updateNotificationTemplate,
+  resetNotificationTemplate,
+  previewNotificationTemplate,
+} from '../controllers/notificationTemplate.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { TEMPLATE_LANGUAGES } from '../services/notificationTemplate.service';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = Router();
+
+const channels = ['EMAIL', 'SMS', 'WHATSAPP', 'IN_APP'];
+
+const keyValidation = [
+  param('channel').isIn(channels).withMessage('Invalid channel'),
+  param('language').isIn(TEMPLATE_LANGUAGES).withMessage('Unsupported language'),
+];
+
+const templateValidation = [
+  ...keyValidation,
+  body('subject').optional({ nullable: true }).isString().isLength({ max: 200 }).withMessage('Subject is too long'),
+  body('body').isString().notEmpty().withMessage('Template body is required'),
+  body('body').isLength({ max: 20000 }).withMessage('Template body is too long'),
+];
+
+const previewValidation = [
+  body('event').isString().withMessage('Event is required'),
+  body('channel').isIn(channels).withMessage('Invalid channel'),
+  body('language').isIn(TEMPLATE_LANGUAGES).withMessage('Unsupported language'),
+  body('subject').optional({ nullable: true }).isString(),
+  body('body').optional().isString(),
+  body('variables').optional().isObject().withMessage('Variables must be an object'),
+];
+
+// Template management is restricted to admins
+router.use(authenticate, authorize([UserRole.ADMIN]));
+
+// Routes
+router.get('/', getNotificationTemplates);
+router.post('/preview', previewValidation, previewNotificationTemplate);
+router.put('/:event/:channel/:language', templateValidation, updateNotificationTemplate);
+router.delete('/:event/:channel/:language', keyValidation, resetNotificationTemplate);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { getOutboxMessages, getOutboxMessage, clearOutbox } from '../controllers/outbox.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = Router();
+
+const channels = ['EMAIL', 'SMS', 'WHATSAPP'];
+
+const listValidation = [
+  query('channel').optional().isIn(channels).withMessage('Invalid channel'),
+  query('search').optional().isString().isLength({ max: 200 }),
+  query('event').optional().isString(),
+  query('reminder_id').optional().isUUID().withMessage('Invalid reminder ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+];
+
+// The outbox holds captured messages, verification codes included, so it is admin only
+router.use(authenticate, authorize([UserRole.ADMIN]));
+
+// Routes
+router.get('/', listValidation, getOutboxMessages);
+router.get('/:id', getOutboxMessage);
+router.delete('/', query('channel').optional().isIn(channels).withMessage('Invalid channel'), clearOutbox);
+
+export default router;
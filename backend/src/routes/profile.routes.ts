@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  getMyProfile,
+  updateMyContact,
+  sendContactVerification,
+  confirmContact,
+  updateMyPreferences,
+} from '../controllers/profile.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { NOTIFICATION_EVENTS, SUPPORTED_LANGUAGES } from '../services/contactProfile.service';
+
+const router = Router();
+
+const E164 = /^\+[1-9]\d{7,14}$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isPhoneNumber = (value: string) => {
+  if (value && !E164.test(value.replace(/[\s\-().]/g, ''))) {
+    throw new Error('Phone numbers must be in international format, e.g. +919876543210');
+  }
+  return true;
+};
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    throw new Error('Unknown timezone');
+  }
+};
+
+const contactValidation = [
+  body('phone').optional({ nullable: true }).isString().custom(isPhoneNumber),
+  body('whatsapp_number').optional({ nullable: true }).isString().custom(isPhoneNumber),
+  body('preferred_language').optional().isIn(SUPPORTED_LANGUAGES).withMessage('Unsupported language'),
+  body('timezone').optional().isString().custom(isTimeZone),
+  body('quiet_hours_start')
+    .optional({ nullable: true, checkFalsy: true })
+    .matches(TIME_OF_DAY)
+    .withMessage('Quiet hours must use HH:mm'),
+  body('quiet_hours_end')
+    .optional({ nullable: true, checkFalsy: true })
+    .matches(TIME_OF_DAY)
+    .withMessage('Quiet hours must use HH:mm'),
+];
+
+const channelValidation = [
+  body('channel').isIn(['SMS', 'WHATSAPP']).withMessage('Channel must be SMS or WHATSAPP'),
+];
+
+const confirmValidation = [
+  ...channelValidation,
+  body('code').matches(/^\d{6}$/).withMessage('Code must be 6 digits'),
+];
+
+const preferencesValidation = [
+  body('preferences').isArray({ min: 1 }).withMessage('Preferences must be a non-empty array'),
+  body('preferences.*.event').isIn(NOTIFICATION_EVENTS).withMessage('Invalid event'),
+  body('preferences.*.email').isBoolean().withMessage('email must be a boolean'),
+  body('preferences.*.sms').isBoolean().withMessage('sms must be a boolean'),
+  body('preferences.*.whatsapp').isBoolean().withMessage('whatsapp must be a boolean'),
+  body('preferences.*.in_app').isBoolean().withMessage('in_app must be a boolean'),
+];
+
+// Routes
+router.get('/', authenticate, getMyProfile);
+router.put('/contact', authenticate, contactValidation, updateMyContact);
+router.post('/contact/verify', authenticate, channelValidation, sendContactVerification);
+router.post('/contact/confirm', authenticate, confirmValidation, confirmContact);
+router.put('/preferences', authenticate, preferencesValidation, updateMyPreferences);
+
+export default router;
@@ -17,7 +17,7 @@ const reminderValidation = [
   body('type').isIn(['ASSIGNMENT_DUE', 'ASSIGNMENT_OVERDUE', 'REVIEW_SUBMISSION_REMINDER', 'COMMITTEE_DECISION_DUE', 'CUSTOM']).withMessage('Invalid reminder type'),
   body('message').notEmpty().withMessage('Message is required'),
   body('scheduled_for').isISO8601().withMessage('Scheduled date must be a valid ISO 8601 date'),
-  body('channel').isIn(['EMAIL', 'SMS', 'WHATSAPP', 'IN_APP']).withMessage('Invalid channel'),
+  body('channel').optional().isIn(['EMAIL', 'SMS', 'WHATSAPP', 'IN_APP']).withMessage('Invalid channel'),
   body('assignment_id').optional().isString().withMessage('Assignment ID must be a string'),
   body('metadata').optional().isString().withMessage('Metadata must be a JSON string'),
 ];
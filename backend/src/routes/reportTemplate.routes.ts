@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  getReportTemplates,
+  getReportTemplateById,
+  createReportTemplate,
+  updateReportTemplate,
+  deleteReportTemplate,
+  previewReportTemplate,
+} from '../controllers/reportTemplate.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { REPORT_LANGUAGES, REPORT_SECTIONS } from '../services/reportTemplate';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = Router();
+
+// Layout settings; anything left out takes the default
+const templateDataValidation = [
+  body('template_data').optional().isObject().withMessage('Template data must be an object'),
+  body('template_data.sections')
+    .optional()
+    .isArray({ min: 1, max: REPORT_SECTIONS.length })
+    .withMessage('Choose at least one section'),
+  body('template_data.sections.*').isIn(REPORT_SECTIONS).withMessage('Unknown report section'),
+  body('template_data.language').optional().isIn(REPORT_LANGUAGES).withMessage('Unsupported language'),
+  body('template_data.show_reviewer_names')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('show_reviewer_names must be a boolean'),
+  body('template_data.watermark')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 60 })
+    .withMessage('Watermark must be text of at most 60 characters'),
+  body('template_data.branding').optional().isObject().withMessage('Branding must be an object'),
+  body(['template_data.branding.logo_text', 'template_data.branding.organization', 'template_data.branding.header_text'])
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Branding text must be at most 200 characters'),
+  body('template_data.branding.footer_text')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Footer text must be at most 1000 characters'),
+];
+
+const createValidation = [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name is required (at most 100 characters)'),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  body('is_active').optional().isBoolean({ strict: true }).withMessage('is_active must be a boolean'),
+  body('template_data').isObject().withMessage('Template data is required'),
+  ...templateDataValidation,
+];
+
+const updateValidation = [
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be 1-100 characters'),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  body('is_active').optional().isBoolean({ strict: true }).withMessage('is_active must be a boolean'),
+  ...templateDataValidation,
+];
+
+const previewValidation = [
+  body('template_id').optional().isUUID().withMessage('Invalid template ID'),
+  ...templateDataValidation,
+];
+
+router.use(authenticate);
+
+// Routes
+router.get('/', authorize([UserRole.ADMIN, UserRole.SECRETARIAT, UserRole.COMMITTEE]), getReportTemplates);
+router.post(
+  '/preview',
+  authorize([UserRole.ADMIN, UserRole.SECRETARIAT, UserRole.COMMITTEE]),
+  previewValidation,
+  previewReportTemplate
+);
+router.get('/:id', authorize([UserRole.ADMIN, UserRole.SECRETARIAT, UserRole.COMMITTEE]), getReportTemplateById);
+router.post('/', authorize([UserRole.ADMIN]), createValidation, createReportTemplate);
+router.put('/:id', authorize([UserRole.ADMIN]), updateValidation, updateReportTemplate);
+router.delete('/:id', authorize([UserRole.ADMIN]), deleteReportTemplate);
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import { body } from 'express-validator';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import * as reviewController from '../controllers/review.controller';
+import { RECOMMENDATIONS } from '../services/reviewForm';
 
 enum UserRole {
   ADMIN = "ADMIN",
@@ -27,6 +28,51 @@ router.post(
     body('draft_flag')
       .isBoolean()
       .withMessage('Draft flag must be a boolean'),
+    body('recommendation')
+      .optional({ nullable: true })
+      .isIn(RECOMMENDATIONS)
+      .withMessage(`Recommendation must be one of ${RECOMMENDATIONS.join(', ')}`),
+    body('summary')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 5000 })
+      .withMessage('Summary must be text of at most 5000 characters'),
+    body('required_changes')
+      .optional()
+      .isArray({ max: 100 })
+      .withMessage('Required changes must be a list of at most 100 items'),
+    body('required_changes.*.description')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Each required change needs a description of at most 2000 characters'),
+    body('required_changes.*.criterion_code')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Criterion code must be a string'),
+    body('required_changes.*.pages')
+      .optional()
+      .isArray({ max: 50 })
+      .withMessage('Pages must be a list of page numbers'),
+    body('required_changes.*.pages.*')
+      .isInt({ min: 1 })
+      .withMessage('Page numbers must be positive whole numbers'),
+    body('page_references')
+      .optional()
+      .isArray({ max: 500 })
+      .withMessage('Page references must be a list of at most 500 items'),
+    body('page_references.*.page')
+      .isInt({ min: 1 })
+      .withMessage('Page numbers must be positive whole numbers'),
+    body('page_references.*.note')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Each page reference needs a note of at most 2000 characters'),
+    body('page_references.*.criterion_code')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Criterion code must be a string'),
   ],
   reviewController.submitReview
 );
@@ -0,0 +1,100 @@
+import express from 'express';
+import { body } from 'express-validator';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import * as userController from '../controllers/user.controller';
+
+enum UserRole {
+  ADMIN = "ADMIN",
+  SECRETARIAT = "SECRETARIAT",
+  REVIEWER = "REVIEWER",
+  COMMITTEE = "COMMITTEE"
+}
+
+const router = express.Router();
+
+const roles = Object.values(UserRole);
+
+// All user management is restricted to admins
+router.use(authenticate, authorize([UserRole.ADMIN]));
+
+// GET /users - List users (?role=, ?status=active|inactive, ?search=)
+router.get('/', userController.getUsers);
+
+// GET /users/two-factor-policy - Roles that must use 2FA
+router.get('/two-factor-policy', userController.getTwoFactorPolicy);
+
+// PUT /users/two-factor-policy - Choose the roles that must use 2FA
+router.put(
+  '/two-factor-policy',
+  [
+    body('required_roles').isArray().withMessage('required_roles must be an array'),
+    body('required_roles.*').isIn(roles).withMessage('Valid role is required'),
+  ],
+  userController.updateTwoFactorPolicy
+);
+
+// GET /users/:id - Get a specific user
+router.get('/:id', userController.getUserById);
+
+// POST /users - Create a user; a temporary password is generated when none is given
+router.post(
+  '/',
+  [
+    body('name').notEmpty().withMessage('Name is required'),
+    body('email').isEmail().withMessage('Please provide a valid email'),
+    body('role').isIn(roles).withMessage('Valid role is required'),
+    body('institution').optional().isString().withMessage('Institution must be a string'),
+    body('password')
+      .optional()
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters'),
+  ],
+  userController.createUser
+);
+
+// PATCH /users/:id - Update name, email or institution
+router.patch(
+  '/:id',
+  [
+    body('name').optional().notEmpty().withMessage('Name cannot be empty'),
+    body('email').optional().isEmail().withMessage('Please provide a valid email'),
+    body('institution').optional({ nullable: true }).isString().withMessage('Institution must be a string'),
+  ],
+  userController.updateUser
+);
+
+// PATCH /users/:id/role - Change a user's role
+router.patch(
+  '/:id/role',
+  [body('role').isIn(roles).withMessage('Valid role is required')],
+  userController.changeUserRole
+);
+
+// POST /users/:id/deactivate - Block sign-in without deleting history
+router.post('/:id/deactivate', userController.deactivateUser);
+
+// POST /users/:id/reactivate - Restore a deactivated user
+router.post('/:id/reactivate', userController.reactivateUser);
+
+// POST /users/:id/reset-password - Set or generate a new password
+router.post(
+  '/:id/reset-password',
+  [
+    body('password')
+      .optional()
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters'),
+  ],
+  userController.resetUserPassword
+);
+
+// POST /users/:id/2fa/reset - Clear a user's 2FA, e.g. after a lost phone
+router.post('/:id/2fa/reset', userController.resetUserTwoFactor);
+
+// GET /users/:id/sessions - List a user's signed-in devices
+router.get('/:id/sessions', userController.getUserSessions);
+
+// DELETE /users/:id/sessions/:sessionId - Sign a user out of one device
+router.delete('/:id/sessions/:sessionId', userController.revokeUserSession);
+
+export default router;
@@ -0,0 +1,51 @@
+// What suspending, revoking, reinstating and reopening an approval does to the
+// book and its certificates. No database access, so the rules can be tested directly.
+
+export type ApprovalActionType = 'SUSPEND' | 'REVOKE' | 'REINSTATE' | 'REOPEN';
+
+export const APPROVAL_ACTIONS: ApprovalActionType[] = ['SUSPEND', 'REVOKE', 'REINSTATE', 'REOPEN'];
+
+// Reopening sends a suspended book back to PENDING_REVIEW for a new round
+export type ApprovedBookStatus = 'APPROVED' | 'SUSPENDED' | 'REVOKED' | 'PENDING_REVIEW';
+
+const TRANSITIONS: Record<ApprovalActionType, { from: ApprovedBookStatus[]; to: ApprovedBookStatus }> = {
+  SUSPEND: { from: ['APPROVED'], to: 'SUSPENDED' },
+  REVOKE: { from: ['APPROVED', 'SUSPENDED'], to: 'REVOKED' },
+  REINSTATE: { from: ['SUSPENDED', 'REVOKED'], to: 'APPROVED' },
+  REOPEN: { from: ['SUSPENDED'], to: 'PENDING_REVIEW' },
+};
+
+// Past tense used in audit actions, notifications and notices
+export const APPROVAL_ACTION_LABELS: Record<ApprovalActionType, string> = {
+  SUSPEND: 'suspended',
+  REVOKE: 'revoked',
+  REINSTATE: 'reinstated',
+  REOPEN: 'reopened',
+};
+
+/**
+ * Status the book moves to, or null when the action does not apply to a book
+ * in its current status
+ */
+export function approvalTransition(action: ApprovalActionType, currentStatus: string): ApprovedBookStatus | null {
+  const transition = TRANSITIONS[action];
+  return (transition.from as string[]).includes(currentStatus) ? transition.to : null;
+}
+
+/**
+ * Fields to set on the book's certificates. Revoking clears a suspension and
+ * reinstating clears both, so a certificate only ever reports one state.
+ * Reopening leaves them suspended until the re-review is decided.
+ */
+export function certificateUpdateFor(action: ApprovalActionType, rationale: string, at: Date) {
+  switch (action) {
+    case 'SUSPEND':
+      return { suspended_at: at, suspension_reason: rationale };
+    case 'REVOKE':
+      return { suspended_at: null, suspension_reason: null, revoked_at: at, revocation_reason: rationale };
+    case 'REINSTATE':
+      return { suspended_at: null, suspension_reason: null, revoked_at: null, revocation_reason: null };
+    case 'REOPEN':
+      return {};
+  }
+}
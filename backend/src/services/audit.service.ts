@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import {
+  AUDIT_HASH_ALGORITHM,
+  AUDIT_SIGNATURE_ALGORITHM,
+  ChainBreak,
+  computeAuditHash,
+  findChainBreak,
+  normalizeDetails,
+  publicKeyFingerprint,
+  signPayload,
+} from './auditChain';
+
+// Arbitrary constant identifying the advisory lock that serializes chain appends
+const AUDIT_CHAIN_LOCK_ID = 7340211;
+const VERIFY_BATCH_SIZE = 1000;
+// Set by the migration that introduced chaining: entries up to here predate hashing
+const LEGACY_SEQUENCE_KEY = 'audit_chain_legacy_sequence';
+
+// PKCS#8 DER prefix for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+export interface AuditEntryInput {
+  actor_id: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  details?: unknown;
+}
+
+const chainSelect = {
+  id: true,
+  sequence: true,
+  actor_id: true,
+  action: true,
+  target_type: true,
+  target_id: true,
+  timestamp: true,
+  details: true,
+  prev_hash: true,
+  hash: true,
+};
+
+/**
+ * Append an entry to the audit log, linking it to the previous entry's hash.
+ * Appends are serialized with a transaction-scoped advisory lock so two
+ * concurrent writers cannot both claim the same predecessor.
+ */
+export async function recordAuditLog(entry: AuditEntryInput) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`;
+
+    const last = await tx.auditLog.findFirst({
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+
+    const details = normalizeDetails(entry.details);
+    const chained = {
+      sequence: (last?.sequence ?? 0) + 1,
+      actor_id: entry.actor_id,
+      action: entry.action,
+      target_type: entry.target_type,
+      target_id: entry.target_id,
+      timestamp: new Date(),
+      details,
+      prev_hash: last?.hash ?? null,
+    };
+
+    return tx.auditLog.create({
+      data: {
+        ...chained,
+        details: details === null ? undefined : (details as object),
+        hash: computeAuditHash(chained),
+      },
+    });
+  });
+}
+
+/**
+ * Ed25519 key used to sign exports. Without AUDIT_SIGNING_PRIVATE_KEY a key is
+ * derived from JWT_SECRET so development setups still produce verifiable exports.
+ */
+const getSigningKey = () => {
+  if (process.env.AUDIT_SIGNING_PRIVATE_KEY) {
+    return crypto.createPrivateKey(process.env.AUDIT_SIGNING_PRIVATE_KEY.replace(/\\n/g, '\n'));
+  }
+
+  const seed = crypto
+    .createHash('sha256')
+    .update(`${process.env.JWT_SECRET || 'fallback-secret'}:audit-signing`)
+    .digest();
+
+  return crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+};
+
+/**
+ * Public half of the export signing key, for pinning by offline verifiers
+ */
+export function getAuditSigningPublicKey() {
+  const publicKey = crypto
+    .createPublicKey(getSigningKey())
+    .export({ type: 'spki', format: 'pem' })
+    .toString();
+
+  return {
+    algorithm: AUDIT_SIGNATURE_ALGORITHM,
+    public_key: publicKey,
+    fingerprint: publicKeyFingerprint(publicKey),
+  };
+}
+
+/**
+ * Recompute the whole chain and report the first broken link.
+ *
+ * Entries written before chaining was introduced have no hash; they are only
+ * accepted as the prefix recorded by the migration.
+ */
+export async function verifyAuditChain() {
+  const legacySetting = await prisma.systemSetting.findUnique({
+    where: { key: LEGACY_SEQUENCE_KEY },
+  });
+  const legacySequence = typeof legacySetting?.value === 'number' ? legacySetting.value : 0;
+
+  let legacyEntries = 0;
+  let checkedEntries = 0;
+  let previous: { sequence: number; hash: string | null } | null = null;
+  let cursor = 0;
+  let firstBreak: ChainBreak | null = null;
+
+  for (;;) {
+    const batch = await prisma.auditLog.findMany({
+      where: { sequence: { gt: cursor } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+      select: chainSelect,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    let startIndex = 0;
+    if (previous === null) {
+      // Skip the legacy prefix
+      while (
+        startIndex < batch.length &&
+        !batch[startIndex].hash &&
+        batch[startIndex].sequence <= legacySequence
+      ) {
+        startIndex++;
+      }
+      legacyEntries += startIndex;
+    }
+
+    const segment = batch.slice(startIndex);
+    firstBreak = findChainBreak(segment, previous);
+
+    if (firstBreak) {
+      checkedEntries += segment.findIndex((entry) => entry.id === firstBreak!.id);
+      break;
+    }
+
+    checkedEntries += segment.length;
+    if (segment.length > 0) {
+      previous = segment[segment.length - 1];
+    }
+    cursor = batch[batch.length - 1].sequence;
+  }
+
+  return {
+    valid: firstBreak === null,
+    checked_entries: checkedEntries,
+    legacy_entries: legacyEntries,
+    first_break: firstBreak,
+    head: previous && firstBreak === null ? { sequence: previous.sequence, hash: previous.hash } : null,
+    verified_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Signed export of the entries in a date range. The entry just before the range
+ * is included as the anchor so the first link can be checked without the rest
+ * of the log.
+ */
+export async function exportAuditRange(from: Date, to: Date, exportedBy: string) {
+  // Export a contiguous run of sequences so no link inside the range is skipped
+  const [first, last] = await Promise.all([
+    prisma.auditLog.findFirst({
+      where: { timestamp: { gte: from, lte: to } },
+      orderBy: { sequence: 'asc' },
+      select: { sequence: true },
+    }),
+    prisma.auditLog.findFirst({
+      where: { timestamp: { gte: from, lte: to } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true },
+    }),
+  ]);
+
+  const entries =
+    first && last
+      ? await prisma.auditLog.findMany({
+          where: { sequence: { gte: first.sequence, lte: last.sequence } },
+          orderBy: { sequence: 'asc' },
+          select: chainSelect,
+        })
+      : [];
+
+  const anchor = entries.length
+    ? await prisma.auditLog.findFirst({
+        where: { sequence: { lt: entries[0].sequence } },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true },
+      })
+    : null;
+
+  const { public_key, fingerprint } = getAuditSigningPublicKey();
+
+  const payload = {
+    format: 'ncism-audit-export/1',
+    hash_algorithm: AUDIT_HASH_ALGORITHM,
+    signature_algorithm: AUDIT_SIGNATURE_ALGORITHM,
+    range: { from: from.toISOString(), to: to.toISOString() },
+    exported_at: new Date().toISOString(),
+    exported_by: exportedBy,
+    anchor: anchor ? { sequence: anchor.sequence, hash: anchor.hash } : null,
+    entry_count: entries.length,
+    entries: entries.map((entry) => ({
+      ...entry,
+      timestamp: entry.timestamp.toISOString(),
+    })),
+    public_key,
+    key_fingerprint: fingerprint,
+  };
+
+  return {
+    ...payload,
+    signature: signPayload(payload, getSigningKey()),
+  };
+}
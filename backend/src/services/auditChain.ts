@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+
+// Hashing and signing for the audit log chain. This module has no database
+// access so the offline export verifier can use exactly the same code.
+
+export const AUDIT_HASH_ALGORITHM = 'sha256';
+export const AUDIT_SIGNATURE_ALGORITHM = 'ed25519';
+
+export interface ChainedAuditEntry {
+  id: string;
+  sequence: number;
+  actor_id: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  timestamp: Date | string;
+  details: unknown;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+export type ChainBreakReason =
+  | 'HASH_MISMATCH'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'SEQUENCE_GAP'
+  | 'UNCHAINED_ENTRY';
+
+export interface ChainBreak {
+  sequence: number;
+  id: string;
+  reason: ChainBreakReason;
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same value always
+ * serializes to the same bytes regardless of how the database returns it
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Reduce details to what survives a round trip through a JSON column
+ * (Dates become ISO strings, undefined fields disappear)
+ */
+export function normalizeDetails(details: unknown): unknown {
+  return details === undefined ? null : JSON.parse(JSON.stringify(details));
+}
+
+/**
+ * Hash of an entry's content together with the previous entry's hash
+ */
+export function computeAuditHash(entry: Omit<ChainedAuditEntry, 'id' | 'hash'>): string {
+  const timestamp = entry.timestamp instanceof Date ? entry.timestamp.toISOString() : entry.timestamp;
+
+  return crypto
+    .createHash(AUDIT_HASH_ALGORITHM)
+    .update(
+      canonicalJson([
+        entry.sequence,
+        entry.actor_id,
+        entry.action,
+        entry.target_type,
+        entry.target_id,
+        new Date(timestamp).toISOString(),
+        entry.details,
+        entry.prev_hash,
+      ])
+    )
+    .digest('hex');
+}
+
+/**
+ * Walk consecutive entries and return the first link that does not hold.
+ * `previous` is the entry just before the segment (null at the start of the chain).
+ */
+export function findChainBreak(
+  entries: ChainedAuditEntry[],
+  previous: Pick<ChainedAuditEntry, 'sequence' | 'hash'> | null
+): ChainBreak | null {
+  let last = previous;
+
+  for (const entry of entries) {
+    if (!entry.hash) {
+      return { sequence: entry.sequence, id: entry.id, reason: 'UNCHAINED_ENTRY' };
+    }
+
+    if (last && entry.sequence !== last.sequence + 1) {
+      return { sequence: entry.sequence, id: entry.id, reason: 'SEQUENCE_GAP' };
+    }
+
+    if (entry.prev_hash !== (last?.hash ?? null)) {
+      return { sequence: entry.sequence, id: entry.id, reason: 'PREVIOUS_HASH_MISMATCH' };
+    }
+
+    if (computeAuditHash(entry) !== entry.hash) {
+      return { sequence: entry.sequence, id: entry.id, reason: 'HASH_MISMATCH' };
+    }
+
+    last = entry;
+  }
+
+  return null;
+}
+
+/**
+ * Short, human-comparable identifier of a public key
+ */
+export function publicKeyFingerprint(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 32);
+}
+
+export function signPayload(payload: unknown, privateKey: crypto.KeyObject): string {
+  return crypto.sign(null, Buffer.from(canonicalJson(payload)), privateKey).toString('base64');
+}
+
+export function verifyPayloadSignature(payload: unknown, signature: string, publicKeyPem: string): boolean {
+  return crypto.verify(
+    null,
+    Buffer.from(canonicalJson(payload)),
+    crypto.createPublicKey(publicKeyPem),
+    Buffer.from(signature, 'base64')
+  );
+}
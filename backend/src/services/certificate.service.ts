@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { ApprovalCertificate } from '@prisma/client';
+import puppeteer from 'puppeteer';
+import QRCode from 'qrcode';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { publicKeyFingerprint, signPayload, verifyPayloadSignature } from './auditChain';
+import {
+  certificatePayload,
+  certificateVerifyPath,
+  generateCertificateSerial,
+  renderCertificateHtml,
+} from './certificate';
+import { appLink } from './notificationTemplate.service';
+
+/**
+ * Whether a certificate signing key is configured. Unlike audit exports there
+ * is no key derived from JWT_SECRET: rotating that secret would invalidate
+ * every certificate, and the default secret would let anyone forge one.
+ */
+export const certificateSigningConfigured = () => !!process.env.CERTIFICATE_SIGNING_PRIVATE_KEY;
+
+const getCertificateSigningKey = () => {
+  const pem = process.env.CERTIFICATE_SIGNING_PRIVATE_KEY;
+  if (!pem) {
+    throw new AppError('Certificate signing is not configured (CERTIFICATE_SIGNING_PRIVATE_KEY)', 503);
+  }
+  return crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+};
+
+/**
+ * Record the public half of a signing key under its fingerprint, so
+ * certificates it signed still verify after the key is rotated
+ */
+async function registerSigningKey(privateKey: crypto.KeyObject) {
+  const publicKey = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  const fingerprint = publicKeyFingerprint(publicKey);
+
+  await prisma.certificateSigningKey.upsert({
+    where: { fingerprint },
+    create: { fingerprint, public_key: publicKey },
+    update: {},
+  });
+
+  return fingerprint;
+}
+
+/**
+ * Issue the certificate for an approval decision, or return the one already
+ * issued. The book details are copied onto the certificate and signed.
+ */
+export async function issueApprovalCertificate(decisionId: string) {
+  const existing = await prisma.approvalCertificate.findUnique({
+    where: { decision_id: decisionId },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const decision = await prisma.committeeDecision.findUniqueOrThrow({
+    where: { id: decisionId },
+    include: {
+      book: true,
+      decider: { select: { name: true } },
+    },
+  });
+
+  const issuedAt = new Date();
+  const record = {
+    serial_number: generateCertificateSerial(issuedAt),
+    book_id: decision.book_id,
+    book_title: decision.book.title,
+    book_authors: decision.book.authors,
+    book_edition: decision.book.edition,
+    round_number: decision.round_number,
+    decided_at: decision.decided_at,
+    decided_by_name: decision.decider.name,
+    issued_at: issuedAt,
+  };
+
+  const signingKey = getCertificateSigningKey();
+  const fingerprint = await registerSigningKey(signingKey);
+
+  return prisma.approvalCertificate.create({
+    data: {
+      ...record,
+      decision_id: decisionId,
+      signature: signPayload(certificatePayload(record), signingKey),
+      key_fingerprint: fingerprint,
+    },
+  });
+}
+
+// Full URL of the public verification page for a certificate
+export const certificateVerifyUrl = (serialNumber: string) => appLink(certificateVerifyPath(serialNumber));
+
+/**
+ * Whether the stored certificate still matches its signature under the key
+ * recorded for its fingerprint when it was issued
+ */
+export async function isCertificateSignatureValid(certificate: ApprovalCertificate) {
+  const signingKey = await prisma.certificateSigningKey.findUnique({
+    where: { fingerprint: certificate.key_fingerprint },
+  });
+  if (!signingKey) {
+    return false;
+  }
+
+  try {
+    return verifyPayloadSignature(certificatePayload(certificate), certificate.signature, signingKey.public_key);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Print the certificate to PDF with a QR code linking to its verification page
+ */
+export async function renderCertificatePdf(certificate: ApprovalCertificate): Promise<Buffer> {
+  const verifyUrl = certificateVerifyUrl(certificate.serial_number);
+  const html = renderCertificateHtml(certificate, {
+    verify_url: verifyUrl,
+    qr_code_data_url: await QRCode.toDataURL(verifyUrl, { margin: 1, width: 260 }),
+    signature: certificate.signature,
+    key_fingerprint: certificate.key_fingerprint,
+  });
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  });
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'networkidle0' });
+    return await page.pdf({
+      format: 'A4',
+      landscape: true,
+      printBackground: true,
+    });
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,202 @@
+// Approval certificates: serial numbers, the signed payload and the HTML the
+// PDF is printed from. No database access, so it can be tested directly and
+// the payload is built the same way when issuing and when verifying.
+import crypto from 'crypto';
+
+export const CERTIFICATE_FORMAT = 'ncism-approval-certificate/1';
+
+export type CertificateStatus = 'VALID' | 'SUSPENDED' | 'REVOKED';
+
+export interface CertificateRecord {
+  serial_number: string;
+  book_id: string;
+  book_title: string;
+  book_authors: string;
+  book_edition: string;
+  round_number: number;
+  decided_at: Date | string;
+  decided_by_name: string;
+  issued_at: Date | string;
+  suspended_at?: Date | string | null;
+  revoked_at?: Date | string | null;
+}
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+/**
+ * Serial printed on the certificate, e.g. NCISM-2024-9F2C41A07B. The random
+ * part keeps serials from being guessed by counting.
+ */
+export function generateCertificateSerial(issuedAt: Date, random: Buffer = crypto.randomBytes(5)): string {
+  return `NCISM-${issuedAt.getUTCFullYear()}-${random.toString('hex').toUpperCase()}`;
+}
+
+/**
+ * The fields the signature covers
+ */
+export function certificatePayload(certificate: CertificateRecord) {
+  return {
+    format: CERTIFICATE_FORMAT,
+    serial_number: certificate.serial_number,
+    book_id: certificate.book_id,
+    book_title: certificate.book_title,
+    book_authors: certificate.book_authors,
+    book_edition: certificate.book_edition,
+    round_number: certificate.round_number,
+    decided_at: toIso(certificate.decided_at),
+    decided_by_name: certificate.decided_by_name,
+    issued_at: toIso(certificate.issued_at),
+  };
+}
+
+export function certificateStatus(certificate: Pick<CertificateRecord, 'suspended_at' | 'revoked_at'>): CertificateStatus {
+  if (certificate.revoked_at) {
+    return 'REVOKED';
+  }
+  return certificate.suspended_at ? 'SUSPENDED' : 'VALID';
+}
+
+// Path of the public verification page the QR code points to
+export const certificateVerifyPath = (serialNumber: string) => `/verify/${encodeURIComponent(serialNumber)}`;
+
+// Book details are entered by users, so everything printed is escaped
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export interface CertificateRenderOptions {
+  verify_url: string;
+  qr_code_data_url: string;
+  signature: string;
+  key_fingerprint: string;
+}
+
+/**
+ * HTML for the certificate, ready to print to PDF. Suspended and revoked
+ * certificates are still printable but carry their status as a watermark.
+ */
+export function renderCertificateHtml(certificate: CertificateRecord, options: CertificateRenderOptions): string {
+  const status = certificateStatus(certificate);
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <title>Approval Certificate ${escapeHtml(certificate.serial_number)}</title>
+      <style>
+        @page {
+          size: A4 landscape;
+          margin: 1cm;
+        }
+        body {
+          position: relative;
+          font-family: Georgia, 'Times New Roman', serif;
+          color: #1f2937;
+          margin: 0;
+        }
+        .frame {
+          border: 6px double #14532d;
+          padding: 36px 48px;
+          min-height: 15cm;
+        }
+        .watermark {
+          position: fixed;
+          top: 40%;
+          left: 0;
+          right: 0;
+          z-index: -1;
+          font-size: 120px;
+          color: rgba(220, 38, 38, 0.18);
+          transform: rotate(-25deg);
+          text-align: center;
+        }
+        .organization {
+          text-align: center;
+          font-size: 18px;
+          letter-spacing: 2px;
+          text-transform: uppercase;
+          color: #14532d;
+        }
+        h1 {
+          text-align: center;
+          font-size: 36px;
+          margin: 16px 0 24px;
+        }
+        .statement {
+          text-align: center;
+          font-size: 18px;
+          line-height: 1.7;
+        }
+        .title {
+          font-size: 26px;
+          font-weight: bold;
+        }
+        .details {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-end;
+          margin-top: 36px;
+          font-size: 14px;
+        }
+        .details td {
+          padding: 2px 12px 2px 0;
+        }
+        .verify {
+          text-align: center;
+          font-size: 11px;
+        }
+        .verify img {
+          width: 130px;
+          height: 130px;
+        }
+        .signature {
+          margin-top: 24px;
+          font-family: monospace;
+          font-size: 9px;
+          color: #6b7280;
+          word-break: break-all;
+        }
+      </style>
+    </head>
+    <body>
+      ${status !== 'VALID' ? `<div class="watermark">${status}</div>` : ''}
+      <div class="frame">
+        <div class="organization">National Commission for Indian System of Medicine</div>
+        <h1>Certificate of Approval</h1>
+        <div class="statement">
+          This is to certify that the textbook<br>
+          <span class="title">${escapeHtml(certificate.book_title)}</span><br>
+          by ${escapeHtml(certificate.book_authors)}, ${escapeHtml(certificate.book_edition)} edition,<br>
+          was approved by the NCISM Textbook Review Committee on ${formatDate(certificate.decided_at)}
+          after review round ${certificate.round_number}.
+        </div>
+
+        <div class="details">
+          <table>
+            <tr><td><strong>Serial number</strong></td><td>${escapeHtml(certificate.serial_number)}</td></tr>
+            <tr><td><strong>Decision recorded by</strong></td><td>${escapeHtml(certificate.decided_by_name)}</td></tr>
+            <tr><td><strong>Issued</strong></td><td>${formatDate(certificate.issued_at)}</td></tr>
+          </table>
+          <div class="verify">
+            <img src="${options.qr_code_data_url}" alt="Verification QR code">
+            <div>Scan or visit to verify</div>
+            <div>${escapeHtml(options.verify_url)}</div>
+          </div>
+        </div>
+
+        <div class="signature">
+          Ed25519 signature (key ${escapeHtml(options.key_fingerprint)}): ${escapeHtml(options.signature)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
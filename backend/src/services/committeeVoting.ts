@@ -0,0 +1,99 @@
+// Committee voting: the quorum and majority rules and the tally that decides
+// when a decision session has an outcome. No database access, so the rules
+// can be tested directly.
+
+export type CommitteeOutcome = 'APPROVED' | 'REJECTED' | 'NEEDS_REVISION';
+
+export type VoteChoice = CommitteeOutcome | 'ABSTAIN' | 'RECUSE';
+
+export const COMMITTEE_OUTCOMES: CommitteeOutcome[] = ['APPROVED', 'REJECTED', 'NEEDS_REVISION'];
+
+export const VOTE_CHOICES: VoteChoice[] = [...COMMITTEE_OUTCOMES, 'ABSTAIN', 'RECUSE'];
+
+export type MajorityRule = 'SIMPLE' | 'TWO_THIRDS' | 'UNANIMOUS';
+
+export const MAJORITY_RULES: MajorityRule[] = ['SIMPLE', 'TWO_THIRDS', 'UNANIMOUS'];
+
+export interface VotingRules {
+  // Share of members (after recusals) who must vote, abstentions included
+  quorum_percent: number;
+  // Share of the votes for an outcome (abstentions excluded) it needs to carry
+  majority: MajorityRule;
+}
+
+export const DEFAULT_VOTING_RULES: VotingRules = {
+  quorum_percent: 50,
+  majority: 'SIMPLE',
+};
+
+/**
+ * Complete rules from stored or submitted data, falling back to the defaults
+ */
+export function normalizeVotingRules(value: unknown): VotingRules {
+  const data = (value && typeof value === 'object' ? value : {}) as Partial<VotingRules>;
+  const quorum = Number(data.quorum_percent);
+
+  return {
+    quorum_percent:
+      Number.isFinite(quorum) && quorum > 0 && quorum <= 100 ? Math.round(quorum) : DEFAULT_VOTING_RULES.quorum_percent,
+    majority: MAJORITY_RULES.includes(data.majority as MajorityRule) ? (data.majority as MajorityRule) : DEFAULT_VOTING_RULES.majority,
+  };
+}
+
+/**
+ * Whether `votes` of `total` meet the majority rule
+ */
+const carries = (votes: number, total: number, majority: MajorityRule) => {
+  if (votes === 0) {
+    return false;
+  }
+  switch (majority) {
+    case 'SIMPLE':
+      return votes * 2 > total;
+    case 'TWO_THIRDS':
+      return votes * 3 >= total * 2;
+    case 'UNANIMOUS':
+      return votes === total;
+  }
+};
+
+export interface VoteTally {
+  counts: Record<VoteChoice, number>;
+  // Members still entitled to vote: everyone on the session less recusals
+  eligible: number;
+  voted: number;
+  outstanding: number;
+  quorum_required: number;
+  quorum_met: boolean;
+  leading: CommitteeOutcome | null;
+  // Set once the rules are satisfied; outstanding votes can no longer change it
+  outcome: CommitteeOutcome | null;
+}
+
+/**
+ * Count the votes cast so far. An outcome is reached once quorum is met and
+ * one outcome carries the majority even if every outstanding member voted
+ * against it, so the session can close without waiting for the last votes.
+ */
+export function tallyVotes(votes: { vote: VoteChoice }[], memberCount: number, rules: VotingRules): VoteTally {
+  const counts = Object.fromEntries(VOTE_CHOICES.map((choice) => [choice, 0])) as Record<VoteChoice, number>;
+  for (const { vote } of votes) {
+    counts[vote] += 1;
+  }
+
+  const eligible = Math.max(memberCount - counts.RECUSE, 0);
+  const voted = votes.length - counts.RECUSE;
+  const outstanding = Math.max(eligible - voted, 0);
+  const quorum_required = Math.max(Math.ceil((eligible * rules.quorum_percent) / 100), 1);
+  const quorum_met = eligible > 0 && voted >= quorum_required;
+
+  const ranked = [...COMMITTEE_OUTCOMES].sort((a, b) => counts[b] - counts[a]);
+  const leading = counts[ranked[0]] > counts[ranked[1]] ? ranked[0] : null;
+
+  // Worst case for the leader: every outstanding member votes for something else
+  const decisive = COMMITTEE_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+  const outcome =
+    quorum_met && leading && carries(counts[leading], decisive + outstanding, rules.majority) ? leading : null;
+
+  return { counts, eligible, voted, outstanding, quorum_required, quorum_met, leading, outcome };
+}
@@ -0,0 +1,122 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { notifyRoles } from './notification.service';
+import {
+  ConflictRuleConfig,
+  RuleReview,
+  evaluateConflictRules,
+  normalizeConflictRules,
+} from './conflictRules';
+
+const CONFLICT_RULES_KEY = 'conflict_detection_rules';
+
+/**
+ * The configured conflict rules, falling back to the defaults for anything missing
+ */
+export async function getConflictRules(): Promise<ConflictRuleConfig> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: CONFLICT_RULES_KEY },
+  });
+  return normalizeConflictRules(setting?.value);
+}
+
+export async function setConflictRules(config: ConflictRuleConfig, updatedBy: string): Promise<ConflictRuleConfig> {
+  const value = normalizeConflictRules(config) as unknown as Prisma.InputJsonValue;
+  await prisma.systemSetting.upsert({
+    where: { key: CONFLICT_RULES_KEY },
+    create: { key: CONFLICT_RULES_KEY, value, updated_by: updatedBy },
+    update: { value, updated_by: updatedBy },
+  });
+  return getConflictRules();
+}
+
+/**
+ * Evaluate the rules over a round's submitted reviews (the book's current
+ * round by default) and store the result. Unresolved rule flags from earlier
+ * runs are replaced; a flag already resolved for the same rule, criterion and
+ * round is not raised again.
+ */
+export async function runConflictRules(bookId: string, roundNumber?: number) {
+  const book = await prisma.book.findUniqueOrThrow({
+    where: { id: bookId },
+    select: { current_round: true },
+  });
+  const round = roundNumber ?? book.current_round;
+
+  const [reviews, criteria, config] = await Promise.all([
+    prisma.review.findMany({
+      where: { draft_flag: false, assignment: { book_id: bookId, round_number: round } },
+      include: { reviewer: { select: { id: true, name: true } } },
+    }),
+    prisma.criterion.findMany({ select: { code: true, label: true } }),
+    getConflictRules(),
+  ]);
+
+  const ruleReviews: RuleReview[] = reviews.map((review) => ({
+    reviewer_id: review.reviewer.id,
+    reviewer_name: review.reviewer.name,
+    scores: review.scores as Record<string, number>,
+    comments: (review.comments ?? {}) as Record<string, string>,
+    criterion_weights: review.criterion_weights as Record<string, number> | null,
+    recommendation: review.recommendation,
+  }));
+  const labels = Object.fromEntries(criteria.map((criterion) => [criterion.code, criterion.label]));
+  const flags = evaluateConflictRules(ruleReviews, config, labels);
+
+  const resolved = await prisma.conflictFlag.findMany({
+    where: { book_id: bookId, source: 'RULE', round_number: round, resolved: true },
+    select: { rule: true, criterion_code: true },
+  });
+  const alreadyResolved = new Set(resolved.map((flag) => `${flag.rule}:${flag.criterion_code ?? ''}`));
+
+  return prisma.$transaction(async (tx) => {
+    await tx.conflictFlag.deleteMany({
+      where: { book_id: bookId, source: 'RULE', round_number: round, resolved: false },
+    });
+
+    return Promise.all(
+      flags
+        .filter((flag) => !alreadyResolved.has(`${flag.rule}:${flag.criterion_code ?? ''}`))
+        .map((flag) =>
+          tx.conflictFlag.create({
+            data: {
+              book_id: bookId,
+              source: 'RULE',
+              rule: flag.rule,
+              round_number: round,
+              criterion_code: flag.criterion_code,
+              conflict_type: flag.type,
+              severity: flag.severity,
+              description: flag.description,
+              reviewer_ids: flag.reviewer_ids,
+              score_variance: flag.score_variance,
+            },
+          })
+        )
+    );
+  });
+}
+
+/**
+ * Tell the Secretariat and Committee that new conflicts were flagged on a book
+ */
+export async function notifyConflictsFlagged(
+  book: { id: string; title: string },
+  count: number,
+  exceptUserId?: string
+) {
+  if (count === 0) {
+    return;
+  }
+  await notifyRoles(
+    ['SECRETARIAT', 'COMMITTEE'],
+    {
+      type: 'CONFLICT_FLAGGED',
+      title: 'Reviewer conflicts flagged',
+      message: `${count} conflict${count === 1 ? '' : 's'} flagged between reviewers of "${book.title}".`,
+      link: `/books/${book.id}`,
+      book_id: book.id,
+    },
+    { exceptUserId }
+  );
+}
@@ -0,0 +1,390 @@
+import { Recommendation } from './reviewForm';
+import { CriterionWeights, scoreReview } from './scoring.service';
+
+// Deterministic conflict rules over a round's submitted reviews. This module has
+// no database access; conflictDetection.service loads the configuration and
+// reviews and stores the flags it returns.
+
+export type ConflictRuleKey = 'SCORE_SPREAD' | 'OPPOSING_RECOMMENDATIONS' | 'OUTLIER_REVIEWER' | 'SENTIMENT_MISMATCH';
+
+export type RuleConflictType =
+  | 'SCORE_VARIANCE'
+  | 'COMMENT_DISAGREEMENT'
+  | 'RECOMMENDATION_MISMATCH'
+  | 'CRITERION_SPECIFIC'
+  | 'OVERALL_DISAGREEMENT';
+
+export type RuleSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface CriterionSpreadOverride {
+  enabled?: boolean;
+  variance_threshold?: number;
+  range_threshold?: number;
+}
+
+export interface ConflictRuleConfig {
+  score_spread: {
+    enabled: boolean;
+    // Population variance and max - min at or above which a criterion is flagged
+    variance_threshold: number;
+    range_threshold: number;
+    // Per-criterion overrides keyed by criterion code
+    criteria: Record<string, CriterionSpreadOverride>;
+  };
+  opposing_recommendations: {
+    enabled: boolean;
+    // Reviews without a recorded recommendation are read from their weighted mean
+    approve_min_score: number;
+    reject_max_score: number;
+  };
+  outlier_reviewer: {
+    enabled: boolean;
+    min_reviewers: number;
+    // Distance between a reviewer's mean and the mean of the rest of the panel
+    distance_threshold: number;
+  };
+  sentiment_mismatch: {
+    enabled: boolean;
+    positive_keywords: string[];
+    negative_keywords: string[];
+    // Negative comments on a score at or above high_score_min, or positive
+    // comments on a score at or below low_score_max, are flagged
+    high_score_min: number;
+    low_score_max: number;
+  };
+}
+
+export const DEFAULT_CONFLICT_RULES: ConflictRuleConfig = {
+  score_spread: {
+    enabled: true,
+    variance_threshold: 1.5,
+    range_threshold: 3,
+    criteria: {},
+  },
+  opposing_recommendations: {
+    enabled: true,
+    approve_min_score: 3.5,
+    reject_max_score: 2.5,
+  },
+  outlier_reviewer: {
+    enabled: true,
+    min_reviewers: 3,
+    distance_threshold: 1.5,
+  },
+  sentiment_mismatch: {
+    enabled: true,
+    positive_keywords: [
+      'excellent', 'good', 'clear', 'accurate', 'comprehensive', 'well', 'strong', 'useful',
+      'उत्कृष्ट', 'अच्छा', 'अच्छी', 'स्पष्ट', 'सटीक', 'उपयोगी',
+    ],
+    negative_keywords: [
+      'poor', 'weak', 'unclear', 'inaccurate', 'incorrect', 'error', 'errors', 'outdated', 'confusing', 'missing',
+      'खराब', 'कमजोर', 'अस्पष्ट', 'गलत', 'त्रुटि', 'त्रुटियाँ', 'पुराना',
+    ],
+    high_score_min: 4,
+    low_score_max: 2,
+  },
+};
+
+export interface RuleReview {
+  reviewer_id: string;
+  reviewer_name?: string;
+  scores: Record<string, number>;
+  comments: Record<string, string>;
+  criterion_weights?: CriterionWeights | null;
+  recommendation?: Recommendation | null;
+}
+
+export interface RuleFlag {
+  rule: ConflictRuleKey;
+  type: RuleConflictType;
+  severity: RuleSeverity;
+  criterion_code: string | null;
+  description: string;
+  reviewer_ids: string[];
+  score_variance: number | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const finite = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const keywordList = (value: unknown, fallback: string[]) =>
+  Array.isArray(value)
+    ? Array.from(
+        new Set(value.filter((word): word is string => typeof word === 'string').map((word) => word.trim().toLowerCase()))
+      ).filter(Boolean)
+    : fallback;
+
+/**
+ * A stored configuration with anything missing or malformed taken from the defaults
+ */
+export function normalizeConflictRules(stored: unknown): ConflictRuleConfig {
+  const value = (stored ?? {}) as Partial<Record<keyof ConflictRuleConfig, any>>;
+  const defaults = DEFAULT_CONFLICT_RULES;
+
+  const criteria: Record<string, CriterionSpreadOverride> = {};
+  Object.entries((value.score_spread?.criteria ?? {}) as Record<string, any>).forEach(([code, override]) => {
+    if (!override || typeof override !== 'object') {
+      return;
+    }
+    const entry: CriterionSpreadOverride = {};
+    if (typeof override.enabled === 'boolean') entry.enabled = override.enabled;
+    if (Number.isFinite(override.variance_threshold)) entry.variance_threshold = override.variance_threshold;
+    if (Number.isFinite(override.range_threshold)) entry.range_threshold = override.range_threshold;
+    if (Object.keys(entry).length > 0) {
+      criteria[code] = entry;
+    }
+  });
+
+  const enabled = (section: keyof ConflictRuleConfig) =>
+    typeof value[section]?.enabled === 'boolean' ? value[section].enabled : defaults[section].enabled;
+
+  return {
+    score_spread: {
+      enabled: enabled('score_spread'),
+      variance_threshold: finite(value.score_spread?.variance_threshold, defaults.score_spread.variance_threshold),
+      range_threshold: finite(value.score_spread?.range_threshold, defaults.score_spread.range_threshold),
+      criteria,
+    },
+    opposing_recommendations: {
+      enabled: enabled('opposing_recommendations'),
+      approve_min_score: finite(
+        value.opposing_recommendations?.approve_min_score,
+        defaults.opposing_recommendations.approve_min_score
+      ),
+      reject_max_score: finite(
+        value.opposing_recommendations?.reject_max_score,
+        defaults.opposing_recommendations.reject_max_score
+      ),
+    },
+    outlier_reviewer: {
+      enabled: enabled('outlier_reviewer'),
+      min_reviewers: finite(value.outlier_reviewer?.min_reviewers, defaults.outlier_reviewer.min_reviewers),
+      distance_threshold: finite(
+        value.outlier_reviewer?.distance_threshold,
+        defaults.outlier_reviewer.distance_threshold
+      ),
+    },
+    sentiment_mismatch: {
+      enabled: enabled('sentiment_mismatch'),
+      positive_keywords: keywordList(
+        value.sentiment_mismatch?.positive_keywords,
+        defaults.sentiment_mismatch.positive_keywords
+      ),
+      negative_keywords: keywordList(
+        value.sentiment_mismatch?.negative_keywords,
+        defaults.sentiment_mismatch.negative_keywords
+      ),
+      high_score_min: finite(value.sentiment_mismatch?.high_score_min, defaults.sentiment_mismatch.high_score_min),
+      low_score_max: finite(value.sentiment_mismatch?.low_score_max, defaults.sentiment_mismatch.low_score_max),
+    },
+  };
+}
+
+const reviewerLabel = (review: RuleReview) => review.reviewer_name || review.reviewer_id;
+
+function scoreSpreadFlags(reviews: RuleReview[], config: ConflictRuleConfig['score_spread'], labels: Record<string, string>) {
+  const codes = Array.from(new Set(reviews.flatMap((review) => Object.keys(review.scores)))).sort();
+  const flags: RuleFlag[] = [];
+
+  codes.forEach((code) => {
+    const override = config.criteria[code] ?? {};
+    if (override.enabled === false) {
+      return;
+    }
+    const scored = reviews.filter((review) => typeof review.scores[code] === 'number');
+    if (scored.length < 2) {
+      return;
+    }
+
+    const scores = scored.map((review) => review.scores[code]);
+    const m = mean(scores);
+    const variance = mean(scores.map((score) => (score - m) ** 2));
+    const range = Math.max(...scores) - Math.min(...scores);
+    const varianceThreshold = override.variance_threshold ?? config.variance_threshold;
+    const rangeThreshold = override.range_threshold ?? config.range_threshold;
+
+    const excess = Math.max(
+      varianceThreshold > 0 ? variance / varianceThreshold : 0,
+      rangeThreshold > 0 ? range / rangeThreshold : 0
+    );
+    if (excess < 1) {
+      return;
+    }
+
+    flags.push({
+      rule: 'SCORE_SPREAD',
+      type: 'SCORE_VARIANCE',
+      severity: excess >= 2 ? 'CRITICAL' : excess >= 1.5 ? 'HIGH' : 'MEDIUM',
+      criterion_code: code,
+      description: `Scores for ${labels[code] || code} range from ${Math.min(...scores)} to ${Math.max(
+        ...scores
+      )} (variance ${round(variance)}; thresholds: variance ${varianceThreshold}, range ${rangeThreshold}).`,
+      reviewer_ids: scored.map((review) => review.reviewer_id),
+      score_variance: round(variance),
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * The review's recorded recommendation, or the one its weighted mean implies
+ */
+export function impliedRecommendation(
+  review: RuleReview,
+  config: ConflictRuleConfig['opposing_recommendations']
+): { recommendation: Recommendation; recorded: boolean } {
+  if (review.recommendation) {
+    return { recommendation: review.recommendation, recorded: true };
+  }
+  const { weighted } = scoreReview(review.scores, review.criterion_weights ?? {});
+  const recommendation: Recommendation =
+    weighted >= config.approve_min_score ? 'APPROVE' : weighted <= config.reject_max_score ? 'REJECT' : 'REVISIONS_REQUESTED';
+  return { recommendation, recorded: false };
+}
+
+function opposingRecommendationFlags(reviews: RuleReview[], config: ConflictRuleConfig['opposing_recommendations']) {
+  const read = reviews.map((review) => ({ review, ...impliedRecommendation(review, config) }));
+  const approving = read.filter((entry) => entry.recommendation === 'APPROVE');
+  const rejecting = read.filter((entry) => entry.recommendation === 'REJECT');
+  if (approving.length === 0 || rejecting.length === 0) {
+    return [];
+  }
+
+  const involved = [...approving, ...rejecting];
+  const describe = (entries: typeof read) =>
+    entries.map((entry) => `${reviewerLabel(entry.review)}${entry.recorded ? '' : ' (from scores)'}`).join(', ');
+
+  return [
+    {
+      rule: 'OPPOSING_RECOMMENDATIONS' as const,
+      type: 'RECOMMENDATION_MISMATCH' as const,
+      // Recommendations read from scores are weaker evidence than recorded ones
+      severity: involved.every((entry) => entry.recorded) ? ('CRITICAL' as const) : ('HIGH' as const),
+      criterion_code: null,
+      description: `Opposing recommendations: approve from ${describe(approving)}; reject from ${describe(rejecting)}.`,
+      reviewer_ids: involved.map((entry) => entry.review.reviewer_id),
+      score_variance: null,
+    },
+  ];
+}
+
+function outlierFlags(reviews: RuleReview[], config: ConflictRuleConfig['outlier_reviewer']) {
+  if (reviews.length < Math.max(config.min_reviewers, 3)) {
+    return [];
+  }
+
+  const means = reviews.map((review) => scoreReview(review.scores, review.criterion_weights ?? {}).weighted);
+  const flags: RuleFlag[] = [];
+
+  reviews.forEach((review, index) => {
+    const rest = means.filter((_, other) => other !== index);
+    const panelMean = mean(rest);
+    const distance = Math.abs(means[index] - panelMean);
+    if (distance < config.distance_threshold) {
+      return;
+    }
+
+    flags.push({
+      rule: 'OUTLIER_REVIEWER',
+      type: 'OVERALL_DISAGREEMENT',
+      severity: distance >= config.distance_threshold * 1.5 ? 'HIGH' : 'MEDIUM',
+      criterion_code: null,
+      description: `${reviewerLabel(review)} scored the book ${round(means[index])} on average, ${round(distance)} ${
+        means[index] > panelMean ? 'above' : 'below'
+      } the rest of the panel (${round(panelMean)}).`,
+      reviewer_ids: [review.reviewer_id],
+      score_variance: null,
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * Positive and negative keyword hits in a comment. Words are matched whole,
+ * case-insensitively, in any script.
+ */
+export function commentSentiment(comment: string, config: ConflictRuleConfig['sentiment_mismatch']) {
+  const words = comment.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+  const positive = new Set(config.positive_keywords);
+  const negative = new Set(config.negative_keywords);
+  return {
+    positive: words.filter((word) => positive.has(word)),
+    negative: words.filter((word) => negative.has(word)),
+  };
+}
+
+function sentimentFlags(reviews: RuleReview[], config: ConflictRuleConfig['sentiment_mismatch'], labels: Record<string, string>) {
+  const flags: RuleFlag[] = [];
+
+  reviews.forEach((review) => {
+    Object.entries(review.comments ?? {}).forEach(([code, comment]) => {
+      if (typeof comment !== 'string' || !comment.trim()) {
+        return;
+      }
+      // The overall comment is compared with the review's weighted mean
+      const score =
+        code === 'OVERALL'
+          ? scoreReview(review.scores, review.criterion_weights ?? {}).weighted
+          : review.scores[code];
+      if (typeof score !== 'number') {
+        return;
+      }
+
+      const { positive, negative } = commentSentiment(comment, config);
+      let tone: 'positive' | 'negative';
+      let words: string[];
+      if (score >= config.high_score_min && negative.length > positive.length) {
+        [tone, words] = ['negative', negative];
+      } else if (score <= config.low_score_max && positive.length > negative.length) {
+        [tone, words] = ['positive', positive];
+      } else {
+        return;
+      }
+
+      const subject = code === 'OVERALL' ? 'overall' : labels[code] || code;
+      flags.push({
+        rule: 'SENTIMENT_MISMATCH',
+        type: 'COMMENT_DISAGREEMENT',
+        severity: code === 'OVERALL' ? 'MEDIUM' : 'LOW',
+        criterion_code: code === 'OVERALL' ? null : code,
+        description: `${reviewerLabel(review)} gave ${round(score)} (${subject}) but the comment reads ${tone} ("${Array.from(
+          new Set(words)
+        ).join('", "')}").`,
+        reviewer_ids: [review.reviewer_id],
+        score_variance: null,
+      });
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * Every flag the enabled rules raise for one round's submitted reviews.
+ * `labels` maps criterion codes to display names for the descriptions.
+ */
+export function evaluateConflictRules(
+  reviews: RuleReview[],
+  config: ConflictRuleConfig,
+  labels: Record<string, string> = {}
+): RuleFlag[] {
+  if (reviews.length < 2) {
+    return [];
+  }
+
+  return [
+    ...(config.score_spread.enabled ? scoreSpreadFlags(reviews, config.score_spread, labels) : []),
+    ...(config.opposing_recommendations.enabled
+      ? opposingRecommendationFlags(reviews, config.opposing_recommendations)
+      : []),
+    ...(config.outlier_reviewer.enabled ? outlierFlags(reviews, config.outlier_reviewer) : []),
+    ...(config.sentiment_mismatch.enabled ? sentimentFlags(reviews, config.sentiment_mismatch, labels) : []),
+  ];
+}
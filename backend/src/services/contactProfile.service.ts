@@ -0,0 +1,280 @@
+import crypto from 'crypto';
+import { ReminderChannel, ReminderType, User } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { sendSMS } from './sms.service';
+import { sendWhatsApp } from './whatsapp.service';
+import { renderNotification } from './notificationTemplate.service';
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+// A new code can only be requested once this long after the previous one
+const RESEND_INTERVAL_SECONDS = 60;
+
+export const NOTIFICATION_EVENTS: ReminderType[] = [
+  'ASSIGNMENT_DUE',
+  'ASSIGNMENT_OVERDUE',
+  'REVIEW_SUBMISSION_REMINDER',
+  'COMMITTEE_DECISION_DUE',
+  'CUSTOM',
+];
+
+export const SUPPORTED_LANGUAGES = ['en', 'hi'];
+
+export interface ChannelPreference {
+  event: ReminderType;
+  email: boolean;
+  sms: boolean;
+  whatsapp: boolean;
+  in_app: boolean;
+}
+
+const DEFAULT_PREFERENCE = { email: true, sms: false, whatsapp: false, in_app: true };
+
+const CHANNEL_FLAGS: Record<ReminderChannel, keyof typeof DEFAULT_PREFERENCE> = {
+  EMAIL: 'email',
+  SMS: 'sms',
+  WHATSAPP: 'whatsapp',
+  IN_APP: 'in_app',
+};
+
+type ContactUser = Pick<
+  User,
+  | 'id'
+  | 'phone'
+  | 'phone_verified_at'
+  | 'whatsapp_number'
+  | 'whatsapp_verified_at'
+  | 'timezone'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+  | 'preferred_language'
+>;
+
+/**
+ * Strip spaces, dashes and brackets so numbers compare and send consistently
+ */
+export const normalizePhone = (phone: string) => phone.replace(/[\s\-().]/g, '');
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Preferences for every event, with defaults filled in for events the user never changed
+ */
+export async function getChannelPreferences(userId: string): Promise<ChannelPreference[]> {
+  const stored = await prisma.notificationPreference.findMany({
+    where: { user_id: userId },
+  });
+
+  return NOTIFICATION_EVENTS.map((event) => {
+    const row = stored.find((preference) => preference.event === event);
+    return {
+      event,
+      email: row?.email ?? DEFAULT_PREFERENCE.email,
+      sms: row?.sms ?? DEFAULT_PREFERENCE.sms,
+      whatsapp: row?.whatsapp ?? DEFAULT_PREFERENCE.whatsapp,
+      in_app: row?.in_app ?? DEFAULT_PREFERENCE.in_app,
+    };
+  });
+}
+
+export async function updateChannelPreferences(userId: string, preferences: ChannelPreference[]) {
+  await prisma.$transaction(
+    preferences.map(({ event, email, sms, whatsapp, in_app }) =>
+      prisma.notificationPreference.upsert({
+        where: { user_id_event: { user_id: userId, event } },
+        update: { email, sms, whatsapp, in_app },
+        create: { user_id: userId, event, email, sms, whatsapp, in_app },
+      })
+    )
+  );
+
+  return getChannelPreferences(userId);
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When the user's quiet hours end, if `at` falls inside them; null otherwise
+ */
+export function quietHoursEnd(user: ContactUser, at: Date = new Date()): Date | null {
+  if (!user.quiet_hours_start || !user.quiet_hours_end) {
+    return null;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: user.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value);
+  const now = hour * 60 + minute;
+
+  const start = minutesOfDay(user.quiet_hours_start);
+  const end = minutesOfDay(user.quiet_hours_end);
+  // Windows such as 22:00-07:00 wrap past midnight
+  const inside = start <= end ? now >= start && now < end : now >= start || now < end;
+
+  if (!inside) {
+    return null;
+  }
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  const resume = new Date(at.getTime() + minutesLeft * 60 * 1000);
+  resume.setSeconds(0, 0);
+  return resume;
+}
+
+export interface DeliveryPlan {
+  channels: ReminderChannel[];
+  skipped: { channel: ReminderChannel; reason: string }[];
+  // Set when external channels must wait for the end of quiet hours
+  defer_until: Date | null;
+}
+
+/**
+ * Decide how a reminder reaches the user. The user's preferences for the
+ * event win: a requested channel is only used if the user allows it, and SMS
+ * or WhatsApp also need a verified number.
+ */
+export async function planReminderDelivery(
+  user: ContactUser,
+  event: ReminderType,
+  requested: ReminderChannel | null,
+  at: Date = new Date()
+): Promise<DeliveryPlan> {
+  const preference = (await getChannelPreferences(user.id)).find((p) => p.event === event)!;
+  const skipped: DeliveryPlan['skipped'] = [];
+
+  let wanted = (Object.keys(CHANNEL_FLAGS) as ReminderChannel[]).filter(
+    (channel) => preference[CHANNEL_FLAGS[channel]]
+  );
+  if (requested) {
+    if (wanted.includes(requested)) {
+      wanted = [requested];
+    } else {
+      skipped.push({ channel: requested, reason: 'DISABLED_BY_USER' });
+    }
+  }
+
+  const channels = wanted.filter((channel) => {
+    if (channel === 'SMS' && !(user.phone && user.phone_verified_at)) {
+      skipped.push({ channel, reason: 'UNVERIFIED_NUMBER' });
+      return false;
+    }
+    if (channel === 'WHATSAPP' && !(user.whatsapp_number && user.whatsapp_verified_at)) {
+      skipped.push({ channel, reason: 'UNVERIFIED_NUMBER' });
+      return false;
+    }
+    return true;
+  });
+
+  const external = channels.some((channel) => channel !== 'IN_APP');
+
+  return {
+    channels,
+    skipped,
+    defer_until: external ? quietHoursEnd(user, at) : null,
+  };
+}
+
+/**
+ * Send a one-time code to the user's phone or WhatsApp number
+ */
+export async function startContactVerification(user: ContactUser, channel: 'SMS' | 'WHATSAPP') {
+  const destination = channel === 'SMS' ? user.phone : user.whatsapp_number;
+  if (!destination) {
+    throw new AppError(`Add a ${channel === 'SMS' ? 'phone' : 'WhatsApp'} number first`, 400);
+  }
+
+  const previous = await prisma.contactVerification.findFirst({
+    where: { user_id: user.id, channel },
+    orderBy: { created_at: 'desc' },
+  });
+  if (previous && Date.now() - previous.created_at.getTime() < RESEND_INTERVAL_SECONDS * 1000) {
+    throw new AppError('Please wait a minute before requesting another code', 429);
+  }
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  const { text: message } = await renderNotification('CONTACT_VERIFICATION', channel, {
+    language: user.preferred_language,
+    variables: { code, expires_minutes: CODE_TTL_MINUTES },
+  });
+
+  // Without a provider configured locally the code lands in the admin outbox
+  const context = { event: 'CONTACT_VERIFICATION', user_id: user.id };
+  const sent =
+    channel === 'SMS'
+      ? await sendSMS({ to: destination, message, ...context })
+      : await sendWhatsApp({ to: destination, message, ...context });
+
+  if (!sent) {
+    throw new AppError(`Could not send a code by ${channel === 'SMS' ? 'SMS' : 'WhatsApp'}`, 502);
+  }
+
+  await prisma.contactVerification.create({
+    data: {
+      user_id: user.id,
+      channel,
+      destination,
+      code_hash: hashCode(code),
+      expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  return { destination, expires_in_minutes: CODE_TTL_MINUTES };
+}
+
+/**
+ * Check a code against the latest one sent for the channel and mark the
+ * number verified. The code only counts for the number it was sent to.
+ */
+export async function confirmContactVerification(user: ContactUser, channel: 'SMS' | 'WHATSAPP', code: string) {
+  const destination = channel === 'SMS' ? user.phone : user.whatsapp_number;
+
+  const verification = await prisma.contactVerification.findFirst({
+    where: { user_id: user.id, channel, consumed_at: null },
+    orderBy: { created_at: 'desc' },
+  });
+
+  if (
+    !verification ||
+    verification.destination !== destination ||
+    verification.expires_at < new Date() ||
+    verification.attempts >= MAX_CODE_ATTEMPTS
+  ) {
+    throw new AppError('The code has expired; request a new one', 400);
+  }
+
+  const matches = crypto.timingSafeEqual(
+    Buffer.from(verification.code_hash, 'hex'),
+    Buffer.from(hashCode(code), 'hex')
+  );
+
+  if (!matches) {
+    await prisma.contactVerification.update({
+      where: { id: verification.id },
+      data: { attempts: { increment: 1 } },
+    });
+    throw new AppError('Invalid verification code', 400);
+  }
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.contactVerification.update({
+      where: { id: verification.id },
+      data: { consumed_at: now },
+    }),
+    prisma.user.update({
+      where: { id: user.id },
+      data: channel === 'SMS' ? { phone_verified_at: now } : { whatsapp_verified_at: now },
+    }),
+  ]);
+
+  return now;
+}
@@ -0,0 +1,234 @@
+import { CommitteeDecision, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { recordAuditLog } from './audit.service';
+import { certificateSigningConfigured, issueApprovalCertificate } from './certificate.service';
+import {
+  VoteChoice,
+  VoteTally,
+  VotingRules,
+  normalizeVotingRules,
+  tallyVotes,
+} from './committeeVoting';
+import { notifyRoles } from './notification.service';
+
+const VOTING_RULES_KEY = 'committee_voting_rules';
+
+const VOTE_LABELS: Record<VoteChoice, string> = {
+  APPROVED: 'Approve',
+  REJECTED: 'Reject',
+  NEEDS_REVISION: 'Needs revision',
+  ABSTAIN: 'Abstain',
+  RECUSE: 'Recused',
+};
+
+const MAJORITY_LABELS: Record<VotingRules['majority'], string> = {
+  SIMPLE: 'simple majority',
+  TWO_THIRDS: 'two-thirds majority',
+  UNANIMOUS: 'unanimity',
+};
+
+/**
+ * The configured voting rules, falling back to the defaults for anything missing
+ */
+export async function getVotingRules(): Promise<VotingRules> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: VOTING_RULES_KEY },
+  });
+  return normalizeVotingRules(setting?.value);
+}
+
+export async function setVotingRules(rules: VotingRules, updatedBy: string): Promise<VotingRules> {
+  const value = normalizeVotingRules(rules) as unknown as Prisma.InputJsonValue;
+  await prisma.systemSetting.upsert({
+    where: { key: VOTING_RULES_KEY },
+    create: { key: VOTING_RULES_KEY, value, updated_by: updatedBy },
+    update: { value, updated_by: updatedBy },
+  });
+  return getVotingRules();
+}
+
+export const sessionInclude = {
+  votes: {
+    include: {
+      voter: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: {
+      cast_at: 'asc' as const,
+    },
+  },
+};
+
+type SessionWithVotes = Prisma.DecisionSessionGetPayload<{ include: typeof sessionInclude }>;
+
+export const tallySession = (session: Pick<SessionWithVotes, 'votes' | 'member_ids' | 'rules'>): VoteTally =>
+  tallyVotes(session.votes, session.member_ids.length, normalizeVotingRules(session.rules));
+
+/**
+ * After a decision is committed: approvals get a certificate, and the
+ * Secretariat, uploader, reviewers and committee are told
+ */
+async function announceCommitteeDecision(input: {
+  decision: CommitteeDecision;
+  decidedBy: string;
+  notifyUserIds: string[];
+}) {
+  const { decision } = input;
+  const book = await prisma.book.findUniqueOrThrow({
+    where: { id: decision.book_id },
+    include: {
+      assignments: true,
+    },
+  });
+
+  // Approvals come with a signed certificate that can be verified publicly. If
+  // it cannot be issued now (e.g. no signing key yet) it is issued on first request.
+  let certificate = null;
+  if (decision.decision === 'APPROVED' && certificateSigningConfigured()) {
+    try {
+      certificate = await issueApprovalCertificate(decision.id);
+      await recordAuditLog({
+        actor_id: input.decidedBy,
+        action: 'CERTIFICATE_ISSUED',
+        target_type: 'CERTIFICATE',
+        target_id: certificate.id,
+        details: { serial_number: certificate.serial_number, book_id: book.id, decision_id: decision.id },
+      });
+    } catch (error) {
+      console.error(`Failed to issue the certificate for decision ${decision.id}:`, error);
+    }
+  }
+
+  const decisionLabel =
+    decision.decision === 'APPROVED' ? 'approved' : decision.decision === 'REJECTED' ? 'rejected' : 'sent back for revision';
+
+  await notifyRoles(
+    ['SECRETARIAT'],
+    {
+      type: 'COMMITTEE_DECISION',
+      title: 'Committee decision recorded',
+      message: `"${book.title}" was ${decisionLabel} in round ${decision.round_number}.`,
+      link: `/books/${book.id}`,
+      book_id: book.id,
+    },
+    {
+      userIds: [
+        book.uploaded_by,
+        ...book.assignments
+          .filter((assignment) => assignment.round_number === decision.round_number)
+          .map((assignment) => assignment.reviewer_id),
+        ...input.notifyUserIds,
+      ],
+    }
+  );
+
+  return certificate;
+}
+
+/**
+ * Rationale stored on the decision: the final count and each member's vote
+ */
+const composeRationale = (session: SessionWithVotes, tally: VoteTally) => {
+  const rules = normalizeVotingRules(session.rules);
+  const summary =
+    `Committee vote: ${tally.counts.APPROVED} approve, ${tally.counts.NEEDS_REVISION} needs revision, ` +
+    `${tally.counts.REJECTED} reject, ${tally.counts.ABSTAIN} abstain, ${tally.counts.RECUSE} recused ` +
+    `(quorum ${tally.quorum_required} of ${tally.eligible}, ${MAJORITY_LABELS[rules.majority]}).`;
+
+  const lines = session.votes.map((vote) => `${vote.voter.name} (${VOTE_LABELS[vote.vote]}): ${vote.rationale}`);
+
+  return [summary, '', ...lines].join('\n');
+};
+
+/**
+ * Close the session and record the decision once the votes cast satisfy its
+ * rules. The session is claimed with a conditional update first, so two
+ * deciding votes arriving together record a single decision.
+ */
+export async function closeSessionIfDecided(sessionId: string, actorId: string) {
+  const session = await prisma.decisionSession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: sessionInclude,
+  });
+
+  const tally = tallySession(session);
+  const outcome = tally.outcome;
+  if (session.status !== 'OPEN' || !outcome) {
+    return { session, tally, decision: null };
+  }
+
+  // Claiming the session, recording the decision and moving the book commit
+  // together, so a failure leaves the session open for another vote to close
+  const committeeDecision = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.decisionSession.updateMany({
+      where: { id: sessionId, status: 'OPEN' },
+      data: { status: 'DECIDED', closed_at: new Date() },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const created = await tx.committeeDecision.create({
+      data: {
+        book_id: session.book_id,
+        decided_by: actorId,
+        decision: outcome,
+        rationale: composeRationale(session, tally),
+        round_number: session.round_number,
+      },
+    });
+
+    // Outcomes share their names with the book statuses they lead to
+    const moved = await tx.book.updateMany({
+      where: { id: session.book_id, status: 'REVIEW_COMPLETED', current_round: session.round_number },
+      data: { status: outcome },
+    });
+    if (moved.count === 0) {
+      throw new AppError('Book is not in a valid state for decision', 400);
+    }
+
+    await tx.decisionSession.update({
+      where: { id: sessionId },
+      data: { decision_id: created.id },
+    });
+
+    return created;
+  });
+
+  if (!committeeDecision) {
+    return { session, tally, decision: null };
+  }
+
+  const certificate = await announceCommitteeDecision({
+    decision: committeeDecision,
+    decidedBy: actorId,
+    notifyUserIds: session.member_ids.filter((id) => id !== actorId),
+  });
+
+  await recordAuditLog({
+    actor_id: actorId,
+    action: 'DECISION_SESSION_DECIDED',
+    target_type: 'DECISION_SESSION',
+    target_id: sessionId,
+    details: {
+      book_id: session.book_id,
+      outcome,
+      counts: tally.counts,
+      quorum_required: tally.quorum_required,
+      eligible: tally.eligible,
+      decision_id: committeeDecision.id,
+    },
+  });
+
+  const closed = await prisma.decisionSession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: sessionInclude,
+  });
+
+  return { session: closed, tally, decision: { committeeDecision, certificate } };
+}
@@ -1,16 +1,19 @@
 import nodemailer from 'nodemailer';
+import { renderNotification } from './notificationTemplate.service';
+import { MessageTransport, deliverMessage } from './notificationTransport.service';
 
 interface EmailOptions {
   to: string;
   subject: string;
   text: string;
   html: string;
-  from?: string;
+  event?: string;
+  user_id?: string;
 }
 
 // Create transporter
 const createTransporter = () => {
-  return nodemailer.createTransporter({
+  return nodemailer.createTransport({
     host: process.env.SMTP_HOST || 'smtp.gmail.com',
     port: parseInt(process.env.SMTP_PORT || '587'),
     secure: process.env.SMTP_SECURE === 'true',
@@ -21,66 +24,57 @@ const createTransporter = () => {
   });
 };
 
-export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
-  try {
-    const transporter = createTransporter();
-
-    const mailOptions = {
-      from: options.from || process.env.SMTP_FROM || process.env.SMTP_USER,
-      to: options.to,
-      subject: options.subject,
-      text: options.text,
-      html: options.html,
-    };
+// Sends through the configured SMTP server
+export const smtpTransport: MessageTransport = {
+  name: 'smtp',
+  async send(message) {
+    const info = await createTransporter().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: message.to,
+      subject: message.subject ?? undefined,
+      text: message.text,
+      html: message.html ?? undefined,
+    });
+    return { provider_message_id: info.messageId };
+  },
+};
 
-    await transporter.sendMail(mailOptions);
-    return true;
-  } catch (error) {
-    console.error('Error sending email:', error);
-    return false;
-  }
+export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
+  const receipt = await deliverMessage({
+    channel: 'EMAIL',
+    to: options.to,
+    subject: options.subject,
+    text: options.text,
+    html: options.html,
+    event: options.event,
+    user_id: options.user_id,
+  });
+  return receipt.status === 'DELIVERED';
 };
 
 export const sendAssignmentNotification = async (
   reviewerEmail: string,
   reviewerName: string,
   bookTitle: string,
-  dueDate: Date
+  dueDate: Date,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const subject = 'New Review Assignment - NCISM Textbook Review System';
-  const text = `
-Dear ${reviewerName},
-
-You have been assigned a new book review:
-
-Book: ${bookTitle}
-Due Date: ${dueDate.toLocaleDateString()}
-
-Please log in to the system to begin your review.
-
-Best regards,
-NCISM Review System
-  `;
-
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>New Review Assignment</h2>
-      <p>Dear ${reviewerName},</p>
-      <p>You have been assigned a new book review:</p>
-      <ul>
-        <li><strong>Book:</strong> ${bookTitle}</li>
-        <li><strong>Due Date:</strong> ${dueDate.toLocaleDateString()}</li>
-      </ul>
-      <p>Please log in to the system to begin your review.</p>
-      <p>Best regards,<br>NCISM Review System</p>
-    </div>
-  `;
+  const { subject, text, html } = await renderNotification('ASSIGNMENT_CREATED', 'EMAIL', {
+    language: options.language,
+    variables: {
+      recipient_name: reviewerName,
+      book_title: bookTitle,
+      due_date: dueDate,
+      link: options.link,
+    },
+  });
 
   return await sendEmail({
     to: reviewerEmail,
-    subject,
+    subject: subject || 'New Review Assignment',
     text,
-    html,
+    html: html!,
+    event: 'ASSIGNMENT_CREATED',
   });
 };
 
@@ -88,37 +82,24 @@ export const sendReminderEmail = async (
   userEmail: string,
   userName: string,
   message: string,
-  assignmentTitle?: string
+  assignmentTitle?: string,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const subject = 'Reminder - NCISM Textbook Review System';
-  const text = `
-Dear ${userName},
-
-${message}
-
-${assignmentTitle ? `Assignment: ${assignmentTitle}` : ''}
-
-Please log in to the system to take action.
-
-Best regards,
-NCISM Review System
-  `;
-
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>Reminder</h2>
-      <p>Dear ${userName},</p>
-      <p>${message}</p>
-      ${assignmentTitle ? `<p><strong>Assignment:</strong> ${assignmentTitle}</p>` : ''}
-      <p>Please log in to the system to take action.</p>
-      <p>Best regards,<br>NCISM Review System</p>
-    </div>
-  `;
+  const { subject, text, html } = await renderNotification('CUSTOM', 'EMAIL', {
+    language: options.language,
+    variables: {
+      recipient_name: userName,
+      book_title: assignmentTitle,
+      message,
+      link: options.link,
+    },
+  });
 
   return await sendEmail({
     to: userEmail,
-    subject,
+    subject: subject || 'Reminder',
     text,
-    html,
+    html: html!,
+    event: 'CUSTOM',
   });
 };
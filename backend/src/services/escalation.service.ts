@@ -0,0 +1,294 @@
+import { Prisma, ReminderType } from '@prisma/client';
+import { prisma } from '../index';
+import { processReminder } from '../controllers/reminder.controller';
+import { suggestReplacementReviewers } from './recusal.service';
+
+const ESCALATION_POLICY_KEY = 'assignment_escalation_policy';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_STATUSES = ['PENDING', 'IN_PROGRESS', 'OVERDUE'] as const;
+const MAX_SUGGESTED_REVIEWERS = 3;
+
+export type EscalationStepKey = 'DUE_SOON' | 'DUE_TODAY' | 'SECRETARIAT_ALERT' | 'REASSIGNMENT_SUGGESTED';
+
+export const ESCALATION_STEP_KEYS: EscalationStepKey[] = [
+  'DUE_SOON',
+  'DUE_TODAY',
+  'SECRETARIAT_ALERT',
+  'REASSIGNMENT_SUGGESTED',
+];
+
+export interface EscalationStep {
+  step: EscalationStepKey;
+  enabled: boolean;
+  // Calendar days relative to the due date; negative means before it
+  offset_days: number;
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  steps: [
+    { step: 'DUE_SOON', enabled: true, offset_days: -3 },
+    { step: 'DUE_TODAY', enabled: true, offset_days: 0 },
+    { step: 'SECRETARIAT_ALERT', enabled: true, offset_days: 2 },
+    { step: 'REASSIGNMENT_SUGGESTED', enabled: true, offset_days: 7 },
+  ],
+};
+
+export interface SweepResult {
+  marked_overdue: number;
+  reopened: number;
+  reminders_created: number;
+  reviewers_updated: number;
+}
+
+/**
+ * The configured ladder, falling back to the defaults for anything missing
+ */
+export async function getEscalationPolicy(): Promise<EscalationPolicy> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: ESCALATION_POLICY_KEY },
+  });
+  const stored = (setting?.value as unknown as EscalationPolicy | undefined)?.steps ?? [];
+
+  return {
+    steps: DEFAULT_ESCALATION_POLICY.steps.map(
+      (fallback) => stored.find((step) => step.step === fallback.step) ?? fallback
+    ),
+  };
+}
+
+export async function setEscalationPolicy(policy: EscalationPolicy, updatedBy: string): Promise<EscalationPolicy> {
+  const value = policy as unknown as Prisma.InputJsonValue;
+  await prisma.systemSetting.upsert({
+    where: { key: ESCALATION_POLICY_KEY },
+    create: { key: ESCALATION_POLICY_KEY, value, updated_by: updatedBy },
+    update: { value, updated_by: updatedBy },
+  });
+  return getEscalationPolicy();
+}
+
+const startOfDayUTC = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+interface EscalationMetadata {
+  escalation?: { step: EscalationStepKey; due_date: string };
+}
+
+/**
+ * Mark past-due assignments OVERDUE, reopen ones whose due date was moved
+ * into the future, and keep ReviewerMetrics.overdue_assignments in line.
+ */
+export async function markOverdueAssignments(now: Date = new Date()) {
+  const overdue = await prisma.assignment.updateMany({
+    where: { status: { in: ['PENDING', 'IN_PROGRESS'] }, due_date: { lt: now } },
+    data: { status: 'OVERDUE' },
+  });
+
+  // An extended deadline puts the assignment back in progress if a draft exists
+  const extended = await prisma.assignment.findMany({
+    where: { status: 'OVERDUE', due_date: { gte: now } },
+    select: { id: true, reviews: { select: { id: true }, take: 1 } },
+  });
+  for (const assignment of extended) {
+    await prisma.assignment.update({
+      where: { id: assignment.id },
+      data: { status: assignment.reviews.length > 0 ? 'IN_PROGRESS' : 'PENDING' },
+    });
+  }
+
+  const counts = await prisma.assignment.groupBy({
+    by: ['reviewer_id'],
+    where: { status: 'OVERDUE' },
+    _count: { _all: true },
+  });
+
+  const reviewerIds = counts.map((count) => count.reviewer_id);
+  await prisma.reviewerMetrics.updateMany({
+    where: { reviewer_id: { notIn: reviewerIds }, overdue_assignments: { gt: 0 } },
+    data: { overdue_assignments: 0, last_updated: now },
+  });
+  for (const count of counts) {
+    const total = await prisma.assignment.count({ where: { reviewer_id: count.reviewer_id } });
+    await prisma.reviewerMetrics.upsert({
+      where: { reviewer_id: count.reviewer_id },
+      update: { overdue_assignments: count._count._all, last_updated: now },
+      create: {
+        reviewer_id: count.reviewer_id,
+        total_assignments: total,
+        overdue_assignments: count._count._all,
+      },
+    });
+  }
+
+  return {
+    marked_overdue: overdue.count,
+    reopened: extended.length,
+    reviewers_updated: counts.length,
+  };
+}
+
+/**
+ * Walk every open assignment up the escalation ladder. Only the latest step
+ * that is due fires, once per due date, so a late first sweep does not send
+ * the whole ladder at once and an extended deadline starts it again.
+ */
+export async function runEscalationLadder(now: Date = new Date()): Promise<number> {
+  const policy = await getEscalationPolicy();
+  const steps = policy.steps.filter((step) => step.enabled);
+  if (steps.length === 0) {
+    return 0;
+  }
+
+  const assignments = await prisma.assignment.findMany({
+    where: { status: { in: [...OPEN_STATUSES] } },
+    include: {
+      book: { select: { id: true, title: true, current_round: true } },
+      reviewer: { select: { id: true, name: true } },
+      reminders: { select: { metadata: true } },
+    },
+  });
+
+  const secretariat = await prisma.user.findMany({
+    where: { role: 'SECRETARIAT', is_active: true },
+    select: { id: true },
+  });
+
+  const reminderIds: string[] = [];
+
+  for (const assignment of assignments) {
+    if (assignment.round_number !== assignment.book.current_round) {
+      continue;
+    }
+
+    const dueDay = startOfDayUTC(assignment.due_date);
+    const dueKey = formatDate(assignment.due_date);
+    const current = steps
+      .filter((step) => now.getTime() >= dueDay.getTime() + step.offset_days * DAY_MS)
+      .pop();
+    if (!current) {
+      continue;
+    }
+
+    const fired = assignment.reminders.some((reminder) => {
+      const escalation = (reminder.metadata as EscalationMetadata | null)?.escalation;
+      return (
+        escalation?.due_date === dueKey &&
+        ESCALATION_STEP_KEYS.indexOf(escalation.step) >= ESCALATION_STEP_KEYS.indexOf(current.step)
+      );
+    });
+    if (fired) {
+      continue;
+    }
+
+    const daysLeft = Math.round((dueDay.getTime() - startOfDayUTC(now).getTime()) / DAY_MS);
+    const bookTitle = assignment.book.title;
+    let type: ReminderType;
+    let recipients: string[];
+    let message: string;
+    // `template` and `variables` let processReminder render the step in the recipient's language
+    const metadata: Record<string, unknown> = {
+      escalation: { step: current.step, due_date: dueKey },
+    };
+
+    switch (current.step) {
+      case 'DUE_SOON':
+        type = 'ASSIGNMENT_DUE';
+        recipients = [assignment.reviewer_id];
+        metadata.template = 'ASSIGNMENT_DUE';
+        message = `Your review of "${bookTitle}" is due in ${daysLeft} day${daysLeft === 1 ? '' : 's'} (${dueKey}).`;
+        break;
+      case 'DUE_TODAY':
+        type = 'ASSIGNMENT_DUE';
+        recipients = [assignment.reviewer_id];
+        metadata.template = 'ASSIGNMENT_DUE';
+        message =
+          daysLeft >= 0
+            ? `Your review of "${bookTitle}" is due today.`
+            : `Your review of "${bookTitle}" was due on ${dueKey} and is now overdue.`;
+        break;
+      case 'SECRETARIAT_ALERT':
+        type = 'ASSIGNMENT_OVERDUE';
+        recipients = secretariat.map((user) => user.id);
+        metadata.template = 'ASSIGNMENT_OVERDUE';
+        message = `${assignment.reviewer.name}'s review of "${bookTitle}" is ${-daysLeft} day${
+          daysLeft === -1 ? '' : 's'
+        } overdue (due ${dueKey}).`;
+        break;
+      case 'REASSIGNMENT_SUGGESTED': {
+        type = 'ASSIGNMENT_OVERDUE';
+        recipients = secretariat.map((user) => user.id);
+        const suggestions = (await suggestReplacementReviewers(assignment.book_id))
+          .slice(0, MAX_SUGGESTED_REVIEWERS)
+          .map((candidate) => ({ id: candidate.reviewer.id, name: candidate.reviewer.name, score: candidate.score }));
+        metadata.suggested_reviewers = suggestions;
+        metadata.template = 'REASSIGNMENT_SUGGESTED';
+        metadata.variables = { suggested_reviewers: suggestions.map((s) => s.name).join(', ') };
+        message =
+          `${assignment.reviewer.name}'s review of "${bookTitle}" is ${-daysLeft} days overdue; consider reassigning it.` +
+          (suggestions.length > 0 ? ` Suggested reviewers: ${suggestions.map((s) => s.name).join(', ')}.` : '');
+        break;
+      }
+    }
+
+    for (const user_id of recipients) {
+      const reminder = await prisma.reminder.create({
+        data: {
+          assignment_id: assignment.id,
+          user_id,
+          type,
+          message,
+          scheduled_for: now,
+          metadata: metadata as unknown as Prisma.InputJsonValue,
+        },
+      });
+      reminderIds.push(reminder.id);
+    }
+
+    // Without anyone to tell, the step is retried on the next sweep
+    if (recipients.length === 0) {
+      console.warn(`No active Secretariat users to escalate assignment ${assignment.id} to`);
+    }
+  }
+
+  // A failed send is already recorded on its reminder; carry on with the rest
+  for (const reminderId of reminderIds) {
+    await processReminder({ data: { reminderId } }).catch(() => undefined);
+  }
+
+  return reminderIds.length;
+}
+
+/**
+ * One pass of the overdue sweep followed by the escalation ladder
+ */
+export async function runOverdueSweep(now: Date = new Date()): Promise<SweepResult> {
+  const overdue = await markOverdueAssignments(now);
+  const reminders_created = await runEscalationLadder(now);
+  return { ...overdue, reminders_created };
+}
+
+let sweepTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Run the sweep on an interval (ESCALATION_SWEEP_INTERVAL_MINUTES, default 60; 0 disables it)
+ */
+export function startOverdueSweepSchedule() {
+  const minutes = Number(process.env.ESCALATION_SWEEP_INTERVAL_MINUTES ?? 60);
+  if (!Number.isFinite(minutes) || minutes <= 0 || sweepTimer) {
+    return;
+  }
+
+  const run = () =>
+    runOverdueSweep().catch((error) => {
+      console.error('Overdue sweep failed:', error);
+    });
+
+  sweepTimer = setInterval(run, minutes * 60 * 1000);
+  sweepTimer.unref();
+  run();
+}
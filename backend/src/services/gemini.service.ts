@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { prisma } from '../index';
+import { CriterionAgreement, bookReliability, criterionAgreement } from './reliability.service';
+import { PageReference, Recommendation, RECOMMENDATION_LABELS, RequiredChange } from './reviewForm';
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
@@ -10,6 +12,10 @@ interface ReviewData {
   scores: Record<string, number>;
   comments: Record<string, string>;
   submittedAt: Date;
+  recommendation?: Recommendation | null;
+  summary?: string | null;
+  requiredChanges?: RequiredChange[];
+  pageReferences?: PageReference[];
 }
 
 interface AISummaryResult {
@@ -46,6 +52,35 @@ interface ActionSuggestionResult {
   };
 }
 
+const pages = (numbers?: number[]) => (numbers?.length ? ` (p. ${numbers.join(', ')})` : '');
+
+/**
+ * A reviewer's recommendation, summary, required changes and page references as prompt text
+ */
+function reviewFormText(review: ReviewData) {
+  const lines = [`Recommendation: ${review.recommendation ? RECOMMENDATION_LABELS[review.recommendation] : 'not recorded'}`];
+  if (review.summary) {
+    lines.push(`Summary: "${review.summary}"`);
+  }
+  if (review.requiredChanges?.length) {
+    lines.push(
+      'Required changes:',
+      ...review.requiredChanges.map(
+        (change) => `- ${change.criterion_code ? `[${change.criterion_code}] ` : ''}${change.description}${pages(change.pages)}`
+      )
+    );
+  }
+  if (review.pageReferences?.length) {
+    lines.push(
+      'Page references:',
+      ...review.pageReferences.map(
+        (reference) => `- p. ${reference.page}${reference.criterion_code ? ` [${reference.criterion_code}]` : ''}: ${reference.note}`
+      )
+    );
+  }
+  return lines.join('\n');
+}
+
 /**
  * Generate AI summary of reviews using Gemini
  */
@@ -70,6 +105,7 @@ export async function generateAISummary(
 
       return `Reviewer ${idx + 1} (${review.reviewerName}):
 Scores: ${scoresText}
+${reviewFormText(review)}
 Comments:
 ${commentsText || 'No specific comments'}
 ---`;
@@ -171,26 +207,32 @@ Please respond in JSON format:
 export async function detectConflicts(
   bookId: string,
   reviews: ReviewData[],
-  criteria: Array<{ code: string; label: string }>
+  criteria: Array<{ code: string; label: string }>,
+  ruleFlags?: Array<{ type: string; criterionCode: string | null; description: string }>
 ): Promise<ConflictDetectionResult> {
   try {
     const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
 
-    // Calculate score variance for each criterion
-    const criterionVariances: Record<string, { scores: number[]; variance: number; mean: number }> = {};
-    
+    // Deterministic agreement statistics for each criterion and the book as a whole
+    const criterionVariances: Record<
+      string,
+      { scores: number[]; variance: number; mean: number; agreement: CriterionAgreement }
+    > = {};
+
     criteria.forEach((criterion) => {
       const scores = reviews
         .map((r) => r.scores[criterion.code])
         .filter((s) => s !== undefined) as number[];
-      
+
       if (scores.length > 1) {
         const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
         const variance = scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) / scores.length;
-        criterionVariances[criterion.code] = { scores, variance, mean };
+        criterionVariances[criterion.code] = { scores, variance, mean, agreement: criterionAgreement(scores) };
       }
     });
 
+    const reliability = bookReliability(reviews.map((review) => review.scores));
+
     // Prepare review comparison data
     const reviewComparison = reviews.map((review, idx) => {
       const scoresText = Object.entries(review.scores)
@@ -204,6 +246,8 @@ export async function detectConflicts(
       
       return `Reviewer ${idx + 1} (${review.reviewerName}, ID: ${review.reviewerId}):
 Scores: ${scoresText}
+Recommendation: ${review.recommendation ? RECOMMENDATION_LABELS[review.recommendation] : 'not recorded'}
+Summary: "${review.summary || ''}"
 Overall Comment: "${overallComment}"
 ---`;
     }).join('\n\n');
@@ -211,7 +255,10 @@ Overall Comment: "${overallComment}"
     const varianceInfo = Object.entries(criterionVariances)
       .map(([code, data]) => {
         const criterion = criteria.find((c) => c.code === code);
-        return `${criterion?.label || code}: Mean=${data.mean.toFixed(2)}, Variance=${data.variance.toFixed(2)}, Scores=[${data.scores.join(', ')}]`;
+        const withinOne = data.agreement.agreement_within_one;
+        return `${criterion?.label || code}: Mean=${data.mean.toFixed(2)}, Variance=${data.variance.toFixed(2)}, Agreement within ±1=${
+          withinOne === null ? 'n/a' : `${Math.round(withinOne * 100)}%`
+        }, Scores=[${data.scores.join(', ')}]`;
       })
       .join('\n');
 
@@ -223,6 +270,19 @@ ${reviewComparison}
 Statistical Variance by Criterion:
 ${varianceInfo}
 
+Inter-rater Reliability (1 = perfect agreement, 0 = chance level):
+Krippendorff's alpha (ordinal): ${reliability.krippendorff_alpha_ordinal ?? 'n/a'}
+ICC(2,1): ${reliability.icc?.single ?? 'n/a'}
+${
+  ruleFlags
+    ? `
+Already flagged by the committee's conflict rules:
+${ruleFlags.length ? ruleFlags.map((flag) => `- ${flag.type}${flag.criterionCode ? ` (${flag.criterionCode})` : ''}: ${flag.description}`).join('\n') : '- none'}
+
+For each of these, return an entry with the same type and criterion code whose description explains the disagreement from the comments. Then add any further conflicts the rules missed.
+`
+    : ''
+}
 Please identify conflicts where reviewers strongly disagree. Consider:
 1. High variance in scores (>1.5 variance indicates significant disagreement)
 2. Contradictory comments on the same aspects
@@ -262,9 +322,9 @@ Respond in JSON format:
       parsed = JSON.parse(jsonText);
     } catch (parseError) {
       console.error('Failed to parse conflict detection response');
-      // Fallback: generate conflicts based on variance
+      // Fallback: generate conflicts based on variance, unless the rules already did
       parsed = {
-        conflicts: Object.entries(criterionVariances)
+        conflicts: ruleFlags ? [] : Object.entries(criterionVariances)
           .filter(([_, data]) => data.variance > 1.5)
           .map(([code, data]) => ({
             type: 'SCORE_VARIANCE' as const,
@@ -316,7 +376,10 @@ ${conflicts.conflicts.map((c) => `- ${c.type} (${c.severity}): ${c.description}`
 Review Scores Summary:
 ${reviews.map((r) => {
   const avgScore = Object.values(r.scores).reduce((a, b) => a + b, 0) / Object.keys(r.scores).length;
-  return `Reviewer ${r.reviewerName}: Average score ${avgScore.toFixed(2)}/5`;
+  const recommendation = r.recommendation ? RECOMMENDATION_LABELS[r.recommendation] : 'not recorded';
+  return `Reviewer ${r.reviewerName}: Average score ${avgScore.toFixed(2)}/5, recommendation ${recommendation}, ${
+    r.requiredChanges?.length ?? 0
+  } required change(s)${r.requiredChanges?.length ? `: ${r.requiredChanges.map((change) => change.description).join('; ')}` : ''}`;
 }).join('\n')}
 
 Please provide:
@@ -1,46 +1,89 @@
-import { Worker } from 'bullmq';
+import { Job, Worker } from 'bullmq';
 import { processReminder } from '../controllers/reminder.controller';
 import { processOCRJob } from '../controllers/ocr.controller';
 import { prisma } from '../index';
+import { JOB_QUEUES, queuesEnabled, startJobRunner } from './jobRunner.service';
 
-// Toggle background workers via env. Set REDIS_ENABLED=false to disable when Redis is not available.
-const workersEnabled: boolean = (process.env.REDIS_ENABLED || '').toLowerCase() === 'true';
+const connection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+};
+
+// Jobs are queued under their background_jobs id (see jobRunner.service)
+const backgroundJobId = (job: Job) => (job.data.backgroundJobId as string | undefined) ?? job.id!;
+
+/**
+ * Wrap a processor so its background_jobs row is marked RUNNING, and rows an
+ * admin cancelled after they were queued are skipped
+ */
+const tracked = (processor: (job: Job) => Promise<unknown>) => async (job: Job) => {
+  const id = backgroundJobId(job);
+  const row = await prisma.backgroundJob.findUnique({ where: { id }, select: { status: true } });
+  if (row?.status === 'CANCELLED') {
+    return;
+  }
+  await prisma.backgroundJob.updateMany({
+    where: { id },
+    data: { status: 'RUNNING', started_at: new Date(), heartbeat_at: null },
+  });
+  await processor(job);
+};
+
+const onCompleted = (label: string) => async (job: Job) => {
+  console.log(`${label} job ${job.id} completed`);
+
+  await prisma.backgroundJob.updateMany({
+    where: { id: backgroundJobId(job), status: 'RUNNING' },
+    data: {
+      status: 'COMPLETED',
+      completed_at: new Date(),
+      error_message: null,
+    },
+  });
+};
+
+const onFailed = (label: string) => async (job: Job | undefined, error: Error) => {
+  console.error(`${label} job ${job?.id} failed:`, error);
+
+  if (job) {
+    // BullMQ retries with backoff until the attempts run out
+    const retrying = job.attemptsMade < (job.opts.attempts ?? 1);
+    await prisma.backgroundJob.updateMany({
+      where: { id: backgroundJobId(job) },
+      data: {
+        status: retrying ? 'PENDING' : 'FAILED',
+        error_message: error.message,
+        retry_count: job.attemptsMade,
+      },
+    });
+  }
+};
 
 let reminderWorker: Worker | undefined;
 let ocrWorker: Worker | undefined;
 
-if (workersEnabled) {
+if (queuesEnabled) {
   // Initialize reminder worker
   reminderWorker = new Worker(
-    'reminder-queue',
-    async (job) => {
+    JOB_QUEUES.REMINDER_SEND!.queue,
+    tracked(async (job) => {
       console.log(`Processing reminder job: ${job.id}`);
       await processReminder(job);
-    },
-    {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-      },
-    }
+    }),
+    { connection }
   );
 
   // Initialize OCR worker
   ocrWorker = new Worker(
-    'ocr-queue',
-    async (job) => {
+    JOB_QUEUES.OCR_PROCESSING!.queue,
+    tracked(async (job) => {
       console.log(`Processing OCR job: ${job.id}`);
       await processOCRJob(job);
-    },
-    {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-      },
-    }
+    }),
+    { connection }
   );
 } else {
-  console.log('Background job processors are disabled. Set REDIS_ENABLED=true to enable.');
+  console.log('Redis is disabled; background jobs run in-process from the background_jobs table.');
 }
 
 // Error handling
@@ -52,90 +95,27 @@ ocrWorker?.on('error', (error) => {
   console.error('OCR worker error:', error);
 });
 
-// Job completion handling
-reminderWorker?.on('completed', async (job) => {
-  console.log(`Reminder job ${job.id} completed`);
-  
-  // Update job status in database
-  await prisma.backgroundJob.updateMany({
-    where: {
-      payload: {
-        path: ['reminderId'],
-        equals: job.data.reminderId,
-      },
-    },
-    data: {
-      status: 'COMPLETED',
-      completed_at: new Date(),
-    },
-  });
-});
+// Job completion and failure handling
+reminderWorker?.on('completed', onCompleted('Reminder'));
+ocrWorker?.on('completed', onCompleted('OCR'));
+reminderWorker?.on('failed', onFailed('Reminder'));
+ocrWorker?.on('failed', onFailed('OCR'));
 
-ocrWorker?.on('completed', async (job) => {
-  console.log(`OCR job ${job.id} completed`);
-  
-  // Update job status in database
-  await prisma.backgroundJob.updateMany({
-    where: {
-      payload: {
-        path: ['bookId'],
-        equals: job.data.bookId,
-      },
-    },
-    data: {
-      status: 'COMPLETED',
-      completed_at: new Date(),
-    },
-  });
-});
-
-// Job failure handling
-reminderWorker?.on('failed', async (job, error) => {
-  console.error(`Reminder job ${job?.id} failed:`, error);
-  
-  if (job) {
-    await prisma.backgroundJob.updateMany({
-      where: {
-        payload: {
-          path: ['reminderId'],
-          equals: job.data.reminderId,
-        },
-      },
-      data: {
-        status: 'FAILED',
-        error_message: error.message,
-        retry_count: {
-          increment: 1,
-        },
-      },
-    });
-  }
-});
+if (queuesEnabled) {
+  console.log('Background job processors started');
+}
 
-ocrWorker?.on('failed', async (job, error) => {
-  console.error(`OCR job ${job?.id} failed:`, error);
-  
-  if (job) {
-    await prisma.backgroundJob.updateMany({
-      where: {
-        payload: {
-          path: ['bookId'],
-          equals: job.data.bookId,
-        },
-      },
-      data: {
-        status: 'FAILED',
-        error_message: error.message,
-        retry_count: {
-          increment: 1,
-        },
-      },
-    });
+/**
+ * Without Redis, run the same processors from the background_jobs table
+ */
+export function startInProcessJobRunner() {
+  if (queuesEnabled) {
+    return;
   }
-});
-
-if (workersEnabled) {
-  console.log('Background job processors started');
+  startJobRunner({
+    REMINDER_SEND: processReminder,
+    OCR_PROCESSING: processOCRJob,
+  });
 }
 
 export { reminderWorker, ocrWorker };
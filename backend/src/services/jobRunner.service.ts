@@ -0,0 +1,285 @@
+import { BackgroundJob, JobType, Prisma } from '@prisma/client';
+import { Queue } from 'bullmq';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+
+/**
+ * Background jobs are tracked one row per job in background_jobs, whose id is
+ * also the BullMQ job ID. With REDIS_ENABLED=true the rows are handed to
+ * BullMQ; otherwise an in-process runner claims them with FOR UPDATE SKIP
+ * LOCKED so several API instances can share the table without running a job
+ * twice.
+ */
+
+export type JobHandler = (job: { id: string; data: any }) => Promise<unknown>;
+
+export interface ScheduleJobOptions {
+  scheduled_at?: Date | null;
+  max_retries?: number;
+}
+
+export const queuesEnabled: boolean = (process.env.REDIS_ENABLED || '').toLowerCase() === 'true';
+
+// BullMQ queue and job name for each job type that has a worker
+export const JOB_QUEUES: Partial<Record<JobType, { queue: string; name: string }>> = {
+  REMINDER_SEND: { queue: 'reminder-queue', name: 'send-reminder' },
+  OCR_PROCESSING: { queue: 'ocr-queue', name: 'process-ocr' },
+};
+
+const queues = new Map<string, Queue>();
+
+const getQueue = (type: JobType): Queue | undefined => {
+  const config = JOB_QUEUES[type];
+  if (!queuesEnabled || !config) {
+    return undefined;
+  }
+  if (!queues.has(config.queue)) {
+    queues.set(
+      config.queue,
+      new Queue(config.queue, {
+        connection: {
+          host: process.env.REDIS_HOST || 'localhost',
+          port: parseInt(process.env.REDIS_PORT || '6379'),
+        },
+      })
+    );
+  }
+  return queues.get(config.queue);
+};
+
+const pollIntervalMs = () => Math.max(1, Number(process.env.JOB_POLL_INTERVAL_SECONDS) || 5) * 1000;
+const retryBaseMs = () => Math.max(1, Number(process.env.JOB_RETRY_BASE_SECONDS) || 30) * 1000;
+const staleAfterMs = () => Math.max(1, Number(process.env.JOB_STALE_AFTER_MINUTES) || 30) * 60 * 1000;
+
+/**
+ * Hand a tracked job to BullMQ under the row's id
+ */
+async function addToQueue(job: BackgroundJob) {
+  const queue = getQueue(job.type);
+  if (!queue) {
+    return;
+  }
+  await queue.add(
+    JOB_QUEUES[job.type]!.name,
+    { ...(job.payload as Prisma.JsonObject), backgroundJobId: job.id },
+    {
+      jobId: job.id,
+      delay: job.scheduled_at ? Math.max(job.scheduled_at.getTime() - Date.now(), 0) : undefined,
+      attempts: job.max_retries + 1,
+      backoff: { type: 'exponential', delay: retryBaseMs() },
+    }
+  );
+}
+
+/**
+ * Record a job and queue it; it becomes due at `scheduled_at` (now if unset)
+ */
+export async function enqueueJob(type: JobType, payload: Record<string, unknown>, options: ScheduleJobOptions = {}) {
+  const job = await prisma.backgroundJob.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      scheduled_at: options.scheduled_at ?? null,
+      ...(options.max_retries !== undefined && { max_retries: options.max_retries }),
+    },
+  });
+  await addToQueue(job);
+  return job;
+}
+
+/**
+ * Stop a job that has not started yet
+ */
+export async function cancelJob(id: string) {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id, status: 'PENDING' },
+    data: { status: 'CANCELLED', completed_at: new Date() },
+  });
+  if (count === 0) {
+    const job = await prisma.backgroundJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+    throw new AppError(`Only pending jobs can be cancelled; this one is ${job.status}`, 409);
+  }
+
+  const job = await prisma.backgroundJob.findUniqueOrThrow({ where: { id } });
+  // Workers also skip cancelled rows, so a job that is already locked in Redis is harmless
+  const queued = await getQueue(job.type)?.getJob(id);
+  await queued?.remove().catch(() => undefined);
+  return job;
+}
+
+/**
+ * Run a failed or cancelled job again with a fresh retry budget
+ */
+export async function retryJob(id: string) {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id, status: { in: ['FAILED', 'CANCELLED'] } },
+    data: {
+      status: 'PENDING',
+      retry_count: 0,
+      error_message: null,
+      scheduled_at: null,
+      started_at: null,
+      completed_at: null,
+    },
+  });
+  if (count === 0) {
+    const job = await prisma.backgroundJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+    throw new AppError(`Only failed or cancelled jobs can be retried; this one is ${job.status}`, 409);
+  }
+
+  const job = await prisma.backgroundJob.findUniqueOrThrow({ where: { id } });
+  const queue = getQueue(job.type);
+  if (queue) {
+    // BullMQ keeps finished jobs under their ID, which would block re-adding it
+    await (await queue.getJob(id))?.remove();
+    await addToQueue(job);
+  } else if (!JOB_QUEUES[job.type]) {
+    console.warn(`No worker runs ${job.type} jobs; ${id} stays pending`);
+  }
+  return job;
+}
+
+/**
+ * Lock the oldest due job of a handled type and mark it RUNNING
+ */
+async function claimNextJob(types: JobType[], now: Date): Promise<BackgroundJob | null> {
+  const rows = await prisma.$queryRaw<BackgroundJob[]>`
+    UPDATE "background_jobs"
+    SET "status" = 'RUNNING', "started_at" = ${now}, "heartbeat_at" = NULL
+    WHERE "id" = (
+      SELECT "id" FROM "background_jobs"
+      WHERE "status" = 'PENDING'
+        AND ("scheduled_at" IS NULL OR "scheduled_at" <= ${now})
+        AND "type"::text IN (${Prisma.join(types)})
+      ORDER BY COALESCE("scheduled_at", "created_at")
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return rows[0] ?? null;
+}
+
+/**
+ * Put jobs that stopped reporting progress back in the queue. A job is stale
+ * once neither its last heartbeat nor, before the first one, its start is
+ * within JOB_STALE_AFTER_MINUTES. Each requeue uses up a retry, so a job that
+ * keeps taking its process down ends up FAILED instead of looping.
+ */
+export async function releaseStaleJobs(types: JobType[], now: Date) {
+  const cutoff = new Date(now.getTime() - staleAfterMs());
+  const stale: Prisma.BackgroundJobWhereInput = {
+    type: { in: types },
+    status: 'RUNNING',
+    OR: [{ heartbeat_at: { lt: cutoff } }, { heartbeat_at: null, started_at: { lt: cutoff } }],
+  };
+  const error_message = `No progress for over ${Math.round(staleAfterMs() / 60000)} minutes`;
+
+  const failed = await prisma.backgroundJob.updateMany({
+    where: { ...stale, retry_count: { gte: prisma.backgroundJob.fields.max_retries } },
+    data: { status: 'FAILED', error_message, completed_at: now, retry_count: { increment: 1 } },
+  });
+  const requeued = await prisma.backgroundJob.updateMany({
+    where: stale,
+    data: { status: 'PENDING', error_message, retry_count: { increment: 1 } },
+  });
+  if (requeued.count > 0 || failed.count > 0) {
+    console.warn(`Requeued ${requeued.count} and failed ${failed.count} stale background job(s)`);
+  }
+}
+
+async function runJob(job: BackgroundJob, handler: JobHandler) {
+  const payload = (job.payload ?? {}) as Prisma.JsonObject;
+  // A stale job may have been requeued and claimed again meanwhile; that run owns the row now
+  const claimed: Prisma.BackgroundJobWhereInput = { id: job.id, status: 'RUNNING', started_at: job.started_at };
+
+  try {
+    await handler({ id: job.id, data: { ...payload, backgroundJobId: job.id } });
+
+    const { count } = await prisma.backgroundJob.updateMany({
+      where: claimed,
+      data: { status: 'COMPLETED', completed_at: new Date(), error_message: null },
+    });
+    if (count === 0) {
+      console.warn(`Background job ${job.id} (${job.type}) finished after it was released; result not recorded`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = job.retry_count < job.max_retries;
+    console.error(`Background job ${job.id} (${job.type}) failed${retry ? ', will retry' : ''}:`, message);
+
+    await prisma.backgroundJob.updateMany({
+      where: claimed,
+      data: {
+        status: retry ? 'PENDING' : 'FAILED',
+        error_message: message,
+        retry_count: { increment: 1 },
+        // Exponential backoff: base, 2x base, 4x base...
+        scheduled_at: retry ? new Date(Date.now() + retryBaseMs() * 2 ** job.retry_count) : job.scheduled_at,
+      },
+    });
+  }
+}
+
+/**
+ * Claim and run due jobs one at a time until none are left
+ */
+export async function runDueJobs(handlers: Partial<Record<JobType, JobHandler>>) {
+  const types = Object.keys(handlers) as JobType[];
+  let job = await claimNextJob(types, new Date());
+  while (job) {
+    await runJob(job, handlers[job.type]!);
+    job = await claimNextJob(types, new Date());
+  }
+}
+
+let pollTimer: NodeJS.Timeout | undefined;
+let runnerTypes: JobType[] = [];
+
+/**
+ * Whether a worker will pick up jobs of this type: BullMQ when queues are
+ * enabled, otherwise the in-process runner once it has been started
+ */
+export function hasJobWorker(type: JobType): boolean {
+  return queuesEnabled ? !!JOB_QUEUES[type] : runnerTypes.includes(type);
+}
+
+/**
+ * Poll for due jobs (every JOB_POLL_INTERVAL_SECONDS, default 5) and run them
+ * one at a time, draining the backlog before waiting again.
+ */
+export function startJobRunner(handlers: Partial<Record<JobType, JobHandler>>) {
+  const types = Object.keys(handlers) as JobType[];
+  if (pollTimer || types.length === 0) {
+    return;
+  }
+  runnerTypes = types;
+
+  let lastStaleCheck = 0;
+
+  const poll = async () => {
+    try {
+      const now = new Date();
+      if (now.getTime() - lastStaleCheck >= staleAfterMs()) {
+        lastStaleCheck = now.getTime();
+        await releaseStaleJobs(types, now);
+      }
+
+      await runDueJobs(handlers);
+    } catch (error) {
+      console.error('Background job runner error:', error);
+    } finally {
+      pollTimer = setTimeout(poll, pollIntervalMs());
+      pollTimer.unref();
+    }
+  };
+
+  pollTimer = setTimeout(poll, 0);
+  pollTimer.unref();
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from 'events';
+import { Notification, NotificationType, UserRole } from '@prisma/client';
+import { prisma } from '../index';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  book_id?: string;
+  assignment_id?: string;
+}
+
+// Live delivery to open notification streams. Subscribers are keyed by user ID;
+// with several API instances each one only reaches the clients connected to it,
+// which then catch up from the inbox on their next fetch.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Listen for notifications created for a user; returns the unsubscribe function
+ */
+export function subscribeToNotifications(userId: string, listener: (notification: Notification) => void) {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
+
+/**
+ * Store a notification for each user and push it to their open streams.
+ * Failures are logged rather than thrown so a notification never breaks the
+ * action that raised it.
+ */
+export async function notifyUsers(userIds: string[], input: NotificationInput) {
+  const recipients = Array.from(new Set(userIds));
+
+  try {
+    const notifications = await Promise.all(
+      recipients.map((user_id) =>
+        prisma.notification.create({
+          data: { ...input, user_id },
+        })
+      )
+    );
+
+    notifications.forEach((notification) => emitter.emit(notification.user_id, notification));
+    return notifications;
+  } catch (error) {
+    console.error('Error creating notifications:', error);
+    return [];
+  }
+}
+
+/**
+ * Notify every active user holding one of the roles plus any extra users,
+ * optionally skipping the user who triggered the event
+ */
+export async function notifyRoles(
+  roles: UserRole[],
+  input: NotificationInput,
+  options: { userIds?: string[]; exceptUserId?: string } = {}
+) {
+  try {
+    const users = await prisma.user.findMany({
+      where: { role: { in: roles }, is_active: true },
+      select: { id: true },
+    });
+
+    const recipients = [...users.map((user) => user.id), ...(options.userIds ?? [])].filter(
+      (id) => id !== options.exceptUserId
+    );
+
+    return notifyUsers(recipients, input);
+  } catch (error) {
+    console.error('Error finding notification recipients:', error);
+    return [];
+  }
+}
+
+export async function countUnreadNotifications(userId: string) {
+  return prisma.notification.count({
+    where: { user_id: userId, read_at: null },
+  });
+}
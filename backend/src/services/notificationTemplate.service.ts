@@ -0,0 +1,411 @@
+import { ReminderChannel } from '@prisma/client';
+import { prisma } from '../index';
+
+export type TemplateLanguage = 'en' | 'hi';
+export type TemplateEvent =
+  | 'ASSIGNMENT_CREATED'
+  | 'ASSIGNMENT_DUE'
+  | 'ASSIGNMENT_OVERDUE'
+  | 'REVIEW_SUBMISSION_REMINDER'
+  | 'COMMITTEE_DECISION_DUE'
+  | 'CUSTOM'
+  | 'REASSIGNMENT_SUGGESTED'
+  | 'CONTACT_VERIFICATION';
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['en', 'hi'];
+
+export type TemplateVariables = Record<string, string | number | Date | null | undefined>;
+
+export interface NotificationTemplateContent {
+  subject: string | null;
+  body: string;
+}
+
+export interface RenderedNotification {
+  subject: string | null;
+  // Only set for email; the other channels are plain text
+  html: string | null;
+  text: string;
+}
+
+interface EventDefinition {
+  channels: ReminderChannel[];
+  variables: string[];
+  // Sample values used by the admin preview
+  sample: TemplateVariables;
+  content: Record<TemplateLanguage, { subject: string; summary: string }>;
+  // Reminders carry a free-text note from the sender, shown below the summary
+  takesMessage?: boolean;
+  // Short transactional messages without greeting, link or sign-off
+  bare?: boolean;
+}
+
+const ALL_CHANNELS: ReminderChannel[] = ['EMAIL', 'SMS', 'WHATSAPP', 'IN_APP'];
+const REMINDER_VARIABLES = ['recipient_name', 'reviewer_name', 'book_title', 'due_date', 'link', 'message'];
+const REMINDER_SAMPLE: TemplateVariables = {
+  recipient_name: 'Dr. Asha Menon',
+  reviewer_name: 'Dr. Asha Menon',
+  book_title: 'Fundamentals of Dravyaguna',
+  due_date: new Date('2024-07-15T00:00:00Z'),
+  link: 'https://review.ncism.gov.in/review/sample-assignment',
+  message: 'Please prioritise the chapters on classical formulations.',
+};
+
+export const TEMPLATE_EVENTS: Record<TemplateEvent, EventDefinition> = {
+  ASSIGNMENT_CREATED: {
+    channels: ALL_CHANNELS,
+    variables: ['recipient_name', 'book_title', 'due_date', 'link'],
+    sample: REMINDER_SAMPLE,
+    content: {
+      en: {
+        subject: 'New review assignment',
+        summary: 'You have been assigned to review "{{book_title}}". The review is due on {{due_date}}.',
+      },
+      hi: {
+        subject: 'नई समीक्षा असाइनमेंट',
+        summary: 'आपको "{{book_title}}" की समीक्षा सौंपी गई है। समीक्षा की अंतिम तिथि {{due_date}} है।',
+      },
+    },
+  },
+  ASSIGNMENT_DUE: {
+    channels: ALL_CHANNELS,
+    variables: REMINDER_VARIABLES,
+    sample: REMINDER_SAMPLE,
+    takesMessage: true,
+    content: {
+      en: {
+        subject: 'Review due soon',
+        summary: 'Your review of "{{book_title}}" is due on {{due_date}}.',
+      },
+      hi: {
+        subject: 'समीक्षा की तिथि निकट है',
+        summary: '"{{book_title}}" की आपकी समीक्षा की अंतिम तिथि {{due_date}} है।',
+      },
+    },
+  },
+  ASSIGNMENT_OVERDUE: {
+    channels: ALL_CHANNELS,
+    variables: REMINDER_VARIABLES,
+    sample: REMINDER_SAMPLE,
+    takesMessage: true,
+    content: {
+      en: {
+        subject: 'Review overdue',
+        summary: 'The review of "{{book_title}}" by {{reviewer_name}} was due on {{due_date}} and is now overdue.',
+      },
+      hi: {
+        subject: 'समीक्षा में विलंब',
+        summary: '{{reviewer_name}} द्वारा "{{book_title}}" की समीक्षा {{due_date}} तक होनी थी और अब विलंबित है।',
+      },
+    },
+  },
+  REVIEW_SUBMISSION_REMINDER: {
+    channels: ALL_CHANNELS,
+    variables: REMINDER_VARIABLES,
+    sample: REMINDER_SAMPLE,
+    takesMessage: true,
+    content: {
+      en: {
+        subject: 'Please submit your review',
+        summary: 'Your review of "{{book_title}}" has not been submitted yet.',
+      },
+      hi: {
+        subject: 'कृपया अपनी समीक्षा जमा करें',
+        summary: '"{{book_title}}" की आपकी समीक्षा अभी तक जमा नहीं हुई है।',
+      },
+    },
+  },
+  COMMITTEE_DECISION_DUE: {
+    channels: ALL_CHANNELS,
+    variables: REMINDER_VARIABLES,
+    sample: REMINDER_SAMPLE,
+    takesMessage: true,
+    content: {
+      en: {
+        subject: 'Committee decision due',
+        summary: 'A committee decision on "{{book_title}}" is due.',
+      },
+      hi: {
+        subject: 'समिति निर्णय लंबित',
+        summary: '"{{book_title}}" पर समिति का निर्णय लंबित है।',
+      },
+    },
+  },
+  CUSTOM: {
+    channels: ALL_CHANNELS,
+    variables: REMINDER_VARIABLES,
+    sample: REMINDER_SAMPLE,
+    content: {
+      en: { subject: 'Message from the NCISM Secretariat', summary: '{{message}}' },
+      hi: { subject: 'NCISM सचिवालय से संदेश', summary: '{{message}}' },
+    },
+  },
+  REASSIGNMENT_SUGGESTED: {
+    channels: ALL_CHANNELS,
+    variables: [...REMINDER_VARIABLES, 'suggested_reviewers'],
+    sample: { ...REMINDER_SAMPLE, suggested_reviewers: 'Dr. R. Sharma, Dr. K. Iyer' },
+    content: {
+      en: {
+        subject: 'Consider reassigning a review',
+        summary:
+          'The review of "{{book_title}}" by {{reviewer_name}} was due on {{due_date}} and is still outstanding.' +
+          '{{#suggested_reviewers}} Available reviewers: {{suggested_reviewers}}.{{/suggested_reviewers}}',
+      },
+      hi: {
+        subject: 'समीक्षा पुनः सौंपने पर विचार करें',
+        summary:
+          '{{reviewer_name}} द्वारा "{{book_title}}" की समीक्षा {{due_date}} तक होनी थी और अभी भी लंबित है।' +
+          '{{#suggested_reviewers}} उपलब्ध समीक्षक: {{suggested_reviewers}}।{{/suggested_reviewers}}',
+      },
+    },
+  },
+  CONTACT_VERIFICATION: {
+    channels: ['SMS', 'WHATSAPP'],
+    variables: ['code', 'expires_minutes'],
+    sample: { code: '482913', expires_minutes: 10 },
+    bare: true,
+    content: {
+      en: {
+        subject: 'Verification code',
+        summary: 'Your NCISM Review verification code is {{code}}. It expires in {{expires_minutes}} minutes.',
+      },
+      hi: {
+        subject: 'सत्यापन कोड',
+        summary: 'आपका NCISM समीक्षा सत्यापन कोड {{code}} है। यह {{expires_minutes}} मिनट में समाप्त हो जाएगा।',
+      },
+    },
+  },
+};
+
+const PHRASES: Record<TemplateLanguage, { greeting: string; open: string; regards: string }> = {
+  en: { greeting: 'Dear', open: 'Open in NCISM Review', regards: 'Best regards,' },
+  hi: { greeting: 'प्रिय', open: 'NCISM समीक्षा में खोलें', regards: 'सादर,' },
+};
+
+/**
+ * Built-in template for an event, channel and language
+ */
+export function defaultTemplate(
+  event: TemplateEvent,
+  channel: ReminderChannel,
+  language: TemplateLanguage
+): NotificationTemplateContent {
+  const definition = TEMPLATE_EVENTS[event];
+  const { subject, summary } = definition.content[language];
+  const phrases = PHRASES[language];
+
+  if (definition.bare) {
+    return { subject: channel === 'EMAIL' || channel === 'IN_APP' ? subject : null, body: summary };
+  }
+
+  const note = definition.takesMessage;
+
+  switch (channel) {
+    case 'EMAIL':
+      return {
+        subject,
+        body: [
+          '<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">',
+          `  <h2>${subject}</h2>`,
+          `  <p>${phrases.greeting} {{recipient_name}},</p>`,
+          `  <p>${summary}</p>`,
+          ...(note ? ['  {{#message}}<p>{{message}}</p>{{/message}}'] : []),
+          `  {{#link}}<p><a href="{{link}}">${phrases.open}</a></p>{{/link}}`,
+          `  <p>${phrases.regards}<br>NCISM Review System</p>`,
+          '</div>',
+        ].join('\n'),
+      };
+    case 'WHATSAPP':
+      return {
+        subject: null,
+        body:
+          `*${subject}*\n\n${phrases.greeting} {{recipient_name}},\n\n${summary}` +
+          (note ? '{{#message}}\n\n{{message}}{{/message}}' : '') +
+          '{{#link}}\n\n{{link}}{{/link}}',
+      };
+    case 'SMS':
+      return {
+        subject: null,
+        body: `NCISM: ${summary}` + (note ? '{{#message}} {{message}}{{/message}}' : '') + '{{#link}} {{link}}{{/link}}',
+      };
+    case 'IN_APP':
+      return {
+        subject,
+        body: summary + (note ? '{{#message}} {{message}}{{/message}}' : ''),
+      };
+  }
+}
+
+export const isTemplateEvent = (event: string): event is TemplateEvent => event in TEMPLATE_EVENTS;
+
+export const normalizeLanguage = (language?: string | null): TemplateLanguage =>
+  TEMPLATE_LANGUAGES.includes(language as TemplateLanguage) ? (language as TemplateLanguage) : 'en';
+
+/**
+ * Absolute frontend URL for a path, used as the deep link in messages
+ */
+export const appLink = (path: string) => `${(process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '')}${path}`;
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Names of the variables a template refers to, including section names
+ */
+export function templateVariables(template: string): string[] {
+  const names = new Set<string>();
+  const pattern = /\{\{\s*[#/]?(\w+)\s*\}\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template))) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Replace {{name}} placeholders. {{#name}}...{{/name}} keeps its content only
+ * when the variable is set. Values are HTML-escaped when rendering email.
+ */
+export function interpolate(
+  template: string,
+  values: Record<string, string>,
+  options: { escape?: boolean } = {}
+): string {
+  const value = (name: string) => {
+    const raw = values[name] ?? '';
+    return options.escape ? escapeHtml(raw) : raw;
+  };
+
+  return template
+    .replace(SECTION, (_match, name: string, inner: string) => (values[name] ? inner : ''))
+    .replace(PLACEHOLDER, (_match, name: string) => value(name));
+}
+
+/**
+ * Plain-text version of an HTML email: block elements become line breaks,
+ * links keep their address and tags are dropped.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/\r/g, '')
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) =>
+      label.trim() && label.trim() !== href ? `${label.trim()}: ${href}` : href
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr|table)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Turn variables into display strings; dates use the recipient's language and timezone
+ */
+function formatVariables(variables: TemplateVariables, language: TemplateLanguage, timeZone?: string) {
+  const formatter = new Intl.DateTimeFormat(language === 'hi' ? 'hi-IN' : 'en-IN', {
+    dateStyle: 'long',
+    timeZone: timeZone || 'Asia/Kolkata',
+  });
+
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    if (value === null || value === undefined) continue;
+    values[name] = value instanceof Date ? formatter.format(value) : String(value);
+  }
+  return values;
+}
+
+export function renderTemplate(
+  template: NotificationTemplateContent,
+  channel: ReminderChannel,
+  language: TemplateLanguage,
+  variables: TemplateVariables,
+  timeZone?: string
+): RenderedNotification {
+  const values = formatVariables(variables, language, timeZone);
+  const subject = template.subject ? interpolate(template.subject, values) : null;
+
+  if (channel === 'EMAIL') {
+    const html = interpolate(template.body, values, { escape: true });
+    return { subject, html, text: htmlToText(html) };
+  }
+
+  return { subject, html: null, text: interpolate(template.body, values).trim() };
+}
+
+/**
+ * The template in effect: the admin's override if there is one, else the built-in default
+ */
+export async function getTemplate(
+  event: TemplateEvent,
+  channel: ReminderChannel,
+  language: TemplateLanguage
+): Promise<NotificationTemplateContent & { customized: boolean }> {
+  const override = await prisma.notificationTemplate.findUnique({
+    where: { event_channel_language: { event, channel, language } },
+  });
+  if (override) {
+    return { subject: override.subject, body: override.body, customized: true };
+  }
+  return { ...defaultTemplate(event, channel, language), customized: false };
+}
+
+/**
+ * Render the template for an event in the recipient's language
+ */
+export async function renderNotification(
+  event: TemplateEvent,
+  channel: ReminderChannel,
+  options: { language?: string | null; timeZone?: string | null; variables: TemplateVariables }
+): Promise<RenderedNotification> {
+  const language = normalizeLanguage(options.language);
+  const template = await getTemplate(event, channel, language);
+  return renderTemplate(template, channel, language, options.variables, options.timeZone ?? undefined);
+}
+
+/**
+ * Every event/channel/language combination with the template currently in effect
+ */
+export async function listTemplates() {
+  const overrides = await prisma.notificationTemplate.findMany();
+
+  return (Object.keys(TEMPLATE_EVENTS) as TemplateEvent[]).flatMap((event) =>
+    TEMPLATE_EVENTS[event].channels.flatMap((channel) =>
+      TEMPLATE_LANGUAGES.map((language) => {
+        const override = overrides.find(
+          (row) => row.event === event && row.channel === channel && row.language === language
+        );
+        const fallback = defaultTemplate(event, channel, language);
+        return {
+          event,
+          channel,
+          language,
+          subject: override ? override.subject : fallback.subject,
+          body: override ? override.body : fallback.body,
+          customized: !!override,
+          updated_at: override?.updated_at ?? null,
+          variables: TEMPLATE_EVENTS[event].variables,
+        };
+      })
+    )
+  );
+}
@@ -0,0 +1,167 @@
+import { prisma } from '../index';
+import { smtpTransport } from './email.service';
+import { twilioTransport } from './sms.service';
+import { whatsappWebTransport } from './whatsapp.service';
+
+export type DeliveryChannel = 'EMAIL' | 'SMS' | 'WHATSAPP';
+
+export interface OutgoingMessage {
+  channel: DeliveryChannel;
+  to: string;
+  subject?: string | null;
+  text: string;
+  html?: string | null;
+  // Context recorded alongside captured messages
+  event?: string;
+  reminder_id?: string;
+  user_id?: string;
+}
+
+export interface TransportResult {
+  provider_message_id?: string | null;
+}
+
+/**
+ * Something that can hand a rendered message to a provider. Transports throw
+ * on failure; a TransportError with retryable = false stops further attempts.
+ */
+export interface MessageTransport {
+  name: string;
+  send(message: OutgoingMessage): Promise<TransportResult>;
+}
+
+export class TransportError extends Error {
+  constructor(message: string, public retryable = true) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+export type DeliveryStatus = 'DELIVERED' | 'FAILED' | 'SKIPPED';
+
+export interface DeliveryReceipt {
+  channel: string;
+  transport: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  provider_message_id?: string | null;
+  error?: string | null;
+  at: string;
+}
+
+/**
+ * Records the message in the outbox_messages table instead of sending it
+ */
+export const outboxTransport: MessageTransport = {
+  name: 'outbox',
+  async send(message) {
+    const captured = await prisma.outboxMessage.create({
+      data: {
+        channel: message.channel,
+        recipient: message.to,
+        subject: message.subject ?? null,
+        text: message.text,
+        html: message.html ?? null,
+        event: message.event ?? null,
+        reminder_id: message.reminder_id ?? null,
+        user_id: message.user_id ?? null,
+      },
+    });
+    return { provider_message_id: captured.id };
+  },
+};
+
+const providers: Record<DeliveryChannel, () => MessageTransport> = {
+  EMAIL: () => smtpTransport,
+  SMS: () => twilioTransport,
+  WHATSAPP: () => whatsappWebTransport,
+};
+
+const providerConfigured: Record<DeliveryChannel, () => boolean> = {
+  EMAIL: () => !!(process.env.SMTP_HOST || process.env.SMTP_USER),
+  SMS: () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN),
+  WHATSAPP: () => process.env.WHATSAPP_ENABLED === 'true',
+};
+
+/**
+ * Pick the transport for a channel. EMAIL_TRANSPORT, SMS_TRANSPORT and
+ * WHATSAPP_TRANSPORT override NOTIFICATION_TRANSPORT; each is `outbox`,
+ * `provider` or `auto` (the default). Auto uses the provider once it is
+ * configured and the outbox until then, except in production where an
+ * unconfigured provider fails loudly rather than quietly capturing mail.
+ */
+export function resolveTransport(channel: DeliveryChannel): MessageTransport {
+  const mode = (process.env[`${channel}_TRANSPORT`] || process.env.NOTIFICATION_TRANSPORT || 'auto').toLowerCase();
+
+  if (mode === 'outbox') {
+    return outboxTransport;
+  }
+  if (mode === 'provider' || providerConfigured[channel]() || process.env.NODE_ENV === 'production') {
+    return providers[channel]();
+  }
+  return outboxTransport;
+}
+
+const maxAttempts = () => Math.max(1, Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 3);
+const retryBaseMs = () => Math.max(0, Number(process.env.NOTIFICATION_RETRY_BASE_MS ?? 500));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Send a message through its channel's transport, retrying failures with
+ * exponential backoff (NOTIFICATION_MAX_ATTEMPTS, NOTIFICATION_RETRY_BASE_MS).
+ * Never throws; the receipt says what happened.
+ */
+export async function deliverMessage(message: OutgoingMessage): Promise<DeliveryReceipt> {
+  const transport = resolveTransport(message.channel);
+  const limit = maxAttempts();
+  let attempts = 0;
+  let lastError: unknown;
+
+  while (attempts < limit) {
+    attempts++;
+    try {
+      const result = await transport.send(message);
+      return {
+        channel: message.channel,
+        transport: transport.name,
+        status: 'DELIVERED',
+        attempts,
+        provider_message_id: result.provider_message_id ?? null,
+        at: new Date().toISOString(),
+      };
+    } catch (error) {
+      lastError = error;
+      if (error instanceof TransportError && !error.retryable) {
+        break;
+      }
+      if (attempts < limit) {
+        await sleep(retryBaseMs() * 2 ** (attempts - 1));
+      }
+    }
+  }
+
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  console.error(`Error sending ${message.channel} via ${transport.name} after ${attempts} attempt(s):`, reason);
+
+  return {
+    channel: message.channel,
+    transport: transport.name,
+    status: 'FAILED',
+    attempts,
+    error: reason,
+    at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Receipt for a channel that was not attempted, e.g. an unverified number
+ */
+export const skippedReceipt = (channel: string, reason: string): DeliveryReceipt => ({
+  channel,
+  transport: null,
+  status: 'SKIPPED',
+  attempts: 0,
+  error: reason,
+  at: new Date().toISOString(),
+});
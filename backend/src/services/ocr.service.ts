@@ -0,0 +1,293 @@
+import fs from 'fs';
+import { Prisma } from '@prisma/client';
+import { createWorker, Worker } from 'tesseract.js';
+import { fromPath } from 'pdf2pic';
+// The legacy build is the CommonJS entry point of pdfjs-dist and runs without a DOM
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { prisma } from '../index';
+
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng+hin+ara';
+const OCR_DENSITY = parseInt(process.env.OCR_DENSITY || '300');
+const OCR_PAGE_WIDTH = parseInt(process.env.OCR_PAGE_WIDTH || '2480');
+const OCR_TEXT_LAYER_MIN_CHARS = parseInt(process.env.OCR_TEXT_LAYER_MIN_CHARS || '50');
+
+export interface OCRPageResult {
+  pageNumber: number;
+  content: string;
+  confidence: number;
+  language: string | null;
+  source: 'TEXT_LAYER' | 'OCR';
+}
+
+export interface OCRProgress {
+  total_pages: number;
+  processed_pages: number;
+  current_page: number | null;
+  text_layer_pages: number;
+  ocr_pages: number;
+  failed_pages: Array<{ page: number; error: string }>;
+}
+
+export type SearchConfig = 'english' | 'arabic' | 'simple';
+
+export interface OCRSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface OCRSearchHit {
+  id: string;
+  book_id: string;
+  page_number: number;
+  confidence: number;
+  language: string | null;
+  created_at: Date;
+  rank: number;
+  snippet: OCRSnippetSegment[];
+  book: {
+    id: string;
+    title: string;
+    authors: string;
+  };
+}
+
+interface OCRPipelineHandlers {
+  onPage: (result: OCRPageResult) => Promise<void>;
+  onProgress: (progress: OCRProgress) => Promise<void>;
+}
+
+/**
+ * Extract the embedded text layer of a page, if the PDF has one
+ */
+const extractTextLayer = async (doc: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const textContent = await page.getTextContent();
+    return textContent.items
+      .filter((item): item is TextItem => 'str' in item)
+      .map((item) => item.str + (item.hasEOL ? '\n' : ' '))
+      .join('')
+      .trim();
+  } finally {
+    page.cleanup();
+  }
+};
+
+/**
+ * Format a progress summary such as "page 143/310, 2 failed"
+ */
+export const formatOCRProgress = (progress: OCRProgress): string => {
+  const page = progress.current_page ?? progress.processed_pages;
+  const failed = progress.failed_pages.length;
+  return `page ${page}/${progress.total_pages}${failed > 0 ? `, ${failed} failed` : ''}`;
+};
+
+/**
+ * Run OCR over every page of a PDF.
+ *
+ * Pages with a usable text layer are taken as-is; scanned pages are rasterized
+ * and recognized with Tesseract. A page that fails is recorded in the progress
+ * and skipped, so one bad page does not abort the whole book.
+ */
+export const runOCRPipeline = async (
+  pdfPath: string,
+  handlers: OCRPipelineHandlers
+): Promise<OCRProgress> => {
+  const data = new Uint8Array(fs.readFileSync(pdfPath));
+  const doc = await pdfjsLib.getDocument({ data, disableFontFace: true }).promise;
+
+  const progress: OCRProgress = {
+    total_pages: doc.numPages,
+    processed_pages: 0,
+    current_page: null,
+    text_layer_pages: 0,
+    ocr_pages: 0,
+    failed_pages: [],
+  };
+
+  const rasterize = fromPath(pdfPath, {
+    density: OCR_DENSITY,
+    format: 'png',
+    width: OCR_PAGE_WIDTH,
+    preserveAspectRatio: true,
+  });
+
+  // Tesseract is only started once a page actually needs it
+  let worker: Worker | undefined;
+
+  try {
+    await handlers.onProgress(progress);
+
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      progress.current_page = pageNumber;
+
+      try {
+        const text = await extractTextLayer(doc, pageNumber);
+
+        if (text.replace(/\s/g, '').length >= OCR_TEXT_LAYER_MIN_CHARS) {
+          await handlers.onPage({
+            pageNumber,
+            content: text,
+            confidence: 1,
+            language: null,
+            source: 'TEXT_LAYER',
+          });
+          progress.text_layer_pages++;
+        } else {
+          const image = await rasterize(pageNumber, { responseType: 'buffer' });
+          if (!image.buffer) {
+            throw new Error('Page could not be rasterized');
+          }
+
+          if (!worker) {
+            worker = await createWorker();
+            await worker.loadLanguage(OCR_LANGUAGES);
+            await worker.initialize(OCR_LANGUAGES);
+          }
+
+          const { data: result } = await worker.recognize(image.buffer);
+          await handlers.onPage({
+            pageNumber,
+            content: result.text.trim(),
+            confidence: result.confidence / 100,
+            language: OCR_LANGUAGES,
+            source: 'OCR',
+          });
+          progress.ocr_pages++;
+        }
+      } catch (error) {
+        progress.failed_pages.push({
+          page: pageNumber,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      progress.processed_pages++;
+      await handlers.onProgress(progress);
+    }
+  } finally {
+    if (worker) {
+      await worker.terminate();
+    }
+    await doc.destroy();
+  }
+
+  return progress;
+};
+
+/**
+ * Pick the Postgres text search configuration for a page from its dominant script.
+ * Postgres ships no Hindi or Sanskrit dictionary, so Devanagari pages use 'simple'.
+ */
+export const detectSearchConfig = (content: string): SearchConfig => {
+  const latin = (content.match(/[A-Za-z]/g) || []).length;
+  const devanagari = (content.match(/[\u0900-\u097F]/g) || []).length;
+  const arabic = (content.match(/[\u0600-\u06FF]/g) || []).length;
+
+  if (devanagari > latin && devanagari >= arabic) {
+    return 'simple';
+  }
+  if (arabic > latin) {
+    return 'arabic';
+  }
+  return latin > 0 ? 'english' : 'simple';
+};
+
+// ts_headline wraps matches in these markers; they are split out before the response
+const HIGHLIGHT_START = '\u27E6';
+const HIGHLIGHT_STOP = '\u27E7';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=35, MinWords=15, FragmentDelimiter=" … "`;
+
+/**
+ * Split a ts_headline result into plain and highlighted segments
+ */
+export const parseHeadline = (headline: string): OCRSnippetSegment[] =>
+  headline
+    .split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_STOP}]`))
+    .map((text, index) => ({ text, highlighted: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+
+/**
+ * Ranked full-text search over OCR pages.
+ *
+ * The query uses web search syntax: "quoted phrases", OR, and -excluded terms.
+ * Each page is matched with the configuration it was indexed with, so the query
+ * is parsed once per configuration.
+ */
+export const searchOCRPages = async (options: {
+  query: string;
+  bookId?: string;
+  page: number;
+  limit: number;
+}): Promise<{ results: OCRSearchHit[]; total: number }> => {
+  const tsquery = (config: SearchConfig) =>
+    Prisma.sql`websearch_to_tsquery(${Prisma.raw(`'${config}'`)}::regconfig, ${options.query}::text)`;
+
+  const matches = Prisma.sql`(
+    (o.search_config = 'english' AND o.search_vector @@ ${tsquery('english')})
+    OR (o.search_config = 'arabic' AND o.search_vector @@ ${tsquery('arabic')})
+    OR (o.search_config = 'simple' AND o.search_vector @@ ${tsquery('simple')})
+  )`;
+  const rowQuery = Prisma.sql`CASE o.search_config
+    WHEN 'english' THEN ${tsquery('english')}
+    WHEN 'arabic' THEN ${tsquery('arabic')}
+    ELSE ${tsquery('simple')}
+  END`;
+  const bookFilter = options.bookId ? Prisma.sql`AND o.book_id = ${options.bookId}` : Prisma.empty;
+
+  const [rows, counts] = await Promise.all([
+    prisma.$queryRaw<Array<{
+      id: string;
+      book_id: string;
+      page_number: number;
+      confidence: number;
+      language: string | null;
+      created_at: Date;
+      rank: number;
+      headline: string;
+      title: string;
+      authors: string;
+    }>>`
+      SELECT ranked.id, ranked.book_id, ranked.page_number, ranked.confidence, ranked.language,
+        ranked.created_at, ranked.rank, b.title, b.authors,
+        ts_headline(ranked.search_config::regconfig, o.content, ranked.query, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT o.id, o.book_id, o.page_number, o.confidence, o.language, o.created_at, o.search_config,
+          ${rowQuery} AS query,
+          ts_rank_cd(o.search_vector, ${rowQuery}, 1) AS rank
+        FROM ocr_index o
+        WHERE ${matches} ${bookFilter}
+        ORDER BY rank DESC, o.page_number ASC
+        LIMIT ${options.limit} OFFSET ${(options.page - 1) * options.limit}
+      ) ranked
+      JOIN ocr_index o ON o.id = ranked.id
+      JOIN books b ON b.id = ranked.book_id
+      ORDER BY ranked.rank DESC, ranked.page_number ASC
+    `,
+    prisma.$queryRaw<Array<{ total: number }>>`
+      SELECT COUNT(*)::int AS total
+      FROM ocr_index o
+      WHERE ${matches} ${bookFilter}
+    `,
+  ]);
+
+  return {
+    results: rows.map((row) => ({
+      id: row.id,
+      book_id: row.book_id,
+      page_number: row.page_number,
+      confidence: row.confidence,
+      language: row.language,
+      created_at: row.created_at,
+      rank: row.rank,
+      snippet: parseHeadline(row.headline),
+      book: {
+        id: row.book_id,
+        title: row.title,
+        authors: row.authors,
+      },
+    })),
+    total: counts[0]?.total ?? 0,
+  };
+};
@@ -0,0 +1,83 @@
+import { Assignment } from '@prisma/client';
+import { prisma } from '../index';
+import { notifyRoles, notifyUsers } from './notification.service';
+import { ReviewerRecommendation, recommendReviewers } from './reviewerRecommendation.service';
+
+// Replacement reviewers named in the Secretariat's recusal alert
+const MAX_NAMED_REPLACEMENTS = 3;
+
+/**
+ * Reviewers who could take over a recused assignment, best fit first. Uses the
+ * panel ranking without the reviewers already on the book this round; reviewers
+ * with a declared conflict on the book are never eligible. Only the top
+ * candidate is marked as recommended.
+ */
+export async function suggestReplacementReviewers(bookId: string): Promise<ReviewerRecommendation[]> {
+  const result = await recommendReviewers(bookId, 1);
+  if (!result) {
+    return [];
+  }
+
+  return result.recommendations
+    .filter((candidate) => !candidate.already_assigned)
+    .map((candidate, index) => ({ ...candidate, recommended: index === 0 }));
+}
+
+/**
+ * Alert the Secretariat that a reviewer was recused after declaring a
+ * conflict, naming the best replacements
+ */
+export async function notifyRecusal(
+  assignment: Assignment & { book: { title: string }; reviewer: { name: string } },
+  suggestions: ReviewerRecommendation[]
+) {
+  const names = suggestions.slice(0, MAX_NAMED_REPLACEMENTS).map((candidate) => candidate.reviewer.name);
+
+  await notifyRoles(['SECRETARIAT'], {
+    type: 'COI_DECLARED',
+    title: 'Reviewer recused',
+    message:
+      `${assignment.reviewer.name} declared a conflict of interest on "${assignment.book.title}" ` +
+      `(round ${assignment.round_number}) and can no longer review it.` +
+      (names.length > 0 ? ` Suggested replacements: ${names.join(', ')}.` : ' No eligible replacement reviewers were found.'),
+    link: `/books/${assignment.book_id}`,
+    book_id: assignment.book_id,
+    assignment_id: assignment.id,
+  });
+}
+
+/**
+ * Hand a recused assignment to another reviewer. The new assignment keeps the
+ * round and records which assignment it replaces.
+ */
+export async function assignReplacement(
+  recused: Assignment & { book: { title: string } },
+  reviewerId: string,
+  assignedBy: string,
+  dueDate: Date
+) {
+  const replacement = await prisma.assignment.create({
+    data: {
+      book_id: recused.book_id,
+      reviewer_id: reviewerId,
+      assigned_by: assignedBy,
+      due_date: dueDate,
+      status: 'PENDING',
+      round_number: recused.round_number,
+      replaces_id: recused.id,
+    },
+  });
+
+  await notifyUsers([reviewerId], {
+    type: 'ASSIGNMENT_CREATED',
+    title: 'New review assignment',
+    message: `You have been asked to review "${recused.book.title}" (round ${
+      replacement.round_number
+    }), due ${replacement.due_date.toDateString()}.`,
+    link: `/review/${replacement.id}`,
+    book_id: replacement.book_id,
+    assignment_id: replacement.id,
+  });
+
+  return replacement;
+}
@@ -0,0 +1,205 @@
+// Inter-rater reliability for a book's reviews. Reviewers are the raters and
+// criteria the rated units, so the book-level coefficients say how far the
+// reviewers agree on the book's criterion profile. Everything here is
+// deterministic; missing scores are allowed wherever the statistic permits.
+
+export interface MeanInterval {
+  level: number;
+  low: number;
+  high: number;
+}
+
+export interface CriterionAgreement {
+  sd: number | null;
+  standard_error: number | null;
+  // t-based interval around the criterion mean; null with fewer than two scores
+  ci: MeanInterval | null;
+  // Share of reviewer pairs whose scores differ by at most one point
+  agreement_within_one: number | null;
+}
+
+export interface BookReliability {
+  raters: number;
+  units: number;
+  krippendorff_alpha_ordinal: number | null;
+  // Two-way random effects, absolute agreement (Shrout & Fleiss ICC(2,1) and ICC(2,k)),
+  // over the criteria every reviewer scored
+  icc: {
+    single: number;
+    average: number;
+    units: number;
+  } | null;
+  agreement_within_one: number | null;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Two-sided 97.5th percentile of Student's t for 1-30 degrees of freedom
+const T_975 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131,
+  2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+const tCritical95 = (df: number) => (df <= T_975.length ? T_975[df - 1] : 1.96);
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Sample standard deviation, standard error, 95% interval on the mean and
+ * pairwise agreement within one point for one criterion's scores
+ */
+export function criterionAgreement(scores: number[]): CriterionAgreement {
+  if (scores.length < 2) {
+    return { sd: null, standard_error: null, ci: null, agreement_within_one: null };
+  }
+
+  const m = mean(scores);
+  const sd = Math.sqrt(scores.reduce((sum, score) => sum + (score - m) ** 2, 0) / (scores.length - 1));
+  const se = sd / Math.sqrt(scores.length);
+  const margin = tCritical95(scores.length - 1) * se;
+
+  const { close, pairs } = pairAgreement(scores);
+
+  return {
+    sd: round(sd),
+    standard_error: round(se),
+    ci: { level: 0.95, low: round(m - margin), high: round(m + margin) },
+    agreement_within_one: round(close / pairs),
+  };
+}
+
+function pairAgreement(scores: number[]) {
+  let close = 0;
+  let pairs = 0;
+  for (let i = 0; i < scores.length; i++) {
+    for (let j = i + 1; j < scores.length; j++) {
+      pairs++;
+      if (Math.abs(scores[i] - scores[j]) <= 1) {
+        close++;
+      }
+    }
+  }
+  return { close, pairs };
+}
+
+/**
+ * Krippendorff's alpha with the ordinal difference metric. `units` holds,
+ * per unit, the values the raters gave it (missing ratings left out). Null
+ * when there is nothing to compare or every pairable value is the same.
+ */
+export function krippendorffAlphaOrdinal(units: number[][]): number | null {
+  const pairable = units.filter((values) => values.length >= 2);
+  const categories = Array.from(new Set(pairable.flat())).sort((a, b) => a - b);
+  if (categories.length < 2) {
+    return null;
+  }
+
+  const index = new Map(categories.map((value, i) => [value, i]));
+  const size = categories.length;
+  const coincidence = categories.map(() => new Array<number>(size).fill(0));
+
+  for (const values of pairable) {
+    const weight = 1 / (values.length - 1);
+    for (let i = 0; i < values.length; i++) {
+      for (let j = 0; j < values.length; j++) {
+        if (i !== j) {
+          coincidence[index.get(values[i])!][index.get(values[j])!] += weight;
+        }
+      }
+    }
+  }
+
+  const marginals = coincidence.map((row) => row.reduce((a, b) => a + b, 0));
+  const n = marginals.reduce((a, b) => a + b, 0);
+
+  // Ordinal metric: squared mass of the categories between c and k
+  const delta = (c: number, k: number) => {
+    const [low, high] = c <= k ? [c, k] : [k, c];
+    let between = 0;
+    for (let g = low; g <= high; g++) {
+      between += marginals[g];
+    }
+    return (between - (marginals[low] + marginals[high]) / 2) ** 2;
+  };
+
+  let observed = 0;
+  let expected = 0;
+  for (let c = 0; c < size; c++) {
+    for (let k = 0; k < size; k++) {
+      const d = delta(c, k);
+      observed += coincidence[c][k] * d;
+      expected += marginals[c] * marginals[k] * d;
+    }
+  }
+
+  if (expected === 0) {
+    return null;
+  }
+  return round(1 - ((n - 1) * observed) / expected);
+}
+
+/**
+ * ICC(2,1) and ICC(2,k) for a complete units x raters matrix. Null with fewer
+ * than two units or raters, or when the scores carry no variance at all.
+ */
+export function intraclassCorrelation(matrix: number[][]): { single: number; average: number } | null {
+  const n = matrix.length;
+  const k = n > 0 ? matrix[0].length : 0;
+  if (n < 2 || k < 2) {
+    return null;
+  }
+
+  const grand = mean(matrix.flat());
+  const rowMeans = matrix.map(mean);
+  const colMeans = matrix[0].map((_, j) => mean(matrix.map((row) => row[j])));
+
+  const ssRows = k * rowMeans.reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssCols = n * colMeans.reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssTotal = matrix.flat().reduce((sum, value) => sum + (value - grand) ** 2, 0);
+  const ssError = ssTotal - ssRows - ssCols;
+
+  const msr = ssRows / (n - 1);
+  const msc = ssCols / (k - 1);
+  const mse = ssError / ((n - 1) * (k - 1));
+
+  const singleDenominator = msr + (k - 1) * mse + (k * (msc - mse)) / n;
+  const averageDenominator = msr + (msc - mse) / n;
+  if (singleDenominator === 0 || averageDenominator === 0) {
+    return null;
+  }
+
+  return {
+    single: round((msr - mse) / singleDenominator),
+    average: round((msr - mse) / averageDenominator),
+  };
+}
+
+/**
+ * Book-level reliability across reviewers, from each review's criterion scores
+ */
+export function bookReliability(reviews: Record<string, number>[]): BookReliability {
+  const codes = Array.from(new Set(reviews.flatMap((scores) => Object.keys(scores)))).sort();
+  const units = codes.map((code) =>
+    reviews.map((scores) => scores[code]).filter((score): score is number => typeof score === 'number')
+  );
+
+  // ICC needs every reviewer's score on a criterion
+  const complete = units.filter((values) => values.length === reviews.length);
+  const icc = intraclassCorrelation(complete);
+
+  let close = 0;
+  let pairs = 0;
+  units.forEach((values) => {
+    const counted = pairAgreement(values);
+    close += counted.close;
+    pairs += counted.pairs;
+  });
+
+  return {
+    raters: reviews.length,
+    units: codes.length,
+    krippendorff_alpha_ordinal: krippendorffAlphaOrdinal(units),
+    icc: icc ? { ...icc, units: complete.length } : null,
+    agreement_within_one: pairs > 0 ? round(close / pairs) : null,
+  };
+}
@@ -0,0 +1,668 @@
+// Report templates: which sections a book report shows and in what order, its
+// branding, watermark, language and whether reviewers are named, plus the HTML
+// renderer the PDF is printed from. No database access, so templates can be
+// previewed against the sample book below.
+import {
+  PageReference,
+  Recommendation,
+  RECOMMENDATIONS,
+  RequiredChange,
+} from './reviewForm';
+
+export type ReportSection = 'BOOK_DETAILS' | 'REVIEWER_ASSESSMENTS' | 'AGGREGATE_RESULTS' | 'COMMITTEE_DECISION';
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  'BOOK_DETAILS',
+  'REVIEWER_ASSESSMENTS',
+  'AGGREGATE_RESULTS',
+  'COMMITTEE_DECISION',
+];
+
+export type ReportLanguage = 'en' | 'hi';
+
+export const REPORT_LANGUAGES: ReportLanguage[] = ['en', 'hi'];
+
+export interface ReportBranding {
+  logo_text: string;
+  organization: string;
+  header_text: string;
+  footer_text: string;
+}
+
+export interface ReportTemplateConfig {
+  // Sections to include, in the order they are printed
+  sections: ReportSection[];
+  branding: ReportBranding;
+  watermark: string | null;
+  show_reviewer_names: boolean;
+  language: ReportLanguage;
+}
+
+// The layout reports had before templates existed; used when none is chosen
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplateConfig = {
+  sections: [...REPORT_SECTIONS],
+  branding: {
+    logo_text: 'NCISM',
+    organization: 'National Commission for Indian System of Medicine',
+    header_text: '',
+    footer_text: 'This report is confidential and intended for internal use by NCISM only.',
+  },
+  watermark: 'NCISM CONFIDENTIAL',
+  show_reviewer_names: true,
+  language: 'en',
+};
+
+/**
+ * A complete template from stored or submitted data: unknown and repeated
+ * sections are dropped and missing settings take the defaults
+ */
+export function normalizeReportTemplate(value: unknown): ReportTemplateConfig {
+  const data = (value && typeof value === 'object' ? value : {}) as Partial<ReportTemplateConfig>;
+  const branding = (data.branding && typeof data.branding === 'object' ? data.branding : {}) as Partial<ReportBranding>;
+  const text = (input: unknown, fallback: string) => (typeof input === 'string' ? input.trim() : fallback);
+
+  const sections = Array.isArray(data.sections)
+    ? Array.from(new Set(data.sections.filter((section) => REPORT_SECTIONS.includes(section))))
+    : DEFAULT_REPORT_TEMPLATE.sections;
+
+  return {
+    sections: sections.length > 0 ? sections : [...DEFAULT_REPORT_TEMPLATE.sections],
+    branding: {
+      logo_text: text(branding.logo_text, DEFAULT_REPORT_TEMPLATE.branding.logo_text),
+      organization: text(branding.organization, DEFAULT_REPORT_TEMPLATE.branding.organization),
+      header_text: text(branding.header_text, DEFAULT_REPORT_TEMPLATE.branding.header_text),
+      footer_text: text(branding.footer_text, DEFAULT_REPORT_TEMPLATE.branding.footer_text),
+    },
+    watermark:
+      data.watermark === null ? null : text(data.watermark, DEFAULT_REPORT_TEMPLATE.watermark ?? '') || null,
+    show_reviewer_names:
+      typeof data.show_reviewer_names === 'boolean'
+        ? data.show_reviewer_names
+        : DEFAULT_REPORT_TEMPLATE.show_reviewer_names,
+    language: REPORT_LANGUAGES.includes(data.language as ReportLanguage)
+      ? (data.language as ReportLanguage)
+      : DEFAULT_REPORT_TEMPLATE.language,
+  };
+}
+
+// The book, reviews, latest aggregate and latest decision a report is built from
+export interface ReportBook {
+  title: string;
+  authors: string;
+  publisher: string;
+  edition: string;
+  syllabus_version: string;
+  uploaded_at: Date;
+  uploader: { name: string };
+  assignments: {
+    reviewer: { name: string; institution: string | null };
+    reviews: {
+      draft_flag: boolean;
+      submitted_at: Date;
+      scores: unknown;
+      comments: unknown;
+      recommendation: Recommendation | null;
+      summary: string | null;
+      required_changes: unknown;
+      page_references: unknown;
+    }[];
+  }[];
+  aggregate_results: { stats: unknown; summary_text: string }[];
+  committee_decisions: { decision: string; rationale: string; decided_at: Date; decider: { name: string } }[];
+}
+
+const LABELS = {
+  en: {
+    title: 'Textbook Review Report',
+    generated: 'Generated on',
+    book_details: 'Book Details',
+    book_title: 'Title',
+    authors: 'Authors',
+    publisher: 'Publisher',
+    edition: 'Edition',
+    syllabus_version: 'Syllabus Version',
+    uploaded_by: 'Uploaded By',
+    upload_date: 'Upload Date',
+    reviewer_assessments: 'Reviewer Assessments',
+    reviewer: 'Reviewer',
+    institution: 'Institution',
+    submitted: 'Submitted',
+    recommendation: 'Recommendation',
+    not_recorded: 'Not recorded',
+    summary: 'Summary',
+    criterion: 'Criterion',
+    score: 'Score (1-5)',
+    comments: 'Comments',
+    required_changes: 'Required Changes',
+    page_references: 'Page References',
+    page: 'p.',
+    aggregate_results: 'Aggregated Results',
+    aggregate_statistics: 'Aggregated Statistics',
+    no_aggregate: 'No aggregate statistics available.',
+    weighted_score: 'Weighted score',
+    unweighted_mean: 'Unweighted mean',
+    recommendations: 'Recommendations',
+    mean: 'Mean',
+    median: 'Median',
+    variance: 'Variance',
+    min: 'Min',
+    max: 'Max',
+    weight: 'Weight',
+    committee_decision: 'Committee Decision',
+    no_decision: 'No committee decision available.',
+    decision: 'Decision',
+    decided_by: 'Decided by',
+    date: 'Date',
+    rationale: 'Rationale:',
+    recommendation_labels: {
+      APPROVE: 'Approve',
+      REVISIONS_REQUESTED: 'Revisions requested',
+      REJECT: 'Reject',
+    } as Record<Recommendation, string>,
+    decisions: {
+      APPROVED: 'APPROVED',
+      REJECTED: 'REJECTED',
+      NEEDS_REVISION: 'NEEDS_REVISION',
+    } as Record<string, string>,
+  },
+  hi: {
+    title: 'पाठ्यपुस्तक समीक्षा रिपोर्ट',
+    generated: 'निर्माण तिथि',
+    book_details: 'पुस्तक विवरण',
+    book_title: 'शीर्षक',
+    authors: 'लेखक',
+    publisher: 'प्रकाशक',
+    edition: 'संस्करण',
+    syllabus_version: 'पाठ्यक्रम संस्करण',
+    uploaded_by: 'अपलोडकर्ता',
+    upload_date: 'अपलोड तिथि',
+    reviewer_assessments: 'समीक्षकों का मूल्यांकन',
+    reviewer: 'समीक्षक',
+    institution: 'संस्थान',
+    submitted: 'प्रस्तुत',
+    recommendation: 'अनुशंसा',
+    not_recorded: 'दर्ज नहीं',
+    summary: 'सारांश',
+    criterion: 'मानदंड',
+    score: 'अंक (1-5)',
+    comments: 'टिप्पणियाँ',
+    required_changes: 'आवश्यक परिवर्तन',
+    page_references: 'पृष्ठ संदर्भ',
+    page: 'पृ.',
+    aggregate_results: 'समेकित परिणाम',
+    aggregate_statistics: 'समेकित आँकड़े',
+    no_aggregate: 'कोई समेकित आँकड़े उपलब्ध नहीं हैं।',
+    weighted_score: 'भारित अंक',
+    unweighted_mean: 'अभारित औसत',
+    recommendations: 'अनुशंसाएँ',
+    mean: 'औसत',
+    median: 'माध्यिका',
+    variance: 'प्रसरण',
+    min: 'न्यूनतम',
+    max: 'अधिकतम',
+    weight: 'भार',
+    committee_decision: 'समिति का निर्णय',
+    no_decision: 'कोई समिति निर्णय उपलब्ध नहीं है।',
+    decision: 'निर्णय',
+    decided_by: 'निर्णयकर्ता',
+    date: 'तिथि',
+    rationale: 'तर्क:',
+    recommendation_labels: {
+      APPROVE: 'स्वीकृति',
+      REVISIONS_REQUESTED: 'संशोधन आवश्यक',
+      REJECT: 'अस्वीकृति',
+    } as Record<Recommendation, string>,
+    decisions: {
+      APPROVED: 'स्वीकृत',
+      REJECTED: 'अस्वीकृत',
+      NEEDS_REVISION: 'संशोधन आवश्यक',
+    } as Record<string, string>,
+  },
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * HTML for a book report laid out by the template, ready to print to PDF
+ */
+export function renderBookReport(book: ReportBook, template: ReportTemplateConfig, generatedAt: Date = new Date()): string {
+  const labels = LABELS[template.language];
+  // Every stored value is escaped: reviewer and decision text is free-form and the page is rendered server-side
+  const [title, authors, publisher, edition, syllabus_version] = [
+    book.title,
+    book.authors,
+    book.publisher,
+    book.edition,
+    book.syllabus_version,
+  ].map(escapeHtml);
+  const aggregateResult = book.aggregate_results[0];
+  const committeeDecision = book.committee_decisions[0];
+
+  // Format date
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString(template.language === 'hi' ? 'hi-IN' : 'en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  // Generate reviewer sections; without names, reviewers are numbered in submission order
+  const submitted = book.assignments
+    .map((assignment) => ({ reviewer: assignment.reviewer, review: assignment.reviews[0] }))
+    .filter(({ review }) => review && !review.draft_flag);
+
+  const reviewerSections = submitted
+    .map(({ reviewer, review }, index) => {
+      const scores = review.scores as Record<string, number>;
+      const comments = (review.comments ?? {}) as Record<string, string>;
+
+      const criteriaRows = Object.entries(scores)
+        .map(
+          ([code, score]) => `
+          <tr>
+            <td>${escapeHtml(code)}</td>
+            <td>${escapeHtml(score)}</td>
+            <td>${escapeHtml(comments[code])}</td>
+          </tr>
+        `
+        )
+        .join('');
+
+      const requiredChanges = (review.required_changes ?? []) as RequiredChange[];
+      const pageReferences = (review.page_references ?? []) as PageReference[];
+
+      const requiredChangesList = requiredChanges.length
+        ? `<h4 class="font-bold mb-2">${labels.required_changes}</h4>
+          <ol class="mb-4">
+            ${requiredChanges
+              .map(
+                (change) => `<li>${change.criterion_code ? `[${escapeHtml(change.criterion_code)}] ` : ''}${escapeHtml(change.description)}${
+                  change.pages?.length ? ` (${labels.page} ${escapeHtml(change.pages.join(', '))})` : ''
+                }</li>`
+              )
+              .join('')}
+          </ol>`
+        : '';
+
+      const pageReferencesList = pageReferences.length
+        ? `<h4 class="font-bold mb-2">${labels.page_references}</h4>
+          <ul class="mb-4">
+            ${pageReferences
+              .map(
+                (reference) => `<li>${labels.page} ${escapeHtml(reference.page)}${
+                  reference.criterion_code ? ` [${escapeHtml(reference.criterion_code)}]` : ''
+                }: ${escapeHtml(reference.note)}</li>`
+              )
+              .join('')}
+          </ul>`
+        : '';
+
+      const reviewerHeading = template.show_reviewer_names
+        ? `<h3 class="text-xl font-bold mb-2">${labels.reviewer}: ${escapeHtml(reviewer.name)}</h3>
+          <p class="mb-1"><strong>${labels.institution}:</strong> ${escapeHtml(reviewer.institution || 'N/A')}</p>`
+        : `<h3 class="text-xl font-bold mb-2">${labels.reviewer} ${index + 1}</h3>`;
+
+      return `
+        <div class="reviewer-section mb-8">
+          ${reviewerHeading}
+          <p class="mb-1"><strong>${labels.submitted}:</strong> ${formatDate(review.submitted_at)}</p>
+          <p class="mb-4"><strong>${labels.recommendation}:</strong> ${
+            review.recommendation ? labels.recommendation_labels[review.recommendation] : labels.not_recorded
+          }</p>
+          ${review.summary ? `<p class="mb-4"><strong>${labels.summary}:</strong> ${escapeHtml(review.summary)}</p>` : ''}
+
+          <table class="w-full border-collapse border border-gray-300 mb-4">
+            <thead>
+              <tr class="bg-gray-100">
+                <th class="border border-gray-300 p-2">${labels.criterion}</th>
+                <th class="border border-gray-300 p-2">${labels.score}</th>
+                <th class="border border-gray-300 p-2">${labels.comments}</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${criteriaRows}
+            </tbody>
+          </table>
+          ${requiredChangesList}
+          ${pageReferencesList}
+        </div>
+      `;
+    })
+    .join('');
+
+  // Generate aggregate stats section
+  let aggregateStatsSection = `<p>${labels.no_aggregate}</p>`;
+  if (aggregateResult) {
+    const stats = aggregateResult.stats as Record<string, any>;
+    // Results computed before weighting hold the per-criterion statistics at the top level
+    const criteriaStats: Record<string, any> = stats.criteria ?? stats;
+
+    const statsRows = Object.entries(criteriaStats)
+      .map(
+        ([code, stat]) => `
+        <tr>
+          <td>${escapeHtml(code)}</td>
+          <td>${stat.mean.toFixed(2)}</td>
+          <td>${escapeHtml(stat.median)}</td>
+          <td>${stat.variance.toFixed(2)}</td>
+          <td>${escapeHtml(stat.min)}</td>
+          <td>${escapeHtml(stat.max)}</td>
+          <td>${escapeHtml(stat.snapshot_weight ?? '-')}</td>
+        </tr>
+      `
+      )
+      .join('');
+
+    const totalsLine = stats.totals
+      ? `<p class="mb-4"><strong>${labels.weighted_score}:</strong> ${stats.totals.weighted_mean.toFixed(2)} / 5
+          &nbsp;&nbsp;<strong>${labels.unweighted_mean}:</strong> ${stats.totals.unweighted_mean.toFixed(2)} / 5</p>`
+      : '';
+
+    const recommendationsLine = stats.recommendations
+      ? `<p class="mb-4"><strong>${labels.recommendations}:</strong> ${RECOMMENDATIONS.map(
+          (recommendation) =>
+            `${labels.recommendation_labels[recommendation]} ${stats.recommendations[recommendation]}`
+        ).join(', ')}${
+          stats.recommendations.not_recorded ? `, ${labels.not_recorded} ${stats.recommendations.not_recorded}` : ''
+        }
+          &nbsp;&nbsp;<strong>${labels.required_changes}:</strong> ${stats.required_changes}</p>`
+      : '';
+
+    aggregateStatsSection = `
+      <div class="stats-section mb-8">
+        <h3 class="text-xl font-bold mb-4">${labels.aggregate_statistics}</h3>
+        ${totalsLine}
+        ${recommendationsLine}
+        <table class="w-full border-collapse border border-gray-300 mb-4">
+          <thead>
+            <tr class="bg-gray-100">
+              <th class="border border-gray-300 p-2">${labels.criterion}</th>
+              <th class="border border-gray-300 p-2">${labels.mean}</th>
+              <th class="border border-gray-300 p-2">${labels.median}</th>
+              <th class="border border-gray-300 p-2">${labels.variance}</th>
+              <th class="border border-gray-300 p-2">${labels.min}</th>
+              <th class="border border-gray-300 p-2">${labels.max}</th>
+              <th class="border border-gray-300 p-2">${labels.weight}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${statsRows}
+          </tbody>
+        </table>
+        <div class="summary-text p-4 bg-gray-50 border border-gray-300 rounded">
+          <h4 class="font-bold mb-2">${labels.summary}</h4>
+          <p>${escapeHtml(aggregateResult.summary_text)}</p>
+        </div>
+      </div>
+    `;
+  }
+
+  // Generate committee decision section
+  let committeeDecisionSection = `<p>${labels.no_decision}</p>`;
+  if (committeeDecision) {
+    const decisionClass =
+      committeeDecision.decision === 'APPROVED'
+        ? 'bg-green-100 border-green-300'
+        : committeeDecision.decision === 'REJECTED'
+        ? 'bg-red-100 border-red-300'
+        : 'bg-yellow-100 border-yellow-300';
+
+    committeeDecisionSection = `
+      <div class="decision-section mb-8">
+        <h3 class="text-xl font-bold mb-4">${labels.committee_decision}</h3>
+        <div class="p-4 ${decisionClass} rounded border">
+          <p class="font-bold mb-2">${labels.decision}: ${
+            labels.decisions[committeeDecision.decision] ?? committeeDecision.decision
+          }</p>
+          <p class="mb-2"><strong>${labels.decided_by}:</strong> ${escapeHtml(committeeDecision.decider.name)}</p>
+          <p class="mb-2"><strong>${labels.date}:</strong> ${formatDate(committeeDecision.decided_at)}</p>
+          <div class="mt-4">
+            <h4 class="font-bold mb-2">${labels.rationale}</h4>
+            <p>${escapeHtml(committeeDecision.rationale)}</p>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  const sections: Record<ReportSection, string> = {
+    BOOK_DETAILS: `
+      <div class="book-details mb-8">
+        <h2>${labels.book_details}</h2>
+        <table>
+          <tr>
+            <td><strong>${labels.book_title}:</strong></td>
+            <td>${title}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.authors}:</strong></td>
+            <td>${authors}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.publisher}:</strong></td>
+            <td>${publisher}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.edition}:</strong></td>
+            <td>${edition}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.syllabus_version}:</strong></td>
+            <td>${syllabus_version}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.uploaded_by}:</strong></td>
+            <td>${escapeHtml(book.uploader.name)}</td>
+          </tr>
+          <tr>
+            <td><strong>${labels.upload_date}:</strong></td>
+            <td>${formatDate(book.uploaded_at)}</td>
+          </tr>
+        </table>
+      </div>
+    `,
+    REVIEWER_ASSESSMENTS: `
+      <h2>${labels.reviewer_assessments}</h2>
+      ${reviewerSections}
+    `,
+    AGGREGATE_RESULTS: `
+      <h2>${labels.aggregate_results}</h2>
+      ${aggregateStatsSection}
+    `,
+    COMMITTEE_DECISION: `
+      <h2>${labels.committee_decision}</h2>
+      ${committeeDecisionSection}
+    `,
+  };
+
+  const { branding } = template;
+
+  // Combine the chosen sections into the final HTML
+  return `
+    <!DOCTYPE html>
+    <html lang="${template.language}">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${labels.title}: ${title}</title>
+      <style>
+        @page {
+          margin: 1cm;
+          size: A4;
+        }
+        body {
+          position: relative;
+          font-family: Arial, 'Noto Sans Devanagari', sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 1200px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .watermark {
+          position: fixed;
+          top: 50%;
+          left: 0;
+          right: 0;
+          z-index: -1;
+          font-size: 100px;
+          color: rgba(200, 200, 200, 0.2);
+          transform: rotate(-45deg);
+          text-align: center;
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 40px;
+          padding-bottom: 20px;
+          border-bottom: 1px solid #ddd;
+        }
+        .logo {
+          max-width: 200px;
+          margin-bottom: 20px;
+        }
+        h1 {
+          font-size: 24px;
+          margin-bottom: 10px;
+        }
+        h2 {
+          font-size: 20px;
+          margin-top: 30px;
+          margin-bottom: 15px;
+          padding-bottom: 10px;
+          border-bottom: 1px solid #eee;
+        }
+        h3 {
+          font-size: 18px;
+          margin-top: 25px;
+          margin-bottom: 10px;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 20px;
+        }
+        th, td {
+          border: 1px solid #ddd;
+          padding: 8px 12px;
+          text-align: left;
+        }
+        th {
+          background-color: #f5f5f5;
+        }
+        .mb-1 { margin-bottom: 4px; }
+        .mb-2 { margin-bottom: 8px; }
+        .mb-4 { margin-bottom: 16px; }
+        .mb-8 { margin-bottom: 32px; }
+        .mt-4 { margin-top: 16px; }
+        .p-2 { padding: 8px; }
+        .p-4 { padding: 16px; }
+        .w-full { width: 100%; }
+        .font-bold { font-weight: bold; }
+        .text-xl { font-size: 20px; }
+        .bg-gray-50 { background-color: #fafafa; }
+        .bg-gray-100 { background-color: #f5f5f5; }
+        .bg-green-100 { background-color: #dcfce7; }
+        .bg-red-100 { background-color: #fee2e2; }
+        .bg-yellow-100 { background-color: #fef9c3; }
+        .border { border-width: 1px; border-style: solid; }
+        .border-gray-300 { border-color: #d1d5db; }
+        .border-green-300 { border-color: #86efac; }
+        .border-red-300 { border-color: #fca5a5; }
+        .border-yellow-300 { border-color: #fde68a; }
+        .rounded { border-radius: 4px; }
+      </style>
+    </head>
+    <body>
+      ${template.watermark ? `<div class="watermark">${escapeHtml(template.watermark)}</div>` : ''}
+
+      <div class="header">
+        ${branding.logo_text ? `<div class="logo">${escapeHtml(branding.logo_text)}</div>` : ''}
+        <h1>${labels.title}</h1>
+        ${branding.header_text ? `<p>${escapeHtml(branding.header_text)}</p>` : ''}
+        <p>${labels.generated} ${formatDate(generatedAt)}</p>
+      </div>
+
+      ${template.sections.map((section) => sections[section]).join('\n')}
+
+      <div class="footer" style="margin-top: 40px; text-align: center; font-size: 12px; color: #666;">
+        ${branding.footer_text ? `<p>${escapeHtml(branding.footer_text)}</p>` : ''}
+        ${branding.organization ? `<p>© ${generatedAt.getFullYear()} ${escapeHtml(branding.organization)}</p>` : ''}
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Made-up book used to preview templates
+export const SAMPLE_REPORT_BOOK: ReportBook = {
+  title: 'Fundamentals of Dravyaguna Vijnana',
+  authors: 'A. Sharma, R. Iyer',
+  publisher: 'Sample Publications',
+  edition: '2nd',
+  syllabus_version: '2023',
+  uploaded_at: new Date('2024-01-15T00:00:00Z'),
+  uploader: { name: 'Secretariat Officer' },
+  assignments: [
+    {
+      reviewer: { name: 'Dr. Meera Nair', institution: 'Government Ayurveda College' },
+      reviews: [
+        {
+          draft_flag: false,
+          submitted_at: new Date('2024-02-10T00:00:00Z'),
+          scores: { CONTENT: 4, LANGUAGE: 5 },
+          comments: { CONTENT: 'Comprehensive coverage of the syllabus.', LANGUAGE: 'Clear and readable.' },
+          recommendation: 'APPROVE',
+          summary: 'A well organised textbook suitable for adoption.',
+          required_changes: [],
+          page_references: [{ page: 42, note: 'Excellent summary table.' }],
+        },
+      ],
+    },
+    {
+      reviewer: { name: 'Dr. Arjun Rao', institution: 'National Institute of Ayurveda' },
+      reviews: [
+        {
+          draft_flag: false,
+          submitted_at: new Date('2024-02-12T00:00:00Z'),
+          scores: { CONTENT: 3, LANGUAGE: 4 },
+          comments: { CONTENT: 'Some references are outdated.', LANGUAGE: 'Minor typographical errors.' },
+          recommendation: 'REVISIONS_REQUESTED',
+          summary: 'Sound overall, but the references need updating.',
+          required_changes: [
+            { description: 'Update the pharmacology references', criterion_code: 'CONTENT', pages: [18, 27] },
+          ],
+          page_references: [{ page: 18, note: 'Reference dates from 1998.', criterion_code: 'CONTENT' }],
+        },
+      ],
+    },
+  ],
+  aggregate_results: [
+    {
+      stats: {
+        criteria: {
+          CONTENT: { mean: 3.5, median: 3.5, variance: 0.25, min: 3, max: 4, snapshot_weight: 2 },
+          LANGUAGE: { mean: 4.5, median: 4.5, variance: 0.25, min: 4, max: 5, snapshot_weight: 1 },
+        },
+        totals: { weighted_mean: 3.83, unweighted_mean: 4 },
+        recommendations: { APPROVE: 1, REVISIONS_REQUESTED: 1, REJECT: 0, not_recorded: 0 },
+        required_changes: 1,
+      },
+      summary_text: 'Reviewers rated the book favourably; one reviewer requested updated references.',
+    },
+  ],
+  committee_decisions: [
+    {
+      decision: 'APPROVED',
+      rationale: 'Approved subject to the reference updates noted by the reviewers.',
+      decided_at: new Date('2024-03-01T00:00:00Z'),
+      decider: { name: 'Committee Chair' },
+    },
+  ],
+};
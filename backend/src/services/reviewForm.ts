@@ -0,0 +1,89 @@
+// The structured part of a review beyond its scores: the overall
+// recommendation, a summary, the changes the author must make and references
+// to manuscript pages. No database access, so scoring and reports can share it.
+
+export type Recommendation = 'APPROVE' | 'REVISIONS_REQUESTED' | 'REJECT';
+
+export const RECOMMENDATIONS: Recommendation[] = ['APPROVE', 'REVISIONS_REQUESTED', 'REJECT'];
+
+export const RECOMMENDATION_LABELS: Record<Recommendation, string> = {
+  APPROVE: 'Approve',
+  REVISIONS_REQUESTED: 'Revisions requested',
+  REJECT: 'Reject',
+};
+
+export interface RequiredChange {
+  description: string;
+  criterion_code?: string;
+  pages?: number[];
+}
+
+export interface PageReference {
+  page: number;
+  note: string;
+  criterion_code?: string;
+}
+
+export interface ReviewForm {
+  recommendation: Recommendation | null;
+  summary: string | null;
+  required_changes: RequiredChange[];
+  page_references: PageReference[];
+}
+
+/**
+ * Trimmed form fields from a request body; blank optional values are dropped
+ * and page references are ordered by page
+ */
+export function normalizeReviewForm(body: {
+  recommendation?: Recommendation | null;
+  summary?: string | null;
+  required_changes?: RequiredChange[];
+  page_references?: PageReference[];
+}): ReviewForm {
+  const code = (value?: string) => (value && value.trim() ? { criterion_code: value.trim() } : {});
+
+  return {
+    recommendation: body.recommendation ?? null,
+    summary: body.summary?.trim() || null,
+    required_changes: (body.required_changes ?? []).map((change) => ({
+      description: change.description.trim(),
+      ...code(change.criterion_code),
+      ...(change.pages && change.pages.length > 0
+        ? { pages: Array.from(new Set(change.pages.map(Number))).sort((a, b) => a - b) }
+        : {}),
+    })),
+    page_references: (body.page_references ?? [])
+      .map((reference) => ({ page: Number(reference.page), note: reference.note.trim(), ...code(reference.criterion_code) }))
+      .sort((a, b) => a.page - b.page),
+  };
+}
+
+/**
+ * Why a form cannot be stored, or null. Drafts may be incomplete; a submitted
+ * review needs a recommendation and a summary, and requested revisions need at
+ * least one required change.
+ */
+export function reviewFormProblem(form: ReviewForm, options: { final: boolean; criterionCodes: string[] }): string | null {
+  const known = new Set([...options.criterionCodes, 'OVERALL']);
+  const unknown = [...form.required_changes, ...form.page_references]
+    .map((item) => item.criterion_code)
+    .find((code) => code !== undefined && !known.has(code));
+  if (unknown) {
+    return `Invalid criterion code: ${unknown}`;
+  }
+
+  if (!options.final) {
+    return null;
+  }
+  if (!form.recommendation) {
+    return 'A recommendation is required to submit a review';
+  }
+  if (!form.summary) {
+    return 'A summary is required to submit a review';
+  }
+  if (form.recommendation === 'REVISIONS_REQUESTED' && form.required_changes.length === 0) {
+    return 'List at least one required change when requesting revisions';
+  }
+  return null;
+}
@@ -0,0 +1,223 @@
+import { prisma } from '../index';
+
+// Relative weight of each factor in the overall recommendation score
+const FACTOR_WEIGHTS = {
+  load: 0.35,
+  reliability: 0.3,
+  timeliness: 0.2,
+  conflicts: 0.15,
+};
+
+// Reviewers without a ReviewerScore yet are treated as average
+const DEFAULT_SCORE = 50;
+
+interface FactorScore {
+  score: number;
+  weight: number;
+  reason: string;
+}
+
+interface RecommendedReviewer {
+  id: string;
+  name: string;
+  email: string;
+  institution: string | null;
+}
+
+export interface ReviewerRecommendation {
+  reviewer: RecommendedReviewer;
+  score: number;
+  recommended: boolean;
+  already_assigned: boolean;
+  factors: {
+    load: FactorScore;
+    reliability: FactorScore;
+    timeliness: FactorScore;
+    conflicts: FactorScore;
+  };
+}
+
+export interface ExcludedReviewer {
+  reviewer: RecommendedReviewer;
+  reason: string;
+}
+
+export interface ReviewerRecommendationResult {
+  book_id: string;
+  round_number: number;
+  panel_size: number;
+  recommendations: ReviewerRecommendation[];
+  excluded: ExcludedReviewer[];
+}
+
+/**
+ * Normalize an institution name for comparison
+ */
+function normalizeInstitution(name?: string | null): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Rank reviewers for a book.
+ *
+ * Reviewers from the uploader's or publisher's institution, and reviewers who
+ * already declared a conflict on this book, are excluded. The rest are scored
+ * on open workload, reliability, timeliness and past conflict declarations,
+ * and the top `panelSize` are marked as the recommended panel.
+ */
+export async function recommendReviewers(
+  bookId: string,
+  panelSize: number
+): Promise<ReviewerRecommendationResult | null> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: {
+      uploader: {
+        select: { institution: true },
+      },
+      assignments: {
+        select: { reviewer_id: true, round_number: true },
+      },
+    },
+  });
+
+  if (!book) {
+    return null;
+  }
+
+  const reviewers = await prisma.user.findMany({
+    where: { role: 'REVIEWER', is_active: true },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      institution: true,
+      reviewer_score: true,
+      assigned_reviews: {
+        where: { status: { in: ['PENDING', 'IN_PROGRESS', 'OVERDUE'] } },
+        select: { book_id: true, status: true },
+      },
+      coi_declarations: {
+        where: { has_conflict: true },
+        select: {
+          assignment: {
+            select: { book_id: true },
+          },
+        },
+      },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  const conflictingInstitutions = [
+    { name: normalizeInstitution(book.uploader.institution), label: "uploader's institution" },
+    { name: normalizeInstitution(book.publisher), label: 'publisher' },
+  ].filter((institution) => institution.name);
+
+  const currentReviewerIds = new Set(
+    book.assignments
+      .filter((assignment) => assignment.round_number === book.current_round)
+      .map((assignment) => assignment.reviewer_id)
+  );
+
+  const recommendations: ReviewerRecommendation[] = [];
+  const excluded: ExcludedReviewer[] = [];
+
+  for (const { reviewer_score, assigned_reviews, coi_declarations, ...reviewer } of reviewers) {
+    const institution = normalizeInstitution(reviewer.institution);
+    const sharedInstitution = conflictingInstitutions.find(
+      (candidate) => institution && candidate.name === institution
+    );
+
+    if (sharedInstitution) {
+      excluded.push({
+        reviewer,
+        reason: `Same institution as the ${sharedInstitution.label} (${reviewer.institution})`,
+      });
+      continue;
+    }
+
+    if (coi_declarations.some((declaration) => declaration.assignment.book_id === book.id)) {
+      excluded.push({
+        reviewer,
+        reason: 'Declared a conflict of interest on this book',
+      });
+      continue;
+    }
+
+    // Work on this book itself should not count against the reviewer
+    const openReviews = assigned_reviews.filter((a) => a.book_id !== book.id);
+    const openAssignments = openReviews.length;
+    const overdueAssignments = openReviews.filter((a) => a.status === 'OVERDUE').length;
+
+    const load: FactorScore = {
+      score: Math.max(0, 100 - openAssignments * 25),
+      weight: FACTOR_WEIGHTS.load,
+      reason:
+        openAssignments === 0
+          ? 'No open assignments'
+          : `${plural(openAssignments, 'open assignment')}${
+              overdueAssignments > 0 ? ` (${overdueAssignments} overdue)` : ''
+            }`,
+    };
+
+    const reliability: FactorScore = {
+      score: reviewer_score?.reliability_score ?? DEFAULT_SCORE,
+      weight: FACTOR_WEIGHTS.reliability,
+      reason:
+        reviewer_score?.reliability_score != null
+          ? `Reliability ${Math.round(reviewer_score.reliability_score)}/100 over ${plural(
+              reviewer_score.review_count,
+              'review'
+            )}`
+          : 'No reliability history yet',
+    };
+
+    const timeliness: FactorScore = {
+      score: reviewer_score?.timeliness_score ?? DEFAULT_SCORE,
+      weight: FACTOR_WEIGHTS.timeliness,
+      reason:
+        reviewer_score?.timeliness_score != null
+          ? `Timeliness ${Math.round(reviewer_score.timeliness_score)}/100`
+          : 'No timeliness history yet',
+    };
+
+    const conflicts: FactorScore = {
+      score: Math.max(0, 100 - coi_declarations.length * 20),
+      weight: FACTOR_WEIGHTS.conflicts,
+      reason:
+        coi_declarations.length === 0
+          ? 'No past conflicts of interest'
+          : `${plural(coi_declarations.length, 'past conflict')} of interest declared`,
+    };
+
+    const factors = { load, reliability, timeliness, conflicts };
+    const score = Object.values(factors).reduce(
+      (total, factor) => total + factor.score * factor.weight,
+      0
+    );
+
+    recommendations.push({
+      reviewer,
+      score: Math.round(score * 10) / 10,
+      recommended: false,
+      already_assigned: currentReviewerIds.has(reviewer.id),
+      factors,
+    });
+  }
+
+  recommendations.sort((a, b) => b.score - a.score || a.reviewer.name.localeCompare(b.reviewer.name));
+  recommendations.slice(0, panelSize).forEach((recommendation) => {
+    recommendation.recommended = true;
+  });
+
+  return {
+    book_id: book.id,
+    round_number: book.current_round,
+    panel_size: panelSize,
+    recommendations,
+    excluded,
+  };
+}
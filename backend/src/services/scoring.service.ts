@@ -0,0 +1,191 @@
+// Book scores from submitted reviews. Each review is weighted with the
+// criterion weights snapshotted when it was submitted, so editing a weight
+// later does not silently change historical results.
+
+import { BookReliability, CriterionAgreement, bookReliability, criterionAgreement } from './reliability.service';
+import { Recommendation } from './reviewForm';
+
+export type CriterionWeights = Record<string, number>;
+
+export interface ScoredReview {
+  id: string;
+  reviewer_id: string;
+  scores: Record<string, number>;
+  criterion_weights: CriterionWeights | null;
+  recommendation?: Recommendation | null;
+  required_changes?: number;
+}
+
+export interface CriterionBreakdown extends CriterionAgreement {
+  mean: number;
+  median: number;
+  variance: number;
+  min: number;
+  max: number;
+  count: number;
+  // Current weight, and the mean of the weights the reviews were submitted under
+  weight: number | null;
+  snapshot_weight: number;
+  // Share of the total snapshot weight, and what the criterion adds to the weighted mean
+  weight_share: number;
+  contribution: number;
+}
+
+export interface ReviewScore {
+  review_id: string;
+  reviewer_id: string;
+  unweighted_mean: number;
+  weighted_mean: number;
+  weighted_mean_current_weights: number;
+  recommendation: Recommendation | null;
+  required_changes: number;
+}
+
+export interface AggregateStats {
+  criteria: Record<string, CriterionBreakdown>;
+  totals: {
+    unweighted_mean: number;
+    weighted_mean: number;
+    weighted_mean_current_weights: number;
+    review_count: number;
+  };
+  reviews: ReviewScore[];
+  // Reviewers' overall recommendations; reviews submitted before they were recorded count as not_recorded
+  recommendations: Record<Recommendation, number> & { not_recorded: number };
+  required_changes: number;
+  reliability: BookReliability;
+  weights: {
+    current: CriterionWeights;
+    // Criteria whose weight differs from the one at least one review was submitted under
+    changed_since_review: string[];
+    reviews_without_snapshot: number;
+  };
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Criterion code to weight, as stored on a review when it is submitted
+ */
+export function snapshotWeights(criteria: { code: string; weight: number }[]): CriterionWeights {
+  return Object.fromEntries(criteria.map((criterion) => [criterion.code, criterion.weight]));
+}
+
+/**
+ * Plain and weighted mean of one review's scores. Criteria without a weight
+ * count as weight 0; if nothing carries weight the plain mean is used.
+ */
+export function scoreReview(scores: Record<string, number>, weights: CriterionWeights) {
+  const codes = Object.keys(scores);
+  const unweighted = mean(codes.map((code) => scores[code]));
+
+  const totalWeight = codes.reduce((sum, code) => sum + (weights[code] ?? 0), 0);
+  const weighted =
+    totalWeight > 0
+      ? codes.reduce((sum, code) => sum + scores[code] * (weights[code] ?? 0), 0) / totalWeight
+      : unweighted;
+
+  return { unweighted, weighted };
+}
+
+/**
+ * Per-criterion statistics and book totals for a round's submitted reviews
+ */
+export function computeAggregateStats(reviews: ScoredReview[], currentWeights: CriterionWeights): AggregateStats {
+  const allScores: Record<string, number[]> = {};
+  const snapshotWeightsByCode: Record<string, number[]> = {};
+  const changed = new Set<string>();
+  let withoutSnapshot = 0;
+
+  const reviewScores = reviews.map((review) => {
+    if (!review.criterion_weights) {
+      withoutSnapshot++;
+    }
+    const weights = review.criterion_weights ?? currentWeights;
+
+    Object.keys(review.scores).forEach((code) => {
+      (allScores[code] = allScores[code] ?? []).push(review.scores[code]);
+      (snapshotWeightsByCode[code] = snapshotWeightsByCode[code] ?? []).push(weights[code] ?? 0);
+
+      if ((weights[code] ?? 0) !== (currentWeights[code] ?? 0)) {
+        changed.add(code);
+      }
+    });
+
+    const atReview = scoreReview(review.scores, weights);
+    const atCurrent = scoreReview(review.scores, currentWeights);
+
+    return {
+      review_id: review.id,
+      reviewer_id: review.reviewer_id,
+      unweighted_mean: round(atReview.unweighted),
+      weighted_mean: round(atReview.weighted),
+      weighted_mean_current_weights: round(atCurrent.weighted),
+      recommendation: review.recommendation ?? null,
+      required_changes: review.required_changes ?? 0,
+    };
+  });
+
+  const recommendations = { APPROVE: 0, REVISIONS_REQUESTED: 0, REJECT: 0, not_recorded: 0 };
+  reviewScores.forEach((review) => {
+    recommendations[review.recommendation ?? 'not_recorded']++;
+  });
+
+  const totalSnapshotWeight = Object.values(snapshotWeightsByCode).reduce(
+    (sum, weights) => sum + mean(weights),
+    0
+  );
+
+  const criteria: Record<string, CriterionBreakdown> = {};
+  Object.keys(allScores).forEach((code) => {
+    const scores = allScores[code];
+    const criterionMean = mean(scores);
+    const variance = scores.reduce((a, b) => a + Math.pow(b - criterionMean, 2), 0) / scores.length;
+    const snapshotWeight = mean(snapshotWeightsByCode[code]);
+    const weightShare = totalSnapshotWeight > 0 ? snapshotWeight / totalSnapshotWeight : 0;
+
+    criteria[code] = {
+      mean: criterionMean,
+      median: median(scores),
+      variance,
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      count: scores.length,
+      weight: code in currentWeights ? currentWeights[code] : null,
+      snapshot_weight: round(snapshotWeight),
+      weight_share: round(weightShare),
+      contribution: round(criterionMean * weightShare),
+      ...criterionAgreement(scores),
+    };
+  });
+
+  return {
+    criteria,
+    totals: {
+      unweighted_mean: round(mean(reviewScores.map((review) => review.unweighted_mean))),
+      weighted_mean: round(mean(reviewScores.map((review) => review.weighted_mean))),
+      weighted_mean_current_weights: round(
+        mean(reviewScores.map((review) => review.weighted_mean_current_weights))
+      ),
+      review_count: reviews.length,
+    },
+    reviews: reviewScores,
+    recommendations,
+    required_changes: reviewScores.reduce((sum, review) => sum + review.required_changes, 0),
+    reliability: bookReliability(reviews.map((review) => review.scores)),
+    weights: {
+      current: currentWeights,
+      changed_since_review: Array.from(changed).sort(),
+      reviews_without_snapshot: withoutSnapshot,
+    },
+  };
+}
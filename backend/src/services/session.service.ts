@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+import { isTwoFactorRequired } from './twoFactor.service';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+// Rotation slides the refresh expiry forward, but never past this age of the sign-in
+const SESSION_MAX_AGE_DAYS = parseInt(process.env.SESSION_MAX_AGE_DAYS || '90');
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Two tabs refreshing at the same moment is not treated as token theft
+const REUSE_GRACE_MS = 10 * 1000;
+
+interface TokenUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refresh_token: string;
+  session_id: string;
+}
+
+/**
+ * Hash a refresh token; only hashes are stored so a database leak cannot be replayed
+ */
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+const refreshExpiry = (createdAt = new Date()) =>
+  new Date(Math.min(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS, createdAt.getTime() + SESSION_MAX_AGE_DAYS * DAY_MS));
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export function signAccessToken(user: TokenUser, sessionId: string): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    },
+    process.env.JWT_SECRET || 'fallback-secret',
+    {
+      expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    } as jwt.SignOptions
+  );
+}
+
+/**
+ * Start a new session for a user and issue its first token pair
+ */
+export async function createSession(user: TokenUser, metadata: SessionMetadata): Promise<IssuedTokens> {
+  const refreshToken = generateRefreshToken();
+
+  const session = await prisma.session.create({
+    data: {
+      user_id: user.id,
+      token_hash: hashToken(refreshToken),
+      user_agent: metadata.userAgent?.slice(0, 255),
+      ip_address: metadata.ipAddress,
+      expires_at: refreshExpiry(),
+    },
+  });
+
+  return {
+    token: signAccessToken(user, session.id),
+    refresh_token: refreshToken,
+    session_id: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair.
+ *
+ * The refresh token is single-use. If an already-rotated token is presented
+ * again outside a short grace window, someone else holds a copy, so the whole
+ * session is revoked. A session also ends when the user's role has come under
+ * the 2FA policy without them enrolling, since they would not get past login.
+ */
+export async function rotateSession(refreshToken: string, metadata: SessionMetadata): Promise<IssuedTokens> {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await prisma.session.findUnique({
+    where: { token_hash: tokenHash },
+    include: {
+      user: {
+        select: { id: true, email: true, role: true, is_active: true, totp_enabled: true },
+      },
+    },
+  });
+
+  if (!session) {
+    const replayed = await prisma.session.findFirst({
+      where: { previous_token_hash: tokenHash, revoked_at: null },
+    });
+
+    if (replayed && Date.now() - replayed.last_used_at.getTime() > REUSE_GRACE_MS) {
+      await prisma.session.update({
+        where: { id: replayed.id },
+        data: { revoked_at: new Date(), revoked_by: 'REUSE_DETECTED' },
+      });
+    }
+
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const expiresAt = refreshExpiry(session.created_at);
+  if (session.revoked_at || session.expires_at < new Date() || expiresAt <= new Date()) {
+    throw new AppError('Session has expired or was revoked', 401);
+  }
+
+  if (!session.user.is_active) {
+    throw new AppError('Your account has been deactivated', 401);
+  }
+
+  if (!session.user.totp_enabled && (await isTwoFactorRequired(session.user.role))) {
+    await revokeSession(session.id, 'TWO_FACTOR_REQUIRED');
+    throw new AppError('Two-factor authentication is now required, please log in again', 401);
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+
+  // Conditional on the token still being current, so two rotations cannot both succeed
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, token_hash: tokenHash, revoked_at: null },
+    data: {
+      token_hash: hashToken(nextRefreshToken),
+      previous_token_hash: tokenHash,
+      last_used_at: new Date(),
+      expires_at: expiresAt,
+      ip_address: metadata.ipAddress ?? session.ip_address,
+      user_agent: metadata.userAgent?.slice(0, 255) ?? session.user_agent,
+    },
+  });
+  if (rotated.count === 0) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  return {
+    token: signAccessToken(session.user, session.id),
+    refresh_token: nextRefreshToken,
+    session_id: session.id,
+  };
+}
+
+/**
+ * Find the session a refresh token belongs to
+ */
+export async function findSessionByRefreshToken(refreshToken: string) {
+  return prisma.session.findUnique({
+    where: { token_hash: hashToken(refreshToken) },
+  });
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(sessionId: string, revokedBy: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_by: revokedBy },
+  });
+}
+
+/**
+ * Revoke every active session of a user, e.g. after deactivation or a password reset
+ */
+export async function revokeAllSessions(userId: string, revokedBy: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_by: revokedBy },
+  });
+  return result.count;
+}
+
+/**
+ * List a user's sessions that can still be used
+ */
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: {
+      user_id: userId,
+      revoked_at: null,
+      expires_at: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      user_agent: true,
+      ip_address: true,
+      created_at: true,
+      last_used_at: true,
+      expires_at: true,
+    },
+    orderBy: { last_used_at: 'desc' },
+  });
+}
@@ -1,8 +1,12 @@
 import twilio from 'twilio';
+import { renderNotification } from './notificationTemplate.service';
+import { MessageTransport, TransportError, deliverMessage } from './notificationTransport.service';
 
 interface SMSOptions {
   to: string;
   message: string;
+  event?: string;
+  user_id?: string;
 }
 
 // Initialize Twilio client only when credentials are available
@@ -21,57 +25,84 @@ const initializeTwilioClient = () => {
   }
 };
 
-export const sendSMS = async (options: SMSOptions): Promise<boolean> => {
-  try {
+// Sends through Twilio's messaging API
+export const twilioTransport: MessageTransport = {
+  name: 'twilio',
+  async send(message) {
     if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
-      console.warn('Twilio credentials not configured, SMS not sent');
-      return false;
+      throw new TransportError('Twilio credentials not configured', false);
     }
 
     // Initialize client if not already done
     initializeTwilioClient();
 
     if (!client) {
-      console.warn('Twilio client not initialized, SMS not sent');
-      return false;
+      throw new TransportError('Twilio client not initialized', false);
     }
 
-    await client.messages.create({
-      body: options.message,
+    const sent = await client.messages.create({
+      body: message.text,
       from: process.env.TWILIO_PHONE_NUMBER,
-      to: options.to,
+      to: message.to,
     });
 
-    return true;
-  } catch (error) {
-    console.error('Error sending SMS:', error);
-    return false;
-  }
+    return { provider_message_id: sent.sid };
+  },
+};
+
+export const sendSMS = async (options: SMSOptions): Promise<boolean> => {
+  const receipt = await deliverMessage({
+    channel: 'SMS',
+    to: options.to,
+    text: options.message,
+    event: options.event,
+    user_id: options.user_id,
+  });
+  return receipt.status === 'DELIVERED';
 };
 
 export const sendAssignmentSMS = async (
   phoneNumber: string,
   reviewerName: string,
   bookTitle: string,
-  dueDate: Date
+  dueDate: Date,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const message = `NCISM Review: New assignment for ${reviewerName}. Book: ${bookTitle}. Due: ${dueDate.toLocaleDateString()}. Please check your email for details.`;
+  const { text } = await renderNotification('ASSIGNMENT_CREATED', 'SMS', {
+    language: options.language,
+    variables: {
+      recipient_name: reviewerName,
+      book_title: bookTitle,
+      due_date: dueDate,
+      link: options.link,
+    },
+  });
 
   return await sendSMS({
     to: phoneNumber,
-    message,
+    message: text,
+    event: 'ASSIGNMENT_CREATED',
   });
 };
 
 export const sendReminderSMS = async (
   phoneNumber: string,
   userName: string,
-  message: string
+  message: string,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const smsMessage = `NCISM Review Reminder: ${message}. Please check your email for details.`;
+  const { text } = await renderNotification('CUSTOM', 'SMS', {
+    language: options.language,
+    variables: {
+      recipient_name: userName,
+      message,
+      link: options.link,
+    },
+  });
 
   return await sendSMS({
     to: phoneNumber,
-    message: smsMessage,
+    message: text,
+    event: 'CUSTOM',
   });
 };
@@ -0,0 +1,419 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { prisma } from '../index';
+import { AppError } from '../middleware/error.middleware';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'NCISM Textbook Review';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Accept the previous and next code to tolerate clock drift on the phone
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+// Six digits are guessable without a cap on attempts
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const TWO_FACTOR_WINDOW_MS = 15 * 60 * 1000;
+const CHALLENGE_TTL = '5m';
+const REQUIRED_ROLES_KEY = 'two_factor_required_roles';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorProvisioning {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+interface ChallengePayload {
+  id: string;
+  purpose: 'two_factor';
+}
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * RFC 4226 HOTP value for a counter (RFC 6238 TOTP uses the time step as counter)
+ */
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+const currentStep = () => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * TOTP secrets are encrypted at rest so a database dump alone cannot mint codes
+ */
+const encryptionKey = () =>
+  crypto
+    .createHash('sha256')
+    .update(process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback-secret')
+    .digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+
+// Ten characters from an unambiguous alphabet, shown as XXXXX-XXXXX
+const generateRecoveryCode = () => {
+  const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+/**
+ * Return the time step a TOTP code matches within the drift window, or null
+ */
+export function matchTotp(secret: string, code: string, step = currentStep()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  for (let offset = -TOTP_DRIFT_STEPS; offset <= TOTP_DRIFT_STEPS; offset++) {
+    const candidate = hotp(key, step + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return step + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sign the short-lived token that carries a password-verified login into the second step.
+ * It uses its own secret so it can never pass as an access token.
+ */
+export function signChallengeToken(userId: string): string {
+  const payload: ChallengePayload = { id: userId, purpose: 'two_factor' };
+  return jwt.sign(payload, `${process.env.JWT_SECRET || 'fallback-secret'}:two-factor`, {
+    expiresIn: CHALLENGE_TTL,
+  });
+}
+
+/**
+ * Resolve a challenge token to its user ID
+ */
+export function verifyChallengeToken(token: string): string {
+  try {
+    const decoded = jwt.verify(
+      token,
+      `${process.env.JWT_SECRET || 'fallback-secret'}:two-factor`
+    ) as ChallengePayload;
+
+    if (decoded.purpose !== 'two_factor') {
+      throw new Error('Unexpected token purpose');
+    }
+
+    return decoded.id;
+  } catch {
+    throw new AppError('Your sign-in attempt has expired, please log in again', 401);
+  }
+}
+
+/**
+ * Roles whose members must enroll in 2FA before they can sign in
+ */
+export async function getRequiredRoles(): Promise<string[]> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: REQUIRED_ROLES_KEY },
+  });
+  return Array.isArray(setting?.value) ? (setting!.value as string[]) : [];
+}
+
+export async function setRequiredRoles(roles: string[], updatedBy: string): Promise<string[]> {
+  const unique = Array.from(new Set(roles));
+  await prisma.systemSetting.upsert({
+    where: { key: REQUIRED_ROLES_KEY },
+    create: { key: REQUIRED_ROLES_KEY, value: unique, updated_by: updatedBy },
+    update: { value: unique, updated_by: updatedBy },
+  });
+  return unique;
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  return (await getRequiredRoles()).includes(role);
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret. 2FA stays off until the
+ * user proves their authenticator works with confirmEnrollment.
+ */
+export async function startEnrollment(userId: string): Promise<TwoFactorProvisioning> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, totp_enabled: true },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.totp_enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totp_secret: encryptSecret(secret), totp_last_step: null },
+  });
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  return {
+    secret,
+    otpauth_url: otpauthUrl,
+    qr_code: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Replace all recovery codes of a user; the plain codes are only returned here
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { user_id: userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Turn 2FA on once the first code from the authenticator checks out
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totp_secret: true, totp_enabled: true },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.totp_enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  if (!user.totp_secret) {
+    throw new AppError('Start two-factor setup first', 400);
+  }
+
+  const step = matchTotp(decryptSecret(user.totp_secret), code);
+  if (step === null) {
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totp_enabled: true,
+      totp_enabled_at: new Date(),
+      totp_last_step: step,
+    },
+  });
+
+  return regenerateRecoveryCodes(userId);
+}
+
+/**
+ * Count a code attempt against the user before it is checked. The counter is
+ * bumped in a single UPDATE, so parallel requests cannot all slip in under the
+ * cap; it restarts once the window has passed.
+ */
+async function reserveTwoFactorAttempt(userId: string): Promise<boolean> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - TWO_FACTOR_WINDOW_MS);
+
+  const rows = await prisma.$queryRaw<{ two_factor_attempts: number }[]>`
+    UPDATE "users"
+    SET
+      "two_factor_attempts" = CASE
+        WHEN "two_factor_window_at" IS NULL OR "two_factor_window_at" < ${windowStart} THEN 1
+        ELSE "two_factor_attempts" + 1
+      END,
+      "two_factor_window_at" = CASE
+        WHEN "two_factor_window_at" IS NULL OR "two_factor_window_at" < ${windowStart} THEN ${now}
+        ELSE "two_factor_window_at"
+      END
+    WHERE "id" = ${userId}
+    RETURNING "two_factor_attempts"
+  `;
+
+  return rows.length === 1 && rows[0].two_factor_attempts <= MAX_TWO_FACTOR_ATTEMPTS;
+}
+
+/**
+ * Check a second factor: a TOTP code, or else an unused recovery code which is
+ * then burned. Returns which one matched, or null. Throws 429 once the user
+ * has tried too many codes in the window.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<'totp' | 'recovery_code' | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totp_secret: true, totp_enabled: true, totp_last_step: true },
+  });
+
+  if (!user || !user.totp_enabled || !user.totp_secret) {
+    return null;
+  }
+
+  if (!(await reserveTwoFactorAttempt(userId))) {
+    throw new AppError('Too many invalid codes, please try again later', 429);
+  }
+
+  const method = await matchSecondFactor(userId, user.totp_secret, user.totp_last_step, code);
+  if (method) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { two_factor_attempts: 0, two_factor_window_at: null },
+    });
+  }
+  return method;
+}
+
+// Match a TOTP code to an unused time step, or burn a matching recovery code
+async function matchSecondFactor(
+  userId: string,
+  secret: string,
+  lastStep: number | null,
+  code: string
+): Promise<'totp' | 'recovery_code' | null> {
+  const step = matchTotp(decryptSecret(secret), code);
+  if (step !== null) {
+    if (lastStep !== null && step <= lastStep) {
+      return null;
+    }
+
+    // Only the first request to claim this step wins
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totp_last_step: null }, { totp_last_step: { lt: step } }],
+      },
+      data: { totp_last_step: step },
+    });
+    return claimed.count === 1 ? 'totp' : null;
+  }
+
+  const recovery = await prisma.recoveryCode.updateMany({
+    where: { user_id: userId, code_hash: hashRecoveryCode(code), used_at: null },
+    data: { used_at: new Date() },
+  });
+
+  return recovery.count === 1 ? 'recovery_code' : null;
+}
+
+/**
+ * Turn 2FA off and forget the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { user_id: userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        totp_secret: null,
+        totp_enabled: false,
+        totp_enabled_at: null,
+        totp_last_step: null,
+        two_factor_attempts: 0,
+        two_factor_window_at: null,
+      },
+    }),
+  ]);
+}
+
+/**
+ * 2FA state shown on the user's security page
+ */
+export async function getTwoFactorStatus(userId: string, role: string) {
+  const [user, remaining, required] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { totp_enabled: true, totp_enabled_at: true },
+    }),
+    prisma.recoveryCode.count({ where: { user_id: userId, used_at: null } }),
+    isTwoFactorRequired(role),
+  ]);
+
+  return {
+    enabled: user?.totp_enabled ?? false,
+    enabled_at: user?.totp_enabled_at ?? null,
+    required,
+    recovery_codes_remaining: remaining,
+  };
+}
@@ -1,9 +1,13 @@
 import { Client, LocalAuth } from 'whatsapp-web.js';
 import qrcode from 'qrcode-terminal';
+import { renderNotification } from './notificationTemplate.service';
+import { MessageTransport, TransportError, deliverMessage } from './notificationTransport.service';
 
 interface WhatsAppOptions {
   to: string;
   message: string;
+  event?: string;
+  user_id?: string;
 }
 
 // Global WhatsApp client instance
@@ -54,57 +58,64 @@ const initializeWhatsApp = (): Promise<Client> => {
   });
 };
 
-export const sendWhatsApp = async (options: WhatsAppOptions): Promise<boolean> => {
-  try {
-    if (!process.env.WHATSAPP_ENABLED || process.env.WHATSAPP_ENABLED !== 'true') {
-      console.warn('WhatsApp not enabled, message not sent');
-      return false;
+// Sends through the WhatsApp Web session on this server
+export const whatsappWebTransport: MessageTransport = {
+  name: 'whatsapp-web',
+  async send(message) {
+    if (process.env.WHATSAPP_ENABLED !== 'true') {
+      throw new TransportError('WhatsApp not enabled', false);
     }
 
     const client = await initializeWhatsApp();
-    
+
     // Format phone number (remove any non-digit characters and add country code if needed)
-    let phoneNumber = options.to.replace(/\D/g, '');
-    
+    let phoneNumber = message.to.replace(/\D/g, '');
+
     // Add country code if not present (assuming India +91)
     if (!phoneNumber.startsWith('91') && phoneNumber.length === 10) {
       phoneNumber = '91' + phoneNumber;
     }
-    
+
     // Add @c.us suffix for WhatsApp
     const chatId = phoneNumber + '@c.us';
 
-    await client.sendMessage(chatId, options.message);
-    return true;
-  } catch (error) {
-    console.error('Error sending WhatsApp message:', error);
-    return false;
-  }
+    const sent = await client.sendMessage(chatId, message.text);
+    return { provider_message_id: sent.id?._serialized ?? null };
+  },
+};
+
+export const sendWhatsApp = async (options: WhatsAppOptions): Promise<boolean> => {
+  const receipt = await deliverMessage({
+    channel: 'WHATSAPP',
+    to: options.to,
+    text: options.message,
+    event: options.event,
+    user_id: options.user_id,
+  });
+  return receipt.status === 'DELIVERED';
 };
 
 export const sendAssignmentWhatsApp = async (
   phoneNumber: string,
   reviewerName: string,
   bookTitle: string,
-  dueDate: Date
+  dueDate: Date,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const message = `📚 *NCISM Textbook Review Assignment*
-
-Hello ${reviewerName},
-
-You have been assigned a new book review:
-
-📖 *Book:* ${bookTitle}
-📅 *Due Date:* ${dueDate.toLocaleDateString()}
-
-Please log in to the system to begin your review.
-
-Best regards,
-NCISM Review System`;
+  const { text } = await renderNotification('ASSIGNMENT_CREATED', 'WHATSAPP', {
+    language: options.language,
+    variables: {
+      recipient_name: reviewerName,
+      book_title: bookTitle,
+      due_date: dueDate,
+      link: options.link,
+    },
+  });
 
   return await sendWhatsApp({
     to: phoneNumber,
-    message,
+    message: text,
+    event: 'ASSIGNMENT_CREATED',
   });
 };
 
@@ -112,23 +123,22 @@ export const sendReminderWhatsApp = async (
   phoneNumber: string,
   userName: string,
   message: string,
-  assignmentTitle?: string
+  assignmentTitle?: string,
+  options: { language?: string | null; link?: string } = {}
 ): Promise<boolean> => {
-  const whatsappMessage = `🔔 *NCISM Review Reminder*
-
-Hello ${userName},
-
-${message}
-
-${assignmentTitle ? `📋 *Assignment:* ${assignmentTitle}` : ''}
-
-Please log in to the system to take action.
-
-Best regards,
-NCISM Review System`;
+  const { text } = await renderNotification('CUSTOM', 'WHATSAPP', {
+    language: options.language,
+    variables: {
+      recipient_name: userName,
+      book_title: assignmentTitle,
+      message,
+      link: options.link,
+    },
+  });
 
   return await sendWhatsApp({
     to: phoneNumber,
-    message: whatsappMessage,
+    message: text,
+    event: 'CUSTOM',
   });
 };
@@ -0,0 +1,39 @@
+import { approvalTransition, certificateUpdateFor } from '../services/approvalActions';
+
+describe('Approval actions', () => {
+  it('only applies each action to books in a matching status', () => {
+    expect(approvalTransition('SUSPEND', 'APPROVED')).toBe('SUSPENDED');
+    expect(approvalTransition('SUSPEND', 'REVOKED')).toBeNull();
+    expect(approvalTransition('REVOKE', 'APPROVED')).toBe('REVOKED');
+    expect(approvalTransition('REVOKE', 'SUSPENDED')).toBe('REVOKED');
+    expect(approvalTransition('REINSTATE', 'SUSPENDED')).toBe('APPROVED');
+    expect(approvalTransition('REINSTATE', 'REVOKED')).toBe('APPROVED');
+    expect(approvalTransition('REINSTATE', 'APPROVED')).toBeNull();
+    expect(approvalTransition('REVOKE', 'UNDER_REVIEW')).toBeNull();
+    expect(approvalTransition('REOPEN', 'SUSPENDED')).toBe('PENDING_REVIEW');
+    expect(approvalTransition('REOPEN', 'REVOKED')).toBeNull();
+    expect(approvalTransition('REOPEN', 'APPROVED')).toBeNull();
+  });
+
+  it('leaves certificates in a single state', () => {
+    const at = new Date('2024-09-20T12:00:00Z');
+
+    expect(certificateUpdateFor('SUSPEND', 'Plagiarism complaint under review', at)).toEqual({
+      suspended_at: at,
+      suspension_reason: 'Plagiarism complaint under review',
+    });
+    expect(certificateUpdateFor('REVOKE', 'Complaint upheld', at)).toEqual({
+      suspended_at: null,
+      suspension_reason: null,
+      revoked_at: at,
+      revocation_reason: 'Complaint upheld',
+    });
+    expect(certificateUpdateFor('REINSTATE', 'Complaint dismissed', at)).toEqual({
+      suspended_at: null,
+      suspension_reason: null,
+      revoked_at: null,
+      revocation_reason: null,
+    });
+    expect(certificateUpdateFor('REOPEN', 'Re-review by a new panel', at)).toEqual({});
+  });
+});
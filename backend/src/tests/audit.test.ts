@@ -0,0 +1,122 @@
+import request from 'supertest';
+import { app } from '../index';
+import { prisma } from '../index';
+import jwt from 'jsonwebtoken';
+import { recordAuditLog } from '../services/audit.service';
+
+describe('Audit Log Hash Chain', () => {
+  let adminToken: string;
+  let adminId: string;
+
+  beforeAll(async () => {
+    const admin = await prisma.user.create({
+      data: {
+        name: 'Test Admin',
+        email: 'admin-audit@test.com',
+        password_hash: 'hashed_password',
+        role: 'ADMIN',
+      },
+    });
+    adminId = admin.id;
+
+    adminToken = jwt.sign(
+      { id: admin.id, email: admin.email, role: admin.role },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    for (const action of ['FIRST', 'SECOND', 'THIRD']) {
+      await recordAuditLog({
+        actor_id: adminId,
+        action,
+        target_type: 'TEST',
+        target_id: 'chain',
+        details: { action, at: new Date() },
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  it('should link each entry to the previous one', async () => {
+    const entries = await prisma.auditLog.findMany({
+      where: { actor_id: adminId },
+      orderBy: { sequence: 'asc' },
+    });
+
+    expect(entries[1].prev_hash).toBe(entries[0].hash);
+    expect(entries[2].prev_hash).toBe(entries[1].hash);
+  });
+
+  it('should report an intact chain', async () => {
+    const response = await request(app)
+      .get('/api/audit/verify')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data.valid).toBe(true);
+    expect(response.body.data.first_break).toBeNull();
+  });
+
+  it('should report the first edited entry', async () => {
+    const second = await prisma.auditLog.findFirst({
+      where: { actor_id: adminId, action: 'SECOND' },
+    });
+
+    await prisma.auditLog.update({
+      where: { id: second!.id },
+      data: { details: { action: 'EDITED' } },
+    });
+
+    const response = await request(app)
+      .get('/api/audit/verify')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data.valid).toBe(false);
+    expect(response.body.data.first_break).toMatchObject({
+      id: second!.id,
+      reason: 'HASH_MISMATCH',
+    });
+  });
+
+  it('should sign exports of a date range', async () => {
+    const response = await request(app)
+      .get('/api/audit/export')
+      .query({
+        from_date: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        to_date: new Date().toISOString(),
+      })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.entry_count).toBeGreaterThanOrEqual(3);
+    expect(response.body.signature).toBeTruthy();
+    expect(response.body.public_key).toContain('BEGIN PUBLIC KEY');
+  });
+
+  it('should record failed requests with a semantic action and redacted body', async () => {
+    await request(app)
+      .post(`/api/users/${adminId}/reset-password`)
+      .send({ password: 'short' })
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+
+    // The middleware writes after the response has been sent
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const entry = await prisma.auditLog.findFirst({
+      where: { actor_id: adminId, action: 'USER_PASSWORD_RESET' },
+    });
+
+    expect(entry).toMatchObject({ target_type: 'USER', target_id: adminId });
+    expect(entry!.details).toMatchObject({
+      outcome: 'FAILED',
+      status_code: 400,
+      body: { password: '[REDACTED]' },
+    });
+  });
+});
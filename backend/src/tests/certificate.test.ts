@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { signPayload, verifyPayloadSignature } from '../services/auditChain';
+import {
+  CertificateRecord,
+  certificatePayload,
+  certificateStatus,
+  certificateVerifyPath,
+  generateCertificateSerial,
+  renderCertificateHtml,
+} from '../services/certificate';
+
+const certificate: CertificateRecord = {
+  serial_number: 'NCISM-2024-0A1B2C3D4E',
+  book_id: 'book-1',
+  book_title: 'Rasa Shastra <Part 1>',
+  book_authors: 'K. Menon',
+  book_edition: '3rd',
+  round_number: 2,
+  decided_at: new Date('2024-09-10T10:00:00Z'),
+  decided_by_name: 'Dr. Committee Chair',
+  issued_at: '2024-09-10T10:00:05.000Z',
+};
+
+const renderOptions = {
+  verify_url: 'https://portal.example/verify/NCISM-2024-0A1B2C3D4E',
+  qr_code_data_url: 'data:image/png;base64,AAAA',
+  signature: 'c2lnbmF0dXJl',
+  key_fingerprint: 'abc123',
+};
+
+describe('Approval certificates', () => {
+  it('formats serial numbers from the issue year and random bytes', () => {
+    expect(generateCertificateSerial(new Date('2024-03-01T00:00:00Z'), Buffer.from([0x9f, 0x2c, 0x41, 0xa0, 0x7b]))).toBe(
+      'NCISM-2024-9F2C41A07B'
+    );
+    expect(generateCertificateSerial(new Date())).toMatch(/^NCISM-\d{4}-[0-9A-F]{10}$/);
+    expect(certificateVerifyPath('NCISM-2024-0A1B2C3D4E')).toBe('/verify/NCISM-2024-0A1B2C3D4E');
+  });
+
+  it('signs a payload that detects changes to the certified details', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const signature = signPayload(certificatePayload(certificate), privateKey);
+
+    // Dates read back from the database as Date objects sign the same as ISO strings
+    const stored = { ...certificate, issued_at: new Date(certificate.issued_at) };
+    expect(verifyPayloadSignature(certificatePayload(stored), signature, publicKeyPem)).toBe(true);
+    expect(
+      verifyPayloadSignature(certificatePayload({ ...stored, book_edition: '4th' }), signature, publicKeyPem)
+    ).toBe(false);
+  });
+
+  it('reports suspended and revoked certificates and marks their printout', () => {
+    expect(certificateStatus(certificate)).toBe('VALID');
+    expect(renderCertificateHtml(certificate, renderOptions)).not.toContain('class="watermark"');
+
+    const suspended = { ...certificate, suspended_at: new Date() };
+    expect(certificateStatus(suspended)).toBe('SUSPENDED');
+    expect(renderCertificateHtml(suspended, renderOptions)).toContain('<div class="watermark">SUSPENDED</div>');
+
+    const revoked = { ...suspended, revoked_at: new Date() };
+    expect(certificateStatus(revoked)).toBe('REVOKED');
+    expect(renderCertificateHtml(revoked, renderOptions)).toContain('<div class="watermark">REVOKED</div>');
+  });
+
+  it('escapes book details and includes the verification link', () => {
+    const html = renderCertificateHtml(certificate, renderOptions);
+
+    expect(html).toContain('Rasa Shastra &lt;Part 1&gt;');
+    expect(html).toContain(renderOptions.verify_url);
+    expect(html).toContain(renderOptions.qr_code_data_url);
+    expect(html).toContain('NCISM-2024-0A1B2C3D4E');
+  });
+});
@@ -94,6 +94,26 @@ describe('COI Controller', () => {
       expect(response.body.data.conflict_details).toBe('I know the author personally');
     });
 
+    it('should recuse the assignment when a conflict is declared', async () => {
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+      expect(assignment?.status).toBe('RECUSED');
+      expect(assignment?.recused_at).not.toBeNull();
+    });
+
+    it('should not let a declared conflict be withdrawn', async () => {
+      const response = await request(app)
+        .post('/api/coi/submit')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          assignment_id: assignmentId,
+          has_conflict: false,
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain('cannot be withdrawn');
+    });
+
     it('should return 400 for invalid assignment', async () => {
       const response = await request(app)
         .post('/api/coi/submit')
@@ -162,4 +182,51 @@ describe('COI Controller', () => {
       expect(response.body.message).toContain('COI declaration not found');
     });
   });
+
+  describe('POST /api/reviews/:id/review', () => {
+    const draft = { scores: {}, comments: {}, draft_flag: true };
+
+    it('should refuse a review from a recused reviewer', async () => {
+      const response = await request(app)
+        .post(`/api/reviews/${assignmentId}/review`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(draft)
+        .expect(403);
+
+      expect(response.body.message).toContain('recused');
+    });
+
+    it('should refuse a review before a COI declaration', async () => {
+      const book = await prisma.book.create({
+        data: {
+          title: 'Undeclared Test Book',
+          authors: 'Another Author',
+          publisher: 'Test Publisher',
+          edition: '1st',
+          syllabus_version: '2023',
+          pdf_path: '/test/path3.pdf',
+          uploaded_by: reviewerId,
+          status: 'UNDER_REVIEW',
+        },
+      });
+
+      const assignment = await prisma.assignment.create({
+        data: {
+          book_id: book.id,
+          reviewer_id: reviewerId,
+          assigned_by: reviewerId,
+          due_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+          status: 'PENDING',
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/reviews/${assignment.id}/review`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(draft)
+        .expect(403);
+
+      expect(response.body.message).toContain('Declare any conflict of interest');
+    });
+  });
 });
@@ -0,0 +1,68 @@
+import { VoteChoice, VotingRules, normalizeVotingRules, tallyVotes } from '../services/committeeVoting';
+
+const ballots = (...choices: VoteChoice[]) => choices.map((vote) => ({ vote }));
+
+const simple: VotingRules = { quorum_percent: 50, majority: 'SIMPLE' };
+
+describe('Committee voting', () => {
+  it('waits for quorum before reaching an outcome', () => {
+    const early = tallyVotes(ballots('APPROVED', 'APPROVED'), 5, simple);
+    expect(early.quorum_required).toBe(3);
+    expect(early.quorum_met).toBe(false);
+    expect(early.leading).toBe('APPROVED');
+    expect(early.outcome).toBeNull();
+
+    const met = tallyVotes(ballots('APPROVED', 'APPROVED', 'APPROVED'), 5, simple);
+    expect(met.quorum_met).toBe(true);
+    expect(met.outstanding).toBe(2);
+    expect(met.outcome).toBe('APPROVED');
+  });
+
+  it('only decides once outstanding votes can no longer change the result', () => {
+    const open = tallyVotes(ballots('APPROVED', 'APPROVED', 'REJECTED'), 5, simple);
+    expect(open.quorum_met).toBe(true);
+    expect(open.leading).toBe('APPROVED');
+    expect(open.outcome).toBeNull();
+
+    const tied = tallyVotes(ballots('APPROVED', 'REJECTED'), 2, simple);
+    expect(tied.leading).toBeNull();
+    expect(tied.outcome).toBeNull();
+  });
+
+  it('applies two-thirds and unanimous majorities', () => {
+    const twoThirds: VotingRules = { quorum_percent: 50, majority: 'TWO_THIRDS' };
+    expect(tallyVotes(ballots('APPROVED', 'APPROVED', 'REJECTED'), 3, twoThirds).outcome).toBe('APPROVED');
+    expect(tallyVotes(ballots('APPROVED', 'REJECTED', 'NEEDS_REVISION'), 3, twoThirds).outcome).toBeNull();
+
+    const unanimous: VotingRules = { quorum_percent: 50, majority: 'UNANIMOUS' };
+    expect(tallyVotes(ballots('APPROVED', 'APPROVED'), 3, unanimous).outcome).toBeNull();
+    expect(tallyVotes(ballots('APPROVED', 'APPROVED', 'APPROVED'), 3, unanimous).outcome).toBe('APPROVED');
+    expect(tallyVotes(ballots('APPROVED', 'APPROVED', 'REJECTED'), 3, unanimous).outcome).toBeNull();
+  });
+
+  it('counts abstentions towards quorum and removes recused members', () => {
+    const partial = tallyVotes(ballots('NEEDS_REVISION', 'ABSTAIN', 'RECUSE'), 4, simple);
+    expect(partial.eligible).toBe(3);
+    expect(partial.voted).toBe(2);
+    expect(partial.quorum_met).toBe(true);
+    expect(partial.outcome).toBeNull();
+
+    const decided = tallyVotes(ballots('NEEDS_REVISION', 'ABSTAIN', 'RECUSE', 'NEEDS_REVISION'), 4, simple);
+    expect(decided.outstanding).toBe(0);
+    expect(decided.outcome).toBe('NEEDS_REVISION');
+
+    const everyoneRecused = tallyVotes(ballots('RECUSE', 'RECUSE'), 2, simple);
+    expect(everyoneRecused.eligible).toBe(0);
+    expect(everyoneRecused.quorum_met).toBe(false);
+    expect(everyoneRecused.outcome).toBeNull();
+  });
+
+  it('falls back to the default rules for invalid settings', () => {
+    expect(normalizeVotingRules(null)).toEqual(simple);
+    expect(normalizeVotingRules({ quorum_percent: 0, majority: 'MOST' })).toEqual(simple);
+    expect(normalizeVotingRules({ quorum_percent: '75', majority: 'UNANIMOUS' })).toEqual({
+      quorum_percent: 75,
+      majority: 'UNANIMOUS',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_CONFLICT_RULES,
+  RuleReview,
+  commentSentiment,
+  evaluateConflictRules,
+  normalizeConflictRules,
+} from '../services/conflictRules';
+
+const review = (reviewer_id: string, scores: Record<string, number>, comments: Record<string, string> = {}): RuleReview => ({
+  reviewer_id,
+  scores,
+  comments,
+});
+
+const rulesOf = (flags: { rule: string }[]) => flags.map((flag) => flag.rule);
+
+describe('Conflict rules', () => {
+  it('raises nothing for a panel in agreement', () => {
+    const reviews = [
+      review('r1', { CONTENT: 4, LANGUAGE: 4 }, { OVERALL: 'Clear and accurate.' }),
+      review('r2', { CONTENT: 4, LANGUAGE: 3 }),
+      review('r3', { CONTENT: 5, LANGUAGE: 4 }),
+    ];
+    expect(evaluateConflictRules(reviews, DEFAULT_CONFLICT_RULES)).toEqual([]);
+  });
+
+  it('flags score spread using per-criterion overrides', () => {
+    const reviews = [review('r1', { CONTENT: 2, LANGUAGE: 2 }), review('r2', { CONTENT: 4, LANGUAGE: 4 })];
+    const config = normalizeConflictRules({
+      ...DEFAULT_CONFLICT_RULES,
+      opposing_recommendations: { ...DEFAULT_CONFLICT_RULES.opposing_recommendations, enabled: false },
+      score_spread: { ...DEFAULT_CONFLICT_RULES.score_spread, criteria: { LANGUAGE: { range_threshold: 2 } } },
+    });
+
+    const flags = evaluateConflictRules(reviews, config);
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ rule: 'SCORE_SPREAD', criterion_code: 'LANGUAGE', score_variance: 1 });
+  });
+
+  it('reads opposing recommendations from scores when none is recorded', () => {
+    const reviews = [
+      review('r1', { CONTENT: 5, LANGUAGE: 4 }),
+      { ...review('r2', { CONTENT: 3, LANGUAGE: 3 }), recommendation: 'REJECT' as const },
+    ];
+    const flags = evaluateConflictRules(reviews, DEFAULT_CONFLICT_RULES);
+    const mismatch = flags.find((flag) => flag.rule === 'OPPOSING_RECOMMENDATIONS');
+    expect(mismatch).toMatchObject({ severity: 'HIGH', reviewer_ids: ['r1', 'r2'] });
+  });
+
+  it('flags one reviewer far from the rest of the panel', () => {
+    const reviews = [
+      review('r1', { CONTENT: 4, LANGUAGE: 4 }),
+      review('r2', { CONTENT: 4, LANGUAGE: 5 }),
+      review('r3', { CONTENT: 4, LANGUAGE: 4 }),
+      review('r4', { CONTENT: 2, LANGUAGE: 2 }),
+    ];
+    const flags = evaluateConflictRules(reviews, {
+      ...DEFAULT_CONFLICT_RULES,
+      score_spread: { ...DEFAULT_CONFLICT_RULES.score_spread, enabled: false },
+    });
+    expect(flags.filter((flag) => flag.rule === 'OUTLIER_REVIEWER').map((flag) => flag.reviewer_ids)).toEqual([['r4']]);
+  });
+
+  it('flags comments whose tone contradicts the score, in English and Hindi', () => {
+    expect(commentSentiment('Poor layout, विषय अस्पष्ट है', DEFAULT_CONFLICT_RULES.sentiment_mismatch)).toEqual({
+      positive: [],
+      negative: ['poor', 'अस्पष्ट'],
+    });
+
+    const reviews = [
+      review('r1', { CONTENT: 5 }, { CONTENT: 'Weak and outdated examples' }),
+      review('r2', { CONTENT: 5 }, { CONTENT: 'उत्कृष्ट' }),
+    ];
+    const flags = evaluateConflictRules(reviews, DEFAULT_CONFLICT_RULES);
+    expect(rulesOf(flags)).toEqual(['SENTIMENT_MISMATCH']);
+    expect(flags[0]).toMatchObject({ criterion_code: 'CONTENT', reviewer_ids: ['r1'] });
+  });
+
+  it('fills missing configuration from the defaults', () => {
+    const config = normalizeConflictRules({
+      outlier_reviewer: { enabled: false },
+      sentiment_mismatch: { positive_keywords: [' Good ', 'good'] },
+    });
+    expect(config.outlier_reviewer).toEqual({ ...DEFAULT_CONFLICT_RULES.outlier_reviewer, enabled: false });
+    expect(config.sentiment_mismatch.positive_keywords).toEqual(['good']);
+    expect(config.score_spread).toEqual(DEFAULT_CONFLICT_RULES.score_spread);
+  });
+});
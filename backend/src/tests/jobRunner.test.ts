@@ -0,0 +1,104 @@
+import { prisma } from '../index';
+import { releaseStaleJobs, runDueJobs } from '../services/jobRunner.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Background job runner', () => {
+  afterEach(async () => {
+    await prisma.backgroundJob.deleteMany({ where: { type: 'METRICS_CALCULATION' } });
+  });
+
+  it('runs each due job once, even with two runners polling', async () => {
+    const job = await prisma.backgroundJob.create({
+      data: { type: 'METRICS_CALCULATION', payload: { n: 1 } },
+    });
+    const handler = jest.fn().mockResolvedValue(undefined);
+
+    await Promise.all([
+      runDueJobs({ METRICS_CALCULATION: handler }),
+      runDueJobs({ METRICS_CALCULATION: handler }),
+    ]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ id: job.id, data: { n: 1, backgroundJobId: job.id } });
+    const row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id: job.id } });
+    expect(row.status).toBe('COMPLETED');
+  });
+
+  it('retries with backoff and fails once the retries are used up', async () => {
+    const job = await prisma.backgroundJob.create({
+      data: { type: 'METRICS_CALCULATION', payload: {}, max_retries: 1 },
+    });
+    const handler = jest.fn().mockRejectedValue(new Error('boom'));
+
+    await runDueJobs({ METRICS_CALCULATION: handler });
+    let row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id: job.id } });
+    expect(row.status).toBe('PENDING');
+    expect(row.retry_count).toBe(1);
+    expect(row.scheduled_at!.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    await runDueJobs({ METRICS_CALCULATION: handler });
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await prisma.backgroundJob.update({ where: { id: job.id }, data: { scheduled_at: null } });
+    await runDueJobs({ METRICS_CALCULATION: handler });
+    row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id: job.id } });
+    expect(row.status).toBe('FAILED');
+    expect(row.retry_count).toBe(2);
+    expect(row.error_message).toBe('boom');
+  });
+
+  it('releases jobs without a recent heartbeat and counts it as an attempt', async () => {
+    const longAgo = new Date(Date.now() - 2 * HOUR);
+    const [silent, alive, exhausted] = await Promise.all([
+      prisma.backgroundJob.create({
+        data: { type: 'METRICS_CALCULATION', payload: {}, status: 'RUNNING', started_at: longAgo },
+      }),
+      prisma.backgroundJob.create({
+        data: {
+          type: 'METRICS_CALCULATION',
+          payload: {},
+          status: 'RUNNING',
+          started_at: longAgo,
+          heartbeat_at: new Date(),
+        },
+      }),
+      prisma.backgroundJob.create({
+        data: {
+          type: 'METRICS_CALCULATION',
+          payload: {},
+          status: 'RUNNING',
+          started_at: longAgo,
+          retry_count: 3,
+          max_retries: 3,
+        },
+      }),
+    ]);
+
+    await releaseStaleJobs(['METRICS_CALCULATION'], new Date());
+
+    const rows = await prisma.backgroundJob.findMany({ where: { type: 'METRICS_CALCULATION' } });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    expect(byId.get(silent.id)).toMatchObject({ status: 'PENDING', retry_count: 1 });
+    expect(byId.get(alive.id)).toMatchObject({ status: 'RUNNING', retry_count: 0 });
+    expect(byId.get(exhausted.id)).toMatchObject({ status: 'FAILED', retry_count: 4 });
+  });
+
+  it('does not record the result of a run whose job was claimed again', async () => {
+    const job = await prisma.backgroundJob.create({
+      data: { type: 'METRICS_CALCULATION', payload: {} },
+    });
+    const reclaimedAt = new Date(Date.now() + HOUR);
+    const handler = jest.fn().mockImplementation(async () => {
+      // Released as stale and picked up by another runner while this one was still working
+      await prisma.backgroundJob.update({ where: { id: job.id }, data: { started_at: reclaimedAt } });
+    });
+
+    await runDueJobs({ METRICS_CALCULATION: handler });
+
+    const row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id: job.id } });
+    expect(row.status).toBe('RUNNING');
+    expect(row.started_at).toEqual(reclaimedAt);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  bookReliability,
+  criterionAgreement,
+  intraclassCorrelation,
+  krippendorffAlphaOrdinal,
+} from '../services/reliability.service';
+import { computeAggregateStats } from '../services/scoring.service';
+
+describe('Reliability statistics', () => {
+  it('matches the ordinal alpha of Krippendorff\'s reference example', () => {
+    // Krippendorff (2011), four coders and twelve units with missing values
+    const units = [
+      [1, 1, 1],
+      [2, 2, 3, 2],
+      [3, 3, 3, 3],
+      [3, 3, 3, 3],
+      [2, 2, 2, 2],
+      [1, 2, 3, 4],
+      [4, 4, 4, 4],
+      [1, 1, 2, 1],
+      [2, 2, 2, 2],
+      [5, 5, 5],
+      [1, 1],
+      [3],
+    ];
+    expect(krippendorffAlphaOrdinal(units)).toBeCloseTo(0.815, 3);
+  });
+
+  it('matches Shrout & Fleiss ICC(2,1) and ICC(2,k)', () => {
+    const matrix = [
+      [9, 2, 5, 8],
+      [6, 1, 3, 2],
+      [8, 4, 6, 8],
+      [7, 1, 2, 6],
+      [10, 5, 6, 9],
+      [6, 2, 4, 7],
+    ];
+    expect(intraclassCorrelation(matrix)).toEqual({ single: 0.29, average: 0.62 });
+  });
+
+  it('returns null where a coefficient is undefined', () => {
+    expect(krippendorffAlphaOrdinal([[3, 3], [3, 3]])).toBeNull();
+    expect(intraclassCorrelation([[3, 4]])).toBeNull();
+    expect(criterionAgreement([4])).toEqual({
+      sd: null,
+      standard_error: null,
+      ci: null,
+      agreement_within_one: null,
+    });
+  });
+
+  it('computes the interval and agreement for one criterion', () => {
+    expect(criterionAgreement([3, 4, 5])).toEqual({
+      sd: 1,
+      standard_error: 0.577,
+      ci: { level: 0.95, low: 1.516, high: 6.484 },
+      agreement_within_one: 0.667,
+    });
+  });
+
+  it('uses only fully scored criteria for the ICC', () => {
+    const reliability = bookReliability([{ A: 1, B: 5, C: 3 }, { A: 2, B: 5, C: 3 }, { A: 1, B: 4 }]);
+    expect(reliability.raters).toBe(3);
+    expect(reliability.units).toBe(3);
+    expect(reliability.icc?.units).toBe(2);
+    expect(reliability.agreement_within_one).toBe(1);
+  });
+
+  it('sorts scores numerically for the median', () => {
+    const stats = computeAggregateStats(
+      [2, 10, 9].map((score, i) => ({
+        id: `r${i}`,
+        reviewer_id: `u${i}`,
+        scores: { A: score },
+        criterion_weights: { A: 1 },
+      })),
+      { A: 1 }
+    );
+    expect(stats.criteria.A.median).toBe(9);
+  });
+});
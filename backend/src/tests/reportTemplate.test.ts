@@ -0,0 +1,83 @@
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  SAMPLE_REPORT_BOOK,
+  normalizeReportTemplate,
+  renderBookReport,
+} from '../services/reportTemplate';
+
+describe('Report templates', () => {
+  it('fills missing settings with the defaults and drops unknown sections', () => {
+    const template = normalizeReportTemplate({
+      sections: ['COMMITTEE_DECISION', 'APPENDIX', 'COMMITTEE_DECISION', 'BOOK_DETAILS'],
+      branding: { header_text: '  Draft for committee  ' },
+      watermark: '',
+    });
+
+    expect(template.sections).toEqual(['COMMITTEE_DECISION', 'BOOK_DETAILS']);
+    expect(template.branding).toEqual({ ...DEFAULT_REPORT_TEMPLATE.branding, header_text: 'Draft for committee' });
+    expect(template.watermark).toBeNull();
+    expect(template.show_reviewer_names).toBe(true);
+    expect(template.language).toBe('en');
+    expect(normalizeReportTemplate(undefined)).toEqual(DEFAULT_REPORT_TEMPLATE);
+  });
+
+  it('prints only the chosen sections in order', () => {
+    const html = renderBookReport(
+      SAMPLE_REPORT_BOOK,
+      normalizeReportTemplate({ sections: ['COMMITTEE_DECISION', 'BOOK_DETAILS'] })
+    );
+
+    expect(html).not.toContain('Reviewer Assessments');
+    expect(html).not.toContain('Aggregated Results');
+    expect(html.indexOf('<h2>Committee Decision</h2>')).toBeLessThan(html.indexOf('<h2>Book Details</h2>'));
+  });
+
+  it('numbers reviewers when names are hidden', () => {
+    const html = renderBookReport(SAMPLE_REPORT_BOOK, normalizeReportTemplate({ show_reviewer_names: false }));
+
+    expect(html).toContain('Reviewer 1');
+    expect(html).toContain('Reviewer 2');
+    expect(html).not.toContain('Dr. Meera Nair');
+    expect(html).not.toContain('Government Ayurveda College');
+  });
+
+  it('escapes branding and watermark text and translates labels', () => {
+    const html = renderBookReport(
+      SAMPLE_REPORT_BOOK,
+      normalizeReportTemplate({ language: 'hi', watermark: '<b>DRAFT</b>', branding: { footer_text: 'A & B' } })
+    );
+
+    expect(html).toContain('&lt;b&gt;DRAFT&lt;/b&gt;');
+    expect(html).toContain('A &amp; B');
+    expect(html).toContain('पाठ्यपुस्तक समीक्षा रिपोर्ट');
+    expect(html).toContain('<html lang="hi">');
+  });
+
+  it('escapes reviewer and committee text from the book', () => {
+    const [first, ...rest] = SAMPLE_REPORT_BOOK.assignments;
+    const book = {
+      ...SAMPLE_REPORT_BOOK,
+      title: 'Rasa <Shastra>',
+      assignments: [
+        {
+          ...first,
+          reviews: [
+            {
+              ...first.reviews[0],
+              summary: '<script>alert(1)</script>',
+              comments: { CONTENT: '<img src=x onerror=alert(1)>' },
+            },
+          ],
+        },
+        ...rest,
+      ],
+    };
+
+    const html = renderBookReport(book, normalizeReportTemplate(undefined));
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('Rasa &lt;Shastra&gt;');
+  });
+});
@@ -0,0 +1,63 @@
+import { normalizeReviewForm, reviewFormProblem } from '../services/reviewForm';
+import { computeAggregateStats } from '../services/scoring.service';
+
+const criterionCodes = ['CONTENT', 'LANGUAGE'];
+
+describe('Review form', () => {
+  it('lets drafts leave the recommendation and summary empty', () => {
+    const form = normalizeReviewForm({ summary: '   ' });
+    expect(form).toEqual({ recommendation: null, summary: null, required_changes: [], page_references: [] });
+    expect(reviewFormProblem(form, { final: false, criterionCodes })).toBeNull();
+    expect(reviewFormProblem(form, { final: true, criterionCodes })).toBe(
+      'A recommendation is required to submit a review'
+    );
+  });
+
+  it('requires a required change when revisions are requested', () => {
+    const form = normalizeReviewForm({ recommendation: 'REVISIONS_REQUESTED', summary: 'Needs work' });
+    expect(reviewFormProblem(form, { final: true, criterionCodes })).toBe(
+      'List at least one required change when requesting revisions'
+    );
+
+    const withChange = normalizeReviewForm({
+      recommendation: 'REVISIONS_REQUESTED',
+      summary: 'Needs work',
+      required_changes: [{ description: ' Update the dosage tables ', criterion_code: 'CONTENT', pages: [12, 4, 12] }],
+    });
+    expect(withChange.required_changes).toEqual([
+      { description: 'Update the dosage tables', criterion_code: 'CONTENT', pages: [4, 12] },
+    ]);
+    expect(reviewFormProblem(withChange, { final: true, criterionCodes })).toBeNull();
+  });
+
+  it('rejects unknown criterion codes and orders page references', () => {
+    const form = normalizeReviewForm({
+      page_references: [
+        { page: 30, note: 'Typo' },
+        { page: 2, note: 'Outdated term', criterion_code: 'STYLE' },
+      ],
+    });
+    expect(form.page_references.map((reference) => reference.page)).toEqual([2, 30]);
+    expect(reviewFormProblem(form, { final: false, criterionCodes })).toBe('Invalid criterion code: STYLE');
+  });
+
+  it('counts recommendations and required changes in the aggregate', () => {
+    const stats = computeAggregateStats(
+      [
+        { id: 'a', reviewer_id: 'r1', scores: { CONTENT: 4 }, criterion_weights: null, recommendation: 'APPROVE' },
+        {
+          id: 'b',
+          reviewer_id: 'r2',
+          scores: { CONTENT: 3 },
+          criterion_weights: null,
+          recommendation: 'REVISIONS_REQUESTED',
+          required_changes: 2,
+        },
+        { id: 'c', reviewer_id: 'r3', scores: { CONTENT: 3 }, criterion_weights: null },
+      ],
+      { CONTENT: 1 }
+    );
+    expect(stats.recommendations).toEqual({ APPROVE: 1, REVISIONS_REQUESTED: 1, REJECT: 0, not_recorded: 1 });
+    expect(stats.required_changes).toBe(2);
+  });
+});
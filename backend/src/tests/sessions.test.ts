@@ -0,0 +1,134 @@
+import request from 'supertest';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { app } from '../index';
+import { prisma } from '../index';
+
+const PASSWORD = 'Sessions-Test-1';
+
+describe('Sessions', () => {
+  let userId: string;
+
+  const login = async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'secretariat-sessions@test.com', password: PASSWORD })
+      .expect(200);
+    return response.body.data as { token: string; refresh_token: string };
+  };
+
+  const refresh = (refreshToken: string) =>
+    request(app).post('/api/auth/refresh').send({ refresh_token: refreshToken });
+
+  const sessionOf = (token: string) => (jwt.decode(token) as { sid: string }).sid;
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: {
+        name: 'Test Secretariat',
+        email: 'secretariat-sessions@test.com',
+        password_hash: await bcrypt.hash(PASSWORD, 10),
+        role: 'SECRETARIAT',
+      },
+    });
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    await prisma.systemSetting.deleteMany({ where: { key: 'two_factor_required_roles' } });
+    await prisma.session.deleteMany({ where: { user_id: userId } });
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate the refresh token and keep the session', async () => {
+      const first = await login();
+
+      const response = await refresh(first.refresh_token).expect(200);
+      const second = response.body.data;
+
+      expect(second.refresh_token).not.toBe(first.refresh_token);
+      expect(sessionOf(second.token)).toBe(sessionOf(first.token));
+
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(200);
+    });
+
+    it('should tolerate a second tab refreshing with the same token at once', async () => {
+      const first = await login();
+      await refresh(first.refresh_token).expect(200);
+
+      // Within the grace window the old token is refused, but the session survives
+      await refresh(first.refresh_token).expect(401);
+
+      const session = await prisma.session.findUniqueOrThrow({ where: { id: sessionOf(first.token) } });
+      expect(session.revoked_at).toBeNull();
+    });
+
+    it('should revoke the whole session when a rotated token is replayed', async () => {
+      const first = await login();
+      const second = (await refresh(first.refresh_token).expect(200)).body.data;
+
+      await prisma.session.update({
+        where: { id: sessionOf(first.token) },
+        data: { last_used_at: new Date(Date.now() - 60 * 1000) },
+      });
+
+      await refresh(first.refresh_token).expect(401);
+
+      const session = await prisma.session.findUniqueOrThrow({ where: { id: sessionOf(first.token) } });
+      expect(session.revoked_by).toBe('REUSE_DETECTED');
+
+      // The holder of the newer token is signed out too
+      await refresh(second.refresh_token).expect(401);
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(401);
+    });
+
+    it('should end the session once the role requires 2FA the user has not set up', async () => {
+      const first = await login();
+
+      await prisma.systemSetting.create({
+        data: { key: 'two_factor_required_roles', value: ['SECRETARIAT'] },
+      });
+
+      await refresh(first.refresh_token).expect(401);
+
+      const session = await prisma.session.findUniqueOrThrow({ where: { id: sessionOf(first.token) } });
+      expect(session.revoked_by).toBe('TWO_FACTOR_REQUIRED');
+    });
+
+    it('should not extend a session past its maximum age', async () => {
+      const first = await login();
+
+      await prisma.session.update({
+        where: { id: sessionOf(first.token) },
+        data: { created_at: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000) },
+      });
+
+      await refresh(first.refresh_token).expect(401);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the session and its access token', async () => {
+      const first = await login();
+
+      await request(app).post('/api/auth/logout').send({ refresh_token: first.refresh_token }).expect(200);
+
+      await refresh(first.refresh_token).expect(401);
+      await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${first.token}`)
+        .expect(401);
+    });
+  });
+});
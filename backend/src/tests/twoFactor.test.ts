@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { confirmEnrollment, matchTotp, startEnrollment, verifySecondFactor } from '../services/twoFactor.service';
+
+// RFC 6238 SHA-1 test secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Independent RFC 4226 implementation so codes are not produced by the code under test
+const totp = (secret: string, step: number) => {
+  const bits = secret
+    .split('')
+    .map((char) => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  const key = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+  const digest = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  return ((digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** 6).toString().padStart(6, '0');
+};
+
+const currentStep = () => Math.floor(Date.now() / 30000);
+
+describe('Two-factor authentication', () => {
+  describe('matchTotp', () => {
+    it('matches the RFC 6238 reference codes', () => {
+      expect(matchTotp(RFC_SECRET, '287082', 1)).toBe(1);
+      expect(matchTotp(RFC_SECRET, '081804', 37037036)).toBe(37037036);
+      expect(matchTotp(RFC_SECRET, '081 804', 37037036)).toBe(37037036);
+    });
+
+    it('accepts one step of clock drift either way and no more', () => {
+      expect(matchTotp(RFC_SECRET, '081804', 37037035)).toBe(37037036);
+      expect(matchTotp(RFC_SECRET, '081804', 37037037)).toBe(37037036);
+      expect(matchTotp(RFC_SECRET, '081804', 37037038)).toBeNull();
+    });
+
+    it('rejects codes of the wrong shape', () => {
+      expect(matchTotp(RFC_SECRET, '28708', 1)).toBeNull();
+      expect(matchTotp(RFC_SECRET, '2870820', 1)).toBeNull();
+      expect(matchTotp(RFC_SECRET, 'abcdef', 1)).toBeNull();
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    let userId: string;
+    let secret: string;
+    let recoveryCodes: string[];
+    let step: number;
+
+    beforeEach(async () => {
+      const user = await prisma.user.create({
+        data: {
+          name: 'Test Committee',
+          email: 'committee-2fa@test.com',
+          password_hash: 'hashed_password',
+          role: 'COMMITTEE',
+        },
+      });
+      userId = user.id;
+
+      ({ secret } = await startEnrollment(userId));
+      step = currentStep();
+      recoveryCodes = await confirmEnrollment(userId, totp(secret, step));
+    });
+
+    afterEach(async () => {
+      await prisma.recoveryCode.deleteMany({ where: { user_id: userId } });
+      await prisma.user.deleteMany({ where: { id: userId } });
+    });
+
+    it('accepts each time step only once', async () => {
+      // The step used to confirm enrollment is already spent
+      await expect(verifySecondFactor(userId, totp(secret, step))).resolves.toBeNull();
+
+      await expect(verifySecondFactor(userId, totp(secret, step + 1))).resolves.toBe('totp');
+      await expect(verifySecondFactor(userId, totp(secret, step + 1))).resolves.toBeNull();
+    });
+
+    it('lets only one of two parallel requests use a code', async () => {
+      const code = totp(secret, step + 1);
+      const results = await Promise.all([verifySecondFactor(userId, code), verifySecondFactor(userId, code)]);
+
+      expect(results.filter((result) => result === 'totp')).toHaveLength(1);
+    });
+
+    it('burns a recovery code once it is used', async () => {
+      await expect(verifySecondFactor(userId, recoveryCodes[0])).resolves.toBe('recovery_code');
+      await expect(verifySecondFactor(userId, recoveryCodes[0])).resolves.toBeNull();
+    });
+
+    it('locks out after five attempts in the window, even with a valid code', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(verifySecondFactor(userId, '000000')).resolves.toBeNull();
+      }
+
+      await expect(verifySecondFactor(userId, totp(secret, step + 1))).rejects.toMatchObject({ statusCode: 429 });
+    });
+
+    it('clears the attempt count after a valid code', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await verifySecondFactor(userId, '000000');
+      }
+      await expect(verifySecondFactor(userId, totp(secret, step + 1))).resolves.toBe('totp');
+
+      await expect(verifySecondFactor(userId, '000000')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import request from 'supertest';
+import { app } from '../index';
+import { prisma } from '../index';
+import jwt from 'jsonwebtoken';
+
+describe('User Management', () => {
+  let adminToken: string;
+  let reviewerToken: string;
+  let adminId: string;
+  let reviewerId: string;
+
+  beforeAll(async () => {
+    const admin = await prisma.user.create({
+      data: {
+        name: 'Test Admin',
+        email: 'admin-users@test.com',
+        password_hash: 'hashed_password',
+        role: 'ADMIN',
+      },
+    });
+    adminId = admin.id;
+
+    const reviewer = await prisma.user.create({
+      data: {
+        name: 'Test Reviewer',
+        email: 'reviewer-users@test.com',
+        password_hash: 'hashed_password',
+        role: 'REVIEWER',
+      },
+    });
+    reviewerId = reviewer.id;
+
+    adminToken = jwt.sign(
+      { id: admin.id, email: admin.email, role: admin.role },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    reviewerToken = jwt.sign(
+      { id: reviewer.id, email: reviewer.email, role: reviewer.role },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany();
+  });
+
+  describe('POST /api/users', () => {
+    it('should create a user with a temporary password', async () => {
+      const response = await request(app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'New Committee Member',
+          email: 'committee-users@test.com',
+          role: 'COMMITTEE',
+          institution: 'Test Institute',
+        })
+        .expect(201);
+
+      expect(response.body.data.user.role).toBe('COMMITTEE');
+      expect(response.body.data.user).not.toHaveProperty('password_hash');
+      expect(response.body.data.temporary_password).toBeTruthy();
+
+      const audit = await prisma.auditLog.findFirst({
+        where: { action: 'USER_CREATED', target_id: response.body.data.user.id },
+      });
+      expect(audit).not.toBeNull();
+    });
+
+    it('should reject non-admin users', async () => {
+      await request(app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${reviewerToken}`)
+        .send({
+          name: 'Someone',
+          email: 'someone@test.com',
+          role: 'ADMIN',
+        })
+        .expect(403);
+    });
+  });
+
+  describe('PATCH /api/users/:id/role', () => {
+    it('should not demote the last active admin', async () => {
+      await request(app)
+        .patch(`/api/users/${adminId}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'REVIEWER' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/users/:id/deactivate', () => {
+    it('should reject a deactivated user with a still-valid token', async () => {
+      await request(app)
+        .post(`/api/users/${reviewerId}/deactivate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/books')
+        .set('Authorization', `Bearer ${reviewerToken}`)
+        .expect(401);
+    });
+
+    it('should allow the user back in after reactivation', async () => {
+      await request(app)
+        .post(`/api/users/${reviewerId}/reactivate`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/books')
+        .set('Authorization', `Bearer ${reviewerToken}`)
+        .expect(200);
+    });
+  });
+});
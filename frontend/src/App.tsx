@@ -11,6 +11,10 @@ import AuditLogsPage from './pages/AuditLogsPage'
 import SecretariatDashboard from './pages/SecretariatDashboard'
 import AdminPage from './pages/AdminPage'
 import PublicPortalPage from './pages/PublicPortalPage'
+import VerifyCertificatePage from './pages/VerifyCertificatePage'
+import SecurityPage from './pages/SecurityPage'
+import NotificationsPage from './pages/NotificationsPage'
+import ProfilePage from './pages/ProfilePage'
 import NotFoundPage from './pages/NotFoundPage'
 import ProtectedRoute from './components/ProtectedRoute'
 import { UserRole } from './types/user'
@@ -22,6 +26,8 @@ function App() {
     <Routes>
       <Route path="/login" element={!isAuthenticated ? <LoginPage /> : <Navigate to="/dashboard" />} />
       <Route path="/public" element={<PublicPortalPage />} />
+      <Route path="/verify" element={<VerifyCertificatePage />} />
+      <Route path="/verify/:serial" element={<VerifyCertificatePage />} />
       
       <Route element={<ProtectedRoute />}>
         <Route element={<Layout />}>
@@ -31,6 +37,9 @@ function App() {
           <Route path="/books/:id" element={<BookDetailPage />} />
           <Route path="/assignments" element={<AssignmentsPage />} />
           <Route path="/review/:assignmentId" element={<ReviewPage />} />
+          <Route path="/security" element={<SecurityPage />} />
+          <Route path="/notifications" element={<NotificationsPage />} />
+          <Route path="/profile" element={<ProfilePage />} />
           <Route 
             path="/audit-logs" 
             element={
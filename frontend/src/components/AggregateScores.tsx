@@ -0,0 +1,155 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { AggregateResultRecord, AggregateStats, Criteria } from '../types/book';
+
+interface AggregateScoresProps {
+  bookId: string;
+  currentRound: number;
+  results?: AggregateResultRecord[];
+  canCompute: boolean;
+}
+
+const isWeighted = (stats: AggregateResultRecord['stats']): stats is AggregateStats =>
+  'totals' in stats && 'criteria' in stats;
+
+// Weighted and unweighted book scores for the current round, with a per-criterion breakdown
+const AggregateScores: React.FC<AggregateScoresProps> = ({ bookId, currentRound, results, canCompute }) => {
+  const queryClient = useQueryClient();
+
+  const latest = (results ?? [])
+    .filter((result) => result.round_number === currentRound)
+    .sort((a, b) => new Date(b.computed_at).getTime() - new Date(a.computed_at).getTime())[0];
+
+  const { data: criteria } = useQuery<Criteria[]>({
+    queryKey: ['criteria'],
+    queryFn: async () => {
+      const response = await axios.get('/criteria');
+      return response.data.data;
+    },
+  });
+
+  const computeMutation = useMutation({
+    mutationFn: async () => {
+      await axios.get(`/books/${bookId}/aggregate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries(['book', bookId]);
+      toast.success('Review results recomputed');
+    },
+  });
+
+  const labelFor = (code: string) => criteria?.find((criterion) => criterion.code === code)?.label ?? code;
+  const stats = latest && isWeighted(latest.stats) ? latest.stats : null;
+
+  if (!latest && !canCompute) {
+    return null;
+  }
+
+  return (
+    <div className="card p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900">Review Results</h2>
+        {canCompute && (
+          <button
+            onClick={() => computeMutation.mutate()}
+            disabled={computeMutation.isPending}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Recompute from submitted reviews"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${computeMutation.isPending ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {!latest ? (
+        <p className="text-sm text-gray-500">Results have not been computed for round {currentRound} yet.</p>
+      ) : !stats ? (
+        <p className="text-sm text-gray-700">{latest.summary_text}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Weighted Score</h3>
+              <p className="mt-1 text-2xl font-bold text-primary-600">{stats.totals.weighted_mean.toFixed(2)}/5</p>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Unweighted Mean</h3>
+              <p className="mt-1 text-2xl font-bold text-gray-700">{stats.totals.unweighted_mean.toFixed(2)}/5</p>
+            </div>
+          </div>
+
+          {stats.recommendations && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Recommendations</h3>
+              <div className="mt-1 grid grid-cols-3 gap-2 text-center text-sm">
+                <div className="bg-green-50 p-2 rounded">
+                  <p className="text-green-700">Approve</p>
+                  <p className="font-bold text-green-600">{stats.recommendations.APPROVE}</p>
+                </div>
+                <div className="bg-yellow-50 p-2 rounded">
+                  <p className="text-yellow-700">Revisions</p>
+                  <p className="font-bold text-yellow-600">{stats.recommendations.REVISIONS_REQUESTED}</p>
+                </div>
+                <div className="bg-red-50 p-2 rounded">
+                  <p className="text-red-700">Reject</p>
+                  <p className="font-bold text-red-600">{stats.recommendations.REJECT}</p>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {stats.required_changes ?? 0} required change(s) listed
+                {stats.recommendations.not_recorded > 0 &&
+                  ` • ${stats.recommendations.not_recorded} review(s) without a recorded recommendation`}
+              </p>
+            </div>
+          )}
+
+          {stats.weights.changed_since_review.length > 0 && (
+            <div className="flex items-start p-2 bg-yellow-50 rounded text-xs text-yellow-800">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span>
+                Weights for {stats.weights.changed_since_review.map(labelFor).join(', ')} changed after reviews were
+                submitted. Scored with today's weights the book would get{' '}
+                {stats.totals.weighted_mean_current_weights.toFixed(2)}.
+              </span>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-500">Criteria Scores</h3>
+            <ul className="mt-1 space-y-2">
+              {Object.entries(stats.criteria).map(([code, breakdown]) => (
+                <li key={code} className="text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-700">{labelFor(code)}</span>
+                    <span className="font-medium text-primary-600">
+                      {breakdown.mean.toFixed(1)}/5
+                      <span className="ml-2 text-xs text-gray-500">
+                        weight {breakdown.snapshot_weight} ({Math.round(breakdown.weight_share * 100)}%)
+                      </span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                    <div
+                      className="bg-primary-600 h-1.5 rounded-full"
+                      style={{ width: `${(breakdown.mean / 5) * 100}%` }}
+                    ></div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <p className="text-xs text-gray-400">
+            {stats.totals.review_count} reviews • computed {format(new Date(latest.computed_at), 'MMM dd, yyyy HH:mm')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AggregateScores;
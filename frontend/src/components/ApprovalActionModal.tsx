@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMutation } from '@tanstack/react-query'
+import { toast } from 'react-toastify'
+import { AxiosError } from 'axios'
+import axios from '../utils/axios'
+import { ApprovalActionType } from '../types/book'
+
+interface ApprovalActionModalProps {
+  bookId: string
+  bookTitle: string
+  action: ApprovalActionType | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const ACTION_COPY: Record<ApprovalActionType, { title: string; description: string; button: string; done: string }> = {
+  SUSPEND: {
+    title: 'Suspend Approval',
+    description:
+      'The book stays on the public portal with a suspension notice and its certificate verifies as suspended until the approval is reinstated or revoked.',
+    button: 'Suspend Approval',
+    done: 'Approval suspended',
+  },
+  REVOKE: {
+    title: 'Revoke Approval',
+    description:
+      'The book stays on the public portal with a revocation notice and its certificate verifies as revoked.',
+    button: 'Revoke Approval',
+    done: 'Approval revoked',
+  },
+  REINSTATE: {
+    title: 'Reinstate Approval',
+    description: 'The book is listed as approved again and its certificate verifies as valid.',
+    button: 'Reinstate Approval',
+    done: 'Approval reinstated',
+  },
+  REOPEN: {
+    title: 'Start Re-review',
+    description:
+      'The book returns to Pending Review in a new round on its current PDF, ready for reviewers to be assigned. It stays listed as suspended on the public portal until the committee decides again.',
+    button: 'Start Re-review',
+    done: 'Re-review started',
+  },
+}
+
+// Suspend, revoke, reinstate or reopen a published book's approval, with the rationale shown publicly
+const ApprovalActionModal = ({ bookId, bookTitle, action, onClose, onSuccess }: ApprovalActionModalProps) => {
+  const [rationale, setRationale] = useState('')
+
+  useEffect(() => {
+    setRationale('')
+  }, [action])
+
+  const actionMutation = useMutation(
+    async () => axios.post(`/books/${bookId}/approval`, { action, rationale }),
+    {
+      onSuccess: () => {
+        if (action) {
+          toast.success(ACTION_COPY[action].done)
+        }
+        onSuccess()
+      },
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to update the approval')
+      },
+    }
+  )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!rationale.trim()) {
+      toast.error('Please provide a rationale')
+      return
+    }
+
+    actionMutation.mutate()
+  }
+
+  const copy = action ? ACTION_COPY[action] : null
+
+  return (
+    <Dialog
+      open={!!action}
+      onClose={() => {
+        if (!actionMutation.isLoading) {
+          onClose()
+        }
+      }}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="w-full max-w-lg rounded-lg bg-white p-6 shadow-xl">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-medium text-gray-900">
+              {copy?.title}
+            </Dialog.Title>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500"
+              onClick={onClose}
+              disabled={actionMutation.isLoading}
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+            </button>
+          </div>
+
+          <Dialog.Description className="text-sm text-gray-500 mb-4">
+            "{bookTitle}": {copy?.description}
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rationale (published with the notice)
+              </label>
+              <textarea
+                rows={4}
+                value={rationale}
+                onChange={(e) => setRationale(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                disabled={actionMutation.isLoading}
+                required
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <button
+                type="button"
+                className="btn-outline"
+                onClick={onClose}
+                disabled={actionMutation.isLoading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn-primary"
+                disabled={actionMutation.isLoading || !rationale.trim()}
+              >
+                {actionMutation.isLoading ? (
+                  <>
+                    <span className="animate-spin inline-block h-4 w-4 border-t-2 border-b-2 border-white rounded-full mr-2"></span>
+                    Saving...
+                  </>
+                ) : (
+                  copy?.button
+                )}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default ApprovalActionModal
@@ -5,8 +5,7 @@ import { useQuery, useMutation } from '@tanstack/react-query'
 import { toast } from 'react-toastify'
 import { AxiosError } from 'axios'
 import axios from '../utils/axios'
-import { Assignment } from '../types/book'
-import { User, UserRole } from '../types/user'
+import { Assignment, ReviewerRecommendations } from '../types/book'
 
 interface AssignReviewersModalProps {
   isOpen: boolean
@@ -29,17 +28,19 @@ const AssignReviewersModal = ({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [dueDate, setDueDate] = useState<string>('')
 
-  // Fetch available reviewers
-  const { data: reviewers, isLoading } = useQuery<User[]>(
-    ['reviewers'],
+  const [showExcluded, setShowExcluded] = useState(false)
+
+  // Fetch eligible reviewers, best fit first
+  const { data, isLoading } = useQuery<ReviewerRecommendations>(
+    ['reviewer-recommendations', bookId],
     async () => {
-      const response = await axios.get('/users', {
-        params: { role: UserRole.REVIEWER },
-      })
-      return response.data.data.users
+      const response = await axios.get(`/books/${bookId}/reviewer-recommendations`)
+      return response.data.data
     }
   )
 
+  const reviewers = data?.recommendations
+
   // Assign reviewers mutation
   const assignReviewersMutation = useMutation(
     async (reviewerIds: string[]) => {
@@ -71,6 +72,13 @@ const AssignReviewersModal = ({
     )
   }
 
+  // Replace the selection with the top-ranked panel
+  const handleUseRecommended = () => {
+    setSelectedReviewers(
+      (reviewers || []).filter((r) => r.recommended).map((r) => r.reviewer.id)
+    )
+  }
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -103,7 +111,7 @@ const AssignReviewersModal = ({
       <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
       
       <div className="fixed inset-0 flex items-center justify-center p-4">
-        <Dialog.Panel className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <Dialog.Panel className="w-full max-w-2xl rounded-lg bg-white p-6 shadow-xl">
           <div className="flex items-center justify-between mb-4">
             <Dialog.Title className="text-lg font-medium text-gray-900">
               Assign Reviewers
@@ -120,25 +128,37 @@ const AssignReviewersModal = ({
           </div>
           
           <Dialog.Description className="text-sm text-gray-500 mb-4">
-            Select 3-5 reviewers to evaluate this book. Current assignments will be updated.
+            Select 3-5 reviewers to evaluate this book. Reviewers are ranked by open workload,
+            reliability, timeliness and past conflicts of interest. Reviewers from the uploader's or
+            publisher's institution are not eligible.
           </Dialog.Description>
           
           <form onSubmit={handleSubmit}>
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Available Reviewers
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Recommended Reviewers
+                </label>
+                <button
+                  type="button"
+                  className="text-sm text-primary-600 hover:text-primary-800 disabled:text-gray-400"
+                  onClick={handleUseRecommended}
+                  disabled={isSubmitting || !reviewers?.some((r) => r.recommended)}
+                >
+                  Use recommended panel
+                </button>
+              </div>
               
               {isLoading ? (
                 <div className="flex justify-center py-4">
                   <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
                 </div>
               ) : reviewers && reviewers.length > 0 ? (
-                <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md">
+                <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
                   <ul className="divide-y divide-gray-200">
-                    {reviewers.map((reviewer) => (
+                    {reviewers.map(({ reviewer, score, recommended, already_assigned, factors }) => (
                       <li key={reviewer.id}>
-                        <div className="flex items-center px-4 py-3">
+                        <div className="flex items-start px-4 py-3">
                           <input
                             type="checkbox"
                             id={`reviewer-${reviewer.id}`}
@@ -146,17 +166,39 @@ const AssignReviewersModal = ({
                             value={reviewer.id}
                             checked={selectedReviewers.includes(reviewer.id)}
                             onChange={() => handleReviewerToggle(reviewer.id)}
-                            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                            className="mt-1 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                             disabled={isSubmitting}
                           />
                           <label
                             htmlFor={`reviewer-${reviewer.id}`}
-                            className="ml-3 block text-sm font-medium text-gray-700 cursor-pointer"
+                            className="ml-3 flex-1 block text-sm font-medium text-gray-700 cursor-pointer"
                           >
-                            <div>{reviewer.name}</div>
+                            <div className="flex items-center justify-between">
+                              <span>
+                                {reviewer.name}
+                                {recommended && (
+                                  <span className="ml-2 px-2 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                                    Recommended
+                                  </span>
+                                )}
+                                {already_assigned && (
+                                  <span className="ml-2 px-2 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                                    Assigned
+                                  </span>
+                                )}
+                              </span>
+                              <span className="text-sm font-semibold text-primary-600">
+                                {score.toFixed(1)}
+                              </span>
+                            </div>
                             <div className="text-xs text-gray-500">
-                              {reviewer.department} • {reviewer.institution}
+                              {reviewer.institution || 'No institution on record'}
                             </div>
+                            <ul className="mt-1 text-xs font-normal text-gray-600 list-disc list-inside">
+                              {Object.values(factors).map((factor) => (
+                                <li key={factor.reason}>{factor.reason}</li>
+                              ))}
+                            </ul>
                           </label>
                         </div>
                       </li>
@@ -168,6 +210,27 @@ const AssignReviewersModal = ({
                   No reviewers available.
                 </p>
               )}
+
+              {data && data.excluded.length > 0 && (
+                <div className="mt-2">
+                  <button
+                    type="button"
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                    onClick={() => setShowExcluded((prev) => !prev)}
+                  >
+                    {showExcluded ? 'Hide' : 'Show'} {data.excluded.length} ineligible reviewer(s)
+                  </button>
+                  {showExcluded && (
+                    <ul className="mt-1 space-y-1 text-xs text-gray-500">
+                      {data.excluded.map(({ reviewer, reason }) => (
+                        <li key={reviewer.id}>
+                          <span className="font-medium text-gray-700">{reviewer.name}</span> — {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
               
               <div className="mt-2 text-xs text-gray-500">
                 Selected: {selectedReviewers.length} reviewer(s)
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { format, subDays } from 'date-fns';
+import {
+  ShieldCheckIcon,
+  ShieldExclamationIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+} from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+
+interface ChainVerification {
+  valid: boolean;
+  checked_entries: number;
+  legacy_entries: number;
+  first_break: {
+    sequence: number;
+    id: string;
+    reason: 'HASH_MISMATCH' | 'PREVIOUS_HASH_MISMATCH' | 'SEQUENCE_GAP' | 'UNCHAINED_ENTRY';
+  } | null;
+  head: { sequence: number; hash: string } | null;
+  verified_at: string;
+}
+
+const breakDescriptions: Record<string, string> = {
+  HASH_MISMATCH: 'the entry was modified after it was written',
+  PREVIOUS_HASH_MISMATCH: 'the link to the previous entry does not match',
+  SEQUENCE_GAP: 'one or more entries before it were deleted',
+  UNCHAINED_ENTRY: 'the entry has no hash',
+};
+
+// Hash-chain status of the audit log plus a signed export for offline checks
+const AuditIntegrityPanel: React.FC = () => {
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: verification, isFetching, isError, refetch } = useQuery<ChainVerification>({
+    queryKey: ['auditChainVerification'],
+    queryFn: async () => {
+      const response = await axios.get('/audit/verify');
+      return response.data.data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.get('/audit/export', {
+        params: {
+          from_date: new Date(`${fromDate}T00:00:00`).toISOString(),
+          to_date: new Date(`${toDate}T23:59:59.999`).toISOString(),
+        },
+        responseType: 'blob',
+      });
+      return response.data as Blob;
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-export_${fromDate}_${toDate}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Signed export downloaded');
+    },
+  });
+
+  return (
+    <div className="card p-4">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div className="flex items-start">
+          {isFetching && !verification ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          ) : verification?.valid ? (
+            <ShieldCheckIcon className="h-8 w-8 text-green-500 flex-shrink-0" />
+          ) : (
+            <ShieldExclamationIcon className="h-8 w-8 text-red-500 flex-shrink-0" />
+          )}
+          <div className="ml-3">
+            <p className="text-sm font-medium text-gray-900">
+              {isError
+                ? 'Chain integrity could not be checked'
+                : !verification
+                ? 'Verifying audit chain...'
+                : verification.valid
+                ? 'Audit chain intact'
+                : `Audit chain broken at entry #${verification.first_break?.sequence}`}
+            </p>
+            {verification && (
+              <p className="text-xs text-gray-500">
+                {verification.valid
+                  ? `${verification.checked_entries} entries verified`
+                  : `${breakDescriptions[verification.first_break?.reason ?? ''] ?? ''}; ${verification.checked_entries} entries before it are intact`}
+                {verification.legacy_entries > 0 &&
+                  ` • ${verification.legacy_entries} entries predate chaining`}
+                {' • '}checked {format(new Date(verification.verified_at), 'MMM dd, yyyy HH:mm')}
+              </p>
+            )}
+            {verification?.head && (
+              <p className="text-xs text-gray-400 font-mono mt-1 break-all">
+                Head #{verification.head.sequence}: {verification.head.hash}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="ml-3 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Verify again"
+          >
+            <ArrowPathIcon className={`h-5 w-5 ${isFetching ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div>
+            <label htmlFor="exportFrom" className="block text-xs font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              id="exportFrom"
+              className="form-input"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="exportTo" className="block text-xs font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              id="exportTo"
+              className="form-input"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+          <button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || !fromDate || !toDate}
+            className="btn-secondary inline-flex items-center disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            Signed export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditIntegrityPanel;
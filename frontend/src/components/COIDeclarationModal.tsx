@@ -13,8 +13,9 @@ interface COIDeclarationModalProps {
   onSuccess: () => void;
 }
 
+// Radio inputs report their value as a string
 interface COIFormData {
-  has_conflict: boolean;
+  has_conflict: 'true' | 'false';
   conflict_details: string;
 }
 
@@ -28,23 +29,28 @@ const COIDeclarationModal: React.FC<COIDeclarationModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { register, handleSubmit, watch, reset } = useForm<COIFormData>({
     defaultValues: {
-      has_conflict: false,
+      has_conflict: 'false',
       conflict_details: '',
     },
   });
 
-  const hasConflict = watch('has_conflict');
+  const hasConflict = watch('has_conflict') === 'true';
 
   const onSubmit = async (data: COIFormData) => {
     try {
       setIsSubmitting(true);
-      await axios.post('/api/coi/submit', {
+      const conflict = data.has_conflict === 'true';
+      await axios.post('/coi/submit', {
         assignment_id: assignmentId,
-        has_conflict: data.has_conflict,
-        conflict_details: data.has_conflict ? data.conflict_details : null,
+        has_conflict: conflict,
+        conflict_details: conflict ? data.conflict_details : null,
       });
 
-      toast.success('COI declaration submitted successfully');
+      toast.success(
+        conflict
+          ? 'Conflict declared. You have been recused and the Secretariat will reassign this review.'
+          : 'COI declaration submitted successfully'
+      );
       onSuccess();
       onClose();
       reset();
@@ -123,6 +129,10 @@ const COIDeclarationModal: React.FC<COIDeclarationModalProps> = ({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                   placeholder="Describe the nature of the conflict..."
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Declaring a conflict recuses you from this review. It cannot be withdrawn, and the Secretariat
+                  will assign another reviewer.
+                </p>
               </div>
             )}
 
@@ -1,74 +1,186 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Dialog } from '@headlessui/react'
 import { XMarkIcon } from '@heroicons/react/24/outline'
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'react-toastify'
-import axios, { AxiosError } from 'axios'
-import { AggregateResult } from '../types/book'
+import { AxiosError } from 'axios'
+import axios from '../utils/axios'
+import { AggregateResultRecord, AggregateStats } from '../types/book'
+import { CommitteeOutcome, DecisionSessionResponse, MajorityRule, VoteChoice } from '../types/committee'
 
 interface CommitteeDecisionModalProps {
   isOpen: boolean
   onClose: () => void
   onSuccess: () => void
   bookId: string
-  aggregateResults?: AggregateResult
+  currentRound?: number
+  results?: AggregateResultRecord[]
+  canOpenSession: boolean
+  canCancelSession: boolean
 }
 
-type Decision = 'APPROVED' | 'REJECTED' | 'REVISIONS_REQUESTED'
+const VOTE_OPTIONS: { value: VoteChoice; label: string; tone: string }[] = [
+  { value: 'APPROVED', label: 'Approve', tone: 'bg-green-50 text-green-700' },
+  { value: 'NEEDS_REVISION', label: 'Needs revision', tone: 'bg-yellow-50 text-yellow-700' },
+  { value: 'REJECTED', label: 'Reject', tone: 'bg-red-50 text-red-700' },
+  { value: 'ABSTAIN', label: 'Abstain', tone: 'bg-gray-50 text-gray-700' },
+  { value: 'RECUSE', label: 'Recuse', tone: 'bg-gray-50 text-gray-500' },
+]
 
+const VOTE_LABELS = Object.fromEntries(VOTE_OPTIONS.map((option) => [option.value, option.label])) as Record<
+  VoteChoice,
+  string
+>
+
+const OUTCOME_LABELS: Record<CommitteeOutcome, string> = {
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  NEEDS_REVISION: 'Sent back for revision',
+}
+
+const MAJORITY_LABELS: Record<MajorityRule, string> = {
+  SIMPLE: 'simple majority',
+  TWO_THIRDS: 'two-thirds majority',
+  UNANIMOUS: 'unanimity',
+}
+
+// Committee vote on a reviewed book: members vote with a rationale and the
+// decision is recorded by the server once quorum and majority are satisfied
 const CommitteeDecisionModal = ({
   isOpen,
   onClose,
   onSuccess,
   bookId,
-  aggregateResults,
+  currentRound,
+  results,
+  canOpenSession,
+  canCancelSession,
 }: CommitteeDecisionModalProps) => {
-  const [decision, setDecision] = useState<Decision>('APPROVED')
-  const [comments, setComments] = useState('')
-  const [isSubmitting, setIsSubmitting] = useState(false)
-
-  // Make decision mutation
-  const decisionMutation = useMutation(
-    async (data: { decision: Decision; comments: string }) => {
-      return axios.post(`/books/${bookId}/decision`, data)
+  const queryClient = useQueryClient()
+  const [vote, setVote] = useState<VoteChoice>('APPROVED')
+  const [rationale, setRationale] = useState('')
+
+  // Latest aggregate computed for the round being decided
+  const latest = (results ?? [])
+    .filter((result) => currentRound === undefined || result.round_number === currentRound)
+    .sort((a, b) => new Date(b.computed_at).getTime() - new Date(a.computed_at).getTime())[0]
+  const stats = latest && 'totals' in latest.stats ? (latest.stats as AggregateStats) : null
+
+  // Poll while the vote is open so the tally stays live
+  const { data, isLoading } = useQuery<DecisionSessionResponse>(
+    ['decision-session', bookId],
+    async () => {
+      const response = await axios.get(`/books/${bookId}/decision-session`)
+      return response.data.data
+    },
+    {
+      enabled: isOpen,
+      refetchInterval: (current) => (current?.session?.status === 'OPEN' ? 5000 : false),
+    }
+  )
+
+  const session = data?.session ?? null
+  const tally = session?.tally
+  const rules = session?.rules ?? data?.rules
+
+  // Start from the member's existing vote so it can be changed; primitives so polling keeps edits
+  const myVoteChoice = session?.my_vote?.vote
+  const myVoteRationale = session?.my_vote?.rationale
+  useEffect(() => {
+    if (myVoteChoice && myVoteRationale !== undefined) {
+      setVote(myVoteChoice)
+      setRationale(myVoteRationale)
+    }
+  }, [myVoteChoice, myVoteRationale])
+
+  const refreshSession = (response: DecisionSessionResponse['session']) => {
+    queryClient.setQueryData<DecisionSessionResponse>(['decision-session', bookId], (current) =>
+      current ? { ...current, session: response } : current
+    )
+  }
+
+  const openMutation = useMutation(
+    async () => {
+      const response = await axios.post(`/books/${bookId}/decision-session`)
+      return response.data.data
     },
     {
       onSuccess: () => {
-        toast.success('Decision submitted successfully')
-        onSuccess()
+        toast.success('Committee vote opened')
+        queryClient.invalidateQueries(['decision-session', bookId])
       },
-      onError: (error: AxiosError) => {
-        toast.error(
-          (error.response?.data as any)?.message || 'Failed to submit decision'
-        )
-        setIsSubmitting(false)
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to open the vote')
       },
     }
   )
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
+  const voteMutation = useMutation(
+    async () => {
+      const response = await axios.post(`/books/${bookId}/decision-session/votes`, { vote, rationale })
+      return response.data.data
+    },
+    {
+      onSuccess: (result) => {
+        refreshSession(result.session)
+        if (result.committeeDecision) {
+          toast.success(`Decision recorded: ${OUTCOME_LABELS[result.committeeDecision.decision as CommitteeOutcome]}`)
+          onSuccess()
+        } else {
+          toast.success('Vote recorded')
+        }
+      },
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to record your vote')
+      },
+    }
+  )
+
+  const cancelMutation = useMutation(
+    async () => {
+      const response = await axios.post(`/books/${bookId}/decision-session/cancel`)
+      return response.data.data
+    },
+    {
+      onSuccess: (result) => {
+        refreshSession(result.session)
+        toast.success('Committee vote cancelled')
+      },
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to cancel the vote')
+      },
+    }
+  )
+
+  const isBusy = openMutation.isLoading || voteMutation.isLoading || cancelMutation.isLoading
+
+  // Handle vote submission
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    
-    if (!comments.trim()) {
-      toast.error('Please provide comments for your decision')
+
+    if (!rationale.trim()) {
+      toast.error('Please provide a rationale for your vote')
       return
     }
-    
-    setIsSubmitting(true)
-    decisionMutation.mutate({ decision, comments })
+
+    voteMutation.mutate()
   }
 
+  const members = data?.members ?? []
+  const pending = session
+    ? members.filter((member) => !session.votes.some((cast) => cast.voter_id === member.id))
+    : []
+
   return (
     <Dialog
       open={isOpen}
-      onClose={() => !isSubmitting && onClose()}
+      onClose={() => !isBusy && onClose()}
       className="relative z-50"
     >
       <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
-      
+
       <div className="fixed inset-0 flex items-center justify-center p-4">
-        <Dialog.Panel className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <Dialog.Panel className="w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-lg bg-white p-6 shadow-xl">
           <div className="flex items-center justify-between mb-4">
             <Dialog.Title className="text-lg font-medium text-gray-900">
               Committee Decision
@@ -77,168 +189,229 @@ const CommitteeDecisionModal = ({
               type="button"
               className="text-gray-400 hover:text-gray-500"
               onClick={onClose}
-              disabled={isSubmitting}
+              disabled={isBusy}
             >
               <span className="sr-only">Close</span>
               <XMarkIcon className="h-6 w-6" aria-hidden="true" />
             </button>
           </div>
-          
+
           <Dialog.Description className="text-sm text-gray-500 mb-4">
-            Make a final decision on this book based on reviewer recommendations.
+            The committee votes on this book and the decision is recorded once
+            {rules
+              ? ` ${rules.quorum_percent}% of members have voted and one outcome has a ${MAJORITY_LABELS[rules.majority]}.`
+              : ' quorum and majority are reached.'}
           </Dialog.Description>
-          
-          {aggregateResults && (
+
+          {stats?.recommendations && (
             <div className="mb-4 p-3 bg-gray-50 rounded-md">
-              <h3 className="text-sm font-medium text-gray-700 mb-2">Review Summary</h3>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Reviewer Recommendations</h3>
               <div className="grid grid-cols-3 gap-2 text-center text-sm">
                 <div className="bg-green-50 p-2 rounded">
                   <p className="font-medium text-green-700">Approve</p>
                   <p className="font-bold text-green-600">
-                    {aggregateResults.approveCount}
+                    {stats.recommendations.APPROVE}
                   </p>
                 </div>
                 <div className="bg-yellow-50 p-2 rounded">
                   <p className="font-medium text-yellow-700">Revisions</p>
                   <p className="font-bold text-yellow-600">
-                    {aggregateResults.revisionsCount}
+                    {stats.recommendations.REVISIONS_REQUESTED}
                   </p>
                 </div>
                 <div className="bg-red-50 p-2 rounded">
                   <p className="font-medium text-red-700">Reject</p>
                   <p className="font-bold text-red-600">
-                    {aggregateResults.rejectCount}
+                    {stats.recommendations.REJECT}
                   </p>
                 </div>
               </div>
               <div className="mt-2">
-                <p className="text-xs text-gray-500">Overall Score: 
+                <p className="text-xs text-gray-500">Weighted Score:
                   <span className="font-medium text-primary-600 ml-1">
-                    {aggregateResults.weightedScore.toFixed(2)}/10
+                    {stats.totals.weighted_mean.toFixed(2)}/5
                   </span>
+                  <span className="ml-3">{stats.required_changes ?? 0} required change(s)</span>
                 </p>
               </div>
             </div>
           )}
-          
-          <form onSubmit={handleSubmit}>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Decision
-              </label>
-              <div className="space-y-2">
-                <div className="flex items-center">
-                  <input
-                    id="decision-approve"
-                    name="decision"
-                    type="radio"
-                    value="APPROVED"
-                    checked={decision === 'APPROVED'}
-                    onChange={() => setDecision('APPROVED')}
-                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
-                    disabled={isSubmitting}
-                  />
-                  <label
-                    htmlFor="decision-approve"
-                    className="ml-3 block text-sm font-medium text-gray-700"
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+            </div>
+          ) : !session || session.status === 'CANCELLED' ? (
+            <div className="rounded-md border border-gray-200 p-4 text-sm text-gray-600">
+              {session?.status === 'CANCELLED' && (
+                <p className="mb-2">The previous vote on this round was cancelled without a decision.</p>
+              )}
+              <p>
+                No vote is open. Opening one asks all {members.length} active committee member(s) to vote.
+              </p>
+              {canOpenSession && (
+                <div className="flex justify-end mt-4">
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={() => openMutation.mutate()}
+                    disabled={isBusy || members.length === 0}
                   >
-                    Approve
-                  </label>
+                    {openMutation.isLoading ? 'Opening...' : 'Open Vote'}
+                  </button>
                 </div>
-                <div className="flex items-center">
-                  <input
-                    id="decision-revisions"
-                    name="decision"
-                    type="radio"
-                    value="REVISIONS_REQUESTED"
-                    checked={decision === 'REVISIONS_REQUESTED'}
-                    onChange={() => setDecision('REVISIONS_REQUESTED')}
-                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
-                    disabled={isSubmitting}
-                  />
-                  <label
-                    htmlFor="decision-revisions"
-                    className="ml-3 block text-sm font-medium text-gray-700"
-                  >
-                    Request Revisions
-                  </label>
+              )}
+            </div>
+          ) : (
+            <>
+              {session.status === 'DECIDED' && tally?.outcome && (
+                <div className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-800">
+                  Decision recorded: <span className="font-medium">{OUTCOME_LABELS[tally.outcome]}</span>
                 </div>
-                <div className="flex items-center">
-                  <input
-                    id="decision-reject"
-                    name="decision"
-                    type="radio"
-                    value="REJECTED"
-                    checked={decision === 'REJECTED'}
-                    onChange={() => setDecision('REJECTED')}
-                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
-                    disabled={isSubmitting}
-                  />
-                  <label
-                    htmlFor="decision-reject"
-                    className="ml-3 block text-sm font-medium text-gray-700"
-                  >
-                    Reject
-                  </label>
+              )}
+
+              {tally && (
+                <div className="mb-4">
+                  <div className="grid grid-cols-5 gap-2 text-center text-sm">
+                    {VOTE_OPTIONS.map((option) => (
+                      <div key={option.value} className={`p-2 rounded ${option.tone}`}>
+                        <p className="font-medium">{option.label}</p>
+                        <p className="font-bold">{tally.counts[option.value]}</p>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {tally.voted} of {tally.eligible} eligible member(s) voted; quorum is {tally.quorum_required}
+                    {tally.quorum_met ? ' (met)' : ''}.
+                    {session.status === 'OPEN' &&
+                      (tally.leading
+                        ? ` Leading: ${VOTE_LABELS[tally.leading]}.`
+                        : ' No outcome is leading.')}
+                  </p>
                 </div>
+              )}
+
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Votes</h3>
+                {session.votes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No votes yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+                    {session.votes.map((cast) => (
+                      <li key={cast.id} className="p-3 text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium text-gray-900">{cast.voter.name}</span>
+                          <span className="text-gray-600">{VOTE_LABELS[cast.vote]}</span>
+                        </div>
+                        <p className="mt-1 text-gray-600 whitespace-pre-line">{cast.rationale}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {session.status === 'OPEN' && pending.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Waiting for: {pending.map((member) => member.name).join(', ')}
+                  </p>
+                )}
               </div>
-            </div>
-            
-            <div className="mb-4">
-              <label
-                htmlFor="comments"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Comments
-              </label>
-              <textarea
-                id="comments"
-                name="comments"
-                rows={4}
-                value={comments}
-                onChange={(e) => setComments(e.target.value)}
-                className="input-field w-full"
-                placeholder="Provide detailed comments explaining your decision..."
-                disabled={isSubmitting}
-                required
-              />
-            </div>
-            
-            <div className="flex justify-end space-x-2 mt-6">
+
+              {session.can_vote && (
+                <form onSubmit={handleSubmit}>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {session.my_vote ? 'Change your vote' : 'Your vote'}
+                    </label>
+                    <div className="flex flex-wrap gap-4">
+                      {VOTE_OPTIONS.map((option) => (
+                        <div key={option.value} className="flex items-center">
+                          <input
+                            id={`vote-${option.value}`}
+                            name="vote"
+                            type="radio"
+                            value={option.value}
+                            checked={vote === option.value}
+                            onChange={() => setVote(option.value)}
+                            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                            disabled={isBusy}
+                          />
+                          <label
+                            htmlFor={`vote-${option.value}`}
+                            className="ml-2 block text-sm font-medium text-gray-700"
+                          >
+                            {option.label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="mb-4">
+                    <label
+                      htmlFor="rationale"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      Rationale
+                    </label>
+                    <textarea
+                      id="rationale"
+                      name="rationale"
+                      rows={4}
+                      value={rationale}
+                      onChange={(e) => setRationale(e.target.value)}
+                      className="input-field w-full"
+                      placeholder="Explain your vote; it is recorded with the decision..."
+                      disabled={isBusy}
+                      required
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      className="btn-primary"
+                      disabled={isBusy || !rationale.trim()}
+                    >
+                      {voteMutation.isLoading ? (
+                        <>
+                          <span className="animate-spin inline-block h-4 w-4 border-t-2 border-b-2 border-white rounded-full mr-2"></span>
+                          Submitting...
+                        </>
+                      ) : session.my_vote ? (
+                        'Update Vote'
+                      ) : (
+                        'Cast Vote'
+                      )}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2 mt-6">
+            {session?.status === 'OPEN' && canCancelSession && (
               <button
                 type="button"
-                className="btn-outline"
-                onClick={onClose}
-                disabled={isSubmitting}
+                className="btn-outline text-red-600"
+                onClick={() => cancelMutation.mutate()}
+                disabled={isBusy}
               >
-                Cancel
+                Cancel Vote
               </button>
-              <button
-                type="submit"
-                className={`btn-primary ${
-                  decision === 'APPROVED'
-                    ? 'bg-green-600 hover:bg-green-700'
-                    : decision === 'REJECTED'
-                    ? 'bg-red-600 hover:bg-red-700'
-                    : 'bg-yellow-600 hover:bg-yellow-700'
-                }`}
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? (
-                  <>
-                    <span className="animate-spin inline-block h-4 w-4 border-t-2 border-b-2 border-white rounded-full mr-2"></span>
-                    Submitting...
-                  </>
-                ) : (
-                  'Submit Decision'
-                )}
-              </button>
-            </div>
-          </form>
+            )}
+            <button
+              type="button"
+              className="btn-outline"
+              onClick={session?.status === 'DECIDED' ? onSuccess : onClose}
+              disabled={isBusy}
+            >
+              Close
+            </button>
+          </div>
         </Dialog.Panel>
       </div>
     </Dialog>
   )
 }
 
-export default CommitteeDecisionModal
\ No newline at end of file
+export default CommitteeDecisionModal
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import axios from '../utils/axios';
+import { MajorityRule, VotingRules, VotingRulesResponse } from '../types/committee';
+
+const MAJORITY_OPTIONS: Record<MajorityRule, { title: string; description: string }> = {
+  SIMPLE: { title: 'Simple majority', description: 'More than half of the votes for an outcome.' },
+  TWO_THIRDS: { title: 'Two-thirds majority', description: 'At least two thirds of the votes for an outcome.' },
+  UNANIMOUS: { title: 'Unanimous', description: 'Every vote for the same outcome.' },
+};
+
+// Admin configuration of the quorum and majority committee votes are decided by
+const CommitteeVotingRulesPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<VotingRules | null>(null);
+
+  const { data, isLoading } = useQuery<VotingRulesResponse>({
+    queryKey: ['voting-rules'],
+    queryFn: async () => {
+      const response = await axios.get('/books/voting-rules');
+      return response.data.data;
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setRules(data.rules);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/books/voting-rules', rules);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['voting-rules'] });
+      toast.success('Voting rules updated');
+    },
+    onError: (error: AxiosError<{ message?: string; errors?: { msg: string }[] }>) => {
+      toast.error(
+        error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to update voting rules'
+      );
+    },
+  });
+
+  const isDirty = !!data && !!rules && JSON.stringify(data.rules) !== JSON.stringify(rules);
+  const isValid = !!rules && Number.isInteger(rules.quorum_percent) && rules.quorum_percent >= 1 && rules.quorum_percent <= 100;
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Committee Voting</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Committee members vote on each reviewed book. The decision is recorded once enough members have voted and
+          one outcome has the required majority. Recused members are left out of both counts and abstentions count
+          towards quorum only. Changes apply to votes opened afterwards.
+        </p>
+
+        {isLoading || !data || !rules ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Quorum
+                <div className="mt-1 flex items-center">
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={rules.quorum_percent}
+                    onChange={(e) => setRules({ ...rules, quorum_percent: Number(e.target.value) })}
+                    className="form-input w-24"
+                  />
+                  <span className="ml-2 text-sm font-normal text-gray-500">% of committee members must vote</span>
+                </div>
+              </label>
+            </div>
+
+            <fieldset className="mt-4">
+              <legend className="block text-sm font-medium text-gray-700">Majority</legend>
+              <div className="mt-2 space-y-2">
+                {data.majority_rules.map((majority) => (
+                  <label
+                    key={majority}
+                    className={`flex items-start p-3 border rounded-md ${
+                      rules.majority === majority ? 'border-primary-200 bg-primary-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="majority"
+                      checked={rules.majority === majority}
+                      onChange={() => setRules({ ...rules, majority })}
+                      className="mt-1 h-4 w-4 text-primary-600 border-gray-300"
+                    />
+                    <span className="ml-2">
+                      <span className="block text-sm font-medium text-gray-900">{MAJORITY_OPTIONS[majority].title}</span>
+                      <span className="block text-xs text-gray-500">{MAJORITY_OPTIONS[majority].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || !isValid || saveMutation.isLoading}
+                className="btn-primary disabled:opacity-50"
+              >
+                {saveMutation.isLoading ? 'Saving...' : 'Save rules'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommitteeVotingRulesPanel;
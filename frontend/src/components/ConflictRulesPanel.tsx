@@ -0,0 +1,318 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import axios from '../utils/axios';
+import { Criteria } from '../types/book';
+import { ConflictRuleConfig, CriterionSpreadOverride } from '../types/conflict';
+
+type Section = keyof ConflictRuleConfig;
+
+const SECTIONS: Record<Section, { title: string; description: string }> = {
+  score_spread: {
+    title: 'Score spread',
+    description: 'Flags a criterion whose scores vary at or above the variance threshold, or span at least the range.',
+  },
+  opposing_recommendations: {
+    title: 'Opposing recommendations',
+    description:
+      'Flags a panel where one reviewer recommends approval and another rejection. Reviews without a recorded recommendation are read from their weighted mean.',
+  },
+  outlier_reviewer: {
+    title: 'Outlier reviewer',
+    description: "Flags a reviewer whose mean score is far from the rest of the panel's.",
+  },
+  sentiment_mismatch: {
+    title: 'Comment sentiment',
+    description: 'Flags a high score with a negative comment, or a low score with a positive one, using the keywords below.',
+  },
+};
+
+const parseKeywords = (text: string) =>
+  Array.from(new Set(text.split(/[\n,]+/).map((word) => word.trim().toLowerCase()).filter(Boolean)));
+
+const NumberField: React.FC<{
+  label?: string;
+  value: number | undefined;
+  placeholder?: number;
+  step?: number;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, placeholder, step = 0.1, onChange }) => (
+  <label className="block text-sm text-gray-700">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value ?? ''}
+      placeholder={placeholder !== undefined ? String(placeholder) : undefined}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className="form-input mt-1 w-28"
+    />
+  </label>
+);
+
+// Admin configuration of the rules that flag reviewer conflicts when a round's last review is submitted
+const ConflictRulesPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [config, setConfig] = useState<ConflictRuleConfig | null>(null);
+  const [positiveText, setPositiveText] = useState('');
+  const [negativeText, setNegativeText] = useState('');
+
+  const { data: saved, isLoading } = useQuery<ConflictRuleConfig>({
+    queryKey: ['conflict-rules'],
+    queryFn: async () => {
+      const response = await axios.get('/conflict-rules');
+      return response.data.data;
+    },
+  });
+
+  const { data: criteria } = useQuery<Criteria[]>({
+    queryKey: ['criteria'],
+    queryFn: async () => {
+      const response = await axios.get('/criteria');
+      return response.data.data;
+    },
+  });
+
+  useEffect(() => {
+    if (saved) {
+      setConfig(saved);
+      setPositiveText(saved.sentiment_mismatch.positive_keywords.join(', '));
+      setNegativeText(saved.sentiment_mismatch.negative_keywords.join(', '));
+    }
+  }, [saved]);
+
+  const draft = (): ConflictRuleConfig | null =>
+    config && {
+      ...config,
+      sentiment_mismatch: {
+        ...config.sentiment_mismatch,
+        positive_keywords: parseKeywords(positiveText),
+        negative_keywords: parseKeywords(negativeText),
+      },
+    };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/conflict-rules', draft());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conflict-rules'] });
+      toast.success('Conflict rules updated');
+    },
+    onError: (error: AxiosError<{ message?: string; errors?: { msg: string }[] }>) => {
+      toast.error(
+        error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to update conflict rules'
+      );
+    },
+  });
+
+  const update = <K extends Section>(section: K, changes: Partial<ConflictRuleConfig[K]>) =>
+    setConfig((current) => current && { ...current, [section]: { ...current[section], ...changes } });
+
+  const updateOverride = (code: string, changes: CriterionSpreadOverride) =>
+    setConfig((current) => {
+      if (!current) {
+        return current;
+      }
+      const override = { ...current.score_spread.criteria[code], ...changes };
+      (Object.keys(override) as (keyof CriterionSpreadOverride)[]).forEach((key) => {
+        if (override[key] === undefined) {
+          delete override[key];
+        }
+      });
+      const overrides = { ...current.score_spread.criteria, [code]: override };
+      if (Object.keys(override).length === 0) {
+        delete overrides[code];
+      }
+      return { ...current, score_spread: { ...current.score_spread, criteria: overrides } };
+    });
+
+  const isDirty = !!saved && JSON.stringify(saved) !== JSON.stringify(draft());
+
+  const sectionHeader = (section: Section) => (
+    <label className="flex items-start">
+      <input
+        type="checkbox"
+        checked={config?.[section].enabled ?? false}
+        onChange={(e) => update(section, { enabled: e.target.checked })}
+        className="mt-1 h-4 w-4 text-primary-600 border-gray-300 rounded"
+      />
+      <span className="ml-2">
+        <span className="block text-sm font-medium text-gray-900">{SECTIONS[section].title}</span>
+        <span className="block text-xs text-gray-500">{SECTIONS[section].description}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Conflict Rules</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          These rules run when the last review of a round is submitted and whenever conflicts are re-detected on a
+          book. AI analysis adds commentary to the flags they raise. Scores are on the criteria's 1-5 scale.
+        </p>
+
+        {isLoading || !config ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4 space-y-4">
+              <div className="p-3 border rounded-md border-gray-200 space-y-3">
+                {sectionHeader('score_spread')}
+                <div className="flex flex-wrap gap-4 ml-6">
+                  <NumberField
+                    label="Variance at least"
+                    value={config.score_spread.variance_threshold}
+                    onChange={(value) => update('score_spread', { variance_threshold: value ?? 0 })}
+                  />
+                  <NumberField
+                    label="Range at least"
+                    step={1}
+                    value={config.score_spread.range_threshold}
+                    onChange={(value) => update('score_spread', { range_threshold: value ?? 0 })}
+                  />
+                </div>
+                {criteria && criteria.length > 0 && (
+                  <table className="ml-6 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="pr-4 py-1 font-medium">Criterion</th>
+                        <th className="pr-4 py-1 font-medium">Checked</th>
+                        <th className="pr-4 py-1 font-medium">Variance</th>
+                        <th className="py-1 font-medium">Range</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {criteria.map((criterion) => {
+                        const override = config.score_spread.criteria[criterion.code] ?? {};
+                        return (
+                          <tr key={criterion.code}>
+                            <td className="pr-4 py-1 text-gray-900">{criterion.label}</td>
+                            <td className="pr-4 py-1">
+                              <input
+                                type="checkbox"
+                                checked={override.enabled !== false}
+                                onChange={(e) =>
+                                  updateOverride(criterion.code, { enabled: e.target.checked ? undefined : false })
+                                }
+                                className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                              />
+                            </td>
+                            <td className="pr-4 py-1">
+                              <NumberField
+                                value={override.variance_threshold}
+                                placeholder={config.score_spread.variance_threshold}
+                                onChange={(value) => updateOverride(criterion.code, { variance_threshold: value })}
+                              />
+                            </td>
+                            <td className="py-1">
+                              <NumberField
+                                step={1}
+                                value={override.range_threshold}
+                                placeholder={config.score_spread.range_threshold}
+                                onChange={(value) => updateOverride(criterion.code, { range_threshold: value })}
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="p-3 border rounded-md border-gray-200 space-y-3">
+                {sectionHeader('opposing_recommendations')}
+                <div className="flex flex-wrap gap-4 ml-6">
+                  <NumberField
+                    label="Approve from mean"
+                    value={config.opposing_recommendations.approve_min_score}
+                    onChange={(value) => update('opposing_recommendations', { approve_min_score: value ?? 0 })}
+                  />
+                  <NumberField
+                    label="Reject up to mean"
+                    value={config.opposing_recommendations.reject_max_score}
+                    onChange={(value) => update('opposing_recommendations', { reject_max_score: value ?? 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="p-3 border rounded-md border-gray-200 space-y-3">
+                {sectionHeader('outlier_reviewer')}
+                <div className="flex flex-wrap gap-4 ml-6">
+                  <NumberField
+                    label="Distance at least"
+                    value={config.outlier_reviewer.distance_threshold}
+                    onChange={(value) => update('outlier_reviewer', { distance_threshold: value ?? 0 })}
+                  />
+                  <NumberField
+                    label="Minimum panel size"
+                    step={1}
+                    value={config.outlier_reviewer.min_reviewers}
+                    onChange={(value) => update('outlier_reviewer', { min_reviewers: value ?? 3 })}
+                  />
+                </div>
+              </div>
+
+              <div className="p-3 border rounded-md border-gray-200 space-y-3">
+                {sectionHeader('sentiment_mismatch')}
+                <div className="flex flex-wrap gap-4 ml-6">
+                  <NumberField
+                    label="High score from"
+                    value={config.sentiment_mismatch.high_score_min}
+                    onChange={(value) => update('sentiment_mismatch', { high_score_min: value ?? 0 })}
+                  />
+                  <NumberField
+                    label="Low score up to"
+                    value={config.sentiment_mismatch.low_score_max}
+                    onChange={(value) => update('sentiment_mismatch', { low_score_max: value ?? 0 })}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 ml-6">
+                  <label className="block text-sm text-gray-700">
+                    Positive keywords
+                    <textarea
+                      rows={3}
+                      value={positiveText}
+                      onChange={(e) => setPositiveText(e.target.value)}
+                      className="form-input mt-1"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Negative keywords
+                    <textarea
+                      rows={3}
+                      value={negativeText}
+                      onChange={(e) => setNegativeText(e.target.value)}
+                      className="form-input mt-1"
+                    />
+                  </label>
+                </div>
+                <p className="ml-6 text-xs text-gray-500">
+                  Separate words with commas or new lines. Whole words are matched in English and Hindi.
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || saveMutation.isPending}
+                className="btn-primary disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save rules'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictRulesPanel;
@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'react-toastify';
 import axios from '../utils/axios';
-import { ConflictFlag } from '../types/book';
+import { AggregateResultRecord, AggregateStats, ConflictFlag } from '../types/book';
 import { Bar } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -17,11 +17,33 @@ ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend)
 
 interface ConflictVisualizationProps {
   bookId: string;
+  currentRound?: number;
+  results?: AggregateResultRecord[];
 }
 
-const ConflictVisualization = ({ bookId }: ConflictVisualizationProps) => {
+// Krippendorff's guidance: alpha >= 0.8 is reliable, 0.667-0.8 allows tentative conclusions
+const describeAlpha = (alpha: number) => {
+  if (alpha >= 0.8) return { label: 'Reliable', className: 'text-green-700' };
+  if (alpha >= 0.667) return { label: 'Tentative', className: 'text-yellow-700' };
+  return { label: 'Low agreement', className: 'text-red-700' };
+};
+
+const formatCoefficient = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : value.toFixed(2);
+
+const formatShare = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+
+const ConflictVisualization = ({ bookId, currentRound, results }: ConflictVisualizationProps) => {
   const queryClient = useQueryClient();
 
+  // Agreement statistics from the latest aggregate computed for this round
+  const latest = (results ?? [])
+    .filter((result) => currentRound === undefined || result.round_number === currentRound)
+    .sort((a, b) => new Date(b.computed_at).getTime() - new Date(a.computed_at).getTime())[0];
+  const stats = latest && 'reliability' in latest.stats ? (latest.stats as AggregateStats) : null;
+  const reliability = stats?.reliability;
+
   // Fetch conflicts
   const { data: conflicts, isLoading } = useQuery<ConflictFlag[]>({
     queryKey: ['conflicts', bookId],
@@ -157,6 +179,82 @@ const ConflictVisualization = ({ bookId }: ConflictVisualizationProps) => {
         </button>
       </div>
 
+      {/* Inter-rater reliability */}
+      {stats && reliability && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700">Reviewer Agreement</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="p-3 bg-gray-50 rounded">
+              <p className="text-xs text-gray-500">Krippendorff's α (ordinal)</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {formatCoefficient(reliability.krippendorff_alpha_ordinal)}
+              </p>
+              {reliability.krippendorff_alpha_ordinal !== null && (
+                <p className={`text-xs ${describeAlpha(reliability.krippendorff_alpha_ordinal).className}`}>
+                  {describeAlpha(reliability.krippendorff_alpha_ordinal).label}
+                </p>
+              )}
+            </div>
+            <div className="p-3 bg-gray-50 rounded">
+              <p className="text-xs text-gray-500">ICC(2,1) / ICC(2,k)</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {formatCoefficient(reliability.icc?.single)} / {formatCoefficient(reliability.icc?.average)}
+              </p>
+              {reliability.icc && reliability.icc.units < reliability.units && (
+                <p className="text-xs text-gray-500">
+                  Over {reliability.icc.units} of {reliability.units} criteria scored by every reviewer
+                </p>
+              )}
+            </div>
+            <div className="p-3 bg-gray-50 rounded">
+              <p className="text-xs text-gray-500">Reviewer pairs within ±1</p>
+              <p className="text-xl font-semibold text-gray-900">{formatShare(reliability.agreement_within_one)}</p>
+              <p className="text-xs text-gray-500">{reliability.raters} reviewers</p>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Criterion</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Mean (95% CI)</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">SD</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Within ±1</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {Object.entries(stats.criteria).map(([code, breakdown]) => (
+                  <tr key={code}>
+                    <td className="px-3 py-2 text-gray-900">{code}</td>
+                    <td className="px-3 py-2 text-gray-700">
+                      {breakdown.mean.toFixed(2)}
+                      {breakdown.ci && (
+                        <span className="text-gray-500">
+                          {' '}
+                          ({breakdown.ci.low.toFixed(2)}–{breakdown.ci.high.toFixed(2)})
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{formatCoefficient(breakdown.sd)}</td>
+                    <td
+                      className={`px-3 py-2 ${
+                        breakdown.agreement_within_one !== null &&
+                        breakdown.agreement_within_one !== undefined &&
+                        breakdown.agreement_within_one < 0.5
+                          ? 'text-red-700 font-medium'
+                          : 'text-gray-700'
+                      }`}
+                    >
+                      {formatShare(breakdown.agreement_within_one)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Chart Visualization */}
       {chartData && unresolvedConflicts.length > 0 && (
         <div className="h-64">
@@ -216,8 +314,16 @@ const ConflictVisualization = ({ bookId }: ConflictVisualizationProps) => {
                           • {conflict.criterionCode}
                         </span>
                       )}
+                      {conflict.source && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-white bg-opacity-60 text-gray-700">
+                          {conflict.source === 'RULE' ? 'Rule' : 'AI'}
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm mb-2">{conflict.description}</p>
+                    {conflict.analysis && (
+                      <p className="text-xs text-gray-700 mb-2 italic">AI analysis: {conflict.analysis}</p>
+                    )}
                     {conflict.scoreVariance && (
                       <p className="text-xs text-gray-600">
                         Score Variance: {conflict.scoreVariance.toFixed(2)}
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { CheckBadgeIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { ContactChannel, ContactProfile } from '../types/profile';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिन्दी (Hindi)' },
+];
+
+interface ContactProfileFormProps {
+  profile: ContactProfile;
+}
+
+// Phone, WhatsApp number and language, with a one-time code to verify each number
+const ContactProfileForm: React.FC<ContactProfileFormProps> = ({ profile }) => {
+  const queryClient = useQueryClient();
+  const [phone, setPhone] = useState(profile.phone ?? '');
+  const [whatsapp, setWhatsapp] = useState(profile.whatsapp_number ?? '');
+  const [language, setLanguage] = useState(profile.preferred_language);
+  const [verifying, setVerifying] = useState<ContactChannel | null>(null);
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    setPhone(profile.phone ?? '');
+    setWhatsapp(profile.whatsapp_number ?? '');
+    setLanguage(profile.preferred_language);
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/profile/contact', {
+        phone: phone.trim() || null,
+        whatsapp_number: whatsapp.trim() || null,
+        preferred_language: language,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Contact details saved');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Could not save contact details')),
+  });
+
+  const sendCodeMutation = useMutation({
+    mutationFn: async (channel: ContactChannel) => {
+      await axios.post('/profile/contact/verify', { channel });
+      return channel;
+    },
+    onSuccess: (channel) => {
+      setVerifying(channel);
+      setCode('');
+      toast.info('Verification code sent');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Could not send a verification code')),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post('/profile/contact/confirm', { channel: verifying, code: code.trim() });
+    },
+    onSuccess: () => {
+      setVerifying(null);
+      setCode('');
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Number verified');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Invalid verification code')),
+  });
+
+  const dirty =
+    phone.trim() !== (profile.phone ?? '') ||
+    whatsapp.trim() !== (profile.whatsapp_number ?? '') ||
+    language !== profile.preferred_language;
+
+  const renderNumber = (
+    channel: ContactChannel,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    saved: string | null,
+    verifiedAt: string | null
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <div className="mt-1 flex items-center gap-2">
+        <input
+          type="tel"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="+919876543210"
+          className="form-input flex-1"
+        />
+        {saved && value.trim() === saved && (
+          verifiedAt ? (
+            <span className="inline-flex items-center text-xs font-medium text-green-700">
+              <CheckBadgeIcon className="h-4 w-4 mr-1" aria-hidden="true" />
+              Verified
+            </span>
+          ) : (
+            <button
+              type="button"
+              onClick={() => sendCodeMutation.mutate(channel)}
+              disabled={sendCodeMutation.isPending}
+              className="btn-secondary text-xs disabled:opacity-50"
+            >
+              Verify
+            </button>
+          )
+        )}
+      </div>
+      {!verifiedAt && saved && (
+        <p className="mt-1 text-xs text-gray-500">Messages are only sent to verified numbers.</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {renderNumber('SMS', 'Mobile number (SMS)', phone, setPhone, profile.phone, profile.phone_verified_at)}
+      {renderNumber(
+        'WHATSAPP',
+        'WhatsApp number',
+        whatsapp,
+        setWhatsapp,
+        profile.whatsapp_number,
+        profile.whatsapp_verified_at
+      )}
+
+      {verifying && (
+        <div className="rounded-md bg-gray-50 p-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Enter the 6-digit code sent by {verifying === 'SMS' ? 'SMS' : 'WhatsApp'}
+          </label>
+          <div className="mt-2 flex items-center gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="form-input w-32"
+            />
+            <button
+              type="button"
+              onClick={() => confirmMutation.mutate()}
+              disabled={code.trim().length !== 6 || confirmMutation.isPending}
+              className="btn-primary disabled:opacity-50"
+            >
+              Confirm
+            </button>
+            <button type="button" onClick={() => setVerifying(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Preferred language</label>
+        <select value={language} onChange={(e) => setLanguage(e.target.value)} className="form-input mt-1">
+          {LANGUAGES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => saveMutation.mutate()}
+          disabled={!dirty || saveMutation.isPending}
+          className="btn-primary disabled:opacity-50"
+        >
+          Save contact details
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ContactProfileForm;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import axios from '../utils/axios';
+import { EscalationPolicy, EscalationStep, OverdueSweepResult } from '../types/escalation';
+
+const STEP_LABELS: Record<EscalationStep['step'], { title: string; audience: string }> = {
+  DUE_SOON: { title: 'Early reminder', audience: 'Reviewer' },
+  DUE_TODAY: { title: 'Due-date reminder', audience: 'Reviewer' },
+  SECRETARIAT_ALERT: { title: 'Overdue alert', audience: 'Secretariat' },
+  REASSIGNMENT_SUGGESTED: { title: 'Suggest reassignment', audience: 'Secretariat' },
+};
+
+const describeOffset = (days: number) =>
+  days === 0 ? 'on the due date' : days < 0 ? `${-days} day(s) before the due date` : `${days} day(s) after the due date`;
+
+// Admin configuration of the reminders and alerts sent as an assignment approaches and passes its due date
+const EscalationPolicyPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [steps, setSteps] = useState<EscalationStep[]>([]);
+
+  const { data: policy, isLoading } = useQuery<EscalationPolicy>({
+    queryKey: ['escalation-policy'],
+    queryFn: async () => {
+      const response = await axios.get('/assignments/escalation-policy');
+      return response.data.data;
+    },
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setSteps(policy.steps);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/assignments/escalation-policy', { steps });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['escalation-policy'] });
+      toast.success('Escalation ladder updated');
+    },
+    onError: (error: AxiosError<{ message?: string; errors?: { msg: string }[] }>) => {
+      toast.error(
+        error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to update escalation ladder'
+      );
+    },
+  });
+
+  const sweepMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/assignments/overdue-sweep');
+      return response.data.data as OverdueSweepResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-analytics'] });
+      toast.success(
+        `${result.marked_overdue} marked overdue, ${result.reminders_created} reminder(s) sent`
+      );
+    },
+    onError: () => toast.error('Overdue check failed'),
+  });
+
+  const updateStep = (key: EscalationStep['step'], changes: Partial<EscalationStep>) =>
+    setSteps((current) => current.map((step) => (step.step === key ? { ...step, ...changes } : step)));
+
+  const isDirty = !!policy && JSON.stringify(policy.steps) !== JSON.stringify(steps);
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Overdue Escalation</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Assignments past their due date are marked overdue automatically. Each step below is sent once per
+              due date and recorded as a reminder.
+            </p>
+          </div>
+          <button
+            onClick={() => sweepMutation.mutate()}
+            disabled={sweepMutation.isPending}
+            className="btn-secondary disabled:opacity-50"
+          >
+            {sweepMutation.isPending ? 'Checking...' : 'Run check now'}
+          </button>
+        </div>
+
+        {isLoading || !policy ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <>
+            <ol className="mt-4 space-y-3">
+              {steps.map((step, index) => (
+                <li
+                  key={step.step}
+                  className={`flex flex-col md:flex-row md:items-center md:justify-between p-3 border rounded-md ${
+                    step.enabled ? 'border-primary-200 bg-primary-50' : 'border-gray-200'
+                  }`}
+                >
+                  <label className="flex items-start">
+                    <input
+                      type="checkbox"
+                      checked={step.enabled}
+                      onChange={(e) => updateStep(step.step, { enabled: e.target.checked })}
+                      className="mt-1 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">
+                      <span className="block text-sm font-medium text-gray-900">
+                        {index + 1}. {STEP_LABELS[step.step].title}
+                      </span>
+                      <span className="block text-xs text-gray-500">
+                        To {STEP_LABELS[step.step].audience}, {describeOffset(step.offset_days)}
+                      </span>
+                    </span>
+                  </label>
+                  <div className="mt-2 md:mt-0 flex items-center text-sm text-gray-700">
+                    <input
+                      type="number"
+                      min={-30}
+                      max={90}
+                      value={step.offset_days}
+                      onChange={(e) => updateStep(step.step, { offset_days: Number(e.target.value) })}
+                      className="form-input w-20"
+                    />
+                    <span className="ml-2">days from due date</span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || saveMutation.isPending}
+                className="btn-primary disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save ladder'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EscalationPolicyPanel;
@@ -1,6 +1,7 @@
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useAuthStore } from '../stores/authStore'
-import { Bars3Icon, BellIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline'
+import { Bars3Icon, ArrowRightOnRectangleIcon, ShieldCheckIcon } from '@heroicons/react/24/outline'
+import NotificationBell from './NotificationBell'
 
 interface HeaderProps {
   setSidebarOpen: (open: boolean) => void
@@ -35,17 +36,12 @@ const Header = ({ setSidebarOpen }: HeaderProps) => {
       {/* Right section */}
       <div className="flex items-center ml-auto">
         {/* Notifications */}
-        <button
-          type="button"
-          className="p-1 rounded-full text-gray-500 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
-        >
-          <span className="sr-only">View notifications</span>
-          <BellIcon className="h-6 w-6" aria-hidden="true" />
-        </button>
+        <NotificationBell />
 
         {/* Profile dropdown */}
         <div className="ml-4 relative flex items-center">
-          <div className="flex items-center">
+          <Link to="/profile" className="flex items-center">
+            <span className="sr-only">Profile and notification preferences</span>
             {/* Avatar */}
             <div className="h-8 w-8 rounded-full bg-primary-600 flex items-center justify-center text-white font-medium">
               {user?.name.charAt(0)}
@@ -56,7 +52,16 @@ const Header = ({ setSidebarOpen }: HeaderProps) => {
               <div className="text-sm font-medium text-gray-700">{user?.name}</div>
               <div className="text-xs text-gray-500">{user?.role}</div>
             </div>
-          </div>
+          </Link>
+
+          {/* Security settings link */}
+          <Link
+            to="/security"
+            className="ml-4 p-1 rounded-full text-gray-500 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <span className="sr-only">Security settings</span>
+            <ShieldCheckIcon className="h-5 w-5" aria-hidden="true" />
+          </Link>
 
           {/* Logout button */}
           <button
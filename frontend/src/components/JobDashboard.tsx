@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import axios from '../utils/axios';
+import { BackgroundJob, BackgroundJobPage, JobStatus, JobType } from '../types/job';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const TYPE_LABELS: Record<JobType, string> = {
+  OCR_PROCESSING: 'OCR',
+  REMINDER_SEND: 'Reminder',
+  REPORT_GENERATION: 'Report',
+  METRICS_CALCULATION: 'Metrics',
+  EMAIL_SEND: 'Email',
+  SMS_SEND: 'SMS',
+  WHATSAPP_SEND: 'WhatsApp',
+  AI_SUMMARIZATION: 'AI summary',
+  CONFLICT_DETECTION: 'Conflict detection',
+  REVIEWER_SCORE_CALCULATION: 'Reviewer scores',
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+const STATUSES = Object.keys(STATUS_STYLES) as JobStatus[];
+const PAGE_SIZE = 20;
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM dd, HH:mm:ss') : '—');
+
+// Background job records with retry and cancel controls
+const JobDashboard: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<JobType | ''>('');
+  const [status, setStatus] = useState<JobStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => setPage(1), [type, status]);
+
+  const { data, isLoading } = useQuery<BackgroundJobPage>({
+    queryKey: ['background-jobs', type, status, page],
+    queryFn: async () => {
+      const response = await axios.get('/jobs', {
+        params: { type: type || undefined, status: status || undefined, page, limit: PAGE_SIZE },
+      });
+      return response.data.data;
+    },
+    keepPreviousData: true,
+    refetchInterval: 10000,
+  });
+
+  const { data: selected } = useQuery<BackgroundJob>({
+    queryKey: ['background-job', selectedId],
+    queryFn: async () => {
+      const response = await axios.get(`/jobs/${selectedId}`);
+      return response.data.data.job;
+    },
+    enabled: !!selectedId,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'retry' | 'cancel' }) => {
+      await axios.post(`/jobs/${id}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ['background-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['background-job'] });
+      toast.success(action === 'retry' ? 'Job queued to run again' : 'Job cancelled');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Could not update the job')),
+  });
+
+  const actions = (job: BackgroundJob) => (
+    <>
+      {(job.status === 'FAILED' || job.status === 'CANCELLED') && (
+        <button
+          onClick={() => actionMutation.mutate({ id: job.id, action: 'retry' })}
+          disabled={actionMutation.isPending}
+          className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+        >
+          Retry
+        </button>
+      )}
+      {job.status === 'PENDING' && (
+        <button
+          onClick={() => {
+            if (window.confirm('Cancel this job?')) {
+              actionMutation.mutate({ id: job.id, action: 'cancel' });
+            }
+          }}
+          disabled={actionMutation.isPending}
+          className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Background Jobs</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            OCR runs, scheduled reminders and other background work. Failed jobs are retried automatically up to
+            their retry limit; after that they can be run again here.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUSES.map((name) => (
+            <button
+              key={name}
+              onClick={() => setStatus(status === name ? '' : name)}
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[name]} ${
+                status === name ? 'ring-2 ring-offset-1 ring-primary-500' : ''
+              }`}
+            >
+              {name} · {data?.counts[name] ?? 0}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Type</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as JobType | '')}
+              className="form-input mt-1"
+            >
+              <option value="">All types</option>
+              {(Object.keys(TYPE_LABELS) as JobType[]).map((name) => (
+                <option key={name} value={name}>
+                  {TYPE_LABELS[name]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center items-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : data.jobs.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No jobs match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Type', 'Status', 'Attempts', 'Created', 'Due', 'Finished', ''].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.jobs.map((job) => (
+                  <tr
+                    key={job.id}
+                    onClick={() => setSelectedId(job.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${selectedId === job.id ? 'bg-primary-50' : ''}`}
+                  >
+                    <td className="px-4 py-2 text-sm text-gray-900">{TYPE_LABELS[job.type]}</td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[job.status]}`}
+                      >
+                        {job.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      {job.retry_count}/{job.max_retries} retries
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatTime(job.created_at)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatTime(job.scheduled_at)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatTime(job.completed_at)}</td>
+                    <td className="px-4 py-2 text-right space-x-3" onClick={(e) => e.stopPropagation()}>
+                      {actions(job)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {data.pagination.pages > 1 && (
+              <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+                <button
+                  onClick={() => setPage((current) => current - 1)}
+                  disabled={page <= 1}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span>
+                  Page {data.pagination.page} of {data.pagination.pages}
+                </span>
+                <button
+                  onClick={() => setPage((current) => current + 1)}
+                  disabled={page >= data.pagination.pages}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selected && (
+          <div className="border-t border-gray-200 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">
+                {TYPE_LABELS[selected.type]} job <span className="font-mono text-xs text-gray-500">{selected.id}</span>
+              </h4>
+              <div className="space-x-3">{actions(selected)}</div>
+            </div>
+            <p className="text-xs text-gray-500">Started {formatTime(selected.started_at)}</p>
+            {selected.error_message && (
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Error</p>
+                <pre className="whitespace-pre-wrap text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">
+                  {selected.error_message}
+                </pre>
+              </div>
+            )}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Payload</p>
+                <pre className="text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto">
+                  {JSON.stringify(selected.payload, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Result</p>
+                <pre className="text-xs text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto">
+                  {selected.result === null ? '—' : JSON.stringify(selected.result, null, 2)}
+                </pre>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobDashboard;
@@ -0,0 +1,139 @@
+import React, { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Popover } from '@headlessui/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow } from 'date-fns';
+import { BellIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { openNotificationStream } from '../utils/notificationStream';
+import { useAuthStore } from '../stores/authStore';
+import { AppNotification, NotificationPage } from '../types/notification';
+
+const RECENT_KEY = ['notifications', 'recent'];
+
+// Bell with unread count and the latest notifications, updated live from the server
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  const { data } = useQuery<NotificationPage>({
+    queryKey: RECENT_KEY,
+    queryFn: async () => {
+      const response = await axios.get('/notifications', { params: { limit: 8 } });
+      return { ...response.data.data, total: response.data.pagination.total };
+    },
+    enabled: isAuthenticated,
+  });
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return openNotificationStream({
+      onNotification: (notification) => {
+        toast.info(notification.title);
+        queryClient.invalidateQueries(['notifications']);
+      },
+      onUnreadCount: (count) => {
+        queryClient.setQueryData<NotificationPage>(RECENT_KEY, (current) =>
+          current ? { ...current, unread_count: count } : current
+        );
+      },
+    });
+  }, [isAuthenticated, queryClient]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      await axios.patch(`/notifications/${notificationId}/read`);
+    },
+    onSuccess: () => queryClient.invalidateQueries(['notifications']),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post('/notifications/read', {});
+    },
+    onSuccess: () => queryClient.invalidateQueries(['notifications']),
+  });
+
+  const openNotification = (notification: AppNotification, close: () => void) => {
+    if (!notification.read_at) {
+      markReadMutation.mutate(notification.id);
+    }
+    close();
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const unreadCount = data?.unread_count ?? 0;
+
+  return (
+    <Popover className="relative">
+      <Popover.Button className="relative p-1 rounded-full text-gray-500 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500">
+        <span className="sr-only">View notifications</span>
+        <BellIcon className="h-6 w-6" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Popover.Button>
+
+      <Popover.Panel className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg border border-gray-200 z-20">
+        {({ close }) => (
+          <>
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+              <span className="text-sm font-medium text-gray-900">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAllReadMutation.mutate()}
+                  disabled={markAllReadMutation.isPending}
+                  className="text-xs text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {data?.notifications.length ? (
+                data.notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => openNotification(notification, close)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                        notification.read_at ? '' : 'bg-primary-50'
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                      <p className="text-xs text-gray-600 mt-0.5">{notification.message}</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                  </li>
+                ))
+              ) : (
+                <li className="px-4 py-6 text-center text-sm text-gray-500">No notifications yet.</li>
+              )}
+            </ul>
+
+            <div className="px-4 py-2 border-t border-gray-100 text-center">
+              <Link
+                to="/notifications"
+                onClick={() => close()}
+                className="text-xs font-medium text-primary-600 hover:text-primary-800"
+              >
+                View all
+              </Link>
+            </div>
+          </>
+        )}
+      </Popover.Panel>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
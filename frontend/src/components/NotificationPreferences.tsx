@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import axios from '../utils/axios';
+import { ContactProfile, NotificationPreference } from '../types/profile';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const EVENT_LABELS: Record<NotificationPreference['event'], string> = {
+  ASSIGNMENT_DUE: 'Review due soon',
+  ASSIGNMENT_OVERDUE: 'Review overdue',
+  REVIEW_SUBMISSION_REMINDER: 'Review submission reminder',
+  COMMITTEE_DECISION_DUE: 'Committee decision due',
+  CUSTOM: 'Messages from the Secretariat',
+};
+
+const CHANNELS: { key: 'email' | 'sms' | 'whatsapp' | 'in_app'; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'sms', label: 'SMS' },
+  { key: 'whatsapp', label: 'WhatsApp' },
+  { key: 'in_app', label: 'In-app' },
+];
+
+interface NotificationPreferencesProps {
+  profile: ContactProfile;
+  preferences: NotificationPreference[];
+}
+
+// Per-event channel choices plus the quiet hours during which SMS, WhatsApp and email wait
+const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ profile, preferences }) => {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState(preferences);
+  const [quietStart, setQuietStart] = useState(profile.quiet_hours_start ?? '');
+  const [quietEnd, setQuietEnd] = useState(profile.quiet_hours_end ?? '');
+  const [timezone, setTimezone] = useState(profile.timezone);
+
+  useEffect(() => setRows(preferences), [preferences]);
+  useEffect(() => {
+    setQuietStart(profile.quiet_hours_start ?? '');
+    setQuietEnd(profile.quiet_hours_end ?? '');
+    setTimezone(profile.timezone);
+  }, [profile]);
+
+  const preferencesMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/profile/preferences', { preferences: rows });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Notification preferences saved');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Could not save preferences')),
+  });
+
+  const quietHoursMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put('/profile/contact', {
+        timezone: timezone.trim(),
+        quiet_hours_start: quietStart || null,
+        quiet_hours_end: quietEnd || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      toast.success('Quiet hours saved');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Could not save quiet hours')),
+  });
+
+  const toggle = (event: NotificationPreference['event'], key: (typeof CHANNELS)[number]['key']) =>
+    setRows((current) => current.map((row) => (row.event === event ? { ...row, [key]: !row[key] } : row)));
+
+  const channelUnavailable = (key: string) =>
+    (key === 'sms' && !profile.phone_verified_at) || (key === 'whatsapp' && !profile.whatsapp_verified_at);
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+              {CHANNELS.map((channel) => (
+                <th
+                  key={channel.key}
+                  className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.event}>
+                <td className="px-4 py-2 text-sm text-gray-900">{EVENT_LABELS[row.event]}</td>
+                {CHANNELS.map((channel) => (
+                  <td key={channel.key} className="px-4 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={row[channel.key]}
+                      onChange={() => toggle(row.event, channel.key)}
+                      aria-label={`${EVENT_LABELS[row.event]} by ${channel.label}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {CHANNELS.some((channel) => channelUnavailable(channel.key)) && (
+          <p className="mt-2 text-xs text-gray-500">
+            SMS and WhatsApp are skipped until the matching number is verified.
+          </p>
+        )}
+        <div className="mt-3 flex justify-end">
+          <button
+            type="button"
+            onClick={() => preferencesMutation.mutate()}
+            disabled={preferencesMutation.isPending}
+            className="btn-primary disabled:opacity-50"
+          >
+            Save preferences
+          </button>
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900">Quiet hours</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          Email, SMS and WhatsApp reminders that fall inside this window are sent when it ends.
+        </p>
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="time"
+              value={quietStart}
+              onChange={(e) => setQuietStart(e.target.value)}
+              className="form-input mt-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Until</label>
+            <input
+              type="time"
+              value={quietEnd}
+              onChange={(e) => setQuietEnd(e.target.value)}
+              className="form-input mt-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Timezone</label>
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Asia/Kolkata"
+              className="form-input mt-1"
+            />
+          </div>
+        </div>
+        <div className="mt-3 flex justify-end gap-2">
+          {(quietStart || quietEnd) && (
+            <button
+              type="button"
+              onClick={() => {
+                setQuietStart('');
+                setQuietEnd('');
+              }}
+              className="btn-secondary"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => quietHoursMutation.mutate()}
+            disabled={!quietStart !== !quietEnd || quietHoursMutation.isPending}
+            className="btn-primary disabled:opacity-50"
+          >
+            Save quiet hours
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import axios from '../utils/axios';
+import {
+  NotificationTemplate,
+  TemplateChannel,
+  TemplateLanguage,
+  TemplatePreview,
+} from '../types/notification';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  ASSIGNMENT_CREATED: 'New assignment',
+  ASSIGNMENT_DUE: 'Review due',
+  ASSIGNMENT_OVERDUE: 'Review overdue',
+  REVIEW_SUBMISSION_REMINDER: 'Submission reminder',
+  COMMITTEE_DECISION_DUE: 'Committee decision due',
+  CUSTOM: 'Custom message',
+  REASSIGNMENT_SUGGESTED: 'Reassignment suggestion',
+  CONTACT_VERIFICATION: 'Number verification code',
+};
+
+const CHANNEL_LABELS: Record<TemplateChannel, string> = {
+  EMAIL: 'Email (HTML)',
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+  IN_APP: 'In-app',
+};
+
+const LANGUAGE_LABELS: Record<TemplateLanguage, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+};
+
+// Admin editor for the email, SMS, WhatsApp and in-app message templates, with a live preview
+const NotificationTemplateEditor: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [event, setEvent] = useState('ASSIGNMENT_CREATED');
+  const [channel, setChannel] = useState<TemplateChannel>('EMAIL');
+  const [language, setLanguage] = useState<TemplateLanguage>('en');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+
+  const { data: templates, isLoading } = useQuery<NotificationTemplate[]>({
+    queryKey: ['notification-templates'],
+    queryFn: async () => {
+      const response = await axios.get('/notification-templates');
+      return response.data.data.templates;
+    },
+  });
+
+  const events = useMemo(() => Array.from(new Set((templates ?? []).map((t) => t.event))), [templates]);
+  const channels = useMemo(
+    () => Array.from(new Set((templates ?? []).filter((t) => t.event === event).map((t) => t.channel))),
+    [templates, event]
+  );
+  const current = templates?.find((t) => t.event === event && t.channel === channel && t.language === language);
+
+  useEffect(() => {
+    if (channels.length > 0 && !channels.includes(channel)) {
+      setChannel(channels[0]);
+    }
+  }, [channels, channel]);
+
+  useEffect(() => {
+    if (current) {
+      setSubject(current.subject ?? '');
+      setBody(current.body);
+    }
+  }, [current]);
+
+  const hasSubject = channel === 'EMAIL' || channel === 'IN_APP';
+
+  // Preview once typing pauses rather than on every keystroke
+  const [draft, setDraft] = useState({ subject, body });
+  useEffect(() => {
+    const timer = setTimeout(() => setDraft({ subject, body }), 400);
+    return () => clearTimeout(timer);
+  }, [subject, body]);
+
+  const { data: preview } = useQuery<TemplatePreview>({
+    queryKey: ['notification-template-preview', event, channel, language, draft.subject, draft.body],
+    queryFn: async () => {
+      const response = await axios.post('/notification-templates/preview', {
+        event,
+        channel,
+        language,
+        subject: hasSubject ? draft.subject : null,
+        body: draft.body,
+      });
+      return response.data.data;
+    },
+    enabled: !!current && draft.body.trim().length > 0,
+    keepPreviousData: true,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await axios.put(`/notification-templates/${event}/${channel}/${language}`, {
+        subject: hasSubject ? subject : null,
+        body,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-templates'] });
+      toast.success('Template saved');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to save template')),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await axios.delete(`/notification-templates/${event}/${channel}/${language}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-templates'] });
+      toast.success('Template reset to the default');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to reset template')),
+  });
+
+  const isDirty = !!current && (current.body !== body || (current.subject ?? '') !== subject);
+
+  if (isLoading || !templates) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Notification Templates</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Messages are sent in each recipient's preferred language. Use <code>{'{{variable}}'}</code> to insert
+            values and <code>{'{{#variable}}...{{/variable}}'}</code> for text shown only when the value is set.
+            Email text versions are generated from the HTML.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Event</label>
+            <select value={event} onChange={(e) => setEvent(e.target.value)} className="form-input mt-1">
+              {events.map((name) => (
+                <option key={name} value={name}>
+                  {EVENT_LABELS[name] ?? name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Channel</label>
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as TemplateChannel)}
+              className="form-input mt-1"
+            >
+              {channels.map((name) => (
+                <option key={name} value={name}>
+                  {CHANNEL_LABELS[name]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Language</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as TemplateLanguage)}
+              className="form-input mt-1"
+            >
+              {(Object.keys(LANGUAGE_LABELS) as TemplateLanguage[]).map((code) => (
+                <option key={code} value={code}>
+                  {LANGUAGE_LABELS[code]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {current && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {current.customized
+                    ? `Customized${current.updated_at ? ` ${format(new Date(current.updated_at), 'MMM dd, yyyy')}` : ''}`
+                    : 'Built-in default'}
+                </span>
+                <span>
+                  Variables:{' '}
+                  {current.variables.map((name) => (
+                    <code key={name} className="ml-1 px-1 bg-gray-100 rounded">
+                      {name}
+                    </code>
+                  ))}
+                </span>
+              </div>
+              {hasSubject && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {channel === 'EMAIL' ? 'Subject' : 'Title'}
+                  </label>
+                  <input
+                    type="text"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    className="form-input mt-1 w-full"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Body</label>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={channel === 'EMAIL' ? 14 : 6}
+                  className="form-input mt-1 w-full font-mono text-xs"
+                />
+              </div>
+              {preview && preview.unknown_variables.length > 0 && (
+                <p className="text-xs text-red-600">
+                  Unknown variables: {preview.unknown_variables.join(', ')}
+                </p>
+              )}
+              <div className="flex justify-end gap-2">
+                {current.customized && (
+                  <button
+                    onClick={() => resetMutation.mutate()}
+                    disabled={resetMutation.isPending}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    Reset to default
+                  </button>
+                )}
+                <button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!isDirty || !body.trim() || saveMutation.isPending}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save template'}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">Preview with sample values</h4>
+              {preview ? (
+                <>
+                  {preview.preview.subject && (
+                    <p className="text-sm">
+                      <span className="text-gray-500">{channel === 'EMAIL' ? 'Subject' : 'Title'}:</span>{' '}
+                      <span className="font-medium text-gray-900">{preview.preview.subject}</span>
+                    </p>
+                  )}
+                  {preview.preview.html && (
+                    <iframe
+                      title="Email preview"
+                      sandbox=""
+                      srcDoc={preview.preview.html}
+                      className="w-full h-64 border border-gray-200 rounded-md bg-white"
+                    />
+                  )}
+                  <div>
+                    {preview.preview.html && (
+                      <p className="text-xs text-gray-500 mb-1">Plain-text version</p>
+                    )}
+                    <pre className="whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3">
+                      {preview.preview.text}
+                    </pre>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Enter a template body to see a preview.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationTemplateEditor;
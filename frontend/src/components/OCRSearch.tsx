@@ -1,17 +1,24 @@
 import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 import axios from '../utils/axios';
 import { MagnifyingGlassIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 
-interface OCRSearchResult {
+interface OCRSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface OCRSearchResult {
   id: string;
   book_id: string;
   page_number: number;
-  content: string;
   confidence: number;
-  language: string;
+  language: string | null;
   created_at: string;
+  rank: number;
+  snippet: OCRSnippetSegment[];
   book: {
     id: string;
     title: string;
@@ -20,22 +27,27 @@ interface OCRSearchResult {
 }
 
 interface OCRSearchProps {
+  // Restricts the search to one book and hides the book filter
+  bookId?: string;
+  // Defaults to opening the book's preview at the matching page
   onResultClick?: (result: OCRSearchResult) => void;
 }
 
-const OCRSearch: React.FC<OCRSearchProps> = ({ onResultClick }) => {
+const OCRSearch: React.FC<OCRSearchProps> = ({ bookId: fixedBookId, onResultClick }) => {
+  const navigate = useNavigate();
   const [query, setQuery] = useState('');
-  const [bookId, setBookId] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [bookFilter, setBookFilter] = useState('');
   const [page, setPage] = useState(1);
   const [limit] = useState(10);
 
-  const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['ocr-search', query, bookId, page, limit],
+  const bookId = fixedBookId || bookFilter.trim();
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['ocr-search', submittedQuery, bookId, page, limit],
     queryFn: async () => {
-      if (!query.trim()) return null;
-      
       const params = new URLSearchParams({
-        query: query.trim(),
+        query: submittedQuery,
         page: page.toString(),
         limit: limit.toString(),
       });
@@ -44,34 +56,36 @@ const OCRSearch: React.FC<OCRSearchProps> = ({ onResultClick }) => {
         params.append('bookId', bookId);
       }
       
-      const response = await axios.get(`/api/ocr/search?${params}`);
+      const response = await axios.get(`/ocr/search?${params}`);
       return response.data.data;
     },
-    enabled: !!query.trim(),
+    enabled: !!submittedQuery,
   });
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setPage(1);
-    refetch();
+    setSubmittedQuery(query.trim());
   };
 
-  const highlightText = (text: string, query: string) => {
-    if (!query) return text;
-    
-    const regex = new RegExp(`(${query})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
+  const handleResultClick = (result: OCRSearchResult) => {
+    if (onResultClick) {
+      onResultClick(result);
+    } else {
+      navigate(`/books/${result.book_id}?page=${result.page_number}`);
+    }
+  };
+
+  const renderSnippet = (snippet: OCRSnippetSegment[]) =>
+    snippet.map((segment, index) =>
+      segment.highlighted ? (
         <mark key={index} className="bg-yellow-200 px-1 rounded">
-          {part}
+          {segment.text}
         </mark>
       ) : (
-        part
+        <span key={index}>{segment.text}</span>
       )
     );
-  };
 
   return (
     <div className="bg-white shadow rounded-lg p-6">
@@ -90,32 +104,38 @@ const OCRSearch: React.FC<OCRSearchProps> = ({ onResultClick }) => {
                 type="text"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search within book content..."
+                placeholder='Search within book content, e.g. "vata dosha" OR pitta -kapha'
                 className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
               />
               <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
             </div>
           </div>
           
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Book ID (Optional)
-            </label>
-            <input
-              type="text"
-              value={bookId}
-              onChange={(e) => setBookId(e.target.value)}
-              placeholder="Filter by specific book..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-            />
-          </div>
+          <p className="text-xs text-gray-500">
+            Use quotes for exact phrases, OR between alternatives and a leading - to exclude a word.
+          </p>
+
+          {!fixedBookId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Book ID (Optional)
+              </label>
+              <input
+                type="text"
+                value={bookFilter}
+                onChange={(e) => setBookFilter(e.target.value)}
+                placeholder="Filter by specific book..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          )}
           
           <button
             type="submit"
-            disabled={!query.trim() || isLoading}
+            disabled={!query.trim() || isFetching}
             className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isLoading ? 'Searching...' : 'Search'}
+            {isFetching ? 'Searching...' : 'Search'}
           </button>
         </form>
       </div>
@@ -153,14 +173,16 @@ const OCRSearch: React.FC<OCRSearchProps> = ({ onResultClick }) => {
                 <div
                   key={result.id}
                   className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 cursor-pointer"
-                  onClick={() => onResultClick?.(result)}
+                  onClick={() => handleResultClick(result)}
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center space-x-2 mb-2">
-                        <h4 className="text-sm font-medium text-gray-900">
-                          {result.book.title}
-                        </h4>
+                        {!fixedBookId && (
+                          <h4 className="text-sm font-medium text-gray-900">
+                            {result.book.title}
+                          </h4>
+                        )}
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                           Page {result.page_number}
                         </span>
@@ -168,11 +190,13 @@ const OCRSearch: React.FC<OCRSearchProps> = ({ onResultClick }) => {
                           {Math.round(result.confidence * 100)}% confidence
                         </span>
                       </div>
-                      <p className="text-sm text-gray-600 mb-2">
-                        by {result.book.authors}
-                      </p>
+                      {!fixedBookId && (
+                        <p className="text-sm text-gray-600 mb-2">
+                          by {result.book.authors}
+                        </p>
+                      )}
                       <div className="text-sm text-gray-800 bg-gray-50 p-3 rounded border">
-                        {highlightText(result.content, query)}
+                        {renderSnippet(result.snippet)}
                       </div>
                     </div>
                   </div>
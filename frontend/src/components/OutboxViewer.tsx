@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import axios from '../utils/axios';
+import { OutboxChannel, OutboxMessage, OutboxPage } from '../types/notification';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const CHANNEL_LABELS: Record<OutboxChannel, string> = {
+  EMAIL: 'Email',
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+};
+
+const PAGE_SIZE = 20;
+
+// Messages the outbox transport captured instead of sending, for checking rendered content
+const OutboxViewer: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [channel, setChannel] = useState<OutboxChannel | ''>('');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => setPage(1), [channel, query]);
+
+  const { data, isLoading } = useQuery<OutboxPage>({
+    queryKey: ['outbox', channel, query, page],
+    queryFn: async () => {
+      const response = await axios.get('/outbox', {
+        params: {
+          channel: channel || undefined,
+          search: query || undefined,
+          page,
+          limit: PAGE_SIZE,
+        },
+      });
+      return response.data.data;
+    },
+    keepPreviousData: true,
+  });
+
+  const { data: selected } = useQuery<OutboxMessage>({
+    queryKey: ['outbox-message', selectedId],
+    queryFn: async () => {
+      const response = await axios.get(`/outbox/${selectedId}`);
+      return response.data.data.message;
+    },
+    enabled: !!selectedId,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.delete('/outbox', { params: { channel: channel || undefined } });
+      return response.data.data.deleted as number;
+    },
+    onSuccess: (deleted) => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['outbox'] });
+      toast.success(`Removed ${deleted} message${deleted === 1 ? '' : 's'}`);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to clear the outbox')),
+  });
+
+  const handleClear = () => {
+    const scope = channel ? `${CHANNEL_LABELS[channel]} messages` : 'messages';
+    if (window.confirm(`Delete all captured ${scope}?`)) {
+      clearMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Outbox</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Messages captured by the outbox transport instead of being sent. Channels without a configured provider
+              outside production, or set to <code>outbox</code>, deliver here.
+            </p>
+          </div>
+          <button
+            onClick={handleClear}
+            disabled={clearMutation.isPending || !data?.pagination.total}
+            className="btn-secondary disabled:opacity-50 whitespace-nowrap"
+          >
+            Clear outbox
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Channel</label>
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as OutboxChannel | '')}
+              className="form-input mt-1"
+            >
+              <option value="">All channels</option>
+              {(Object.keys(CHANNEL_LABELS) as OutboxChannel[]).map((name) => (
+                <option key={name} value={name}>
+                  {CHANNEL_LABELS[name]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Search</label>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Recipient or subject"
+              className="form-input mt-1 w-full"
+            />
+          </div>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center items-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : data.messages.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No captured messages.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {data.messages.map((message) => (
+                  <li key={message.id}>
+                    <button
+                      onClick={() => setSelectedId(message.id)}
+                      className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${
+                        selectedId === message.id ? 'bg-primary-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>
+                          {CHANNEL_LABELS[message.channel]}
+                          {message.event && ` · ${message.event}`}
+                        </span>
+                        <span>{format(new Date(message.created_at), 'MMM dd, HH:mm:ss')}</span>
+                      </div>
+                      <p className="text-sm font-medium text-gray-900 truncate">{message.recipient}</p>
+                      <p className="text-sm text-gray-600 truncate">{message.subject || message.text}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {data.pagination.pages > 1 && (
+                <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+                  <button
+                    onClick={() => setPage((current) => current - 1)}
+                    disabled={page <= 1}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>
+                    Page {data.pagination.page} of {data.pagination.pages}
+                  </span>
+                  <button
+                    onClick={() => setPage((current) => current + 1)}
+                    disabled={page >= data.pagination.pages}
+                    className="btn-secondary disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              {selected ? (
+                <>
+                  <dl className="text-sm space-y-1">
+                    <div>
+                      <dt className="inline text-gray-500">To: </dt>
+                      <dd className="inline text-gray-900">{selected.recipient}</dd>
+                    </div>
+                    {selected.subject && (
+                      <div>
+                        <dt className="inline text-gray-500">Subject: </dt>
+                        <dd className="inline font-medium text-gray-900">{selected.subject}</dd>
+                      </div>
+                    )}
+                    <div>
+                      <dt className="inline text-gray-500">Captured: </dt>
+                      <dd className="inline text-gray-900">
+                        {format(new Date(selected.created_at), 'MMM dd, yyyy HH:mm:ss')}
+                      </dd>
+                    </div>
+                    {selected.reminder_id && (
+                      <div>
+                        <dt className="inline text-gray-500">Reminder: </dt>
+                        <dd className="inline font-mono text-xs text-gray-700">{selected.reminder_id}</dd>
+                      </div>
+                    )}
+                  </dl>
+                  {selected.html && (
+                    <iframe
+                      title="Email content"
+                      sandbox=""
+                      srcDoc={selected.html}
+                      className="w-full h-64 border border-gray-200 rounded-md bg-white"
+                    />
+                  )}
+                  <div>
+                    {selected.html && <p className="text-xs text-gray-500 mb-1">Plain-text version</p>}
+                    <pre className="whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-3">
+                      {selected.text}
+                    </pre>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Select a message to see its content.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutboxViewer;
@@ -1,5 +1,6 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Document, Page, pdfjs } from 'react-pdf'
+import { refreshAccessToken } from '../utils/axios'
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`
 
@@ -11,6 +12,8 @@ interface PdfViewerProps {
 }
 
 const PDFViewer: React.FC<PdfViewerProps> = ({ fileUrl, pageNumber, onLoadSuccess, width = 600 }) => {
+  // Bumped after a token refresh so the document is fetched again with the new token
+  const [attempt, setAttempt] = useState(0)
   const authState = typeof window !== 'undefined' ? localStorage.getItem('auth-storage') : null
   let authHeader: Record<string, string> | undefined
   if (authState) {
@@ -22,10 +25,24 @@ const PDFViewer: React.FC<PdfViewerProps> = ({ fileUrl, pageNumber, onLoadSucces
       }
     } catch {}
   }
+
+  // The access token may have expired while the page was open
+  const handleLoadError = async () => {
+    if (attempt > 0) return
+    try {
+      await refreshAccessToken()
+      setAttempt(1)
+    } catch {
+      // Keep showing the error state
+    }
+  }
+
   return (
     <Document
+      key={attempt}
       file={{ url: fileUrl, httpHeaders: authHeader }}
       onLoadSuccess={onLoadSuccess}
+      onLoadError={handleLoadError}
       loading={
         <div className="flex justify-center items-center h-96">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { toast } from 'react-toastify'
+import { AxiosError } from 'axios'
+import axios from '../utils/axios'
+import { Assignment, ReplacementSuggestions } from '../types/book'
+
+interface ReassignReviewerModalProps {
+  assignment: Assignment | null
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const formatDateInput = (dateValue?: string) => {
+  if (!dateValue) return ''
+  const date = new Date(dateValue)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toISOString().split('T')[0]
+}
+
+// Hand a recused assignment to one of the suggested replacement reviewers
+const ReassignReviewerModal = ({
+  assignment,
+  isOpen,
+  onClose,
+  onSuccess,
+}: ReassignReviewerModalProps) => {
+  const [reviewerId, setReviewerId] = useState('')
+  const [dueDate, setDueDate] = useState('')
+
+  const { data, isLoading } = useQuery<ReplacementSuggestions>(
+    ['assignment-replacements', assignment?.id],
+    async () => {
+      const response = await axios.get(`/assignments/${assignment?.id}/replacements`)
+      return response.data.data
+    },
+    {
+      enabled: isOpen && !!assignment,
+    }
+  )
+
+  const suggestions = data?.suggestions
+
+  useEffect(() => {
+    if (assignment) {
+      setDueDate(formatDateInput(assignment.dueDate))
+    }
+  }, [assignment])
+
+  // Preselect the best-ranked reviewer
+  useEffect(() => {
+    const recommended = suggestions?.find((candidate) => candidate.recommended)
+    setReviewerId(recommended?.reviewer.id ?? '')
+  }, [suggestions])
+
+  const reassignMutation = useMutation(
+    async () => {
+      if (!assignment) return
+      return axios.post(`/assignments/${assignment.id}/reassign`, {
+        reviewer_id: reviewerId,
+        due_date: dueDate,
+      })
+    },
+    {
+      onSuccess: () => {
+        toast.success('Replacement reviewer assigned')
+        onSuccess()
+      },
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to reassign the review')
+      },
+    }
+  )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!reviewerId) {
+      toast.error('Please select a replacement reviewer')
+      return
+    }
+
+    if (!dueDate) {
+      toast.error('Please select a due date')
+      return
+    }
+
+    reassignMutation.mutate()
+  }
+
+  return (
+    <Dialog
+      open={isOpen}
+      onClose={() => {
+        if (!reassignMutation.isLoading) {
+          onClose()
+        }
+      }}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="w-full max-w-lg rounded-lg bg-white p-6 shadow-xl">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-medium text-gray-900">
+              Reassign Review
+            </Dialog.Title>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500"
+              onClick={onClose}
+              disabled={reassignMutation.isLoading}
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+            </button>
+          </div>
+
+          <Dialog.Description className="text-sm text-gray-500 mb-4">
+            {assignment?.reviewer?.name || 'The reviewer'} declared a conflict of interest and was recused.
+            Reviewers already on this round or with a conflict on this book are not listed.
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
+              </div>
+            ) : suggestions && suggestions.length > 0 ? (
+              <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md">
+                <ul className="divide-y divide-gray-200">
+                  {suggestions.map(({ reviewer, score, recommended, factors }) => (
+                    <li key={reviewer.id}>
+                      <label className="flex items-start px-4 py-3 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="replacement"
+                          value={reviewer.id}
+                          checked={reviewerId === reviewer.id}
+                          onChange={() => setReviewerId(reviewer.id)}
+                          className="mt-1 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                          disabled={reassignMutation.isLoading}
+                        />
+                        <span className="ml-3 flex-1 text-sm font-medium text-gray-700">
+                          <span className="flex items-center justify-between">
+                            <span>
+                              {reviewer.name}
+                              {recommended && (
+                                <span className="ml-2 px-2 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                                  Recommended
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-sm font-semibold text-primary-600">{score.toFixed(1)}</span>
+                          </span>
+                          <span className="block text-xs font-normal text-gray-500">
+                            {factors.load.reason} • {factors.reliability.reason}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 py-2">No eligible replacement reviewers.</p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Due Date
+              </label>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                disabled={reassignMutation.isLoading}
+                required
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <button
+                type="button"
+                className="btn-outline"
+                onClick={onClose}
+                disabled={reassignMutation.isLoading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn-primary"
+                disabled={reassignMutation.isLoading || !reviewerId}
+              >
+                {reassignMutation.isLoading ? (
+                  <>
+                    <span className="animate-spin inline-block h-4 w-4 border-t-2 border-b-2 border-white rounded-full mr-2"></span>
+                    Assigning...
+                  </>
+                ) : (
+                  'Assign Replacement'
+                )}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default ReassignReviewerModal
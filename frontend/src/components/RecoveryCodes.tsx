@@ -0,0 +1,65 @@
+import React from 'react';
+import { toast } from 'react-toastify';
+import { ClipboardDocumentIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Freshly issued recovery codes; the server never shows them again
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes }) => {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ncism-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4">
+      <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+      <p className="mt-1 text-xs text-yellow-700">
+        Each code signs you in once if you lose access to your authenticator app.
+        Store them somewhere safe; they will not be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 select-all">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="mt-3 flex space-x-3">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="inline-flex items-center text-sm font-medium text-yellow-800 hover:text-yellow-900"
+        >
+          <ClipboardDocumentIcon className="h-4 w-4 mr-1" />
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="inline-flex items-center text-sm font-medium text-yellow-800 hover:text-yellow-900"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,418 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { ArrowDownIcon, ArrowUpIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import {
+  ReportLanguage,
+  ReportSection,
+  ReportTemplate,
+  ReportTemplateConfig,
+  ReportTemplateList,
+  ReportTemplatePreview,
+} from '../types/report';
+
+const errorMessage = (error: unknown, fallback: string) => {
+  const data = (error as AxiosError<{ message?: string; errors?: { msg: string }[] }>).response?.data;
+  return data?.message || data?.errors?.[0]?.msg || fallback;
+};
+
+const SECTION_LABELS: Record<ReportSection, string> = {
+  BOOK_DETAILS: 'Book details',
+  REVIEWER_ASSESSMENTS: 'Reviewer assessments',
+  AGGREGATE_RESULTS: 'Aggregated results',
+  COMMITTEE_DECISION: 'Committee decision',
+};
+
+const LANGUAGE_LABELS: Record<ReportLanguage, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+};
+
+interface Draft {
+  name: string;
+  description: string;
+  is_active: boolean;
+  template_data: ReportTemplateConfig;
+}
+
+const draftFrom = (template: ReportTemplate | null, defaults: ReportTemplateConfig): Draft => ({
+  name: template?.name ?? '',
+  description: template?.description ?? '',
+  is_active: template?.is_active ?? true,
+  template_data: template?.template_data ?? defaults,
+});
+
+// Admin management of the templates book reports are laid out with, previewed against a sample book
+const ReportTemplatesPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data, isLoading } = useQuery<ReportTemplateList>({
+    queryKey: ['report-templates'],
+    queryFn: async () => {
+      const response = await axios.get('/report-templates');
+      return response.data.data;
+    },
+  });
+
+  const selected = data?.templates.find((template) => template.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (data) {
+      setDraft(draftFrom(selected, data.default_template));
+    }
+  }, [data, selected]);
+
+  // Preview once editing pauses rather than on every keystroke
+  const [previewData, setPreviewData] = useState<ReportTemplateConfig | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewData(draft?.template_data ?? null), 400);
+    return () => clearTimeout(timer);
+  }, [draft?.template_data]);
+
+  const { data: preview } = useQuery<ReportTemplatePreview>({
+    queryKey: ['report-template-preview', previewData],
+    queryFn: async () => {
+      const response = await axios.post('/report-templates/preview', { template_data: previewData });
+      return response.data.data;
+    },
+    enabled: !!previewData && previewData.sections.length > 0,
+    keepPreviousData: true,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) return null;
+      const payload = {
+        name: draft.name,
+        description: draft.description || null,
+        is_active: draft.is_active,
+        template_data: draft.template_data,
+      };
+      const response = selectedId
+        ? await axios.put(`/report-templates/${selectedId}`, payload)
+        : await axios.post('/report-templates', payload);
+      return response.data.data.template as ReportTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['report-templates'] });
+      if (template) {
+        setSelectedId(template.id);
+      }
+      toast.success('Report template saved');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to save report template')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/report-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-templates'] });
+      setSelectedId(null);
+      toast.success('Report template deleted');
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to delete report template')),
+  });
+
+  const updateData = (changes: Partial<ReportTemplateConfig>) =>
+    setDraft((current) => current && { ...current, template_data: { ...current.template_data, ...changes } });
+
+  const updateBranding = (changes: Partial<ReportTemplateConfig['branding']>) =>
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          template_data: {
+            ...current.template_data,
+            branding: { ...current.template_data.branding, ...changes },
+          },
+        }
+    );
+
+  const toggleSection = (section: ReportSection, included: boolean) => {
+    if (!draft) return;
+    const sections = draft.template_data.sections;
+    updateData({ sections: included ? [...sections, section] : sections.filter((s) => s !== section) });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    if (!draft) return;
+    const sections = [...draft.template_data.sections];
+    [sections[index], sections[index + offset]] = [sections[index + offset], sections[index]];
+    updateData({ sections });
+  };
+
+  const handleDelete = () => {
+    if (selected && window.confirm(`Delete the report template "${selected.name}"?`)) {
+      deleteMutation.mutate(selected.id);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft?.name.trim()) {
+      toast.error('Please name the template');
+      return;
+    }
+    if (draft.template_data.sections.length === 0) {
+      toast.error('Choose at least one section');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const excluded = (data?.sections ?? []).filter((section) => !draft?.template_data.sections.includes(section));
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Report Templates</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Templates choose the sections of a book report and their order, its branding, watermark and language, and
+          whether reviewers are named. Reports downloaded without a template use the standard layout.
+        </p>
+
+        {isLoading || !data || !draft ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <div className="mt-4 grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              <button
+                type="button"
+                onClick={() => setSelectedId(null)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                  selectedId === null ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                + New template
+              </button>
+              {data.templates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => setSelectedId(template.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                    selectedId === template.id
+                      ? 'bg-primary-50 text-primary-700 font-medium'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {template.name}
+                  {!template.is_active && <span className="ml-2 text-xs text-gray-400">inactive</span>}
+                </button>
+              ))}
+            </div>
+
+            <div className="lg:col-span-3 grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <label className="block text-sm text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={draft.name}
+                    maxLength={100}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="form-input mt-1 w-full"
+                  />
+                </label>
+                <label className="block text-sm text-gray-700">
+                  Description
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    className="form-input mt-1 w-full"
+                  />
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.is_active}
+                    onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">Active (offered when downloading reports)</span>
+                </label>
+
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700">Sections</h4>
+                  <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-200">
+                    {draft.template_data.sections.map((section, index) => (
+                      <li key={section} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked
+                            onChange={() => toggleSection(section, false)}
+                            className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                          />
+                          <span className="ml-2 text-gray-900">{SECTION_LABELS[section]}</span>
+                        </label>
+                        <span className="flex gap-1">
+                          <button
+                            type="button"
+                            onClick={() => moveSection(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ArrowUpIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveSection(index, 1)}
+                            disabled={index === draft.template_data.sections.length - 1}
+                            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ArrowDownIcon className="h-4 w-4" />
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                    {excluded.map((section) => (
+                      <li key={section} className="px-3 py-2 text-sm">
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={false}
+                            onChange={() => toggleSection(section, true)}
+                            className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                          />
+                          <span className="ml-2 text-gray-500">{SECTION_LABELS[section]}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="block text-sm text-gray-700">
+                    Logo text
+                    <input
+                      type="text"
+                      value={draft.template_data.branding.logo_text}
+                      maxLength={200}
+                      onChange={(e) => updateBranding({ logo_text: e.target.value })}
+                      className="form-input mt-1 w-full"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Organization
+                    <input
+                      type="text"
+                      value={draft.template_data.branding.organization}
+                      maxLength={200}
+                      onChange={(e) => updateBranding({ organization: e.target.value })}
+                      className="form-input mt-1 w-full"
+                    />
+                  </label>
+                </div>
+                <label className="block text-sm text-gray-700">
+                  Header text
+                  <input
+                    type="text"
+                    value={draft.template_data.branding.header_text}
+                    maxLength={200}
+                    onChange={(e) => updateBranding({ header_text: e.target.value })}
+                    className="form-input mt-1 w-full"
+                  />
+                </label>
+                <label className="block text-sm text-gray-700">
+                  Footer text
+                  <textarea
+                    rows={2}
+                    value={draft.template_data.branding.footer_text}
+                    maxLength={1000}
+                    onChange={(e) => updateBranding({ footer_text: e.target.value })}
+                    className="form-input mt-1 w-full"
+                  />
+                </label>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="block text-sm text-gray-700">
+                    Watermark
+                    <input
+                      type="text"
+                      value={draft.template_data.watermark ?? ''}
+                      maxLength={60}
+                      placeholder="None"
+                      onChange={(e) => updateData({ watermark: e.target.value || null })}
+                      className="form-input mt-1 w-full"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Language
+                    <select
+                      value={draft.template_data.language}
+                      onChange={(e) => updateData({ language: e.target.value as ReportLanguage })}
+                      className="form-input mt-1 w-full"
+                    >
+                      {data.languages.map((language) => (
+                        <option key={language} value={language}>
+                          {LANGUAGE_LABELS[language]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.template_data.show_reviewer_names}
+                    onChange={(e) => updateData({ show_reviewer_names: e.target.checked })}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">Show reviewer names and institutions</span>
+                </label>
+
+                <div className="flex justify-end gap-2">
+                  {selected && (
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={deleteMutation.isLoading}
+                      className="btn-outline text-red-600 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={saveMutation.isLoading}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    {saveMutation.isLoading ? 'Saving...' : selected ? 'Save template' : 'Create template'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Preview with a sample book</h4>
+                {preview ? (
+                  <iframe
+                    title="Report preview"
+                    sandbox=""
+                    srcDoc={preview.html}
+                    className="w-full h-[36rem] border border-gray-200 rounded-md bg-white"
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">Choose at least one section to see a preview.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplatesPanel;
@@ -0,0 +1,127 @@
+import { useQuery } from '@tanstack/react-query';
+import axios from '../utils/axios';
+import { ReviewRound } from '../types/book';
+
+interface RevisionTimelineProps {
+  bookId: string;
+  selectedRound?: number | null;
+  onViewVersion?: (roundNumber: number) => void;
+}
+
+const RevisionTimeline = ({ bookId, selectedRound, onViewVersion }: RevisionTimelineProps) => {
+  const { data, isLoading } = useQuery<{ current_round: number; rounds: ReviewRound[] }>({
+    queryKey: ['book-rounds', bookId],
+    queryFn: async () => {
+      const response = await axios.get(`/books/${bookId}/rounds`);
+      return response.data.data;
+    },
+    enabled: !!bookId,
+  });
+
+  const getDecisionColor = (decision: string) => {
+    switch (decision) {
+      case 'APPROVED':
+        return 'bg-green-100 text-green-800';
+      case 'REJECTED':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-orange-100 text-orange-800';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card p-4">
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // A single round with no history yet is already covered by the other cards
+  if (!data || data.rounds.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="card p-4 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">Revision History</h2>
+
+      <ol className="relative border-l border-gray-200 ml-2">
+        {[...data.rounds].reverse().map((round) => {
+          const completed = round.assignments.filter((a) => a.status === 'COMPLETED').length;
+
+          return (
+            <li key={round.round_number} className="mb-6 ml-4">
+              <div
+                className={`absolute w-3 h-3 rounded-full -left-1.5 border border-white ${
+                  round.is_current ? 'bg-primary-600' : 'bg-gray-300'
+                }`}
+              ></div>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  Round {round.round_number}
+                  {round.is_current && (
+                    <span className="ml-2 px-2 text-xs font-medium rounded-full bg-primary-100 text-primary-800">
+                      Current
+                    </span>
+                  )}
+                </h3>
+                {onViewVersion && (
+                  <button
+                    type="button"
+                    className="text-xs text-primary-600 hover:text-primary-800 disabled:text-gray-400"
+                    disabled={selectedRound === round.round_number}
+                    onClick={() => onViewVersion(round.round_number)}
+                  >
+                    {selectedRound === round.round_number ? 'Viewing' : 'View PDF'}
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Submitted {new Date(round.version.uploaded_at).toLocaleDateString()}
+                {round.version.uploader && ` by ${round.version.uploader.name}`}
+              </p>
+              {round.version.notes && (
+                <p className="mt-1 text-xs text-gray-700 italic">{round.version.notes}</p>
+              )}
+
+              <p className="mt-2 text-xs text-gray-700">
+                {round.assignments.length > 0
+                  ? `${completed} of ${round.assignments.length} reviews completed`
+                  : 'No reviewers assigned'}
+              </p>
+              {round.assignments.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {round.assignments.map((a) => a.reviewer?.name || 'Reviewer').join(', ')}
+                </p>
+              )}
+
+              {round.decisions.map((decision) => (
+                <div key={decision.id} className="mt-2">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getDecisionColor(
+                      decision.decision
+                    )}`}
+                  >
+                    {decision.decision.replace('_', ' ')}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {new Date(decision.decided_at).toLocaleDateString()}
+                    {decision.decider && ` • ${decision.decider.name}`}
+                  </span>
+                  <p className="mt-1 text-xs text-gray-700 whitespace-pre-line">
+                    {decision.rationale}
+                  </p>
+                </div>
+              ))}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default RevisionTimeline;
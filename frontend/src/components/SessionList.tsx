@@ -0,0 +1,119 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { ComputerDesktopIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { UserSession } from '../types/user';
+
+interface SessionListProps {
+  // When set, lists another user's sessions through the admin API
+  userId?: string;
+}
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+  return `${browser} on ${os}`;
+};
+
+const SessionList: React.FC<SessionListProps> = ({ userId }) => {
+  const queryClient = useQueryClient();
+  const basePath = userId ? `/users/${userId}/sessions` : '/auth/sessions';
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ['sessions', userId ?? 'me'],
+    queryFn: async () => {
+      const response = await axios.get(basePath);
+      return response.data.data.sessions;
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await axios.delete(`${basePath}/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions', userId ?? 'me'] });
+      toast.success('Session revoked');
+    },
+    onError: (error: AxiosError<{ message?: string }>) => {
+      toast.error(error.response?.data?.message || 'Failed to revoke session');
+    },
+  });
+
+  const handleRevoke = (session: UserSession) => {
+    const message = session.current
+      ? 'This is your current session. Revoking it signs you out here. Continue?'
+      : `Sign out ${describeDevice(session.user_agent)}?`;
+    if (window.confirm(message)) {
+      revokeMutation.mutate(session.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  if (!sessions || sessions.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No active sessions.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {sessions.map((session) => {
+        const isMobile = /Android|iPhone|iPad/.test(session.user_agent || '');
+        const Icon = isMobile ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+
+        return (
+          <li key={session.id} className="flex items-center justify-between py-4">
+            <div className="flex items-center">
+              <Icon className="h-8 w-8 text-gray-400" />
+              <div className="ml-3">
+                <p className="text-sm font-medium text-gray-900">
+                  {describeDevice(session.user_agent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ip_address || 'Unknown IP'} • Signed in{' '}
+                  {format(new Date(session.created_at), 'MMM dd, yyyy HH:mm')} • Last active{' '}
+                  {format(new Date(session.last_used_at), 'MMM dd, yyyy HH:mm')}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => handleRevoke(session)}
+              disabled={revokeMutation.isPending}
+              className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Revoke
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { useAuthStore } from '../stores/authStore';
+import { AuthResponse, TwoFactorChallenge, TwoFactorProvisioning } from '../types/user';
+import TwoFactorSetup from './TwoFactorSetup';
+import RecoveryCodes from './RecoveryCodes';
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+// Second login step: enter a code, or enroll first when the role requires 2FA
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({
+  challenge,
+  onComplete,
+  onCancel,
+}) => {
+  const { verifyTwoFactor, enrollTwoFactor, startSession, isLoading, error } = useAuthStore();
+  const [otp, setOtp] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrolled, setEnrolled] = useState<{ recoveryCodes: string[]; session: AuthResponse['data'] } | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/auth/login/2fa/setup', {
+        challenge_token: challenge.challenge_token,
+      });
+      return response.data.data as TwoFactorProvisioning;
+    },
+  });
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await verifyTwoFactor(challenge.challenge_token, otp.trim());
+      onComplete();
+    } catch {
+      // Error is shown from the auth store
+    }
+  };
+
+  const handleEnroll = async (code: string) => {
+    try {
+      setEnrolled(await enrollTwoFactor(challenge.challenge_token, code));
+    } catch {
+      // Error is shown from the auth store
+    }
+  };
+
+  const handleContinue = () => {
+    if (enrolled) {
+      startSession(enrolled.session);
+      onComplete();
+    }
+  };
+
+  if (enrolled) {
+    return (
+      <div className="mt-8 space-y-6">
+        <p className="text-sm text-gray-700">
+          Two-factor authentication is now enabled for your account.
+        </p>
+        <RecoveryCodes codes={enrolled.recoveryCodes} />
+        <button type="button" onClick={handleContinue} className="btn-primary w-full">
+          I have saved my codes, continue
+        </button>
+      </div>
+    );
+  }
+
+  if (challenge.two_factor === 'setup') {
+    return (
+      <div className="mt-8 space-y-6">
+        <div className="flex items-start">
+          <ShieldCheckIcon className="h-6 w-6 text-primary-600 flex-shrink-0" />
+          <p className="ml-3 text-sm text-gray-700">
+            Your role requires two-factor authentication. Set up an authenticator app to finish signing in.
+          </p>
+        </div>
+
+        {setupMutation.data ? (
+          <TwoFactorSetup
+            provisioning={setupMutation.data}
+            onConfirm={handleEnroll}
+            isSubmitting={isLoading}
+            error={error}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            className="btn-primary w-full disabled:opacity-50"
+          >
+            {setupMutation.isPending ? 'Preparing...' : 'Set up authenticator'}
+          </button>
+        )}
+        {setupMutation.isError && (
+          <p className="form-error">
+            {(setupMutation.error as AxiosError<{ message?: string }>).response?.data?.message ||
+              'Could not start setup'}
+          </p>
+        )}
+
+        <button type="button" onClick={onCancel} className="w-full text-sm text-gray-500 hover:text-gray-700">
+          Back to sign in
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleVerify}>
+      <div>
+        <label htmlFor="otp" className="form-label">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <input
+          id="otp"
+          type="text"
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          value={otp}
+          onChange={(e) => setOtp(e.target.value)}
+          className="form-input tracking-widest"
+          placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          {useRecoveryCode
+            ? 'Each recovery code can be used once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+        {error && <p className="form-error">{error}</p>}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading || !otp.trim()}
+        className="btn-primary w-full disabled:opacity-50"
+      >
+        {isLoading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setOtp('');
+          }}
+          className="text-primary-600 hover:text-primary-800"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import axios from '../utils/axios';
+import { TwoFactorPolicy, UserRole } from '../types/user';
+
+// Admin choice of which roles must use two-factor authentication
+const TwoFactorPolicyPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([]);
+
+  const { data: policy, isLoading } = useQuery<TwoFactorPolicy>({
+    queryKey: ['two-factor-policy'],
+    queryFn: async () => {
+      const response = await axios.get('/users/two-factor-policy');
+      return response.data.data;
+    },
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setRequiredRoles(policy.required_roles);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (roles: UserRole[]) => {
+      await axios.put('/users/two-factor-policy', { required_roles: roles });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['two-factor-policy'] });
+      toast.success('Two-factor policy updated');
+    },
+    onError: (error: AxiosError<{ message?: string }>) => {
+      toast.error(error.response?.data?.message || 'Failed to update two-factor policy');
+    },
+  });
+
+  const toggleRole = (role: UserRole) => {
+    setRequiredRoles((current) =>
+      current.includes(role) ? current.filter((r) => r !== role) : [...current, role]
+    );
+  };
+
+  const isDirty =
+    !!policy &&
+    (policy.required_roles.length !== requiredRoles.length ||
+      requiredRoles.some((role) => !policy.required_roles.includes(role)));
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          Two-Factor Authentication Policy
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Members of the selected roles must set up an authenticator app at their next sign-in.
+        </p>
+
+        {isLoading || !policy ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-4">
+              {policy.enrollment.map(({ role, enrolled, not_enrolled }) => (
+                <label
+                  key={role}
+                  className={`flex items-start p-3 border rounded-md cursor-pointer ${
+                    requiredRoles.includes(role) ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={requiredRoles.includes(role)}
+                    onChange={() => toggleRole(role)}
+                    className="mt-1 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">
+                    <span className="block text-sm font-medium text-gray-900">{role}</span>
+                    <span className="block text-xs text-gray-500">
+                      {enrolled} of {enrolled + not_enrolled} enrolled
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={() => saveMutation.mutate(requiredRoles)}
+                disabled={!isDirty || saveMutation.isPending}
+                className="btn-primary disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save policy'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorPolicyPanel;
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-toastify';
+import { format } from 'date-fns';
+import { ShieldCheckIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { TwoFactorProvisioning, TwoFactorStatus } from '../types/user';
+import TwoFactorSetup from './TwoFactorSetup';
+import RecoveryCodes from './RecoveryCodes';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as AxiosError<{ message?: string }>).response?.data?.message || fallback;
+
+const TwoFactorSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<'idle' | 'regenerate' | 'disable'>('idle');
+  const [otp, setOtp] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['two-factor'],
+    queryFn: async () => {
+      const response = await axios.get('/auth/2fa');
+      return response.data.data;
+    },
+  });
+
+  const resetForm = () => {
+    setMode('idle');
+    setOtp('');
+    setPassword('');
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/auth/2fa/setup');
+      return response.data.data as TwoFactorProvisioning;
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await axios.post('/auth/2fa/enable', { otp: code });
+      return response.data.data.recovery_codes as string[];
+    },
+    onSuccess: (codes) => {
+      setRecoveryCodes(codes);
+      setupMutation.reset();
+      queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+      toast.success('Two-factor authentication enabled');
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/auth/2fa/recovery-codes', { otp: otp.trim() });
+      return response.data.data.recovery_codes as string[];
+    },
+    onSuccess: (codes) => {
+      setRecoveryCodes(codes);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+      toast.success('New recovery codes generated');
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post('/auth/2fa/disable', { password, otp: otp.trim() });
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['two-factor'] });
+      toast.success('Two-factor authentication disabled');
+    },
+  });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'regenerate') {
+      regenerateMutation.mutate();
+    } else if (mode === 'disable') {
+      disableMutation.mutate();
+    }
+  };
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  const confirmMutation = mode === 'disable' ? disableMutation : regenerateMutation;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          {status.enabled ? (
+            <ShieldCheckIcon className="h-8 w-8 text-green-500" />
+          ) : (
+            <ShieldExclamationIcon className="h-8 w-8 text-gray-400" />
+          )}
+          <div className="ml-3">
+            <p className="text-sm font-medium text-gray-900">
+              {status.enabled ? 'Two-factor authentication is on' : 'Two-factor authentication is off'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {status.enabled
+                ? `Enabled ${status.enabled_at ? format(new Date(status.enabled_at), 'MMM dd, yyyy') : ''} • ${status.recovery_codes_remaining} recovery codes left`
+                : 'Sign-in will ask for a code from an authenticator app after your password.'}
+            </p>
+            {status.required && (
+              <p className="text-xs text-primary-700 mt-1">Required for your role</p>
+            )}
+          </div>
+        </div>
+
+        {status.enabled && mode === 'idle' && (
+          <div className="space-x-3 whitespace-nowrap">
+            <button
+              onClick={() => setMode('regenerate')}
+              className="text-sm font-medium text-primary-600 hover:text-primary-800"
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => setMode('disable')}
+                className="text-sm font-medium text-red-600 hover:text-red-800"
+              >
+                Disable
+              </button>
+            )}
+          </div>
+        )}
+
+        {!status.enabled && !setupMutation.data && (
+          <button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            className="btn-primary disabled:opacity-50"
+          >
+            {setupMutation.isPending ? 'Preparing...' : 'Enable'}
+          </button>
+        )}
+      </div>
+
+      {!status.enabled && setupMutation.data && (
+        <div className="max-w-sm">
+          <TwoFactorSetup
+            provisioning={setupMutation.data}
+            onConfirm={(code) => enableMutation.mutate(code)}
+            isSubmitting={enableMutation.isPending}
+            error={enableMutation.error ? errorMessage(enableMutation.error, 'Invalid authentication code') : null}
+          />
+        </div>
+      )}
+
+      {mode !== 'idle' && (
+        <form onSubmit={handleConfirm} className="max-w-sm space-y-3">
+          {mode === 'disable' && (
+            <div>
+              <label htmlFor="disable-password" className="form-label">
+                Password
+              </label>
+              <input
+                id="disable-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="form-input"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="confirm-otp" className="form-label">
+              Authentication code
+            </label>
+            <input
+              id="confirm-otp"
+              type="text"
+              autoComplete="one-time-code"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+              className="form-input tracking-widest"
+              placeholder="123456"
+            />
+            {confirmMutation.isError && (
+              <p className="form-error">{errorMessage(confirmMutation.error, 'Request failed')}</p>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={confirmMutation.isPending || !otp.trim() || (mode === 'disable' && !password)}
+              className={`${mode === 'disable' ? 'btn-danger' : 'btn-primary'} disabled:opacity-50`}
+            >
+              {mode === 'disable' ? 'Disable 2FA' : 'Generate new codes'}
+            </button>
+            <button type="button" onClick={resetForm} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { TwoFactorProvisioning } from '../types/user';
+
+interface TwoFactorSetupProps {
+  provisioning: TwoFactorProvisioning;
+  onConfirm: (otp: string) => void;
+  isSubmitting: boolean;
+  error?: string | null;
+}
+
+// QR code, manual key and the first-code check for a new authenticator
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({
+  provisioning,
+  onConfirm,
+  isSubmitting,
+  error,
+}) => {
+  const [otp, setOtp] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(otp.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+        <li>Open an authenticator app such as Google Authenticator or Microsoft Authenticator.</li>
+        <li>Scan the QR code, or enter the key manually.</li>
+        <li>Enter the 6-digit code the app shows.</li>
+      </ol>
+
+      <div className="flex flex-col items-center">
+        <img
+          src={provisioning.qr_code}
+          alt="Authenticator QR code"
+          className="h-48 w-48 border border-gray-200 rounded"
+        />
+        <p className="mt-2 text-xs text-gray-500">Key</p>
+        <p className="font-mono text-sm text-gray-900 break-all select-all text-center">
+          {provisioning.secret.match(/.{1,4}/g)?.join(' ')}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="totp-setup-code" className="form-label">
+          Authentication code
+        </label>
+        <input
+          id="totp-setup-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={otp}
+          onChange={(e) => setOtp(e.target.value.replace(/\D/g, ''))}
+          className="form-input tracking-widest"
+          placeholder="123456"
+        />
+        {error && <p className="form-error">{error}</p>}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || otp.length !== 6}
+        className="btn-primary w-full disabled:opacity-50"
+      >
+        {isSubmitting ? 'Verifying...' : 'Verify and enable'}
+      </button>
+    </form>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMutation } from '@tanstack/react-query'
+import { toast } from 'react-toastify'
+import { AxiosError } from 'axios'
+import axios from '../utils/axios'
+
+interface UploadRevisionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+  bookId: string
+  currentRound: number
+}
+
+const UploadRevisionModal = ({
+  isOpen,
+  onClose,
+  onSuccess,
+  bookId,
+  currentRound,
+}: UploadRevisionModalProps) => {
+  const [file, setFile] = useState<File | null>(null)
+  const [notes, setNotes] = useState('')
+
+  const revisionMutation = useMutation(
+    async () => {
+      const formData = new FormData()
+      formData.append('pdf', file as File)
+      if (notes.trim()) {
+        formData.append('notes', notes.trim())
+      }
+      return axios.post(`/books/${bookId}/revisions`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      })
+    },
+    {
+      onSuccess: () => {
+        toast.success(`Revision uploaded. Round ${currentRound + 1} is open for review`)
+        onSuccess()
+      },
+      onError: (error: AxiosError<{ message?: string }>) => {
+        toast.error(error.response?.data?.message || 'Failed to upload revision')
+      },
+    }
+  )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!file) {
+      toast.error('Please select the revised PDF')
+      return
+    }
+
+    revisionMutation.mutate()
+  }
+
+  const isSubmitting = revisionMutation.isLoading
+
+  return (
+    <Dialog
+      open={isOpen}
+      onClose={() => !isSubmitting && onClose()}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+          <div className="flex items-center justify-between mb-4">
+            <Dialog.Title className="text-lg font-medium text-gray-900">
+              Upload Revised Book
+            </Dialog.Title>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+            </button>
+          </div>
+
+          <Dialog.Description className="text-sm text-gray-500 mb-4">
+            The revised PDF becomes version {currentRound + 1}. Earlier versions, reviews and
+            decisions are kept in the book's revision history.
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit}>
+            <div className="mb-4">
+              <label htmlFor="revision-pdf" className="block text-sm font-medium text-gray-700 mb-2">
+                Revised PDF
+              </label>
+              <input
+                id="revision-pdf"
+                type="file"
+                accept="application/pdf"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-700"
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="mb-4">
+              <label htmlFor="revision-notes" className="block text-sm font-medium text-gray-700 mb-2">
+                Revision Notes (optional)
+              </label>
+              <textarea
+                id="revision-notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="input-field w-full"
+                placeholder="Summarise what the authors changed..."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 mt-6">
+              <button
+                type="button"
+                className="btn-outline"
+                onClick={onClose}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={isSubmitting || !file}>
+                {isSubmitting ? 'Uploading...' : 'Upload Revision'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default UploadRevisionModal
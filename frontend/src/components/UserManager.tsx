@@ -0,0 +1,530 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import axios from '../utils/axios';
+import { toast } from 'react-toastify';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import {
+  PlusIcon,
+  PencilIcon,
+  KeyIcon,
+  NoSymbolIcon,
+  ArrowPathIcon,
+  ComputerDesktopIcon,
+  ShieldExclamationIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { useAuthStore } from '../stores/authStore';
+import SessionList from './SessionList';
+import { ManagedUser, UserRole } from '../types/user';
+
+interface UserFormData {
+  name: string;
+  email: string;
+  role: UserRole;
+  institution: string;
+  password: string;
+}
+
+const roles = Object.values(UserRole);
+
+const UserManager: React.FC = () => {
+  const { user: currentUser } = useAuthStore();
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<ManagedUser | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<ManagedUser | null>(null);
+  const [roleFilter, setRoleFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [issuedPassword, setIssuedPassword] = useState<{ email: string; password: string } | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: users, isLoading } = useQuery<ManagedUser[]>({
+    queryKey: ['users', roleFilter, statusFilter, search],
+    queryFn: async () => {
+      const response = await axios.get('/users', {
+        params: {
+          role: roleFilter || undefined,
+          status: statusFilter || undefined,
+          search: search.trim() || undefined,
+        },
+      });
+      return response.data.data.users;
+    },
+  });
+
+  const onMutationError = (fallback: string) => (error: AxiosError<{ message?: string }>) => {
+    toast.error(error.response?.data?.message || fallback);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: UserFormData) => {
+      const response = await axios.post('/users', {
+        name: data.name,
+        email: data.email,
+        role: data.role,
+        institution: data.institution || undefined,
+        password: data.password || undefined,
+      });
+      return response.data.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('User created successfully');
+      if (data.temporary_password) {
+        setIssuedPassword({ email: data.user.email, password: data.temporary_password });
+      }
+      handleCloseModal();
+    },
+    onError: onMutationError('Failed to create user'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UserFormData }) => {
+      const response = await axios.patch(`/users/${id}`, {
+        name: data.name,
+        email: data.email,
+        institution: data.institution || null,
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('User updated successfully');
+      handleCloseModal();
+    },
+    onError: onMutationError('Failed to update user'),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      await axios.patch(`/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success('Role updated');
+    },
+    onError: onMutationError('Failed to change role'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'deactivate' | 'reactivate' }) => {
+      await axios.post(`/users/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      toast.success(action === 'deactivate' ? 'User deactivated' : 'User reactivated');
+    },
+    onError: onMutationError('Failed to update user status'),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (user: ManagedUser) => {
+      const response = await axios.post(`/users/${user.id}/reset-password`);
+      return response.data.data;
+    },
+    onSuccess: (data, user) => {
+      setIssuedPassword({ email: user.email, password: data.temporary_password });
+      toast.success('Password reset');
+    },
+    onError: onMutationError('Failed to reset password'),
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.post(`/users/${id}/2fa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['two-factor-policy'] });
+      toast.success('Two-factor authentication reset');
+    },
+    onError: onMutationError('Failed to reset two-factor authentication'),
+  });
+
+  const { register, handleSubmit, reset, setValue } = useForm<UserFormData>();
+
+  const onSubmit = (data: UserFormData) => {
+    if (editingUser) {
+      updateMutation.mutate({ id: editingUser.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (user: ManagedUser) => {
+    setEditingUser(user);
+    setValue('name', user.name);
+    setValue('email', user.email);
+    setValue('institution', user.institution || '');
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: UserRole) => {
+    if (window.confirm(`Change ${user.name}'s role from ${user.role} to ${role}?`)) {
+      roleMutation.mutate({ id: user.id, role });
+    }
+  };
+
+  const handleToggleActive = (user: ManagedUser) => {
+    const action = user.is_active ? 'deactivate' : 'reactivate';
+    if (window.confirm(`Are you sure you want to ${action} ${user.name}?`)) {
+      statusMutation.mutate({ id: user.id, action });
+    }
+  };
+
+  const handleResetPassword = (user: ManagedUser) => {
+    if (window.confirm(`Reset the password for ${user.name}? Their current sessions will be signed out.`)) {
+      resetPasswordMutation.mutate(user);
+    }
+  };
+
+  const handleResetTwoFactor = (user: ManagedUser) => {
+    if (window.confirm(`Reset two-factor authentication for ${user.name}? They will be signed out and must enroll again.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsCreateModalOpen(false);
+    setEditingUser(null);
+    reset();
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              User Management
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create accounts, change roles and control access
+            </p>
+          </div>
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add User
+          </button>
+        </div>
+
+        {issuedPassword && (
+          <div className="mb-6 rounded-md bg-yellow-50 border border-yellow-200 p-4 flex items-start justify-between">
+            <div className="text-sm text-yellow-800">
+              <p className="font-medium">Temporary password for {issuedPassword.email}</p>
+              <p className="mt-1 font-mono text-base select-all">{issuedPassword.password}</p>
+              <p className="mt-1 text-xs">
+                Share it with the user securely. It will not be shown again.
+              </p>
+            </div>
+            <button
+              onClick={() => setIssuedPassword(null)}
+              className="text-yellow-600 hover:text-yellow-800"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 mb-4">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          />
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">All roles</option>
+            {roles.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">All statuses</option>
+            <option value="active">Active</option>
+            <option value="inactive">Deactivated</option>
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Institution
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Login
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users?.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+
+                  return (
+                    <tr key={user.id} className={user.is_active ? '' : 'bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                        <div className="text-sm text-gray-500">{user.email}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                          disabled={isSelf || roleMutation.isPending}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                        >
+                          {roles.map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {user.institution || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            user.is_active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {user.is_active ? 'Active' : 'Deactivated'}
+                        </span>
+                        {user.totp_enabled && (
+                          <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                            2FA
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {user.last_login ? format(new Date(user.last_login), 'MMM dd, yyyy HH:mm') : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => handleEdit(user)}
+                          className="text-primary-600 hover:text-primary-900"
+                          title="Edit details"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setSessionsUser(user)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Sessions"
+                        >
+                          <ComputerDesktopIcon className="h-4 w-4" />
+                        </button>
+                        {user.totp_enabled && (
+                          <button
+                            onClick={() => handleResetTwoFactor(user)}
+                            className="text-orange-600 hover:text-orange-900"
+                            title="Reset two-factor authentication"
+                          >
+                            <ShieldExclamationIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          className="text-yellow-600 hover:text-yellow-900"
+                          title="Reset password"
+                        >
+                          <KeyIcon className="h-4 w-4" />
+                        </button>
+                        {!isSelf && (
+                          <button
+                            onClick={() => handleToggleActive(user)}
+                            className={
+                              user.is_active
+                                ? 'text-red-600 hover:text-red-900'
+                                : 'text-green-600 hover:text-green-900'
+                            }
+                            title={user.is_active ? 'Deactivate' : 'Reactivate'}
+                          >
+                            {user.is_active ? (
+                              <NoSymbolIcon className="h-4 w-4" />
+                            ) : (
+                              <ArrowPathIcon className="h-4 w-4" />
+                            )}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {users?.length === 0 && (
+              <p className="text-center text-sm text-gray-500 py-8">No users match these filters.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Sessions Modal */}
+      {sessionsUser && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium text-gray-900">
+                Sessions for {sessionsUser.name}
+              </h3>
+              <button
+                onClick={() => setSessionsUser(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <SessionList userId={sessionsUser.id} />
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      {(isCreateModalOpen || editingUser) && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingUser ? 'Edit User' : 'Create New User'}
+              </h3>
+              <button
+                onClick={handleCloseModal}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  {...register('name', { required: true })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="e.g., Dr. A. Sharma"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  {...register('email', { required: true })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="name@institution.edu"
+                />
+              </div>
+
+              {!editingUser && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Role
+                  </label>
+                  <select
+                    {...register('role', { required: true })}
+                    defaultValue={UserRole.REVIEWER}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {roles.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Institution
+                </label>
+                <input
+                  {...register('institution')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="e.g., Ayurveda College, Delhi"
+                />
+              </div>
+
+              {!editingUser && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Password (optional)
+                  </label>
+                  <input
+                    type="password"
+                    {...register('password', { minLength: 8 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="Leave blank to generate one"
+                  />
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+                >
+                  {createMutation.isPending || updateMutation.isPending
+                    ? 'Saving...'
+                    : editingUser
+                    ? 'Update'
+                    : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManager;
@@ -2,15 +2,30 @@ import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import axios from '../utils/axios';
 import CriteriaManager from '../components/CriteriaManager';
+import UserManager from '../components/UserManager';
+import TwoFactorPolicyPanel from '../components/TwoFactorPolicyPanel';
+import EscalationPolicyPanel from '../components/EscalationPolicyPanel';
+import NotificationTemplateEditor from '../components/NotificationTemplateEditor';
+import OutboxViewer from '../components/OutboxViewer';
+import JobDashboard from '../components/JobDashboard';
+import ConflictRulesPanel from '../components/ConflictRulesPanel';
+import ReportTemplatesPanel from '../components/ReportTemplatesPanel';
+import CommitteeVotingRulesPanel from '../components/CommitteeVotingRulesPanel';
 import { 
   CogIcon, 
   ChartBarIcon, 
   UserGroupIcon,
-  DocumentTextIcon 
+  DocumentTextIcon,
+  BellAlertIcon,
+  EnvelopeIcon,
+  InboxStackIcon,
+  QueueListIcon,
+  ScaleIcon,
+  HandRaisedIcon
 } from '@heroicons/react/24/outline';
 
 const AdminPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'criteria' | 'analytics' | 'users'>('criteria');
+  const [activeTab, setActiveTab] = useState<'criteria' | 'analytics' | 'users' | 'escalation' | 'conflicts' | 'voting' | 'templates' | 'reports' | 'outbox' | 'jobs'>('criteria');
 
   // Fetch system analytics
   const { data: analytics, isLoading: isLoadingAnalytics } = useQuery({
@@ -25,6 +40,13 @@ const AdminPage: React.FC = () => {
     { id: 'criteria', name: 'Criteria Management', icon: CogIcon },
     { id: 'analytics', name: 'System Analytics', icon: ChartBarIcon },
     { id: 'users', name: 'User Management', icon: UserGroupIcon },
+    { id: 'escalation', name: 'Escalation', icon: BellAlertIcon },
+    { id: 'conflicts', name: 'Conflict Rules', icon: ScaleIcon },
+    { id: 'voting', name: 'Committee Voting', icon: HandRaisedIcon },
+    { id: 'templates', name: 'Message Templates', icon: EnvelopeIcon },
+    { id: 'reports', name: 'Report Templates', icon: DocumentTextIcon },
+    { id: 'outbox', name: 'Outbox', icon: InboxStackIcon },
+    { id: 'jobs', name: 'Jobs', icon: QueueListIcon },
   ];
 
   return (
@@ -203,17 +225,39 @@ const AdminPage: React.FC = () => {
       )}
 
       {activeTab === 'users' && (
-        <div className="bg-white shadow rounded-lg">
-          <div className="px-4 py-5 sm:p-6">
-            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
-              User Management
-            </h3>
-            <p className="text-sm text-gray-500">
-              User management features will be implemented in a future update.
-            </p>
-          </div>
+        <div className="space-y-6">
+          <TwoFactorPolicyPanel />
+          <UserManager />
         </div>
       )}
+
+      {activeTab === 'escalation' && (
+        <EscalationPolicyPanel />
+      )}
+
+      {activeTab === 'conflicts' && (
+        <ConflictRulesPanel />
+      )}
+
+      {activeTab === 'voting' && (
+        <CommitteeVotingRulesPanel />
+      )}
+
+      {activeTab === 'templates' && (
+        <NotificationTemplateEditor />
+      )}
+
+      {activeTab === 'reports' && (
+        <ReportTemplatesPanel />
+      )}
+
+      {activeTab === 'outbox' && (
+        <OutboxViewer />
+      )}
+
+      {activeTab === 'jobs' && (
+        <JobDashboard />
+      )}
     </div>
   );
 };
@@ -2,19 +2,50 @@ import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import axios from '../utils/axios'
 import { UserRole } from '../types/user'
+import AuditIntegrityPanel from '../components/AuditIntegrityPanel'
 
+// Audit entry as returned by GET /audit
 interface AuditLog {
   id: string
+  sequence: number
   action: string
-  entityType: string
-  entityId: string
-  userId: string
-  userName: string
-  userRole: UserRole
-  details: string
+  target_type: string
+  target_id: string
+  actor: {
+    id: string
+    name: string
+    email: string
+    role: UserRole
+  }
+  details: unknown
   timestamp: string
+  hash: string | null
 }
 
+// Colour an action badge by what happened, e.g. BOOK_UPLOADED or SESSION_REVOKED
+const actionBadgeClass = (action: string) => {
+  if (/_(CREATED|UPLOADED|SUBMITTED|ASSIGNED|ENABLED|REACTIVATED)$/.test(action)) {
+    return 'bg-green-100 text-green-800'
+  }
+  if (/_(UPDATED|CHANGED|SAVED|RESOLVED|RESET)$/.test(action)) {
+    return 'bg-blue-100 text-blue-800'
+  }
+  if (/_(DELETED|REVOKED|CANCELLED|DEACTIVATED|DISABLED|FAILED)$/.test(action)) {
+    return 'bg-red-100 text-red-800'
+  }
+  if (action.startsWith('LOGIN') || action.startsWith('LOGOUT') || action.startsWith('TWO_FACTOR')) {
+    return 'bg-purple-100 text-purple-800'
+  }
+  if (action.startsWith('COMMITTEE') || action.startsWith('AI_')) {
+    return 'bg-pink-100 text-pink-800'
+  }
+  return 'bg-gray-100 text-gray-800'
+}
+
+// Request entries written by the audit middleware carry the response outcome
+const outcomeOf = (details: unknown) =>
+  details && typeof details === 'object' ? (details as { outcome?: string }).outcome : undefined
+
 const AuditLogsPage = () => {
   const [page, setPage] = useState(1)
   const [filter, setFilter] = useState('')
@@ -31,21 +62,33 @@ const AuditLogsPage = () => {
     async () => {
       const params: Record<string, string | number> = {
         page,
-        pageSize,
+        limit: pageSize,
       }
 
       if (filter) params.search = filter
       if (actionType) params.action = actionType
-      if (entityType) params.entityType = entityType
+      if (entityType) params.target_type = entityType
 
-      const response = await axios.get('/audit-logs', { params })
-      return response.data.data
+      const response = await axios.get('/audit', { params })
+      return {
+        logs: response.data.data.auditLogs,
+        total: response.data.pagination.total,
+      }
     },
     {
       keepPreviousData: true,
     }
   )
 
+  // Action names and entity types present in the log
+  const { data: facets } = useQuery<{
+    actions: { action: string; count: number }[]
+    target_types: { target_type: string; count: number }[]
+  }>(['auditFacets'], async () => {
+    const response = await axios.get('/audit/facets')
+    return response.data.data
+  })
+
   const totalPages = data ? Math.ceil(data.total / pageSize) : 0
 
   // Handle filter change
@@ -88,6 +131,9 @@ const AuditLogsPage = () => {
         </p>
       </div>
 
+      {/* Chain integrity */}
+      <AuditIntegrityPanel />
+
       {/* Filters */}
       <div className="card p-4">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -116,14 +162,11 @@ const AuditLogsPage = () => {
               onChange={handleActionTypeChange}
             >
               <option value="">All Actions</option>
-              <option value="CREATE">Create</option>
-              <option value="UPDATE">Update</option>
-              <option value="DELETE">Delete</option>
-              <option value="LOGIN">Login</option>
-              <option value="LOGOUT">Logout</option>
-              <option value="ASSIGN">Assign</option>
-              <option value="REVIEW">Review</option>
-              <option value="DECISION">Decision</option>
+              {facets?.actions.map(({ action, count }) => (
+                <option key={action} value={action}>
+                  {action} ({count})
+                </option>
+              ))}
             </select>
           </div>
           
@@ -138,11 +181,11 @@ const AuditLogsPage = () => {
               onChange={handleEntityTypeChange}
             >
               <option value="">All Entities</option>
-              <option value="USER">User</option>
-              <option value="BOOK">Book</option>
-              <option value="ASSIGNMENT">Assignment</option>
-              <option value="REVIEW">Review</option>
-              <option value="DECISION">Decision</option>
+              {facets?.target_types.map(({ target_type, count }) => (
+                <option key={target_type} value={target_type}>
+                  {target_type} ({count})
+                </option>
+              ))}
             </select>
           </div>
         </div>
@@ -206,40 +249,34 @@ const AuditLogsPage = () => {
                   <tr key={log.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatTimestamp(log.timestamp)}
+                      <div className="text-xs text-gray-400 font-mono" title={log.hash ?? 'Recorded before hash chaining'}>
+                        #{log.sequence} {log.hash ? log.hash.slice(0, 12) : 'unchained'}
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{log.userName}</div>
-                      <div className="text-xs text-gray-500">{log.userRole}</div>
+                      <div className="text-sm font-medium text-gray-900">{log.actor.name}</div>
+                      <div className="text-xs text-gray-500">{log.actor.role}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
-                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          log.action === 'CREATE'
-                            ? 'bg-green-100 text-green-800'
-                            : log.action === 'UPDATE'
-                            ? 'bg-blue-100 text-blue-800'
-                            : log.action === 'DELETE'
-                            ? 'bg-red-100 text-red-800'
-                            : log.action === 'LOGIN' || log.action === 'LOGOUT'
-                            ? 'bg-purple-100 text-purple-800'
-                            : log.action === 'ASSIGN'
-                            ? 'bg-yellow-100 text-yellow-800'
-                            : log.action === 'REVIEW'
-                            ? 'bg-indigo-100 text-indigo-800'
-                            : log.action === 'DECISION'
-                            ? 'bg-pink-100 text-pink-800'
-                            : 'bg-gray-100 text-gray-800'
-                        }`}
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${actionBadgeClass(
+                          log.action
+                        )}`}
                       >
                         {log.action}
                       </span>
+                      {outcomeOf(log.details) === 'FAILED' && (
+                        <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                          failed {(log.details as { status_code?: number }).status_code}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{log.entityType}</div>
-                      <div className="text-xs text-gray-500">{log.entityId}</div>
+                      <div className="text-sm text-gray-900">{log.target_type}</div>
+                      <div className="text-xs text-gray-500">{log.target_id}</div>
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500 max-w-md truncate">
-                      {log.details}
+                      {typeof log.details === 'string' ? log.details : JSON.stringify(log.details)}
                     </td>
                   </tr>
                 ))
@@ -1,30 +1,44 @@
-import { useState } from 'react'
-import { useParams, Link } from 'react-router-dom'
-import { useQuery } from '@tanstack/react-query'
+import { useEffect, useState } from 'react'
+import { useParams, useSearchParams, Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { Suspense, lazy } from 'react'
 import { useAuthStore } from '../stores/authStore'
 import { UserRole } from '../types/user'
-import { Book, Assignment } from '../types/book'
+import { Book, BookStatus, Assignment, ApprovalActionType } from '../types/book'
+import { ReportTemplateList } from '../types/report'
 import axios from '../utils/axios'
 import AssignReviewersModal from '../components/AssignReviewersModal'
 import CommitteeDecisionModal from '../components/CommitteeDecisionModal'
 import BackButton from '../components/BackButton'
 import AISummaryPreview from '../components/AISummaryPreview'
+import AggregateScores from '../components/AggregateScores'
 import ConflictVisualization from '../components/ConflictVisualization'
 import ActionSuggestions from '../components/ActionSuggestions'
 import UpdateAssignmentModal from '../components/UpdateAssignmentModal'
+import ReassignReviewerModal from '../components/ReassignReviewerModal'
+import ApprovalActionModal from '../components/ApprovalActionModal'
+import UploadRevisionModal from '../components/UploadRevisionModal'
+import RevisionTimeline from '../components/RevisionTimeline'
+import OCRSearch, { OCRSearchResult } from '../components/OCRSearch'
 
 const PDFViewer = lazy(() => import('../components/PDFViewer'))
 
 const BookDetailPage = () => {
   const { id } = useParams<{ id: string }>()
+  const [searchParams] = useSearchParams()
   const { user } = useAuthStore()
+  const queryClient = useQueryClient()
   const [numPages, setNumPages] = useState<number | null>(null)
   const [pageNumber, setPageNumber] = useState(1)
   const [isAssignModalOpen, setIsAssignModalOpen] = useState(false)
   const [isDecisionModalOpen, setIsDecisionModalOpen] = useState(false)
   const [isUpdateAssignmentModalOpen, setIsUpdateAssignmentModalOpen] = useState(false)
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null)
+  const [recusedAssignment, setRecusedAssignment] = useState<Assignment | null>(null)
+  const [isRevisionModalOpen, setIsRevisionModalOpen] = useState(false)
+  const [viewRound, setViewRound] = useState<number | null>(null)
+  const [reportTemplateId, setReportTemplateId] = useState('')
+  const [approvalAction, setApprovalAction] = useState<ApprovalActionType | null>(null)
 
   // Fetch book details
   const { data: book, isLoading, refetch } = useQuery<Book>(
@@ -38,6 +52,32 @@ const BookDetailPage = () => {
     }
   )
 
+  const canDownloadReport = user?.role === UserRole.SECRETARIAT || user?.role === UserRole.COMMITTEE
+  const canManageApproval = user?.role === UserRole.COMMITTEE || user?.role === UserRole.ADMIN
+  const canFollowDecision =
+    user?.role === UserRole.COMMITTEE || user?.role === UserRole.SECRETARIAT || user?.role === UserRole.ADMIN
+
+  // Active report templates the download can be laid out with
+  const { data: reportTemplates } = useQuery<ReportTemplateList>(
+    ['report-templates'],
+    async () => {
+      const response = await axios.get('/report-templates')
+      return response.data.data
+    },
+    {
+      enabled: canDownloadReport,
+    }
+  )
+
+  // Open the preview at ?page=N, e.g. when coming from a content search result
+  const requestedPage = Number(searchParams.get('page'))
+  useEffect(() => {
+    if (requestedPage > 0) {
+      setViewRound(null)
+      setPageNumber(requestedPage)
+    }
+  }, [requestedPage])
+
   // Handle PDF document loading
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages)
@@ -57,12 +97,35 @@ const BookDetailPage = () => {
   // Handle assignment success
   const handleAssignSuccess = () => {
     refetch()
+    queryClient.invalidateQueries(['book-rounds', id])
     setIsAssignModalOpen(false)
   }
 
+  // Handle revision upload success
+  const handleRevisionSuccess = () => {
+    refetch()
+    queryClient.invalidateQueries(['book-rounds', id])
+    setViewRound(null)
+    setPageNumber(1)
+    setIsRevisionModalOpen(false)
+  }
+
+  // Switch the preview to another round's PDF
+  const handleViewVersion = (roundNumber: number) => {
+    setViewRound(roundNumber === book?.current_round ? null : roundNumber)
+    setPageNumber(1)
+  }
+
+  // Search hits come from the current version's OCR index
+  const handleSearchResultClick = (result: OCRSearchResult) => {
+    setViewRound(null)
+    setPageNumber(result.page_number)
+  }
+
   // Handle committee decision success
   const handleDecisionSuccess = () => {
     refetch()
+    queryClient.invalidateQueries(['book-rounds', id])
     setIsDecisionModalOpen(false)
   }
 
@@ -70,6 +133,7 @@ const BookDetailPage = () => {
   const downloadReport = async () => {
     try {
       const response = await axios.get(`/reports/books/${id}.pdf`, {
+        params: reportTemplateId ? { template_id: reportTemplateId } : undefined,
         responseType: 'blob',
       })
       
@@ -85,6 +149,25 @@ const BookDetailPage = () => {
     }
   }
 
+  // Download the signed approval certificate
+  const downloadCertificate = async () => {
+    try {
+      const response = await axios.get(`/certificates/books/${id}.pdf`, {
+        responseType: 'blob',
+      })
+
+      const url = window.URL.createObjectURL(new Blob([response.data]))
+      const link = document.createElement('a')
+      link.href = url
+      link.setAttribute('download', `approval-certificate-${id}.pdf`)
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+    } catch (error) {
+      console.error('Error downloading certificate:', error)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -105,6 +188,17 @@ const BookDetailPage = () => {
     )
   }
 
+  // Only the current round's assignments are active; earlier ones live in the revision history
+  const currentRound = book.current_round ?? 1
+  const roundAssignments = (book.assignments || []).filter(
+    (assignment) => (assignment.round_number ?? 1) === currentRound
+  )
+  const previousRoundAssignments = (book.assignments || []).filter(
+    (assignment) => (assignment.round_number ?? 1) === currentRound - 1
+  )
+  // The API reports reviewed books as REVIEW_COMPLETED; list pages map it to REVIEWED
+  const awaitingDecision = book.status === BookStatus.REVIEW_COMPLETED || book.status === BookStatus.REVIEWED
+
   return (
     <div className="space-y-6">
       {/* Book Header */}
@@ -119,7 +213,7 @@ const BookDetailPage = () => {
           <BackButton />
           {/* Secretariat can assign reviewers if book is pending or under review */}
           {user?.role === UserRole.SECRETARIAT && 
-           (book.status === 'PENDING' || book.status === 'UNDER_REVIEW') && (
+           (book.status === 'PENDING' || book.status === 'PENDING_REVIEW' || book.status === 'UNDER_REVIEW') && (
             <button
               type="button"
               className="btn-primary"
@@ -129,26 +223,104 @@ const BookDetailPage = () => {
             </button>
           )}
           
-          {/* Committee can make final decision if book is reviewed */}
-          {user?.role === UserRole.COMMITTEE && book.status === 'REVIEWED' && (
+          {/* Secretariat uploads the revised PDF once revisions are requested */}
+          {user?.role === UserRole.SECRETARIAT &&
+           (book.status === 'NEEDS_REVISION' || book.status === 'REVISIONS_REQUESTED') && (
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => setIsRevisionModalOpen(true)}
+            >
+              Upload Revision
+            </button>
+          )}
+
+          {/* Committee votes on reviewed books; Secretariat and Admin can follow the tally */}
+          {canFollowDecision && awaitingDecision && (
             <button
               type="button"
               className="btn-primary"
               onClick={() => setIsDecisionModalOpen(true)}
             >
-              Make Decision
+              {user?.role === UserRole.COMMITTEE ? 'Committee Vote' : 'View Committee Vote'}
             </button>
           )}
           
           {/* Secretariat and Committee can download report if book is reviewed */}
-          {(user?.role === UserRole.SECRETARIAT || user?.role === UserRole.COMMITTEE) && 
-           book.status !== 'PENDING' && (
+          {canDownloadReport && book.status !== 'PENDING' && (
+            <>
+              {!!reportTemplates?.templates.length && (
+                <select
+                  className="form-input"
+                  value={reportTemplateId}
+                  onChange={(e) => setReportTemplateId(e.target.value)}
+                  aria-label="Report template"
+                >
+                  <option value="">Standard layout</option>
+                  {reportTemplates.templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                className="btn-outline"
+                onClick={downloadReport}
+              >
+                Download Report
+              </button>
+            </>
+          )}
+
+          {/* Approved books carry a verifiable certificate; suspended and revoked ones print with a watermark */}
+          {(user?.role === UserRole.ADMIN || canDownloadReport) &&
+           (book.status === 'APPROVED' || book.status === 'SUSPENDED' || book.status === 'REVOKED') && (
+            <button
+              type="button"
+              className="btn-outline"
+              onClick={downloadCertificate}
+            >
+              Download Certificate
+            </button>
+          )}
+
+          {/* Committee and Admin can suspend, revoke, reinstate or re-review a published approval */}
+          {canManageApproval && book.status === 'APPROVED' && (
+            <button
+              type="button"
+              className="btn-outline"
+              onClick={() => setApprovalAction('SUSPEND')}
+            >
+              Suspend Approval
+            </button>
+          )}
+          {canManageApproval && (book.status === 'SUSPENDED' || book.status === 'REVOKED') && (
+            <button
+              type="button"
+              className="btn-outline"
+              onClick={() => setApprovalAction('REINSTATE')}
+            >
+              Reinstate Approval
+            </button>
+          )}
+          {canManageApproval && book.status === 'SUSPENDED' && (
             <button
               type="button"
               className="btn-outline"
-              onClick={downloadReport}
+              onClick={() => setApprovalAction('REOPEN')}
+            >
+              Start Re-review
+            </button>
+          )}
+          {canManageApproval && (book.status === 'APPROVED' || book.status === 'SUSPENDED') && (
+            <button
+              type="button"
+              className="btn-outline text-red-600"
+              onClick={() => setApprovalAction('REVOKE')}
             >
-              Download Report
+              Revoke Approval
             </button>
           )}
         </div>
@@ -174,8 +346,10 @@ const BookDetailPage = () => {
                   className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                     book.status === 'APPROVED'
                       ? 'bg-green-100 text-green-800'
-                      : book.status === 'REJECTED'
+                      : book.status === 'REJECTED' || book.status === 'REVOKED'
                       ? 'bg-red-100 text-red-800'
+                      : book.status === 'SUSPENDED'
+                      ? 'bg-yellow-100 text-yellow-800'
                       : book.status === 'UNDER_REVIEW'
                       ? 'bg-yellow-100 text-yellow-800'
                       : book.status === 'REVISIONS_REQUESTED'
@@ -202,13 +376,45 @@ const BookDetailPage = () => {
             </div>
           </div>
 
+          {/* Approval History Card */}
+          {book.approval_actions && book.approval_actions.length > 0 && (
+            <div className="card p-4 space-y-3">
+              <h2 className="text-lg font-medium text-gray-900">Approval History</h2>
+              <ul className="divide-y divide-gray-200">
+                {book.approval_actions.map((approvalChange) => (
+                  <li key={approvalChange.id} className="py-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      {approvalChange.action === 'SUSPEND'
+                        ? 'Suspended'
+                        : approvalChange.action === 'REVOKE'
+                        ? 'Revoked'
+                        : approvalChange.action === 'REOPEN'
+                        ? 'Reopened for re-review'
+                        : 'Reinstated'}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {new Date(approvalChange.acted_at).toLocaleDateString()}
+                        {approvalChange.actor && ` by ${approvalChange.actor.name}`}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">{approvalChange.rationale}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Reviewers Card */}
-          {book.assignments && book.assignments.length > 0 && (
+          {roundAssignments.length > 0 && (
             <div className="card p-4 space-y-4">
-              <h2 className="text-lg font-medium text-gray-900">Assigned Reviewers</h2>
+              <h2 className="text-lg font-medium text-gray-900">
+                Assigned Reviewers
+                {currentRound > 1 && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">Round {currentRound}</span>
+                )}
+              </h2>
               
               <ul className="divide-y divide-gray-200">
-                {book.assignments.map((assignment: Assignment) => {
+                {roundAssignments.map((assignment: Assignment) => {
                   const assignmentDueDate =
                     assignment.dueDate ||
                     (assignment as any).due_date ||
@@ -223,6 +429,11 @@ const BookDetailPage = () => {
                   const reviewerName =
                     assignment.reviewer?.name || 'Reviewer'
                   const assignmentStatus = assignment.status || 'PENDING'
+                  const replacement = roundAssignments.find(
+                    (candidate) => candidate.replaces_id === assignment.id
+                  )
+                  const canManage =
+                    user?.role === UserRole.SECRETARIAT || user?.role === UserRole.ADMIN
 
                   return (
                     <li key={assignment.id} className="py-3">
@@ -243,13 +454,23 @@ const BookDetailPage = () => {
                                   ? 'bg-green-100 text-green-800'
                                   : assignmentStatus === 'IN_PROGRESS'
                                   ? 'bg-yellow-100 text-yellow-800'
+                                  : assignmentStatus === 'RECUSED'
+                                  ? 'bg-red-100 text-red-800'
                                   : 'bg-gray-100 text-gray-800'
                               }`}
                             >
                               {assignmentStatus.replace('_', ' ')}
                             </span>
-                            {(user?.role === UserRole.SECRETARIAT ||
-                              user?.role === UserRole.ADMIN) && (
+                            {canManage && assignmentStatus === 'RECUSED' && !replacement && (
+                              <button
+                                type="button"
+                                className="text-xs text-primary-600 hover:text-primary-800"
+                                onClick={() => setRecusedAssignment({ ...assignment, dueDate: assignmentDueDate })}
+                              >
+                                Reassign
+                              </button>
+                            )}
+                            {canManage && assignmentStatus !== 'RECUSED' && (
                               <button
                                 type="button"
                                 className="text-xs text-primary-600 hover:text-primary-800"
@@ -287,6 +508,14 @@ const BookDetailPage = () => {
                             Due: {formattedDueDate}
                           </span>
                         </div>
+                        {assignmentStatus === 'RECUSED' && (
+                          <p className="text-xs text-red-700">
+                            Declared a conflict of interest
+                            {replacement
+                              ? ` • Reassigned to ${replacement.reviewer?.name || 'another reviewer'}`
+                              : ' • Awaiting a replacement reviewer'}
+                          </p>
+                        )}
                       </div>
                     </li>
                   )
@@ -295,65 +524,19 @@ const BookDetailPage = () => {
             </div>
           )}
 
+          <RevisionTimeline
+            bookId={book.id}
+            selectedRound={viewRound ?? currentRound}
+            onViewVersion={handleViewVersion}
+          />
+
           {/* Aggregate Results Card */}
-          {book.aggregateResults && (
-            <div className="card p-4 space-y-4">
-              <h2 className="text-lg font-medium text-gray-900">Review Results</h2>
-              
-              <div>
-                <h3 className="text-sm font-medium text-gray-500">Overall Score</h3>
-                <p className="mt-1 text-2xl font-bold text-primary-600">
-                  {book.aggregateResults.weightedScore.toFixed(2)}/10
-                </p>
-              </div>
-              
-              <div>
-                <h3 className="text-sm font-medium text-gray-500">Recommendations</h3>
-                <div className="mt-1 grid grid-cols-3 gap-2 text-center">
-                  <div className="bg-green-50 p-2 rounded">
-                    <p className="text-sm font-medium text-green-700">Approve</p>
-                    <p className="text-lg font-bold text-green-600">
-                      {book.aggregateResults.approveCount}
-                    </p>
-                  </div>
-                  <div className="bg-yellow-50 p-2 rounded">
-                    <p className="text-sm font-medium text-yellow-700">Revisions</p>
-                    <p className="text-lg font-bold text-yellow-600">
-                      {book.aggregateResults.revisionsCount}
-                    </p>
-                  </div>
-                  <div className="bg-red-50 p-2 rounded">
-                    <p className="text-sm font-medium text-red-700">Reject</p>
-                    <p className="text-lg font-bold text-red-600">
-                      {book.aggregateResults.rejectCount}
-                    </p>
-                  </div>
-                </div>
-              </div>
-              
-              <div>
-                <h3 className="text-sm font-medium text-gray-500">Criteria Scores</h3>
-                <ul className="mt-1 space-y-2">
-                  {book.aggregateResults.criteriaScores.map((criteriaScore) => (
-                    <li key={criteriaScore.criteriaId} className="text-sm">
-                      <div className="flex justify-between items-center">
-                        <span className="text-gray-700">{criteriaScore.criteriaLabel}</span>
-                        <span className="font-medium text-primary-600">
-                          {criteriaScore.averageScore.toFixed(1)}/10
-                        </span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
-                        <div
-                          className="bg-primary-600 h-1.5 rounded-full"
-                          style={{ width: `${(criteriaScore.averageScore / 10) * 100}%` }}
-                        ></div>
-                      </div>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            </div>
-          )}
+          <AggregateScores
+            bookId={book.id}
+            currentRound={currentRound}
+            results={book.aggregate_results}
+            canCompute={user?.role === UserRole.SECRETARIAT || user?.role === UserRole.COMMITTEE}
+          />
 
           {/* Committee Decision Card */}
           {book.committeeDecision && (
@@ -401,8 +584,12 @@ const BookDetailPage = () => {
            book.status !== 'PENDING' && (
             <div className="space-y-6">
               <AISummaryPreview bookId={book.id} />
-              <ConflictVisualization bookId={book.id} />
-              {book.status === 'REVIEWED' && (
+              <ConflictVisualization
+                bookId={book.id}
+                currentRound={currentRound}
+                results={book.aggregate_results}
+              />
+              {awaitingDecision && (
                 <ActionSuggestions bookId={book.id} />
               )}
             </div>
@@ -411,7 +598,12 @@ const BookDetailPage = () => {
           {/* PDF Viewer */}
           <div className="card p-4">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-lg font-medium text-gray-900">Book Preview</h2>
+              <h2 className="text-lg font-medium text-gray-900">
+                Book Preview
+                {viewRound !== null && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">Round {viewRound}</span>
+                )}
+              </h2>
               <div className="flex items-center space-x-2">
                 <button
                   type="button"
@@ -444,7 +636,7 @@ const BookDetailPage = () => {
                 }
               >
                 <PDFViewer
-                  fileUrl={`/api/books/${id}/file`}
+                  fileUrl={`/api/books/${id}/file${viewRound !== null ? `?round=${viewRound}` : ''}`}
                   pageNumber={pageNumber}
                   onLoadSuccess={onDocumentLoadSuccess}
                   width={600}
@@ -452,6 +644,9 @@ const BookDetailPage = () => {
               </Suspense>
             </div>
           </div>
+
+          {/* Content Search */}
+          <OCRSearch bookId={book.id} onResultClick={handleSearchResultClick} />
         </div>
       </div>
 
@@ -462,7 +657,18 @@ const BookDetailPage = () => {
           onClose={() => setIsAssignModalOpen(false)}
           onSuccess={handleAssignSuccess}
           bookId={book.id}
-          currentAssignments={book.assignments || []}
+          currentAssignments={roundAssignments.length > 0 ? roundAssignments : previousRoundAssignments}
+        />
+      )}
+
+      {/* Upload Revision Modal */}
+      {isRevisionModalOpen && (
+        <UploadRevisionModal
+          isOpen={isRevisionModalOpen}
+          onClose={() => setIsRevisionModalOpen(false)}
+          onSuccess={handleRevisionSuccess}
+          bookId={book.id}
+          currentRound={currentRound}
         />
       )}
 
@@ -473,10 +679,35 @@ const BookDetailPage = () => {
           onClose={() => setIsDecisionModalOpen(false)}
           onSuccess={handleDecisionSuccess}
           bookId={book.id}
-          aggregateResults={book.aggregateResults}
+          currentRound={currentRound}
+          results={book.aggregate_results}
+          canOpenSession={user?.role === UserRole.COMMITTEE}
+          canCancelSession={user?.role === UserRole.ADMIN}
         />
       )}
 
+      <ApprovalActionModal
+        bookId={book.id}
+        bookTitle={book.title}
+        action={approvalAction}
+        onClose={() => setApprovalAction(null)}
+        onSuccess={() => {
+          setApprovalAction(null)
+          refetch()
+        }}
+      />
+
+      <ReassignReviewerModal
+        isOpen={!!recusedAssignment}
+        assignment={recusedAssignment}
+        onClose={() => setRecusedAssignment(null)}
+        onSuccess={() => {
+          setRecusedAssignment(null)
+          refetch()
+          queryClient.invalidateQueries(['book-rounds', id])
+        }}
+      />
+
       <UpdateAssignmentModal
         isOpen={isUpdateAssignmentModalOpen}
         assignment={selectedAssignment}
@@ -216,8 +216,10 @@ const BooksPage = () => {
                         className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           book.status === BookStatus.APPROVED
                             ? 'bg-green-100 text-green-800'
-                            : book.status === BookStatus.REJECTED
+                            : book.status === BookStatus.REJECTED || book.status === BookStatus.REVOKED
                             ? 'bg-red-100 text-red-800'
+                            : book.status === BookStatus.SUSPENDED
+                            ? 'bg-yellow-100 text-yellow-800'
                             : book.status === BookStatus.UNDER_REVIEW
                             ? 'bg-yellow-100 text-yellow-800'
                             : book.status === BookStatus.REVISIONS_REQUESTED
@@ -220,8 +220,10 @@ const DashboardPage = () => {
                         className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           book.status === 'APPROVED'
                             ? 'bg-green-100 text-green-800'
-                            : book.status === 'REJECTED'
+                            : book.status === 'REJECTED' || book.status === 'REVOKED'
                             ? 'bg-red-100 text-red-800'
+                            : book.status === 'SUSPENDED'
+                            ? 'bg-yellow-100 text-yellow-800'
                             : book.status === 'UNDER_REVIEW'
                             ? 'bg-yellow-100 text-yellow-800'
                             : 'bg-gray-100 text-gray-800'
@@ -4,12 +4,14 @@ import { useForm } from 'react-hook-form'
 import { UserRole } from '../types/user'
 import { toast } from 'react-toastify'
 import { useAuthStore } from '../stores/authStore'
-import { LoginCredentials } from '../types/user'
+import { LoginCredentials, TwoFactorChallenge } from '../types/user'
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep'
 
 const LoginPage = () => {
   const navigate = useNavigate()
   const { login, isLoading } = useAuthStore()
   const [showPassword, setShowPassword] = useState(false)
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
   
   const {
     register,
@@ -19,14 +21,22 @@ const LoginPage = () => {
 
   const onSubmit = async (data: LoginCredentials & { role?: UserRole }) => {
     try {
-      await login(data)
-      navigate('/dashboard')
-      toast.success('Login successful')
+      const pendingChallenge = await login(data)
+      if (pendingChallenge) {
+        setChallenge(pendingChallenge)
+        return
+      }
+      handleLoggedIn()
     } catch (error: unknown) {
       // Error is already handled in the auth store
     }
   }
 
+  const handleLoggedIn = () => {
+    navigate('/dashboard')
+    toast.success('Login successful')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -36,123 +46,131 @@ const LoginPage = () => {
             Textbook Review System
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Sign in to your account
+            {challenge ? 'Two-factor authentication' : 'Sign in to your account'}
           </p>
         </div>
         
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="rounded-md shadow-sm space-y-4">
-            <div>
-              <label htmlFor="email" className="form-label">
-                Email address
-              </label>
-              <input
-                id="email"
-                type="email"
-                autoComplete="email"
-                className="form-input"
-                {...register('email', {
-                  required: 'Email is required',
-                  pattern: {
-                    value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                    message: 'Invalid email address',
-                  },
-                })}
-              />
-              {errors.email && (
-                <p className="form-error">{errors.email.message}</p>
-              )}
-            </div>
-            
-            <div>
-              <label htmlFor="role" className="form-label">
-                Role (optional)
-              </label>
-              <select
-                id="role"
-                className="form-input"
-                {...register('role')}
-              >
-                <option value="">Any</option>
-                <option value={UserRole.ADMIN}>Admin</option>
-                <option value={UserRole.SECRETARIAT}>Secretariat</option>
-                <option value={UserRole.REVIEWER}>Reviewer</option>
-                <option value={UserRole.COMMITTEE}>Committee</option>
-              </select>
-            </div>
-            
-            <div>
-              <label htmlFor="password" className="form-label">
-                Password
-              </label>
-              <div className="relative">
+        {challenge ? (
+          <TwoFactorLoginStep
+            challenge={challenge}
+            onComplete={handleLoggedIn}
+            onCancel={() => setChallenge(null)}
+          />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="rounded-md shadow-sm space-y-4">
+              <div>
+                <label htmlFor="email" className="form-label">
+                  Email address
+                </label>
                 <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  className="form-input pr-10"
-                  {...register('password', {
-                    required: 'Password is required',
-                    minLength: {
-                      value: 6,
-                      message: 'Password must be at least 6 characters',
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  className="form-input"
+                  {...register('email', {
+                    required: 'Email is required',
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: 'Invalid email address',
                     },
                   })}
                 />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm leading-5"
-                  onClick={() => setShowPassword(!showPassword)}
+                {errors.email && (
+                  <p className="form-error">{errors.email.message}</p>
+                )}
+              </div>
+            
+              <div>
+                <label htmlFor="role" className="form-label">
+                  Role (optional)
+                </label>
+                <select
+                  id="role"
+                  className="form-input"
+                  {...register('role')}
                 >
-                  {showPassword ? (
-                    <span className="text-gray-500">Hide</span>
-                  ) : (
-                    <span className="text-gray-500">Show</span>
-                  )}
-                </button>
+                  <option value="">Any</option>
+                  <option value={UserRole.ADMIN}>Admin</option>
+                  <option value={UserRole.SECRETARIAT}>Secretariat</option>
+                  <option value={UserRole.REVIEWER}>Reviewer</option>
+                  <option value={UserRole.COMMITTEE}>Committee</option>
+                </select>
+              </div>
+            
+              <div>
+                <label htmlFor="password" className="form-label">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    className="form-input pr-10"
+                    {...register('password', {
+                      required: 'Password is required',
+                      minLength: {
+                        value: 6,
+                        message: 'Password must be at least 6 characters',
+                      },
+                    })}
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center text-sm leading-5"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <span className="text-gray-500">Hide</span>
+                    ) : (
+                      <span className="text-gray-500">Show</span>
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="form-error">{errors.password.message}</p>
+                )}
               </div>
-              {errors.password && (
-                <p className="form-error">{errors.password.message}</p>
-              )}
             </div>
-          </div>
 
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="btn-primary w-full flex justify-center items-center"
-            >
-              {isLoading ? (
-                <>
-                  <svg
-                    className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    ></circle>
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    ></path>
-                  </svg>
-                  Signing in...
-                </>
-              ) : (
-                'Sign in'
-              )}
-            </button>
-          </div>
-        </form>
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-primary w-full flex justify-center items-center"
+              >
+                {isLoading ? (
+                  <>
+                    <svg
+                      className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                    >
+                      <circle
+                        className="opacity-25"
+                        cx="12"
+                        cy="12"
+                        r="10"
+                        stroke="currentColor"
+                        strokeWidth="4"
+                      ></circle>
+                      <path
+                        className="opacity-75"
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                      ></path>
+                    </svg>
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign in'
+                )}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import axios from '../utils/axios';
+import { NotificationPage } from '../types/notification';
+
+const PAGE_SIZE = 20;
+
+const NotificationsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data, isLoading } = useQuery<NotificationPage>({
+    queryKey: ['notifications', 'inbox', page, unreadOnly],
+    queryFn: async () => {
+      const response = await axios.get('/notifications', {
+        params: { page, limit: PAGE_SIZE, unread: unreadOnly ? 'true' : undefined },
+      });
+      return { ...response.data.data, total: response.data.pagination.total };
+    },
+    keepPreviousData: true,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await axios.post('/notifications/read', ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      setSelected([]);
+      queryClient.invalidateQueries(['notifications']);
+    },
+  });
+
+  const notifications = data?.notifications ?? [];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const allSelected = notifications.length > 0 && notifications.every((n) => selected.includes(n.id));
+
+  const toggle = (id: string) =>
+    setSelected((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Notifications</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {data ? `${data.unread_count} unread` : 'Assignments, submitted reviews, conflicts and decisions'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center text-sm text-gray-700 mr-2">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={unreadOnly}
+              onChange={(e) => {
+                setUnreadOnly(e.target.checked);
+                setPage(1);
+                setSelected([]);
+              }}
+            />
+            Unread only
+          </label>
+          <button
+            onClick={() => markReadMutation.mutate(selected)}
+            disabled={selected.length === 0 || markReadMutation.isPending}
+            className="btn-secondary disabled:opacity-50"
+          >
+            Mark selected as read
+          </button>
+          <button
+            onClick={() => markReadMutation.mutate(undefined)}
+            disabled={!data?.unread_count || markReadMutation.isPending}
+            className="btn-primary disabled:opacity-50"
+          >
+            Mark all as read
+          </button>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="px-6 py-10 text-center text-sm text-gray-500">No notifications.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            <li className="px-6 py-2 bg-gray-50 flex items-center">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelected(allSelected ? [] : notifications.map((n) => n.id))}
+                aria-label="Select all on this page"
+              />
+            </li>
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={`px-6 py-4 flex items-start ${notification.read_at ? '' : 'bg-primary-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.includes(notification.id)}
+                  onChange={() => toggle(notification.id)}
+                  aria-label={`Select ${notification.title}`}
+                />
+                <div className="ml-4 flex-1">
+                  <div className="flex justify-between">
+                    <p className={`text-sm text-gray-900 ${notification.read_at ? '' : 'font-semibold'}`}>
+                      {notification.title}
+                    </p>
+                    <span className="text-xs text-gray-400">
+                      {format(new Date(notification.created_at), 'MMM dd, yyyy HH:mm')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                  {notification.link && (
+                    <Link
+                      to={notification.link}
+                      onClick={() => !notification.read_at && markReadMutation.mutate([notification.id])}
+                      className="text-xs font-medium text-primary-600 hover:text-primary-800 mt-1 inline-block"
+                    >
+                      Open
+                    </Link>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="btn-secondary disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-700">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="btn-secondary disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import axios from '../utils/axios';
+import { ProfileData } from '../types/profile';
+import ContactProfileForm from '../components/ContactProfileForm';
+import NotificationPreferences from '../components/NotificationPreferences';
+
+const ProfilePage: React.FC = () => {
+  const { data, isLoading } = useQuery<ProfileData>({
+    queryKey: ['profile'],
+    queryFn: async () => {
+      const response = await axios.get('/profile');
+      return response.data.data;
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Profile</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          How the review system reaches you, and which reminders you want on each channel.
+        </p>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center py-10">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Contact details</h2>
+              <ContactProfileForm profile={data.profile} />
+            </div>
+          </div>
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Notification preferences</h2>
+              <NotificationPreferences profile={data.profile} preferences={data.preferences} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePage;
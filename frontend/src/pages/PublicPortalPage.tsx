@@ -1,9 +1,20 @@
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import axios from '../utils/axios';
 import { Book, AISummary } from '../types/book';
 import AISummaryPreview from '../components/AISummaryPreview';
 
+// Books stay listed after an approval is suspended or revoked, with a notice
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  SUSPENDED: { label: 'Approval suspended', className: 'bg-yellow-100 text-yellow-800' },
+  REVOKED: { label: 'Approval revoked', className: 'bg-red-100 text-red-800' },
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' });
+
 const PublicPortalPage = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedSubject, setSelectedSubject] = useState<string>('');
@@ -62,6 +73,12 @@ const PublicPortalPage = () => {
           <p className="mt-2 text-gray-600">
             Browse officially approved textbooks for Indian System of Medicine
           </p>
+          <p className="mt-1 text-sm text-gray-500">
+            Holding an approval certificate?{' '}
+            <Link to="/verify" className="text-primary-600 hover:text-primary-700">
+              Verify it by serial number
+            </Link>
+          </p>
         </div>
       </header>
 
@@ -129,8 +146,10 @@ const PublicPortalPage = () => {
                         by {book.author}
                       </p>
                       <div className="flex items-center gap-2 mt-2">
-                        <span className="px-2 py-1 text-xs bg-green-100 text-green-800 rounded">
-                          Approved
+                        <span
+                          className={`px-2 py-1 text-xs rounded ${(STATUS_BADGES[book.status] ?? STATUS_BADGES.APPROVED).className}`}
+                        >
+                          {(STATUS_BADGES[book.status] ?? STATUS_BADGES.APPROVED).label}
                         </span>
                         <span className="text-xs text-gray-500">
                           {book.subject}
@@ -175,11 +194,37 @@ const PublicPortalPage = () => {
                     </div>
                     <div>
                       <h3 className="text-sm font-medium text-gray-500">Status</h3>
-                      <span className="inline-flex px-3 py-1 text-sm font-semibold rounded-full bg-green-100 text-green-800">
-                        Approved
+                      <span
+                        className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
+                          (STATUS_BADGES[selectedBookData.status] ?? STATUS_BADGES.APPROVED).className
+                        }`}
+                      >
+                        {(STATUS_BADGES[selectedBookData.status] ?? STATUS_BADGES.APPROVED).label}
                       </span>
                     </div>
                   </div>
+
+                  {selectedBookData.approvalNotice && selectedBookData.status !== 'APPROVED' && (
+                    <div
+                      className={`rounded-md border p-4 text-sm ${
+                        selectedBookData.status === 'REVOKED'
+                          ? 'bg-red-50 border-red-200 text-red-800'
+                          : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                      }`}
+                    >
+                      <p className="font-semibold">
+                        {selectedBookData.status === 'REVOKED'
+                          ? `NCISM revoked the approval of this textbook on ${formatDate(selectedBookData.approvalNotice.date)}.`
+                          : `NCISM suspended the approval of this textbook on ${formatDate(selectedBookData.approvalNotice.date)} pending re-review.`}
+                      </p>
+                      <p className="mt-1">{selectedBookData.approvalNotice.rationale}</p>
+                    </div>
+                  )}
+                  {selectedBookData.approvalNotice?.action === 'REINSTATE' && selectedBookData.status === 'APPROVED' && (
+                    <p className="text-sm text-gray-500">
+                      Approval reinstated on {formatDate(selectedBookData.approvalNotice.date)}.
+                    </p>
+                  )}
                 </div>
 
                 {/* AI Summary */}
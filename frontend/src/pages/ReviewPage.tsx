@@ -6,7 +6,7 @@ import type { AxiosError } from 'axios'
 import { Suspense, lazy } from 'react'
 import { toast } from 'react-toastify'
 import { useAuthStore } from '../stores/authStore'
-import { Assignment, Criteria } from '../types/book'
+import { Assignment, Criteria, PageReference, RequiredChange, ReviewRecommendation } from '../types/book'
 import axios from '../utils/axios'
 import COIDeclarationModal from '../components/COIDeclarationModal'
 import AnnotationToolbar from '../components/AnnotationToolbar'
@@ -18,7 +18,18 @@ interface CriteriaScore {
   score: number
 }
 
-type Recommendation = 'APPROVE' | 'REVISIONS_REQUESTED' | 'REJECT'
+// Pages are edited as free text ("12, 14") and parsed on submit
+interface RequiredChangeInput {
+  description: string
+  criterion_code: string
+  pages: string
+}
+
+const parsePages = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((page) => parseInt(page, 10))
+    .filter((page) => Number.isInteger(page) && page > 0)
 
 const ReviewPage = () => {
   const { assignmentId } = useParams<{ assignmentId: string }>()
@@ -29,11 +40,16 @@ const ReviewPage = () => {
   const [numPages, setNumPages] = useState<number | null>(null)
   const [pageNumber, setPageNumber] = useState(1)
   const [criteriaScores, setCriteriaScores] = useState<CriteriaScore[]>([])
-  const [recommendation, setRecommendation] = useState<Recommendation>('APPROVE')
+  const [recommendation, setRecommendation] = useState<ReviewRecommendation>('APPROVE')
+  const [summary, setSummary] = useState('')
+  const [requiredChanges, setRequiredChanges] = useState<RequiredChangeInput[]>([])
+  const [pageReferences, setPageReferences] = useState<PageReference[]>([])
+  const [pageNote, setPageNote] = useState('')
   const [comments, setComments] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showCOIModal, setShowCOIModal] = useState(false)
   const [coiDeclared, setCoiDeclared] = useState(false)
+  const [conflictDeclared, setConflictDeclared] = useState(false)
 
   // Fetch assignment details
   const { data: assignment, isLoading: isLoadingAssignment } = useQuery<Assignment>({
@@ -129,6 +145,7 @@ const ReviewPage = () => {
     enabled: !!id,
     onSuccess: (data) => {
       setCoiDeclared(!!data)
+      setConflictDeclared(!!data?.has_conflict)
     }
   })
 
@@ -160,6 +177,10 @@ const ReviewPage = () => {
       scores: Record<string, number>
       comments: Record<string, string>
       draft_flag: boolean
+      recommendation: ReviewRecommendation
+      summary: string
+      required_changes: RequiredChange[]
+      page_references: PageReference[]
     }) => {
       return axios.post(`/reviews/${id}/review`, data)
     },
@@ -190,6 +211,20 @@ const ReviewPage = () => {
     })
   }
 
+  const updateRequiredChange = (index: number, changes: Partial<RequiredChangeInput>) =>
+    setRequiredChanges((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+
+  // Note the page currently shown in the viewer
+  const addPageReference = () => {
+    if (!pageNote.trim()) {
+      return
+    }
+    setPageReferences((prev) =>
+      [...prev, { page: pageNumber, note: pageNote.trim() }].sort((a, b) => a.page - b.page)
+    )
+    setPageNote('')
+  }
+
   const previousPage = () => changePage(-1)
   const nextPage = () => changePage(1)
 
@@ -205,12 +240,29 @@ const ReviewPage = () => {
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
+
+    if (!coiDeclared) {
+      toast.error('Please declare any conflicts of interest before submitting your review')
+      setShowCOIModal(true)
+      return
+    }
     
     if (criteriaScores.length === 0) {
       toast.error('Please score all criteria')
       return
     }
     
+    if (!summary.trim()) {
+      toast.error('Please summarise your review')
+      return
+    }
+
+    const changes = requiredChanges.filter((change) => change.description.trim())
+    if (recommendation === 'REVISIONS_REQUESTED' && changes.length === 0) {
+      toast.error('Please list the changes required before approval')
+      return
+    }
+
     if (!comments.trim()) {
       toast.error('Please provide comments for your review')
       return
@@ -234,12 +286,23 @@ const ReviewPage = () => {
       scores,
       comments: commentsObj,
       draft_flag: false,
+      recommendation,
+      summary: summary.trim(),
+      required_changes: changes.map((change) => ({
+        description: change.description.trim(),
+        ...(change.criterion_code && { criterion_code: change.criterion_code }),
+        pages: parsePages(change.pages),
+      })),
+      page_references: pageReferences,
     })
   }
 
   // Check if assignment is already completed
   const isCompleted = assignment?.status === 'COMPLETED'
 
+  // A declared conflict recuses the reviewer; the Secretariat reassigns the review
+  const isRecused = assignment?.status === 'RECUSED' || conflictDeclared
+
   // Check if the current user is the assigned reviewer
   const isAssignedReviewer = assignment?.reviewerId === user?.id
 
@@ -310,6 +373,10 @@ const ReviewPage = () => {
             <span className="px-3 py-1 inline-flex text-sm leading-5 font-semibold rounded-full bg-green-100 text-green-800">
               Completed
             </span>
+          ) : isRecused ? (
+            <span className="px-3 py-1 inline-flex text-sm leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+              Recused
+            </span>
           ) : (
             <span className="px-3 py-1 inline-flex text-sm leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
               In Progress
@@ -381,8 +448,18 @@ const ReviewPage = () => {
             </div>
           )}
 
+          {isRecused && (
+            <div className="card p-4 border-l-4 border-red-400 bg-red-50">
+              <h3 className="text-sm font-medium text-red-800">You have been recused from this review</h3>
+              <p className="mt-1 text-sm text-red-700">
+                You declared a conflict of interest with this book. The Secretariat has been notified and will
+                assign another reviewer.
+              </p>
+            </div>
+          )}
+
           {/* Annotation Toolbar */}
-          {coiDeclared && (
+          {coiDeclared && !isRecused && (
             <AnnotationToolbar
               assignmentId={id!}
               pageNumber={pageNumber}
@@ -448,6 +525,13 @@ const ReviewPage = () => {
                   Back to Dashboard
                 </Link>
               </div>
+            ) : isRecused ? (
+              <div className="text-center py-6">
+                <p className="text-gray-500">Reviews cannot be submitted after declaring a conflict of interest.</p>
+                <Link to="/dashboard" className="mt-4 inline-block btn-primary">
+                  Back to Dashboard
+                </Link>
+              </div>
             ) : (
               <form onSubmit={handleSubmit} className="space-y-6">
                 {/* Criteria Scoring */}
@@ -544,6 +628,143 @@ const ReviewPage = () => {
                   </div>
                 </div>
                 
+                {/* Summary */}
+                <div>
+                  <label
+                    htmlFor="summary"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Summary
+                  </label>
+                  <textarea
+                    id="summary"
+                    name="summary"
+                    rows={3}
+                    maxLength={5000}
+                    value={summary}
+                    onChange={(e) => setSummary(e.target.value)}
+                    className="input-field w-full"
+                    placeholder="Your overall assessment in a few sentences..."
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+
+                {/* Required Changes */}
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-sm font-medium text-gray-700">
+                      Required Changes
+                      {recommendation === 'REVISIONS_REQUESTED' && <span className="text-red-500"> *</span>}
+                    </h3>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setRequiredChanges((prev) => [...prev, { description: '', criterion_code: '', pages: '' }])
+                      }
+                      className="text-sm text-primary-600 hover:text-primary-800"
+                      disabled={isSubmitting}
+                    >
+                      Add change
+                    </button>
+                  </div>
+                  {requiredChanges.length === 0 ? (
+                    <p className="text-xs text-gray-500">No changes listed.</p>
+                  ) : (
+                    <ol className="space-y-3">
+                      {requiredChanges.map((change, index) => (
+                        <li key={index} className="p-2 border border-gray-200 rounded-md space-y-2">
+                          <textarea
+                            rows={2}
+                            value={change.description}
+                            onChange={(e) => updateRequiredChange(index, { description: e.target.value })}
+                            className="input-field w-full"
+                            placeholder="What must change"
+                            disabled={isSubmitting}
+                          />
+                          <div className="flex gap-2">
+                            <select
+                              value={change.criterion_code}
+                              onChange={(e) => updateRequiredChange(index, { criterion_code: e.target.value })}
+                              className="input-field flex-1"
+                              disabled={isSubmitting}
+                            >
+                              <option value="">General</option>
+                              {criteria?.map((criterion) => (
+                                <option key={criterion.code} value={criterion.code}>
+                                  {criterion.label}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="text"
+                              value={change.pages}
+                              onChange={(e) => updateRequiredChange(index, { pages: e.target.value })}
+                              className="input-field w-24"
+                              placeholder="Pages"
+                              disabled={isSubmitting}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setRequiredChanges((prev) => prev.filter((_, i) => i !== index))}
+                              className="text-sm text-red-600 hover:text-red-800"
+                              disabled={isSubmitting}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+
+                {/* Page References */}
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Page References</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={pageNote}
+                      onChange={(e) => setPageNote(e.target.value)}
+                      className="input-field flex-1"
+                      placeholder={`Note on page ${pageNumber}`}
+                      disabled={isSubmitting}
+                    />
+                    <button
+                      type="button"
+                      onClick={addPageReference}
+                      className="btn-outline py-1 px-2"
+                      disabled={isSubmitting || !pageNote.trim()}
+                    >
+                      Add
+                    </button>
+                  </div>
+                  {pageReferences.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {pageReferences.map((reference, index) => (
+                        <li key={index} className="flex justify-between items-start text-sm">
+                          <button
+                            type="button"
+                            onClick={() => setPageNumber(reference.page)}
+                            className="text-left text-gray-700 hover:text-primary-600"
+                          >
+                            <span className="font-medium">p. {reference.page}</span>: {reference.note}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPageReferences((prev) => prev.filter((_, i) => i !== index))}
+                            className="ml-2 text-xs text-red-600 hover:text-red-800"
+                            disabled={isSubmitting}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 {/* Comments */}
                 <div>
                   <label
@@ -596,8 +817,9 @@ const ReviewPage = () => {
         bookTitle={book.title}
         onSuccess={() => {
           setCoiDeclared(true)
-          // Refetch COI data
+          // Refetch COI data; a declared conflict also changes the assignment's status
           queryClient.invalidateQueries({ queryKey: ['coi', id] })
+          queryClient.invalidateQueries({ queryKey: ['assignment', id] })
         }}
       />
     </div>
@@ -0,0 +1,35 @@
+import React from 'react';
+import SessionList from '../components/SessionList';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+
+const SecurityPage: React.FC = () => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Security</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Protect your account with two-factor authentication and review where you are signed in.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Two-factor authentication</h2>
+          <TwoFactorSettings />
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Devices currently signed in to your account. Revoke any you do not recognise.
+          </p>
+          <SessionList />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPage;
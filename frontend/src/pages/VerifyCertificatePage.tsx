@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { CheckBadgeIcon, ExclamationTriangleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import axios from '../utils/axios';
+import { CertificateVerification } from '../types/certificate';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Public page the QR code on an approval certificate points to
+const VerifyCertificatePage = () => {
+  const { serial } = useParams<{ serial?: string }>();
+  const navigate = useNavigate();
+  const [serialInput, setSerialInput] = useState(serial ?? '');
+
+  const { data: verification, isLoading, error } = useQuery<CertificateVerification>({
+    queryKey: ['certificate-verification', serial],
+    queryFn: async () => {
+      const response = await axios.get(`/certificates/verify/${encodeURIComponent(serial ?? '')}`);
+      return response.data.data.verification;
+    },
+    enabled: !!serial,
+    retry: false,
+  });
+
+  const notFound = (error as AxiosError | null)?.response?.status === 404;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (serialInput.trim()) {
+      navigate(`/verify/${encodeURIComponent(serialInput.trim().toUpperCase())}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold text-gray-900">Verify an Approval Certificate</h1>
+          <p className="mt-2 text-gray-600">
+            Check that an NCISM textbook approval certificate is authentic and still in force.
+          </p>
+        </div>
+      </header>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4 flex gap-2">
+          <input
+            type="text"
+            placeholder="Serial number, e.g. NCISM-2024-9F2C41A07B"
+            value={serialInput}
+            onChange={(e) => setSerialInput(e.target.value)}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <button type="submit" className="btn-primary">
+            Verify
+          </button>
+        </form>
+
+        {serial && isLoading && (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        )}
+
+        {serial && notFound && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 flex gap-3">
+            <XCircleIcon className="h-6 w-6 text-red-600 flex-shrink-0" />
+            <div>
+              <h2 className="text-lg font-semibold text-red-800">No such certificate</h2>
+              <p className="mt-1 text-sm text-red-700">
+                NCISM has not issued a certificate with the serial number {serial}. The certificate may be forged or
+                the serial mistyped.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {verification && (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {verification.valid ? (
+              <div className="bg-green-50 border-b border-green-200 p-6 flex gap-3">
+                <CheckBadgeIcon className="h-6 w-6 text-green-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-lg font-semibold text-green-800">Valid certificate</h2>
+                  <p className="mt-1 text-sm text-green-700">
+                    This certificate was issued by NCISM and the approval is in force.
+                  </p>
+                </div>
+              </div>
+            ) : !verification.authentic ? (
+              <div className="bg-red-50 border-b border-red-200 p-6 flex gap-3">
+                <XCircleIcon className="h-6 w-6 text-red-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-lg font-semibold text-red-800">Signature does not match</h2>
+                  <p className="mt-1 text-sm text-red-700">
+                    The record for this serial number failed its signature check. Contact NCISM before relying on it.
+                  </p>
+                </div>
+              </div>
+            ) : verification.status === 'SUSPENDED' ? (
+              <div className="bg-yellow-50 border-b border-yellow-200 p-6 flex gap-3">
+                <ExclamationTriangleIcon className="h-6 w-6 text-yellow-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-lg font-semibold text-yellow-800">Approval suspended</h2>
+                  <p className="mt-1 text-sm text-yellow-700">
+                    This certificate was genuinely issued, but the approval has been suspended pending re-review
+                    {verification.suspended_at && ` since ${formatDate(verification.suspended_at)}`}.
+                    {verification.suspension_reason && ` Reason: ${verification.suspension_reason}`}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-red-50 border-b border-red-200 p-6 flex gap-3">
+                <XCircleIcon className="h-6 w-6 text-red-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-lg font-semibold text-red-800">Approval revoked</h2>
+                  <p className="mt-1 text-sm text-red-700">
+                    This certificate was genuinely issued, but the approval was revoked
+                    {verification.revoked_at && ` on ${formatDate(verification.revoked_at)}`}.
+                    {verification.revocation_reason && ` Reason: ${verification.revocation_reason}`}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <dl className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-500">Serial number</dt>
+                <dd className="mt-1 font-mono text-gray-900">{verification.serial_number}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-500">Title</dt>
+                <dd className="mt-1 text-gray-900">{verification.book.title}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-500">Authors</dt>
+                <dd className="mt-1 text-gray-900">{verification.book.authors}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-500">Edition</dt>
+                <dd className="mt-1 text-gray-900">{verification.book.edition}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-500">Approved on</dt>
+                <dd className="mt-1 text-gray-900">
+                  {formatDate(verification.decided_at)} (review round {verification.round_number})
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-500">Current status</dt>
+                <dd className="mt-1 text-gray-900">{verification.book.current_status.replace(/_/g, ' ')}</dd>
+              </div>
+            </dl>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500">
+          <Link to="/public" className="text-primary-600 hover:text-primary-700">
+            Browse approved textbooks
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyCertificatePage;
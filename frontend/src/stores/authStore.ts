@@ -1,57 +1,133 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { User, LoginCredentials, AuthResponse } from '../types/user'
+import { AxiosError } from 'axios'
+import { User, LoginCredentials, AuthResponse, TwoFactorChallenge } from '../types/user'
 import axios from '../utils/axios'
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
-  login: (credentials: LoginCredentials) => Promise<void>;
-  logout: () => void;
+  login: (credentials: LoginCredentials) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, otp: string) => Promise<void>;
+  enrollTwoFactor: (challengeToken: string, otp: string) => Promise<{ recoveryCodes: string[]; session: AuthResponse['data'] }>;
+  startSession: (data: AuthResponse['data']) => void;
+  logout: () => Promise<void>;
+  setTokens: (token: string, refreshToken: string) => void;
+  clearSession: () => void;
+}
+
+interface TwoFactorChallengeResponse {
+  status: string;
+  data: TwoFactorChallenge;
 }
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
       isLoading: false,
       error: null,
       login: async (credentials: LoginCredentials & { role?: string }) => {
         set({ isLoading: true, error: null })
         try {
-          const response = await axios.post<AuthResponse>('/auth/login', credentials)
+          const response = await axios.post<AuthResponse | TwoFactorChallengeResponse>('/auth/login', credentials)
           const data = response.data.data
-          const token = (response.data as any).token ?? (data as any)?.token
 
-          // Set token in axios default headers
-          axios.defaults.headers.common['Authorization'] = `Bearer ${token}`
+          // The password was right but a second factor is still needed
+          if ('challenge_token' in data) {
+            set({ isLoading: false })
+            return data
+          }
 
+          get().startSession(data)
+          return null
+        } catch (error) {
+          set({
+            isLoading: false,
+            error: (error as AxiosError<{ message?: string }>).response?.data?.message || 'Login failed. Please try again.',
+          })
+          throw error
+        }
+      },
+      verifyTwoFactor: async (challengeToken: string, otp: string) => {
+        set({ isLoading: true, error: null })
+        try {
+          const response = await axios.post<AuthResponse>('/auth/login/2fa', {
+            challenge_token: challengeToken,
+            otp,
+          })
+          get().startSession(response.data.data)
+        } catch (error) {
           set({
-            user: data.user,
-            token,
-            isAuthenticated: true,
             isLoading: false,
+            error: (error as AxiosError<{ message?: string }>).response?.data?.message || 'Verification failed. Please try again.',
           })
-        } catch (error: any) {
+          throw error
+        }
+      },
+      enrollTwoFactor: async (challengeToken: string, otp: string) => {
+        set({ isLoading: true, error: null })
+        try {
+          const response = await axios.post<AuthResponse & { data: { recovery_codes: string[] } }>(
+            '/auth/login/2fa/enable',
+            { challenge_token: challengeToken, otp }
+          )
+          // The session starts once the user has seen the recovery codes
+          const { recovery_codes, ...session } = response.data.data
+          set({ isLoading: false })
+          return { recoveryCodes: recovery_codes, session }
+        } catch (error) {
           set({
             isLoading: false,
-            error: error.response?.data?.message || 'Login failed. Please try again.',
+            error: (error as AxiosError<{ message?: string }>).response?.data?.message || 'Verification failed. Please try again.',
           })
           throw error
         }
       },
-      logout: () => {
+      startSession: (data: AuthResponse['data']) => {
+        // Set token in axios default headers
+        axios.defaults.headers.common['Authorization'] = `Bearer ${data.token}`
+
+        set({
+          user: data.user,
+          token: data.token,
+          refreshToken: data.refresh_token,
+          isAuthenticated: true,
+          isLoading: false,
+        })
+      },
+      logout: async () => {
+        const { refreshToken } = get()
+        get().clearSession()
+
+        // End the session server-side; the local sign-out stands even if this fails
+        if (refreshToken) {
+          try {
+            await axios.post('/auth/logout', { refresh_token: refreshToken })
+          } catch {
+            // Ignore
+          }
+        }
+      },
+      setTokens: (token: string, refreshToken: string) => {
+        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`
+        set({ token, refreshToken })
+      },
+      clearSession: () => {
         // Remove token from axios headers
         delete axios.defaults.headers.common['Authorization']
 
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
         })
       },
@@ -61,6 +137,7 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
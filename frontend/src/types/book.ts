@@ -1,10 +1,40 @@
+import { ConflictRuleKey } from './conflict';
+
 export enum BookStatus {
   PENDING = 'PENDING',
+  PENDING_REVIEW = 'PENDING_REVIEW',
   UNDER_REVIEW = 'UNDER_REVIEW',
+  REVIEW_COMPLETED = 'REVIEW_COMPLETED',
   REVIEWED = 'REVIEWED',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
-  REVISIONS_REQUESTED = 'REVISIONS_REQUESTED'
+  REVISIONS_REQUESTED = 'REVISIONS_REQUESTED',
+  NEEDS_REVISION = 'NEEDS_REVISION',
+  SUSPENDED = 'SUSPENDED',
+  REVOKED = 'REVOKED'
+}
+
+export type ApprovalActionType = 'SUSPEND' | 'REVOKE' | 'REINSTATE' | 'REOPEN';
+
+// A change to a book's standing after approval
+export interface ApprovalAction {
+  id: string;
+  book_id: string;
+  action: ApprovalActionType;
+  rationale: string;
+  acted_by: string;
+  acted_at: string;
+  actor?: {
+    id: string;
+    name: string;
+  };
+}
+
+// Latest approval action as shown on the public portal
+export interface ApprovalNotice {
+  action: ApprovalActionType;
+  rationale: string;
+  date: string;
 }
 
 export interface Book {
@@ -19,13 +49,107 @@ export interface Book {
   status: BookStatus;
   filePath: string;
   uploaderId: string;
+  current_round?: number;
   uploader?: {
     name: string;
     email: string;
   };
   assignments?: Assignment[];
   aggregateResults?: AggregateResult;
+  aggregate_results?: AggregateResultRecord[];
   committeeDecision?: CommitteeDecision;
+  approval_actions?: ApprovalAction[];
+  approvalNotice?: ApprovalNotice | null;
+}
+
+// Revision rounds (shapes as returned by GET /books/:id/rounds)
+export interface BookVersion {
+  id: string;
+  book_id: string;
+  round_number: number;
+  pdf_path: string;
+  uploaded_at: string;
+  notes?: string | null;
+  uploader?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface ReviewRound {
+  round_number: number;
+  is_current: boolean;
+  version: BookVersion;
+  assignments: Array<{
+    id: string;
+    reviewer_id: string;
+    status: string;
+    due_date: string;
+    reviewer?: {
+      id: string;
+      name: string;
+      email: string;
+    };
+    reviews: Array<{ id: string; submitted_at: string }>;
+  }>;
+  aggregate_result: {
+    id: string;
+    summary_text: string;
+    computed_at: string;
+  } | null;
+  decisions: Array<{
+    id: string;
+    decision: 'APPROVED' | 'REJECTED' | 'NEEDS_REVISION';
+    rationale: string;
+    decided_at: string;
+    decider?: {
+      id: string;
+      name: string;
+    };
+  }>;
+}
+
+export interface RecommendationFactor {
+  score: number;
+  weight: number;
+  reason: string;
+}
+
+export interface RecommendedReviewer {
+  id: string;
+  name: string;
+  email: string;
+  institution: string | null;
+}
+
+export interface ReviewerRecommendation {
+  reviewer: RecommendedReviewer;
+  score: number;
+  recommended: boolean;
+  already_assigned: boolean;
+  factors: {
+    load: RecommendationFactor;
+    reliability: RecommendationFactor;
+    timeliness: RecommendationFactor;
+    conflicts: RecommendationFactor;
+  };
+}
+
+// Ranked reviewers who could take over a recused assignment
+export interface ReplacementSuggestions {
+  assignment_id: string;
+  suggestions: ReviewerRecommendation[];
+}
+
+export interface ReviewerRecommendations {
+  book_id: string;
+  round_number: number;
+  panel_size: number;
+  recommendations: ReviewerRecommendation[];
+  excluded: Array<{
+    reviewer: RecommendedReviewer;
+    reason: string;
+  }>;
 }
 
 export interface Assignment {
@@ -34,7 +158,11 @@ export interface Assignment {
   reviewerId: string;
   assignedDate: string;
   dueDate?: string;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE' | 'RECUSED';
+  round_number?: number;
+  recused_at?: string | null;
+  // The recused assignment this one took over
+  replaces_id?: string | null;
   book?: Book;
   reviewer?: {
     id: string;
@@ -58,6 +186,21 @@ export interface Review {
   recommendation: 'APPROVE' | 'REJECT' | 'REVISIONS';
 }
 
+export type ReviewRecommendation = 'APPROVE' | 'REVISIONS_REQUESTED' | 'REJECT';
+
+// Structured review fields sent with POST /reviews/:id/review
+export interface RequiredChange {
+  description: string;
+  criterion_code?: string;
+  pages?: number[];
+}
+
+export interface PageReference {
+  page: number;
+  note: string;
+  criterion_code?: string;
+}
+
 export interface CriteriaScore {
   criteriaId: string;
   score: number;
@@ -97,6 +240,72 @@ export interface AggregateResult {
   calculatedDate: string;
 }
 
+// Aggregate statistics as stored in AggregateResult.stats (GET /books/:id/aggregate)
+export interface CriterionBreakdown {
+  mean: number;
+  median: number;
+  variance: number;
+  min: number;
+  max: number;
+  count: number;
+  weight: number | null;
+  snapshot_weight: number;
+  weight_share: number;
+  contribution: number;
+  // Agreement statistics; absent on results computed before they were added
+  sd?: number | null;
+  standard_error?: number | null;
+  ci?: { level: number; low: number; high: number } | null;
+  agreement_within_one?: number | null;
+}
+
+// Inter-rater reliability across a round's reviewers, with criteria as the rated units
+export interface BookReliability {
+  raters: number;
+  units: number;
+  krippendorff_alpha_ordinal: number | null;
+  icc: { single: number; average: number; units: number } | null;
+  agreement_within_one: number | null;
+}
+
+export interface AggregateStats {
+  criteria: Record<string, CriterionBreakdown>;
+  totals: {
+    unweighted_mean: number;
+    weighted_mean: number;
+    weighted_mean_current_weights: number;
+    review_count: number;
+  };
+  reviews: Array<{
+    review_id: string;
+    reviewer_id: string;
+    unweighted_mean: number;
+    weighted_mean: number;
+    weighted_mean_current_weights: number;
+    recommendation?: ReviewRecommendation | null;
+    required_changes?: number;
+  }>;
+  // Absent on results computed before recommendations were recorded
+  recommendations?: Record<ReviewRecommendation, number> & { not_recorded: number };
+  required_changes?: number;
+  reliability?: BookReliability;
+  weights: {
+    current: Record<string, number>;
+    changed_since_review: string[];
+    reviews_without_snapshot: number;
+  };
+}
+
+export interface AggregateResultRecord {
+  id: string;
+  book_id: string;
+  round_number: number;
+  computed_at: string;
+  summary_text: string;
+  // Results computed before weighting store only per-criterion statistics
+  stats: AggregateStats | Record<string, unknown>;
+}
+
 export interface CommitteeDecision {
   id: string;
   bookId: string;
@@ -150,6 +359,10 @@ export interface ConflictFlag {
   description: string;
   reviewerIds: string[];
   scoreVariance?: number;
+  // RULE flags come from the configured conflict rules; AI analysis may add commentary to them
+  source?: 'RULE' | 'AI';
+  rule?: ConflictRuleKey | null;
+  analysis?: string | null;
   detectedAt: string;
   resolved: boolean;
   resolutionNotes?: string;
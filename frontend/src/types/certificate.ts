@@ -0,0 +1,44 @@
+export type CertificateStatus = 'VALID' | 'SUSPENDED' | 'REVOKED';
+
+export interface ApprovalCertificate {
+  id: string;
+  serial_number: string;
+  book_id: string;
+  decision_id: string;
+  book_title: string;
+  book_authors: string;
+  book_edition: string;
+  round_number: number;
+  decided_at: string;
+  decided_by_name: string;
+  issued_at: string;
+  key_fingerprint: string;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  status: CertificateStatus;
+  verify_url: string;
+}
+
+// Public answer for a serial number; `authentic` means the signature checks out
+export interface CertificateVerification {
+  serial_number: string;
+  authentic: boolean;
+  status: CertificateStatus;
+  valid: boolean;
+  book: {
+    title: string;
+    authors: string;
+    edition: string;
+    current_status: string;
+  };
+  round_number: number;
+  decided_at: string;
+  decided_by: string;
+  issued_at: string;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+}
@@ -0,0 +1,67 @@
+export type CommitteeOutcome = 'APPROVED' | 'REJECTED' | 'NEEDS_REVISION';
+
+export type VoteChoice = CommitteeOutcome | 'ABSTAIN' | 'RECUSE';
+
+export type MajorityRule = 'SIMPLE' | 'TWO_THIRDS' | 'UNANIMOUS';
+
+export type DecisionSessionStatus = 'OPEN' | 'DECIDED' | 'CANCELLED';
+
+// Quorum and majority a decision session is run under
+export interface VotingRules {
+  quorum_percent: number;
+  majority: MajorityRule;
+}
+
+export interface VotingRulesResponse {
+  rules: VotingRules;
+  majority_rules: MajorityRule[];
+}
+
+export interface DecisionVote {
+  id: string;
+  session_id: string;
+  voter_id: string;
+  vote: VoteChoice;
+  rationale: string;
+  cast_at: string;
+  updated_at: string;
+  voter: {
+    id: string;
+    name: string;
+  };
+}
+
+// Counts as computed by the server; outcome is set once the rules are satisfied
+export interface VoteTally {
+  counts: Record<VoteChoice, number>;
+  eligible: number;
+  voted: number;
+  outstanding: number;
+  quorum_required: number;
+  quorum_met: boolean;
+  leading: CommitteeOutcome | null;
+  outcome: CommitteeOutcome | null;
+}
+
+export interface DecisionSession {
+  id: string;
+  book_id: string;
+  round_number: number;
+  status: DecisionSessionStatus;
+  member_ids: string[];
+  rules: VotingRules;
+  opened_by: string;
+  opened_at: string;
+  closed_at?: string | null;
+  decision_id?: string | null;
+  votes: DecisionVote[];
+  tally: VoteTally;
+  my_vote: DecisionVote | null;
+  can_vote: boolean;
+}
+
+export interface DecisionSessionResponse {
+  session: DecisionSession | null;
+  members: { id: string; name: string }[];
+  rules: VotingRules;
+}
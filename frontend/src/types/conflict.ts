@@ -0,0 +1,34 @@
+export type ConflictRuleKey = 'SCORE_SPREAD' | 'OPPOSING_RECOMMENDATIONS' | 'OUTLIER_REVIEWER' | 'SENTIMENT_MISMATCH';
+
+// Per-criterion override of the score spread thresholds; unset fields use the defaults
+export interface CriterionSpreadOverride {
+  enabled?: boolean;
+  variance_threshold?: number;
+  range_threshold?: number;
+}
+
+export interface ConflictRuleConfig {
+  score_spread: {
+    enabled: boolean;
+    variance_threshold: number;
+    range_threshold: number;
+    criteria: Record<string, CriterionSpreadOverride>;
+  };
+  opposing_recommendations: {
+    enabled: boolean;
+    approve_min_score: number;
+    reject_max_score: number;
+  };
+  outlier_reviewer: {
+    enabled: boolean;
+    min_reviewers: number;
+    distance_threshold: number;
+  };
+  sentiment_mismatch: {
+    enabled: boolean;
+    positive_keywords: string[];
+    negative_keywords: string[];
+    high_score_min: number;
+    low_score_max: number;
+  };
+}
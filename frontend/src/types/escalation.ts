@@ -0,0 +1,19 @@
+export type EscalationStepKey = 'DUE_SOON' | 'DUE_TODAY' | 'SECRETARIAT_ALERT' | 'REASSIGNMENT_SUGGESTED';
+
+// One rung of the ladder; offset_days is relative to the due date (negative = before)
+export interface EscalationStep {
+  step: EscalationStepKey;
+  enabled: boolean;
+  offset_days: number;
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+}
+
+export interface OverdueSweepResult {
+  marked_overdue: number;
+  reopened: number;
+  reminders_created: number;
+  reviewers_updated: number;
+}
@@ -0,0 +1,40 @@
+export type JobType =
+  | 'OCR_PROCESSING'
+  | 'REMINDER_SEND'
+  | 'REPORT_GENERATION'
+  | 'METRICS_CALCULATION'
+  | 'EMAIL_SEND'
+  | 'SMS_SEND'
+  | 'WHATSAPP_SEND'
+  | 'AI_SUMMARIZATION'
+  | 'CONFLICT_DETECTION'
+  | 'REVIEWER_SCORE_CALCULATION';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+// One background_jobs row; its id is also the BullMQ job ID when Redis is enabled
+export interface BackgroundJob {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result: unknown;
+  error_message: string | null;
+  scheduled_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  retry_count: number;
+  max_retries: number;
+  created_at: string;
+}
+
+export interface BackgroundJobPage {
+  jobs: BackgroundJob[];
+  counts: Partial<Record<JobStatus, number>>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
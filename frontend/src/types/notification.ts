@@ -0,0 +1,77 @@
+export type NotificationType =
+  | 'ASSIGNMENT_CREATED'
+  | 'REVIEW_SUBMITTED'
+  | 'CONFLICT_FLAGGED'
+  | 'COMMITTEE_DECISION'
+  | 'REMINDER'
+  | 'COI_DECLARED';
+
+// Inbox entry as returned by GET /notifications and pushed on /notifications/stream
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  book_id: string | null;
+  assignment_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unread_count: number;
+  total: number;
+}
+
+export type TemplateChannel = 'EMAIL' | 'SMS' | 'WHATSAPP' | 'IN_APP';
+export type TemplateLanguage = 'en' | 'hi';
+
+// Template in effect for one event, channel and language (GET /notification-templates)
+export interface NotificationTemplate {
+  event: string;
+  channel: TemplateChannel;
+  language: TemplateLanguage;
+  subject: string | null;
+  body: string;
+  customized: boolean;
+  updated_at: string | null;
+  variables: string[];
+}
+
+export interface TemplatePreview {
+  preview: {
+    subject: string | null;
+    html: string | null;
+    text: string;
+  };
+  unknown_variables: string[];
+}
+
+export type OutboxChannel = 'EMAIL' | 'SMS' | 'WHATSAPP';
+
+// Message captured by the outbox transport (GET /outbox); html only on GET /outbox/:id
+export interface OutboxMessage {
+  id: string;
+  channel: OutboxChannel;
+  recipient: string;
+  subject: string | null;
+  text: string;
+  html?: string | null;
+  event: string | null;
+  reminder_id: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+export interface OutboxPage {
+  messages: OutboxMessage[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
@@ -0,0 +1,37 @@
+export type ContactChannel = 'SMS' | 'WHATSAPP';
+
+export type ReminderEvent =
+  | 'ASSIGNMENT_DUE'
+  | 'ASSIGNMENT_OVERDUE'
+  | 'REVIEW_SUBMISSION_REMINDER'
+  | 'COMMITTEE_DECISION_DUE'
+  | 'CUSTOM';
+
+// Contact details as returned by GET /profile
+export interface ContactProfile {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  phone_verified_at: string | null;
+  whatsapp_number: string | null;
+  whatsapp_verified_at: string | null;
+  preferred_language: string;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+// Channels used to deliver one kind of reminder
+export interface NotificationPreference {
+  event: ReminderEvent;
+  email: boolean;
+  sms: boolean;
+  whatsapp: boolean;
+  in_app: boolean;
+}
+
+export interface ProfileData {
+  profile: ContactProfile;
+  preferences: NotificationPreference[];
+}
@@ -0,0 +1,47 @@
+export type ReportSection = 'BOOK_DETAILS' | 'REVIEWER_ASSESSMENTS' | 'AGGREGATE_RESULTS' | 'COMMITTEE_DECISION';
+
+export type ReportLanguage = 'en' | 'hi';
+
+export interface ReportBranding {
+  logo_text: string;
+  organization: string;
+  header_text: string;
+  footer_text: string;
+}
+
+// Layout of a book report; sections are printed in the listed order
+export interface ReportTemplateConfig {
+  sections: ReportSection[];
+  branding: ReportBranding;
+  watermark: string | null;
+  show_reviewer_names: boolean;
+  language: ReportLanguage;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  template_data: ReportTemplateConfig;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  creator?: {
+    id: string;
+    name: string;
+  };
+}
+
+// GET /report-templates
+export interface ReportTemplateList {
+  templates: ReportTemplate[];
+  default_template: ReportTemplateConfig;
+  sections: ReportSection[];
+  languages: ReportLanguage[];
+}
+
+export interface ReportTemplatePreview {
+  template_data: ReportTemplateConfig;
+  html: string;
+}
@@ -15,14 +15,68 @@ export interface User {
   lastLogin?: string;
 }
 
+// User record as returned by the admin user management API
+export interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  institution: string | null;
+  is_active: boolean;
+  deactivated_at: string | null;
+  totp_enabled: boolean;
+  created_at: string;
+  last_login: string | null;
+}
+
 export interface AuthResponse {
   status: string;
   token: string;
   data: {
     user: User;
+    token: string;
+    refresh_token: string;
   };
 }
 
+// Returned by login instead of a session when a second factor is needed
+export interface TwoFactorChallenge {
+  two_factor: 'verify' | 'setup';
+  challenge_token: string;
+}
+
+export interface TwoFactorProvisioning {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorPolicy {
+  required_roles: UserRole[];
+  enrollment: {
+    role: UserRole;
+    enrolled: number;
+    not_enrolled: number;
+  }[];
+}
+
+export interface UserSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current?: boolean;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -1,5 +1,6 @@
-import axios from 'axios'
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios'
 import { toast } from 'react-toastify'
+import { useAuthStore } from '../stores/authStore'
 
 const instance = axios.create({
   baseURL: '/api',
@@ -9,16 +10,50 @@ const instance = axios.create({
   },
 })
 
+// Read the persisted auth state; other tabs may have rotated the tokens since this one loaded
+const readStoredAuth = (): { token?: string; refreshToken?: string } => {
+  const authState = localStorage.getItem('auth-storage')
+  if (!authState) return {}
+  try {
+    const parsed = JSON.parse(authState)
+    return parsed?.state ?? parsed
+  } catch {
+    return {}
+  }
+}
+
+// A single refresh is shared by every request that failed with 401 at the same time
+let refreshPromise: Promise<string> | null = null
+
+export const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { refreshToken } = readStoredAuth()
+      if (!refreshToken) {
+        throw new Error('No refresh token')
+      }
+      // Plain axios so a failing refresh does not re-enter this interceptor
+      const response = await axios.post('/api/auth/refresh', { refresh_token: refreshToken })
+      const { token, refresh_token } = response.data.data
+      useAuthStore.getState().setTokens(token, refresh_token)
+      return token as string
+    })().finally(() => {
+      refreshPromise = null
+    })
+  }
+  return refreshPromise
+}
+
+const isAuthEndpoint = (url?: string) =>
+  !!url && ['/auth/login', '/auth/refresh', '/auth/logout'].some((path) => url.includes(path))
+
 // Request interceptor
 instance.interceptors.request.use(
   (config) => {
     // Get token from localStorage
-    const authState = localStorage.getItem('auth-storage')
-    if (authState) {
-      const { token } = JSON.parse(authState)
-      if (token) {
-        config.headers['Authorization'] = `Bearer ${token}`
-      }
+    const { token } = readStoredAuth()
+    if (token) {
+      config.headers['Authorization'] = `Bearer ${token}`
     }
     return config
   },
@@ -32,8 +67,27 @@ instance.interceptors.response.use(
   (response) => {
     return response
   },
-  (error) => {
+  async (error: AxiosError<{ message?: string; errors?: Record<string, string> }>) => {
     const { response } = error
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined
+
+    // Access tokens are short-lived: refresh once and replay the request
+    if (
+      response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !isAuthEndpoint(originalRequest.url) &&
+      readStoredAuth().refreshToken
+    ) {
+      originalRequest._retry = true
+      try {
+        const token = await refreshAccessToken()
+        originalRequest.headers['Authorization'] = `Bearer ${token}`
+        return instance(originalRequest)
+      } catch {
+        // Fall through to the normal 401 handling below
+      }
+    }
     
     // Handle different error statuses
     if (response) {
@@ -43,7 +97,7 @@ instance.interceptors.response.use(
         case 401: // Unauthorized
           // Clear auth state and redirect to login if not already there
           if (window.location.pathname !== '/login') {
-            localStorage.removeItem('auth-storage')
+            useAuthStore.getState().clearSession()
             window.location.href = '/login'
             toast.error('Session expired. Please log in again.')
           }
@@ -0,0 +1,94 @@
+import { AppNotification } from '../types/notification'
+import { useAuthStore } from '../stores/authStore'
+import { refreshAccessToken } from './axios'
+
+interface StreamHandlers {
+  onNotification: (notification: AppNotification) => void
+  onUnreadCount: (count: number) => void
+}
+
+const MAX_RETRY_DELAY_MS = 30 * 1000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Split a server-sent event block into its event name and JSON payload
+const parseEvent = (block: string) => {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim())
+  }
+  return data.length ? { event, data: JSON.parse(data.join('\n')) } : null
+}
+
+// Listen to /api/notifications/stream until the returned function is called.
+// fetch is used instead of EventSource so the access token travels in a header
+// rather than the URL; the server closes the stream periodically and it is
+// reopened with whatever token is current.
+export const openNotificationStream = ({ onNotification, onUnreadCount }: StreamHandlers) => {
+  let stopped = false
+  let controller: AbortController | null = null
+  let retryDelay = 1000
+
+  const run = async () => {
+    while (!stopped) {
+      const { token, isAuthenticated } = useAuthStore.getState()
+      if (!isAuthenticated || !token) return
+
+      controller = new AbortController()
+      try {
+        const response = await fetch('/api/notifications/stream', {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        })
+
+        if (response.status === 401) {
+          try {
+            await refreshAccessToken()
+          } catch {
+            // The session is over; the next API call sends the user to the login page
+            return
+          }
+          continue
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`Notification stream failed with status ${response.status}`)
+        }
+
+        retryDelay = 1000
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          buffer += decoder.decode(value, { stream: true })
+
+          let boundary = buffer.indexOf('\n\n')
+          while (boundary >= 0) {
+            const parsed = parseEvent(buffer.slice(0, boundary))
+            buffer = buffer.slice(boundary + 2)
+            boundary = buffer.indexOf('\n\n')
+
+            if (parsed?.event === 'notification') onNotification(parsed.data)
+            if (parsed?.event === 'unread_count') onUnreadCount(parsed.data.unread_count)
+          }
+        }
+      } catch {
+        if (stopped) return
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS)
+      }
+
+      if (!stopped) await sleep(retryDelay)
+    }
+  }
+
+  run()
+
+  return () => {
+    stopped = true
+    controller?.abort()
+  }
+}